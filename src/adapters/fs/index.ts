@@ -1,8 +1,15 @@
-export { createMemoryFs } from './memory-fs.js';
+export {
+  createMemoryFs,
+  DEFAULT_LOCK_STALE_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
+} from './memory-fs.js';
 export { createNodeFs } from './node-fs.js';
 export type {
   FileSystem,
   FileStats,
+  FileLine,
+  FileLock,
+  LockOptions,
   MkdirOptions,
   RmOptions,
 } from './memory-fs.js';
@@ -15,6 +15,17 @@ export interface FileStats {
   mtime: Date;
 }
 
+/**
+ * A line read from a file, without its line terminator.
+ */
+export interface FileLine {
+  text: string;
+  /** Byte offset just past the line and its newline */
+  end: number;
+  /** Whether the line ended with a newline (false for a final partial line) */
+  terminated: boolean;
+}
+
 /**
  * Options for mkdir operation.
  */
@@ -29,18 +40,84 @@ export interface RmOptions {
   recursive?: boolean;
 }
 
+/**
+ * Options for acquiring an advisory lock.
+ */
+export interface LockOptions {
+  /** How long to wait for a contended lock in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Age after which an existing lock is considered abandoned in ms (default: 30000) */
+  staleMs?: number;
+}
+
+/**
+ * A held advisory lock. Release it when the guarded work is done.
+ */
+export interface FileLock {
+  /** Path of the lock file */
+  path: string;
+  /** Release the lock (no-op if it was already taken over as stale) */
+  release(): Promise<Result<void, BenTenError>>;
+}
+
+/** Default time to wait for a contended lock */
+export const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+
+/** Default age after which a lock is treated as abandoned */
+export const DEFAULT_LOCK_STALE_MS = 30000;
+
+/** Delay between attempts while waiting for a contended lock */
+export const LOCK_RETRY_DELAY_MS = 50;
+
+/**
+ * Contents of a lock file, used to identify the holder.
+ */
+export interface LockInfo {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: number;
+}
+
 /**
  * File system interface for abstracting file operations.
  * Allows swapping real FS for in-memory FS in tests.
  */
 export interface FileSystem {
   readFile(path: string): Promise<Result<string, BenTenError>>;
+  /** Write a file atomically (readers see the old or new content, never partial) */
   writeFile(path: string, content: string): Promise<Result<void, BenTenError>>;
   readFileBuffer(path: string): Promise<Result<Buffer, BenTenError>>;
+  /** Read a file from a byte offset to its end (empty past the end) */
+  readFileRange(
+    path: string,
+    start: number,
+  ): Promise<Result<Buffer, BenTenError>>;
+  /**
+   * Read a file line by line from a byte offset, without holding the whole
+   * file in memory. Opening errors are returned; errors while reading are
+   * thrown from the iterator as BenTenError. The file stays open until the
+   * iteration finishes or is broken off.
+   */
+  readLines(
+    path: string,
+    start?: number,
+  ): Promise<Result<AsyncIterable<FileLine>, BenTenError>>;
+  /** Write a file atomically (readers see the old or new content, never partial) */
   writeFileBuffer(
     path: string,
     content: Buffer,
   ): Promise<Result<void, BenTenError>>;
+  rename(from: string, to: string): Promise<Result<void, BenTenError>>;
+  /**
+   * Acquire an advisory lock by exclusively creating a lock file.
+   * Waits up to timeoutMs, taking over locks older than staleMs.
+   * Fails with CONTEXT_LOCKED if the lock stays held.
+   */
+  lock(
+    path: string,
+    options?: LockOptions,
+  ): Promise<Result<FileLock, BenTenError>>;
   exists(path: string): Promise<boolean>;
   mkdir(
     path: string,
@@ -171,6 +248,34 @@ export const createMemoryFs = (
       return ok(Buffer.from(node.content ?? ''));
     },
 
+    async readFileRange(path, start) {
+      const readResult = await fs.readFileBuffer(path);
+      if (!readResult.ok) {
+        return readResult;
+      }
+      return ok(readResult.value.subarray(start));
+    },
+
+    async readLines(path, start = 0) {
+      const readResult = await fs.readFileRange(path, start);
+      if (!readResult.ok) {
+        return readResult;
+      }
+      const buffer = readResult.value;
+      async function* lines(): AsyncGenerator<FileLine> {
+        let offset = 0;
+        while (offset < buffer.length) {
+          const newline = buffer.indexOf(0x0a, offset);
+          const terminated = newline !== -1;
+          const lineEnd = terminated ? newline : buffer.length;
+          const text = buffer.toString('utf-8', offset, lineEnd);
+          offset = terminated ? newline + 1 : buffer.length;
+          yield { text, end: start + offset, terminated };
+        }
+      }
+      return ok(lines());
+    },
+
     async writeFileBuffer(path, content) {
       const normalized = normalizePath(path);
       ensureParentDirs(normalized);
@@ -182,6 +287,85 @@ export const createMemoryFs = (
       return ok(undefined);
     },
 
+    async rename(from, to) {
+      const source = normalizePath(from);
+      const target = normalizePath(to);
+      const node = nodes.get(source);
+
+      if (!node) {
+        return err(
+          createError(ErrorCode.FS_NOT_FOUND, `Path not found: ${from}`, {
+            path: from,
+          }),
+        );
+      }
+
+      ensureParentDirs(target);
+      const prefix = `${source}/`;
+      for (const [key, child] of Array.from(nodes.entries())) {
+        if (key.startsWith(prefix)) {
+          nodes.delete(key);
+          nodes.set(`${target}/${key.slice(prefix.length)}`, child);
+        }
+      }
+      nodes.delete(source);
+      nodes.set(target, node);
+      return ok(undefined);
+    },
+
+    async lock(path, options = {}) {
+      const normalized = normalizePath(path);
+      const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+      const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+      const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const deadline = Date.now() + timeoutMs;
+
+      for (;;) {
+        const existing = nodes.get(normalized);
+        const isStale =
+          existing !== undefined &&
+          Date.now() - existing.mtime.getTime() > staleMs;
+
+        if (!existing || isStale) {
+          const info: LockInfo = {
+            pid: process.pid,
+            hostname: 'memory',
+            token,
+            acquiredAt: Date.now(),
+          };
+          ensureParentDirs(normalized);
+          nodes.set(normalized, {
+            type: 'file',
+            content: JSON.stringify(info),
+            mtime: new Date(),
+          });
+          return ok({
+            path,
+            release: async () => {
+              // Only remove the lock if it is still ours
+              const current = nodes.get(normalized);
+              if (current?.content?.includes(token)) {
+                nodes.delete(normalized);
+              }
+              return ok(undefined);
+            },
+          });
+        }
+
+        if (Date.now() >= deadline) {
+          return err(
+            createError(ErrorCode.CONTEXT_LOCKED, `Lock is held: ${path}`, {
+              path,
+            }),
+          );
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, LOCK_RETRY_DELAY_MS),
+        );
+      }
+    },
+
     async exists(path) {
       const normalized = normalizePath(path);
       return nodes.has(normalized);
@@ -321,7 +505,7 @@ export const createMemoryFs = (
       if (node.bufferContent !== undefined) {
         size = node.bufferContent.length;
       } else if (node.content !== undefined) {
-        size = node.content.length;
+        size = Buffer.byteLength(node.content);
       }
 
       return ok({
@@ -1,18 +1,45 @@
+import { randomBytes } from 'node:crypto';
+import type { Stats } from 'node:fs';
 import * as fs from 'node:fs/promises';
+import { hostname } from 'node:os';
 import * as path from 'node:path';
 import {
   type BenTenError,
   ErrorCode,
   createError,
 } from '../../infrastructure/errors.js';
-import { err, ok } from '../../infrastructure/result.js';
-import type {
-  FileStats,
-  FileSystem,
-  MkdirOptions,
-  RmOptions,
+import { type Result, err, ok } from '../../infrastructure/result.js';
+import {
+  DEFAULT_LOCK_STALE_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
+  type FileLine,
+  type FileStats,
+  type FileSystem,
+  LOCK_RETRY_DELAY_MS,
+  type LockInfo,
+  type MkdirOptions,
+  type RmOptions,
 } from './memory-fs.js';
 
+/** Bytes read at a time when streaming lines */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Checks whether a process is still running on this host.
+ *
+ * @param pid - Process ID to probe
+ * @returns false only when the process is known to be gone
+ */
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
 /**
  * Creates a file system adapter wrapping Node.js fs module.
  *
@@ -59,6 +86,126 @@ export const createNodeFs = (): FileSystem => {
     });
   };
 
+  /**
+   * Write to a sibling temp file, flush it, then rename over the target.
+   * Rename is atomic on the same filesystem, so readers never observe a
+   * partially written file and a crash leaves the previous version intact.
+   */
+  const writeAtomic = async (
+    filePath: string,
+    content: string | Buffer,
+  ): Promise<Result<void, BenTenError>> => {
+    const dir = path.dirname(filePath);
+    const tempPath = path.join(
+      dir,
+      `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`,
+    );
+
+    try {
+      // Ensure parent directory exists
+      await fs.mkdir(dir, { recursive: true });
+
+      const handle = await fs.open(tempPath, 'w');
+      try {
+        await handle.writeFile(content);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tempPath, filePath);
+      return ok(undefined);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      return err(mapError(error, filePath));
+    }
+  };
+
+  /**
+   * Decide whether an existing lock file was abandoned: either it is older
+   * than staleMs, or its holder on this host is no longer running.
+   */
+  const isLockStale = async (
+    lockPath: string,
+    staleMs: number,
+  ): Promise<{ stale: boolean; holder?: LockInfo; stats?: Stats }> => {
+    let holder: LockInfo | undefined;
+    try {
+      holder = JSON.parse(await fs.readFile(lockPath, 'utf-8')) as LockInfo;
+    } catch {
+      // Unreadable (possibly mid-write); fall back to age check
+    }
+
+    let stats: Stats;
+    try {
+      stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > staleMs) {
+        return { stale: true, holder, stats };
+      }
+    } catch {
+      // Lock vanished between attempts; let the caller retry
+      return { stale: false, holder };
+    }
+
+    if (
+      holder &&
+      holder.hostname === hostname() &&
+      !isProcessAlive(holder.pid)
+    ) {
+      return { stale: true, holder, stats };
+    }
+
+    return { stale: false, holder, stats };
+  };
+
+  /**
+   * Remove a lock judged stale, but only that lock: another waiter may have
+   * taken it over and acquired a fresh one since. Waiters take over through
+   * an exclusive claim file, so only one at a time re-checks the lock and
+   * removes it; a possibly live lock is never moved.
+   *
+   * @returns true if the lock was re-checked under the claim
+   */
+  const takeOverStaleLock = async (
+    lockPath: string,
+    judged: { holder?: LockInfo; stats?: Stats },
+    token: string,
+    staleMs: number,
+  ): Promise<boolean> => {
+    const claimPath = `${lockPath}.takeover`;
+    try {
+      await fs.writeFile(claimPath, token, { flag: 'wx' });
+    } catch {
+      // Another waiter is taking over; a claim that old was left by a
+      // waiter that crashed mid-takeover
+      try {
+        const claim = await fs.stat(claimPath);
+        if (Date.now() - claim.mtimeMs > staleMs) {
+          await fs.rm(claimPath, { force: true });
+        }
+      } catch {
+        // Claim released meanwhile
+      }
+      return false;
+    }
+
+    try {
+      // Inode numbers are reused, so identify the lock by its holder's token
+      // when it could be read, and by inode and mtime otherwise
+      const current = await isLockStale(lockPath, staleMs);
+      const same = judged.holder
+        ? current.holder?.token === judged.holder.token
+        : current.holder === undefined &&
+          current.stats?.ino === judged.stats?.ino &&
+          current.stats?.mtimeMs === judged.stats?.mtimeMs;
+      if (current.stale && same) {
+        await fs.rm(lockPath, { force: true });
+      }
+      return true;
+    } finally {
+      await fs.rm(claimPath, { force: true }).catch(() => undefined);
+    }
+  };
+
   const nodeFs: FileSystem = {
     async readFile(filePath) {
       try {
@@ -70,37 +217,203 @@ export const createNodeFs = (): FileSystem => {
     },
 
     async writeFile(filePath, content) {
+      return writeAtomic(filePath, content);
+    },
+
+    async readFileBuffer(filePath) {
       try {
-        // Ensure parent directory exists
-        const dir = path.dirname(filePath);
-        await fs.mkdir(dir, { recursive: true });
+        const content = await fs.readFile(filePath);
+        return ok(content);
+      } catch (error) {
+        return err(mapError(error, filePath));
+      }
+    },
 
-        await fs.writeFile(filePath, content, 'utf-8');
-        return ok(undefined);
+    async readFileRange(filePath, start) {
+      let handle: fs.FileHandle | undefined;
+      try {
+        handle = await fs.open(filePath, 'r');
+        const { size } = await handle.stat();
+        const length = Math.max(0, size - start);
+        const buffer = Buffer.alloc(length);
+        let read = 0;
+        while (read < length) {
+          const { bytesRead } = await handle.read(
+            buffer,
+            read,
+            length - read,
+            start + read,
+          );
+          if (bytesRead === 0) break;
+          read += bytesRead;
+        }
+        return ok(buffer.subarray(0, read));
       } catch (error) {
         return err(mapError(error, filePath));
+      } finally {
+        await handle?.close();
       }
     },
 
-    async readFileBuffer(filePath) {
+    async readLines(filePath, start = 0) {
+      let handle: fs.FileHandle;
       try {
-        const content = await fs.readFile(filePath);
-        return ok(content);
+        handle = await fs.open(filePath, 'r');
       } catch (error) {
         return err(mapError(error, filePath));
       }
+      const opened = handle;
+
+      async function* lines(): AsyncGenerator<FileLine> {
+        const chunk = Buffer.alloc(READ_CHUNK_SIZE);
+        // Pieces of the line being assembled, which may span chunks
+        let pending: Buffer[] = [];
+        let position = start;
+        try {
+          while (true) {
+            let bytesRead: number;
+            try {
+              ({ bytesRead } = await opened.read(
+                chunk,
+                0,
+                READ_CHUNK_SIZE,
+                position,
+              ));
+            } catch (error) {
+              throw mapError(error, filePath);
+            }
+            if (bytesRead === 0) break;
+            let offset = 0;
+            while (offset < bytesRead) {
+              const newline = chunk.indexOf(0x0a, offset);
+              if (newline === -1 || newline >= bytesRead) {
+                pending.push(Buffer.from(chunk.subarray(offset, bytesRead)));
+                break;
+              }
+              pending.push(chunk.subarray(offset, newline));
+              const text = Buffer.concat(pending).toString('utf-8');
+              pending = [];
+              yield { text, end: position + newline + 1, terminated: true };
+              offset = newline + 1;
+            }
+            position += bytesRead;
+          }
+          if (pending.length > 0) {
+            const text = Buffer.concat(pending).toString('utf-8');
+            yield { text, end: position, terminated: false };
+          }
+        } finally {
+          await opened.close();
+        }
+      }
+
+      return ok(lines());
     },
 
     async writeFileBuffer(filePath, content) {
-      try {
-        // Ensure parent directory exists
-        const dir = path.dirname(filePath);
-        await fs.mkdir(dir, { recursive: true });
+      return writeAtomic(filePath, content);
+    },
 
-        await fs.writeFile(filePath, content);
+    async rename(from, to) {
+      try {
+        await fs.mkdir(path.dirname(to), { recursive: true });
+        await fs.rename(from, to);
         return ok(undefined);
       } catch (error) {
-        return err(mapError(error, filePath));
+        return err(mapError(error, from));
+      }
+    },
+
+    async lock(lockPath, options = {}) {
+      const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+      const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+      const info: LockInfo = {
+        pid: process.pid,
+        hostname: hostname(),
+        token: randomBytes(8).toString('hex'),
+        acquiredAt: Date.now(),
+      };
+      const deadline = Date.now() + timeoutMs;
+
+      try {
+        await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      } catch (error) {
+        return err(mapError(error, lockPath));
+      }
+
+      for (;;) {
+        try {
+          // 'wx' fails with EEXIST if another process holds the lock
+          await fs.writeFile(lockPath, JSON.stringify(info), { flag: 'wx' });
+
+          // Keep the lock fresh while held, so long operations such as a
+          // rekey or GC on a large store are not taken over as stale
+          const heartbeat = setInterval(
+            () => {
+              const now = new Date();
+              fs.readFile(lockPath, 'utf-8')
+                .then((current) =>
+                  current.includes(info.token)
+                    ? fs.utimes(lockPath, now, now)
+                    : undefined,
+                )
+                .catch(() => undefined);
+            },
+            Math.max(10, Math.floor(staleMs / 3)),
+          );
+          heartbeat.unref();
+
+          return ok({
+            path: lockPath,
+            release: async () => {
+              clearInterval(heartbeat);
+              try {
+                // Only remove the lock if it is still ours
+                const current = await fs.readFile(lockPath, 'utf-8');
+                if (current.includes(info.token)) {
+                  await fs.rm(lockPath, { force: true });
+                }
+                return ok(undefined);
+              } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                  return ok(undefined);
+                }
+                return err(mapError(error, lockPath));
+              }
+            },
+          });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            return err(mapError(error, lockPath));
+          }
+        }
+
+        const { stale, holder, stats } = await isLockStale(lockPath, staleMs);
+        if (
+          stale &&
+          (await takeOverStaleLock(
+            lockPath,
+            { holder, stats },
+            info.token,
+            staleMs,
+          ))
+        ) {
+          continue;
+        }
+
+        if (Date.now() >= deadline) {
+          return err(
+            createError(ErrorCode.CONTEXT_LOCKED, `Lock is held: ${lockPath}`, {
+              path: lockPath,
+              holderPid: holder?.pid,
+              holderHost: holder?.hostname,
+            }),
+          );
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, LOCK_RETRY_DELAY_MS),
+        );
       }
     },
 
@@ -167,6 +480,8 @@ export const createNodeFs = (): FileSystem => {
 export type {
   FileSystem,
   FileStats,
+  FileLock,
+  LockOptions,
   MkdirOptions,
   RmOptions,
 } from './memory-fs.js';
@@ -1,18 +1,119 @@
 #!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
 import { homedir } from 'node:os';
+import { resolve } from 'node:path';
 import { Command } from 'commander';
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
 import { createNodeFs } from '../adapters/fs/node-fs.js';
 import { main as hookMain } from '../cli/hook-command.js';
-import { LogLevel, createLogger } from '../infrastructure/logger.js';
+import {
+  CONTEXT_VERSION,
+  CONTEXT_VERSIONS,
+  type ConversationHistory,
+  type ReplayMetadata,
+} from '../core/types.js';
+import { ErrorCode } from '../infrastructure/errors.js';
+import {
+  LogLevel,
+  type Logger,
+  createLogger,
+} from '../infrastructure/logger.js';
 import { createHttpServer } from '../mcp/http-transport.js';
 import { startMcpServer } from '../mcp/transport.js';
-import { createConfigService } from '../services/config-service.js';
-import { createContextService } from '../services/context-service.js';
+import {
+  BUNDLE_EXTENSION,
+  type ImportMode,
+  createBundleService,
+} from '../services/bundle-service.js';
+import {
+  COMPRESSION_SETTINGS,
+  type CompressionSetting,
+} from '../services/compression-service.js';
+import {
+  DEFAULT_CONFIG,
+  type EncryptionConfig,
+  createConfigService,
+} from '../services/config-service.js';
+import {
+  type ContextService,
+  type ContextServiceDeps,
+  createContextService,
+} from '../services/context-service.js';
+import {
+  DEFAULT_KEY_ENV,
+  createEncryptionService,
+} from '../services/encryption-service.js';
+import { createFsckService } from '../services/fsck-service.js';
+import { createIgnoreService } from '../services/ignore-service.js';
 import { createProjectIdentifierService } from '../services/project-identifier-service.js';
 import { createRemoteContextService } from '../services/remote-context-service.js';
+import {
+  REPLAY_FORMATS,
+  REPLAY_MODES,
+  type ReplayFormat,
+  type ReplayMode,
+  createReplayService,
+} from '../services/replay-service.js';
+import {
+  DEFAULT_TOKENIZER,
+  TOKENIZER_SETTINGS,
+  type TokenizerSetting,
+  createTokenCounter,
+} from '../services/token-counter-service.js';
+import { createToolFormatterRegistry } from '../services/tool-formatter-service.js';
+import { createTranscriptService } from '../services/transcript-service.js';
 
 const program = new Command();
 
+/**
+ * Resolve a project's history, encryption and compression settings into
+ * context service dependencies. Exits if encryption is enabled but the key
+ * cannot be found.
+ */
+const resolveContextDeps = async (
+  fs: FileSystem,
+  logger: Logger,
+  projectDir: string,
+): Promise<ContextServiceDeps> => {
+  const configResult = await createConfigService({
+    fs,
+    logger,
+    projectDir,
+  }).loadConfig();
+  const config = configResult.ok ? configResult.value : DEFAULT_CONFIG;
+
+  const keyResult = await createEncryptionService({
+    fs,
+    logger,
+    projectDir,
+  }).resolveKey(config.encryption);
+  if (!keyResult.ok) {
+    console.error(`Error: ${keyResult.error.message}`);
+    process.exit(1);
+  }
+
+  return {
+    fs,
+    logger,
+    projectDir,
+    maxSnapshots: config.maxSnapshots,
+    encryptionKey: keyResult.value,
+    compression: config.compression,
+    targetVersion: config.contextVersion,
+  };
+};
+
+/**
+ * Create the context service for a project with its history and encryption
+ * settings. Exits if encryption is enabled but the key cannot be found.
+ */
+const openContextService = async (
+  fs: FileSystem,
+  logger: Logger,
+  projectDir: string,
+): Promise<ContextService> =>
+  createContextService(await resolveContextDeps(fs, logger, projectDir));
+
 program
   .name('ben-ten')
   .description('Ben-Ten - Photographic memory for Claude Code')
@@ -32,7 +133,7 @@ program
     const fs = createNodeFs();
     const logger = createLogger({ level: LogLevel.WARN });
     const projectDir = process.cwd();
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
 
     const hasContext = await contextService.hasContext();
     const contextPath = contextService.getContextPath();
@@ -43,7 +144,9 @@ program
       return;
     }
 
-    const loadResult = await contextService.loadContext();
+    const loadResult = await contextService.loadContext({
+      sections: ['summary'],
+    });
     if (!loadResult.ok) {
       console.error(`Error loading context: ${loadResult.error.message}`);
       process.exit(1);
@@ -72,7 +175,7 @@ program
     const fs = createNodeFs();
     const logger = createLogger({ level: LogLevel.WARN });
     const projectDir = process.cwd();
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
 
     const loadResult = await contextService.loadContext();
     if (!loadResult.ok) {
@@ -113,7 +216,7 @@ program
     const fs = createNodeFs();
     const logger = createLogger({ level: LogLevel.WARN });
     const projectDir = process.cwd();
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
 
     const deleteResult = await contextService.deleteContext();
     if (!deleteResult.ok) {
@@ -124,6 +227,510 @@ program
     console.log('Context cleared.');
   });
 
+program
+  .command('history')
+  .description('List previous context generations')
+  .action(async () => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const contextService = await openContextService(fs, logger, projectDir);
+
+    const listResult = await contextService.listSnapshots();
+    if (!listResult.ok) {
+      console.error(`Error: ${listResult.error.message}`);
+      process.exit(1);
+    }
+
+    if (listResult.value.length === 0) {
+      console.log('No context history found.');
+      return;
+    }
+
+    console.log('Ben-Ten Context History');
+    console.log('=======================');
+    for (const snapshot of listResult.value) {
+      console.log(`${snapshot.id}`);
+      console.log(`  Session: ${snapshot.sessionId}`);
+      console.log(`  Updated: ${new Date(snapshot.updatedAt).toISOString()}`);
+      console.log(`  Summary: ${snapshot.summaryPreview.split('\n')[0]}`);
+    }
+    console.log();
+    console.log('To restore a generation, run: ben-ten restore <id>');
+  });
+
+program
+  .command('restore <id>')
+  .description('Restore a previous context generation (see: ben-ten history)')
+  .action(async (id: string) => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const contextService = await openContextService(fs, logger, projectDir);
+
+    const restoreResult = await contextService.restoreSnapshot(id);
+    if (!restoreResult.ok) {
+      console.error(`Error: ${restoreResult.error.message}`);
+      process.exit(1);
+    }
+
+    console.log(`Restored context ${id}.`);
+    console.log(`Session ID: ${restoreResult.value.sessionId}`);
+    console.log('The previous context was kept in history.');
+  });
+
+program
+  .command('transcripts')
+  .description('List the Claude Code transcripts found for this project')
+  .action(async () => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const configResult = await createConfigService({
+      fs,
+      logger,
+      projectDir,
+    }).loadConfig();
+    const transcriptService = createTranscriptService({
+      fs,
+      logger,
+      transcriptRoots: configResult.ok
+        ? configResult.value.transcriptRoots
+        : undefined,
+    });
+
+    const listResult = await transcriptService.listTranscripts(projectDir);
+    if (!listResult.ok) {
+      console.error(`Error: ${listResult.error.message}`);
+      process.exit(1);
+    }
+
+    if (listResult.value.length === 0) {
+      console.log('No transcripts found. Searched:');
+      for (const root of transcriptService.getTranscriptRoots()) {
+        console.log(`  ${root}`);
+      }
+      return;
+    }
+
+    console.log('Ben-Ten Transcripts');
+    console.log('===================');
+    for (const transcript of listResult.value) {
+      console.log(transcript.path);
+      console.log(`  Session: ${transcript.sessionId}`);
+      console.log(`  Modified: ${new Date(transcript.mtime).toISOString()}`);
+      console.log(`  Size: ${transcript.size} bytes`);
+      console.log(
+        transcript.cwd
+          ? `  Matched by: cwd (${transcript.cwd})`
+          : '  Matched by: folder name',
+      );
+    }
+    console.log();
+    console.log('The newest transcript is used when saving.');
+  });
+
+program
+  .command('replay')
+  .description('Print the conversation replay of the saved context')
+  .option('-f, --format <format>', 'markdown, xml or json', 'markdown')
+  .option('--mode <mode>', 'chronological or ranked (default: from config)')
+  .option(
+    '--stop-point <n>',
+    'Start after this stopping point (0 = most recent)',
+  )
+  .option('--max-tokens <n>', 'Token budget (default: from config)')
+  .option('--digests', 'Digest the segments before the stopping point')
+  .option('--transcript <path>', 'Replay a transcript file instead')
+  .action(
+    async (options: {
+      format: string;
+      mode?: string;
+      stopPoint?: string;
+      maxTokens?: string;
+      digests?: boolean;
+      transcript?: string;
+    }) => {
+      const fs = createNodeFs();
+      const logger = createLogger({ level: LogLevel.WARN });
+      const projectDir = process.cwd();
+
+      if (!REPLAY_FORMATS.includes(options.format as ReplayFormat)) {
+        console.error(
+          `Invalid format: ${options.format} (expected ${REPLAY_FORMATS.join(', ')})`,
+        );
+        process.exit(1);
+      }
+      if (options.mode && !REPLAY_MODES.includes(options.mode as ReplayMode)) {
+        console.error(
+          `Invalid mode: ${options.mode} (expected ${REPLAY_MODES.join(', ')})`,
+        );
+        process.exit(1);
+      }
+
+      const configResult = await createConfigService({
+        fs,
+        logger,
+        projectDir,
+      }).loadConfig();
+      const config = configResult.ok ? configResult.value : DEFAULT_CONFIG;
+
+      // Messages from the transcript, or from the saved context
+      let conversation: ConversationHistory | undefined;
+      let metadata: ReplayMetadata | undefined;
+      if (options.transcript) {
+        const transcriptService = createTranscriptService({ fs, logger });
+        const transcriptPath = resolve(options.transcript);
+        const parseResult =
+          await transcriptService.parseTranscript(transcriptPath);
+        if (!parseResult.ok) {
+          console.error(`Error: ${parseResult.error.message}`);
+          process.exit(1);
+        }
+        conversation = parseResult.value;
+        const subagents = await transcriptService.collectSubagents(
+          conversation,
+          transcriptPath,
+        );
+        if (subagents.ok && subagents.value.length > 0) {
+          conversation.subagents = subagents.value;
+        }
+      } else {
+        const contextService = await openContextService(fs, logger, projectDir);
+        const loadResult = await contextService.loadContext();
+        if (!loadResult.ok) {
+          console.error(`Error: ${loadResult.error.message}`);
+          process.exit(1);
+        }
+        conversation = loadResult.value.conversation;
+        metadata = loadResult.value.replayMetadata;
+      }
+      if (!conversation?.messages.length) {
+        console.error('No conversation to replay.');
+        process.exit(1);
+      }
+
+      const ignoreRules = await createIgnoreService({
+        fs,
+        logger,
+        projectDir,
+      }).loadRules();
+      const replayService = createReplayService({
+        logger,
+        tokenCounter: createTokenCounter(config.tokenizer),
+        toolFormatters: createToolFormatterRegistry(config.toolFormatters),
+      });
+      const replayResult = replayService.generateReplay(conversation.messages, {
+        maxTokens: options.maxTokens
+          ? Number.parseInt(options.maxTokens, 10)
+          : Math.floor(
+              (config.contextWindowSize * config.maxReplayPercent) / 100,
+            ),
+        stopPointIndex: options.stopPoint
+          ? Number.parseInt(options.stopPoint, 10)
+          : metadata?.currentStopIndex,
+        stoppingPoints: metadata?.allStoppingPoints,
+        ignore: ignoreRules.ok ? ignoreRules.value : undefined,
+        subagents: conversation.subagents,
+        mode: (options.mode as ReplayMode | undefined) ?? config.replayMode,
+        digests: options.digests ?? config.segmentDigests,
+        format: options.format as ReplayFormat,
+      });
+      if (!replayResult.ok) {
+        console.error(`Error: ${replayResult.error.message}`);
+        process.exit(1);
+      }
+
+      console.log(replayResult.value.replay);
+    },
+  );
+
+program
+  .command('rekey')
+  .description('Re-encrypt context and history with a new encryption key')
+  .option('--key-file <path>', 'Read the new key from this file')
+  .option('--key-env <name>', 'Read the new key from this environment variable')
+  .option('--generate', 'Generate a new key and write it to --key-file')
+  .option('--decrypt', 'Remove encryption and store context as plaintext')
+  .action(async (options) => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const encryptionService = createEncryptionService({
+      fs,
+      logger,
+      projectDir,
+    });
+
+    // Opened with the current key so existing files can be read
+    const contextService = await openContextService(fs, logger, projectDir);
+
+    let encryption: EncryptionConfig;
+    if (options.decrypt) {
+      encryption = { enabled: false };
+    } else if (options.keyFile || options.keyEnv) {
+      encryption = {
+        enabled: true,
+        keyFile: options.keyFile,
+        keyEnv: options.keyEnv,
+      };
+    } else {
+      console.error(
+        'Specify the new key with --key-file or --key-env, or use --decrypt.',
+      );
+      process.exit(1);
+    }
+
+    if (options.generate) {
+      if (!options.keyFile) {
+        console.error('--generate requires --key-file.');
+        process.exit(1);
+      }
+      try {
+        // Owner-only permissions; never overwrite an existing key
+        await writeFile(
+          resolve(projectDir, options.keyFile),
+          `${encryptionService.generateKey()}\n`,
+          { mode: 0o600, flag: 'wx' },
+        );
+      } catch (error) {
+        console.error(
+          `Error writing key file: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        process.exit(1);
+      }
+      console.log(`Generated new key: ${options.keyFile}`);
+    }
+
+    const keyResult = await encryptionService.resolveKey(encryption);
+    if (!keyResult.ok) {
+      console.error(`Error: ${keyResult.error.message}`);
+      process.exit(1);
+    }
+
+    const rekeyResult = await contextService.rekey(keyResult.value);
+    if (!rekeyResult.ok) {
+      console.error(`Error: ${rekeyResult.error.message}`);
+      process.exit(1);
+    }
+
+    const configService = createConfigService({ fs, logger, projectDir });
+    const saveResult = await configService.saveConfig({ encryption });
+    if (!saveResult.ok) {
+      console.error(
+        `Files were rewritten but the config could not be updated: ${saveResult.error.message}`,
+      );
+      process.exit(1);
+    }
+
+    console.log(
+      `Rewrote ${rekeyResult.value.rewritten} file(s) ${encryption.enabled ? 'with the new key' : 'as plaintext'}.`,
+    );
+    const { skippedObjects } = rekeyResult.value;
+    if (skippedObjects.length > 0) {
+      console.log(
+        `Skipped ${skippedObjects.length} unreadable chunk(s), left as they were: ${skippedObjects.join(', ')}`,
+      );
+    }
+    if (encryption.keyFile) {
+      console.log(
+        `Keep ${encryption.keyFile} out of version control and back it up.`,
+      );
+    }
+  });
+
+program
+  .command('gc')
+  .description(
+    'Remove conversation chunks no longer used by context or history',
+  )
+  .action(async () => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const contextService = await openContextService(fs, logger, projectDir);
+
+    const gcResult = await contextService.collectGarbage();
+    if (!gcResult.ok) {
+      console.error(`Error: ${gcResult.error.message}`);
+      process.exit(1);
+    }
+
+    const { totalObjects, removed, freedBytes, skippedSnapshots } =
+      gcResult.value;
+    console.log(
+      `Removed ${removed} of ${totalObjects} chunk(s), freeing ${(freedBytes / 1024).toFixed(1)} KB.`,
+    );
+    if (skippedSnapshots.length > 0) {
+      console.log(
+        `Skipped ${skippedSnapshots.length} unreadable snapshot(s) and kept the chunks they may use: ${skippedSnapshots.join(', ')}`,
+      );
+      console.log('Run `ben-ten fsck --repair` to remove them.');
+    }
+  });
+
+program
+  .command('fsck')
+  .description('Check stored context, history and chunks for damage')
+  .option('--repair', 'Salvage or replace damaged files and rebuild metadata')
+  .action(async (options) => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.ERROR });
+    const projectDir = process.cwd();
+    const fsck = createFsckService(
+      await resolveContextDeps(fs, logger, projectDir),
+    );
+
+    const checkResult = await fsck.check({ repair: Boolean(options.repair) });
+    if (!checkResult.ok) {
+      console.error(`Error: ${checkResult.error.message}`);
+      process.exit(1);
+    }
+
+    const { problems, repairs } = checkResult.value;
+    if (problems.length === 0) {
+      console.log('No problems found.');
+      return;
+    }
+
+    console.log(`Found ${problems.length} problem(s):`);
+    for (const problem of problems) {
+      console.log(`  ${problem.file}: ${problem.message}`);
+    }
+
+    if (!options.repair) {
+      console.log('\nRun `ben-ten fsck --repair` to fix them.');
+      process.exit(1);
+    }
+
+    if (repairs.length === 0) {
+      console.log('\nNothing could be repaired.');
+      process.exit(1);
+    }
+
+    console.log(`\nMade ${repairs.length} repair(s):`);
+    for (const repair of repairs) {
+      console.log(`  ${repair}`);
+    }
+  });
+
+program
+  .command('export')
+  .description('Export context, metadata, config and history as a bundle file')
+  .option('-o, --out <file>', 'Bundle file to write')
+  .action(async (options) => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+    const bundles = createBundleService({
+      ...(await resolveContextDeps(fs, logger, projectDir)),
+      projectIdentifier: createProjectIdentifierService({ logger }),
+    });
+
+    const exportResult = await bundles.exportBundle();
+    if (!exportResult.ok) {
+      console.error(`Error: ${exportResult.error.message}`);
+      process.exit(1);
+    }
+
+    const { data, manifest, skippedSnapshots } = exportResult.value;
+    const out =
+      options.out ?? `${manifest.project.projectName}${BUNDLE_EXTENSION}`;
+    try {
+      await writeFile(resolve(projectDir, out), data);
+    } catch (error) {
+      console.error(
+        `Error writing bundle: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+
+    console.log(`Exported context to ${out}`);
+    console.log(
+      `Project: ${manifest.project.projectName} (${manifest.project.projectHash})`,
+    );
+    console.log(`Session ID: ${manifest.sessionId}`);
+    console.log(`History: ${manifest.snapshotCount} generation(s)`);
+    for (const id of skippedSnapshots) {
+      console.log(`Skipped unreadable snapshot ${id} (see: ben-ten fsck)`);
+    }
+    console.log('Bundles are not encrypted; share them with care.');
+  });
+
+program
+  .command('import <file>')
+  .description('Import a bundle created by ben-ten export')
+  .option('--merge', 'Keep local context and history, adding the bundle')
+  .option('--overwrite', 'Replace local context, history and settings')
+  .action(async (file: string, options) => {
+    const fs = createNodeFs();
+    const logger = createLogger({ level: LogLevel.WARN });
+    const projectDir = process.cwd();
+
+    if (options.merge && options.overwrite) {
+      console.error('Use either --merge or --overwrite, not both.');
+      process.exit(1);
+    }
+    const mode: ImportMode | undefined = options.merge
+      ? 'merge'
+      : options.overwrite
+        ? 'overwrite'
+        : undefined;
+
+    let data: Buffer;
+    try {
+      data = await readFile(resolve(projectDir, file));
+    } catch (error) {
+      console.error(
+        `Error reading bundle: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+
+    const bundles = createBundleService({
+      ...(await resolveContextDeps(fs, logger, projectDir)),
+      projectIdentifier: createProjectIdentifierService({ logger }),
+    });
+    const readResult = bundles.readBundle(data);
+    if (!readResult.ok) {
+      console.error(`Error: ${readResult.error.message}`);
+      process.exit(1);
+    }
+
+    const importResult = await bundles.importBundle(readResult.value, {
+      mode,
+    });
+    if (!importResult.ok) {
+      console.error(`Error: ${importResult.error.message}`);
+      if (importResult.error.code === ErrorCode.BUNDLE_CONFLICT) {
+        console.error('');
+        console.error('Rerun with one of:');
+        console.error(
+          `  ben-ten import ${file} --merge      Combine with local context and history; the newer context stays current`,
+        );
+        console.error(
+          `  ben-ten import ${file} --overwrite  Replace local context, history and settings`,
+        );
+      }
+      process.exit(1);
+    }
+
+    const { manifest } = readResult.value;
+    const result = importResult.value;
+    if (result.projectMismatch) {
+      console.log(
+        `Note: bundle was exported from ${manifest.project.projectName} (${manifest.project.projectHash}).`,
+      );
+    }
+    console.log(`Imported ${file} (${result.mode}).`);
+    console.log(
+      result.bundleContextCurrent
+        ? `Current context: session ${manifest.sessionId} from the bundle`
+        : 'Current context: kept the newer local context',
+    );
+    console.log(`Added ${result.snapshotsAdded} generation(s) to history.`);
+  });
+
 program
   .command('init')
   .description('Initialize Ben-Ten for this project')
@@ -131,7 +738,7 @@ program
     const fs = createNodeFs();
     const logger = createLogger({ level: LogLevel.WARN });
     const projectDir = process.cwd();
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
 
     // Check if already initialized
     if (await contextService.hasContext()) {
@@ -199,6 +806,10 @@ program
     '-k, --api-key <key>',
     'API key for authentication (can be specified multiple times)',
   )
+  .option(
+    '--encryption-key-file <path>',
+    `Encrypt stored contexts with the key in this file (or set ${DEFAULT_KEY_ENV})`,
+  )
   .action(async (options) => {
     const fs = createNodeFs();
     const logger = createLogger({ level: LogLevel.INFO });
@@ -217,6 +828,21 @@ program
       apiKeys.push(process.env.BEN_TEN_API_KEY);
     }
 
+    const keyResult = await createEncryptionService({
+      fs,
+      logger,
+      projectDir: process.cwd(),
+    }).resolveKey({
+      enabled: Boolean(
+        options.encryptionKeyFile || process.env[DEFAULT_KEY_ENV],
+      ),
+      keyFile: options.encryptionKeyFile,
+    });
+    if (!keyResult.ok) {
+      console.error(`Error: ${keyResult.error.message}`);
+      process.exit(1);
+    }
+
     // Create storage directory
     const mkdirResult = await fs.mkdir(options.storage, { recursive: true });
     if (!mkdirResult.ok) {
@@ -234,6 +860,7 @@ program
         host: options.host,
         apiKeys,
         storagePath: options.storage,
+        encryptionKey: keyResult.value,
       },
     });
 
@@ -246,6 +873,9 @@ program
       } else {
         console.log('Authentication: disabled (no API keys configured)');
       }
+      console.log(
+        `Encryption at rest: ${keyResult.value ? 'enabled' : 'disabled'}`,
+      );
 
       // Handle graceful shutdown
       const shutdown = async () => {
@@ -365,7 +995,7 @@ remoteCmd
     const config = configResult.value;
 
     // Load local context
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
     const loadResult = await contextService.loadContext();
     if (!loadResult.ok) {
       console.error(`No local context found: ${loadResult.error.message}`);
@@ -460,7 +1090,7 @@ remoteCmd
     }
 
     // Save locally
-    const contextService = createContextService({ fs, logger, projectDir });
+    const contextService = await openContextService(fs, logger, projectDir);
     const saveResult = await contextService.saveContext(loadResult.value);
 
     if (!saveResult.ok) {
@@ -506,6 +1136,22 @@ program
         console.log(config.maxReplayPercent);
       } else if (key === 'contextWindowSize') {
         console.log(config.contextWindowSize);
+      } else if (key === 'maxSnapshots') {
+        console.log(config.maxSnapshots ?? '(not set)');
+      } else if (key === 'compression') {
+        console.log(config.compression ?? 'lz4');
+      } else if (key === 'contextVersion') {
+        console.log(config.contextVersion ?? CONTEXT_VERSION);
+      } else if (key === 'tokenizer') {
+        console.log(config.tokenizer ?? DEFAULT_TOKENIZER);
+      } else if (key === 'replayMode') {
+        console.log(config.replayMode ?? 'chronological');
+      } else if (key === 'segmentDigests') {
+        console.log(config.segmentDigests ?? false);
+      } else if (key === 'redaction.enabled') {
+        console.log(config.redaction?.enabled ?? true);
+      } else if (key === 'transcriptRoots') {
+        console.log(config.transcriptRoots?.join(',') || '(not set)');
       } else {
         console.error(`Unknown config key: ${key}`);
         process.exit(1);
@@ -553,6 +1199,57 @@ program
       updates = { maxReplayPercent: Number.parseInt(value, 10) };
     } else if (key === 'contextWindowSize') {
       updates = { contextWindowSize: Number.parseInt(value, 10) };
+    } else if (key === 'maxSnapshots') {
+      updates = { maxSnapshots: Number.parseInt(value, 10) };
+    } else if (key === 'compression') {
+      if (!COMPRESSION_SETTINGS.includes(value as CompressionSetting)) {
+        console.error(
+          `Invalid compression: ${value} (expected ${COMPRESSION_SETTINGS.join(', ')})`,
+        );
+        process.exit(1);
+      }
+      updates = { compression: value as CompressionSetting };
+    } else if (key === 'contextVersion') {
+      if (!CONTEXT_VERSIONS.includes(value)) {
+        console.error(
+          `Invalid contextVersion: ${value} (expected ${CONTEXT_VERSIONS.join(', ')})`,
+        );
+        process.exit(1);
+      }
+      updates = { contextVersion: value };
+    } else if (key === 'tokenizer') {
+      if (!TOKENIZER_SETTINGS.includes(value as TokenizerSetting)) {
+        console.error(
+          `Invalid tokenizer: ${value} (expected ${TOKENIZER_SETTINGS.join(', ')})`,
+        );
+        process.exit(1);
+      }
+      updates = { tokenizer: value as TokenizerSetting };
+    } else if (key === 'replayMode') {
+      if (!REPLAY_MODES.includes(value as ReplayMode)) {
+        console.error(
+          `Invalid replayMode: ${value} (expected ${REPLAY_MODES.join(', ')})`,
+        );
+        process.exit(1);
+      }
+      updates = { replayMode: value as ReplayMode };
+    } else if (key === 'segmentDigests') {
+      updates = { segmentDigests: value === 'true' || value === '1' };
+    } else if (key === 'redaction.enabled') {
+      updates = {
+        redaction: {
+          ...config.redaction,
+          enabled: value === 'true' || value === '1',
+        },
+      };
+    } else if (key === 'transcriptRoots') {
+      // Comma-separated; an empty value clears the list
+      updates = {
+        transcriptRoots: value
+          .split(',')
+          .map((root) => root.trim())
+          .filter((root) => root.length > 0),
+      };
     } else {
       console.error(`Unknown config key: ${key}`);
       process.exit(1);
@@ -133,6 +133,9 @@ export const runHookCommand = async (
     const result = handleResult.value as PreCompactResult;
     if (result.contextSaved) {
       output = `# Ben-Ten: Context auto-saved before compaction\n\n**Session:** ${result.sessionId}\n**Trigger:** ${hookInput.trigger ?? 'auto'}`;
+      if (result.redactions && result.redactions.total > 0) {
+        output += `\n**Secrets redacted:** ${result.redactions.total}`;
+      }
     } else if (result.error) {
       output = `# Ben-Ten: Failed to auto-save context\n\n**Error:** ${result.error}`;
     }
@@ -7,7 +7,56 @@ import {
 import { type Result, err, ok } from '../infrastructure/result.js';
 
 /** Current context data schema version */
-export const CONTEXT_VERSION = '2.0.0';
+export const CONTEXT_VERSION = '2.7.0';
+
+/**
+ * Schema for content blocks of a type Ben-Ten does not model. The original
+ * block is kept as-is so the conversation stays a faithful copy.
+ */
+export const UnknownContentBlockSchema = z.object({
+  type: z.literal('unknown'),
+  raw: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Schema for image content blocks. The source (usually base64 data) is kept
+ * as-is.
+ */
+export const ImageContentBlockSchema = z.object({
+  type: z.literal('image'),
+  source: z.unknown(),
+});
+
+/**
+ * Schema for tool result content blocks.
+ */
+export const ToolResultContentBlockSchema = z.object({
+  type: z.literal('tool_result'),
+  tool_use_id: z.string(),
+  content: z.unknown(),
+  is_error: z.boolean().optional(),
+});
+
+/**
+ * Wraps blocks whose type is not one of the known types as unknown blocks,
+ * so one new block type does not make the whole entry unreadable.
+ */
+const tolerateBlocks =
+  (known: readonly string[]) =>
+  (value: unknown): unknown => {
+    if (!Array.isArray(value)) {
+      return value;
+    }
+    return value.map((block) => {
+      const type =
+        typeof block === 'object' && block !== null
+          ? (block as { type?: unknown }).type
+          : undefined;
+      return typeof type === 'string' && known.includes(type)
+        ? block
+        : { type: 'unknown', raw: block };
+    });
+  };
 
 /**
  * Schema for assistant message content blocks.
@@ -22,29 +71,51 @@ export const ContentBlockSchema = z.discriminatedUnion('type', [
     name: z.string(),
     input: z.unknown(),
   }),
-  z.object({
-    type: z.literal('tool_result'),
-    tool_use_id: z.string(),
-    content: z.unknown(),
-  }),
+  ToolResultContentBlockSchema,
+  ImageContentBlockSchema,
+  UnknownContentBlockSchema,
 ]);
 
 export type ContentBlock = z.infer<typeof ContentBlockSchema>;
 
 /**
- * Schema for user message content blocks (tool results).
+ * Schema for user message content blocks (text, images and tool results).
  */
 export const UserContentBlockSchema = z.discriminatedUnion('type', [
-  z.object({
-    type: z.literal('tool_result'),
-    tool_use_id: z.string(),
-    content: z.unknown(),
-    is_error: z.boolean().optional(),
-  }),
+  z.object({ type: z.literal('text'), text: z.string() }),
+  ToolResultContentBlockSchema,
+  ImageContentBlockSchema,
+  UnknownContentBlockSchema,
 ]);
 
 export type UserContentBlock = z.infer<typeof UserContentBlockSchema>;
 
+/**
+ * Schema for token usage reported on assistant messages. Fields added by
+ * newer API versions are kept.
+ */
+export const UsageSchema = z
+  .object({
+    input_tokens: z.number().optional(),
+    output_tokens: z.number().optional(),
+    cache_creation_input_tokens: z.number().optional(),
+    cache_read_input_tokens: z.number().optional(),
+  })
+  .passthrough();
+
+export type Usage = z.infer<typeof UsageSchema>;
+
+/** Fields that link a message into the conversation tree */
+const messageLinkFields = {
+  uuid: z.string().optional(),
+  /** UUID of the previous message, null for the first */
+  parentUuid: z.string().nullable().optional(),
+  sessionId: z.string().optional(),
+  timestamp: z.string().optional(),
+  /** Whether the message belongs to a subagent's side conversation */
+  isSidechain: z.boolean().optional(),
+};
+
 /**
  * Schema for individual transcript entries.
  * Matches the actual Claude Code JSONL transcript format.
@@ -55,25 +126,53 @@ export const TranscriptEntrySchema = z.discriminatedUnion('type', [
     type: z.literal('user'),
     message: z.object({
       role: z.literal('user'),
-      content: z.union([z.string(), z.array(UserContentBlockSchema)]),
+      content: z.union([
+        z.string(),
+        z.preprocess(
+          tolerateBlocks(['text', 'tool_result', 'image', 'unknown']),
+          z.array(UserContentBlockSchema),
+        ),
+      ]),
     }),
-    uuid: z.string().optional(),
-    timestamp: z.string().optional(),
+    /** Whether the message is the summary a compaction left in place */
+    isCompactSummary: z.boolean().optional(),
+    ...messageLinkFields,
   }),
   // Assistant message: message.content is an array of content blocks
   z.object({
     type: z.literal('assistant'),
     message: z.object({
       role: z.literal('assistant'),
-      content: z.array(ContentBlockSchema),
+      content: z.preprocess(
+        tolerateBlocks([
+          'text',
+          'thinking',
+          'tool_use',
+          'tool_result',
+          'image',
+          'unknown',
+        ]),
+        z.array(ContentBlockSchema),
+      ),
+      model: z.string().optional(),
+      usage: UsageSchema.optional(),
     }),
-    uuid: z.string().optional(),
-    timestamp: z.string().optional(),
+    ...messageLinkFields,
   }),
-  // Summary entry (from compaction)
+  // System messages (errors, notices, hook output)
+  z.object({
+    type: z.literal('system'),
+    content: z.string().optional(),
+    subtype: z.string().optional(),
+    level: z.string().optional(),
+    ...messageLinkFields,
+  }),
+  // Summary entry: the session title, keyed to the last message it covers
   z.object({
     type: z.literal('summary'),
     summary: z.string(),
+    /** Last message of the conversation the summary covers */
+    leafUuid: z.string().optional(),
   }),
   // Progress events (hooks, tool execution)
   z.object({
@@ -85,6 +184,11 @@ export const TranscriptEntrySchema = z.discriminatedUnion('type', [
     type: z.literal('file-history-snapshot'),
     snapshot: z.unknown(),
   }),
+  // Entries Ben-Ten does not model, kept as-is
+  z.object({
+    type: z.literal('unknown'),
+    raw: z.record(z.string(), z.unknown()),
+  }),
 ]);
 
 export type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
@@ -99,12 +203,18 @@ export const getTranscriptEntryContent = (entry: TranscriptEntry): string => {
   switch (entry.type) {
     case 'user': {
       const content = entry.message.content;
-      // User content can be a string or array of tool_result blocks
+      // User content can be a string or array of content blocks
       if (typeof content === 'string') {
         return content;
       }
-      // For tool results, we don't extract text content
-      return '';
+      // Only text blocks count; tool results and images have no text content
+      return content
+        .filter(
+          (block): block is Extract<UserContentBlock, { type: 'text' }> =>
+            block.type === 'text',
+        )
+        .map((block) => block.text)
+        .join('\n');
     }
     case 'assistant': {
       // Extract text from text blocks, join with newlines
@@ -116,11 +226,39 @@ export const getTranscriptEntryContent = (entry: TranscriptEntry): string => {
     }
     case 'summary':
       return entry.summary;
+    case 'system':
+      return entry.content ?? '';
     default:
       return '';
   }
 };
 
+/**
+ * Schema for what a subagent did for a Task tool call.
+ * Condensed from the subagent's side conversation (sidechain), which is
+ * either part of the transcript or in its own agent-*.jsonl file.
+ */
+export const SubagentRunSchema = z.object({
+  /** ID of the Task tool_use that started the subagent */
+  toolUseId: z.string(),
+  /** Task description given by the parent */
+  description: z.string().optional(),
+  /** Kind of agent requested (subagent_type) */
+  subagentType: z.string().optional(),
+  /** Whether the Task returned, failed or has not returned yet */
+  status: z.enum(['completed', 'failed', 'running']),
+  /** Messages in the subagent's side conversation, 0 if it was not found */
+  messageCount: z.number(),
+  /** Tool calls the subagent made */
+  toolCallCount: z.number(),
+  /** Files the subagent edited or wrote */
+  filesChanged: z.array(z.string()).optional(),
+  /** Start of the subagent's final report */
+  outcome: z.string().optional(),
+});
+
+export type SubagentRun = z.infer<typeof SubagentRunSchema>;
+
 /**
  * Schema for conversation history extracted from transcript.
  */
@@ -128,6 +266,18 @@ export const ConversationHistorySchema = z.object({
   messages: z.array(TranscriptEntrySchema),
   messageCount: z.number(),
   tokenEstimate: z.number().optional(),
+  /** Entries of a type Ben-Ten does not model, kept as unknown entries */
+  unknownEntries: z.number().optional(),
+  /** Transcript lines that could not be read at all (not JSON objects) */
+  skippedLines: z.number().optional(),
+  /** What the subagents started by Task tool calls did, in call order */
+  subagents: z.array(SubagentRunSchema).optional(),
+  /**
+   * Object store hashes holding the messages, in order. Only present in
+   * stored files, where messages is left empty; loaded contexts have the
+   * messages inlined again.
+   */
+  chunks: z.array(z.string()).optional(),
 });
 
 export type ConversationHistory = z.infer<typeof ConversationHistorySchema>;
@@ -170,6 +320,12 @@ export const ReplayMetadataSchema = z.object({
   currentStopIndex: z.number().optional(),
   /** Starting message index for current replay */
   startMessageIndex: z.number().optional(),
+  /** Token counter that produced tokenCount */
+  tokenizer: z.string().optional(),
+  /** Token count by the 4 characters per token heuristic, for comparison */
+  heuristicTokenCount: z.number().optional(),
+  /** Earlier segments digested before the replay's messages */
+  digestCount: z.number().optional(),
 });
 
 export type ReplayMetadata = z.infer<typeof ReplayMetadataSchema>;
@@ -179,9 +335,20 @@ export type ReplayMetadata = z.infer<typeof ReplayMetadataSchema>;
  */
 export const FileMetadataSchema = z.object({
   path: z.string(),
+  /** When the file was last read, changed or mentioned */
   lastAccessed: z.number(),
+  /** Reads, edits, writes and mentions combined */
   accessCount: z.number(),
+  /** SHA-256 of the file's content when the context was saved */
   contentHash: z.string().optional(),
+  /** When the file was first read, changed or mentioned */
+  firstAccessed: z.number().optional(),
+  /** Reads by Read, Grep and Bash commands */
+  readCount: z.number().optional(),
+  /** In-place changes by Edit, MultiEdit, NotebookEdit and sed -i */
+  editCount: z.number().optional(),
+  /** Whole-file writes and deletes by Write, shell redirects, cp, mv, rm and touch */
+  writeCount: z.number().optional(),
 });
 
 export type FileMetadata = z.infer<typeof FileMetadataSchema>;
@@ -191,9 +358,18 @@ export type FileMetadata = z.infer<typeof FileMetadataSchema>;
  */
 export const ToolExecutionSchema = z.object({
   toolName: z.string(),
+  /** When the tool was called (the tool_use entry's timestamp) */
   timestamp: z.number(),
+  /** False when the tool_result was flagged is_error */
   success: z.boolean(),
+  /** Time between the tool call and its result */
   durationMs: z.number().optional(),
+  /** ID pairing the tool_use block with its tool_result */
+  toolUseId: z.string().optional(),
+  /** Start of the error output, for failed calls */
+  error: z.string().optional(),
+  /** False while no tool_result has been seen for the call */
+  completed: z.boolean().optional(),
 });
 
 export type ToolExecution = z.infer<typeof ToolExecutionSchema>;
@@ -277,6 +453,25 @@ export const ContextDataSchema = z.object({
 
 export type ContextData = z.infer<typeof ContextDataSchema>;
 
+/**
+ * Schema for the position up to which a transcript has been parsed,
+ * so later saves only parse lines appended since.
+ */
+export const TranscriptCursorSchema = z.object({
+  /** Transcript file the cursor belongs to */
+  path: z.string(),
+  /** Byte offset just past the last parsed line */
+  offset: z.number(),
+  /** UUID of the last parsed entry that had one */
+  lastUuid: z.string().optional(),
+  /** File size when parsed */
+  size: z.number(),
+  /** File modification time when parsed (ms since epoch) */
+  mtime: z.number(),
+});
+
+export type TranscriptCursor = z.infer<typeof TranscriptCursorSchema>;
+
 /**
  * Schema for context metadata stored separately.
  * This allows quick checks without loading full context.
@@ -294,10 +489,60 @@ export const ContextMetadataSchema = z.object({
   lastSavedAt: z.number(),
   /** Path to the transcript this was derived from */
   transcriptPath: z.string().optional(),
+  /** How far the saved conversation has parsed its transcript */
+  transcriptCursor: TranscriptCursorSchema.optional(),
 });
 
 export type ContextMetadata = z.infer<typeof ContextMetadataSchema>;
 
+/**
+ * Schema for a single entry in the snapshot history index.
+ * Describes a previous context generation without loading it.
+ */
+export const SnapshotInfoSchema = z.object({
+  /** Snapshot identifier (sortable timestamp) */
+  id: z.string(),
+  /** When the snapshot was taken */
+  createdAt: z.number(),
+  /** Session ID of the snapshotted context */
+  sessionId: z.string(),
+  /** updatedAt of the snapshotted context */
+  updatedAt: z.number(),
+  /** Preview of the summary (first 200 chars) */
+  summaryPreview: z.string(),
+  /** Size of the snapshot file in bytes */
+  size: z.number(),
+});
+
+export type SnapshotInfo = z.infer<typeof SnapshotInfoSchema>;
+
+/**
+ * Schema for the manifest of a portable context bundle.
+ * Describes where a bundle came from without decoding its contexts.
+ */
+export const BundleManifestSchema = z.object({
+  /** Marks the file as a Ben-Ten bundle */
+  format: z.literal('ben-ten-bundle'),
+  /** Version of the bundle layout */
+  bundleVersion: z.number(),
+  /** Schema version of the contexts in the bundle */
+  contextVersion: z.string(),
+  /** When the bundle was exported */
+  exportedAt: z.number(),
+  /** Project the bundle was exported from (see ProjectIdentifierService) */
+  project: z.object({
+    remoteUrl: z.string(),
+    projectHash: z.string(),
+    projectName: z.string(),
+  }),
+  /** Session ID of the exported context */
+  sessionId: z.string(),
+  /** Number of snapshots in the bundle */
+  snapshotCount: z.number(),
+});
+
+export type BundleManifest = z.infer<typeof BundleManifestSchema>;
+
 /**
  * Parse and validate hook input from Claude Code.
  *
@@ -394,55 +639,356 @@ export const createEmptyContext = (sessionId: string): ContextData => {
   };
 };
 
+/** Context data as stored, before validation against the current schema */
+export type RawContextData = Record<string, unknown>;
+
+/**
+ * One step in the context schema history. Steps are applied in order to
+ * bring old data up to date, and in reverse to write data for older peers.
+ * The version field is stamped by the caller, not by the step.
+ */
+export interface ContextMigration {
+  /** Version this step upgrades from */
+  from: string;
+  /** Version this step produces */
+  to: string;
+  /** Upgrade data written as `from` */
+  up(data: RawContextData): RawContextData;
+  /** Downgrade data to `from`, dropping fields older readers do not know */
+  down(data: RawContextData): RawContextData;
+}
+
+/** Returns a copy of raw context data without the given fields */
+const omitFields = (
+  data: RawContextData,
+  fields: readonly string[],
+): RawContextData => {
+  const result = { ...data };
+  for (const field of fields) {
+    delete result[field];
+  }
+  return result;
+};
+
+/**
+ * Drops fields from every record of an array field, e.g. from each file of
+ * `files`. Leaves the data as-is when the field is not an array.
+ */
+const omitItemFields = (
+  data: RawContextData,
+  field: string,
+  fields: readonly string[],
+): RawContextData => {
+  const items = data[field];
+  if (!Array.isArray(items)) {
+    return data;
+  }
+  return {
+    ...data,
+    [field]: items.map((item) =>
+      typeof item === 'object' && item !== null
+        ? omitFields(item as RawContextData, fields)
+        : item,
+    ),
+  };
+};
+
+/** Block types 2.1.0 readers accept in assistant messages */
+const V2_1_ASSISTANT_BLOCKS = ['text', 'thinking', 'tool_use', 'tool_result'];
+
 /**
- * Migrate context data from older versions to current version.
- * Handles v1.0.0 -> v2.0.0 migration.
+ * Rewrites a raw transcript entry so a 2.1.0 reader accepts it, or returns
+ * null if 2.1.0 has no equivalent entry type.
+ */
+const toV2_1Entry = (entry: RawContextData): RawContextData | null => {
+  const message = entry.message as RawContextData | undefined;
+  const content = message?.content;
+  switch (entry.type) {
+    case 'user': {
+      if (!Array.isArray(content)) return entry;
+      // 2.1.0 user blocks are tool results only; fold text into a string
+      const results = content.filter((b) => b?.type === 'tool_result');
+      const text = content
+        .filter((b) => b?.type === 'text')
+        .map((b) => b.text)
+        .join('\n');
+      return {
+        ...entry,
+        message: { ...message, content: results.length > 0 ? results : text },
+      };
+    }
+    case 'assistant':
+      return Array.isArray(content)
+        ? {
+            ...entry,
+            message: {
+              ...message,
+              content: content.filter((b) =>
+                V2_1_ASSISTANT_BLOCKS.includes(b?.type),
+              ),
+            },
+          }
+        : entry;
+    case 'summary':
+    case 'progress':
+    case 'file-history-snapshot':
+      return entry;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Every schema change, oldest first. The last step must produce
+ * CONTEXT_VERSION. Partially loaded contexts are migrated too, so steps must
+ * cope with any field being absent.
+ */
+export const CONTEXT_MIGRATIONS: readonly ContextMigration[] = [
+  {
+    // Conversation history, file metadata, tool history and compaction info
+    from: '1.0.0',
+    to: '2.0.0',
+    up: (data) => data,
+    down: (data) =>
+      omitFields(data, [
+        'conversation',
+        'files',
+        'toolHistory',
+        'preferences',
+        'isPreCompactionSnapshot',
+        'compactionTrigger',
+        'preCompactionTokenCount',
+      ]),
+  },
+  {
+    // Conversation replay. Readers from here on also understand format 0x02
+    // containers, sections and conversation chunks; older targets are
+    // written with the conversation inline (see FORMAT_V2_CONTEXT_VERSION).
+    from: '2.0.0',
+    to: '2.1.0',
+    up: (data) => data,
+    down: (data) => omitFields(data, ['conversationReplay', 'replayMetadata']),
+  },
+  {
+    // System, image and unknown entries and blocks; message metadata
+    from: '2.1.0',
+    to: '2.2.0',
+    up: (data) => data,
+    down: (data) => {
+      const conversation = data.conversation as RawContextData | undefined;
+      // Externalized messages are converted before they are chunked
+      if (
+        !conversation ||
+        !Array.isArray(conversation.messages) ||
+        conversation.chunks
+      ) {
+        return data;
+      }
+      const messages = conversation.messages
+        .map((entry) => toV2_1Entry(entry))
+        .filter((entry) => entry !== null);
+      return {
+        ...data,
+        conversation: {
+          ...omitFields(conversation, ['unknownEntries', 'skippedLines']),
+          messages,
+          messageCount: messages.length,
+        },
+      };
+    },
+  },
+  {
+    // Paired tool calls: tool use ID, error output and completion
+    from: '2.2.0',
+    to: '2.3.0',
+    up: (data) => data,
+    down: (data) =>
+      omitItemFields(data, 'toolHistory', ['toolUseId', 'error', 'completed']),
+  },
+  {
+    // File activity: first access and read, edit and write counts
+    from: '2.3.0',
+    to: '2.4.0',
+    up: (data) => data,
+    down: (data) =>
+      omitItemFields(data, 'files', [
+        'firstAccessed',
+        'readCount',
+        'editCount',
+        'writeCount',
+      ]),
+  },
+  {
+    // Subagent runs attached to the conversation
+    from: '2.4.0',
+    to: '2.5.0',
+    up: (data) => data,
+    down: (data) => {
+      const conversation = data.conversation as RawContextData | undefined;
+      return conversation
+        ? { ...data, conversation: omitFields(conversation, ['subagents']) }
+        : data;
+    },
+  },
+  {
+    // Token counts by tokenizer; compaction summaries marked on user messages
+    from: '2.5.0',
+    to: '2.6.0',
+    up: (data) => data,
+    down: (data) => {
+      const downgraded = data.replayMetadata
+        ? {
+            ...data,
+            replayMetadata: omitFields(data.replayMetadata as RawContextData, [
+              'tokenizer',
+              'heuristicTokenCount',
+            ]),
+          }
+        : data;
+      const conversation = downgraded.conversation as
+        | RawContextData
+        | undefined;
+      // Externalized messages are converted before they are chunked
+      if (!conversation || conversation.chunks) {
+        return downgraded;
+      }
+      return {
+        ...downgraded,
+        conversation: omitItemFields(conversation, 'messages', [
+          'isCompactSummary',
+        ]),
+      };
+    },
+  },
+  {
+    // Digests of earlier conversation segments in the replay
+    from: '2.6.0',
+    to: '2.7.0',
+    up: (data) => data,
+    down: (data) =>
+      data.replayMetadata
+        ? {
+            ...data,
+            replayMetadata: omitFields(data.replayMetadata as RawContextData, [
+              'digestCount',
+            ]),
+          }
+        : data,
+  },
+];
+
+/** Every known context schema version, oldest first */
+export const CONTEXT_VERSIONS: readonly string[] = [
+  ...CONTEXT_MIGRATIONS.map((migration) => migration.from),
+  CONTEXT_VERSION,
+];
+
+/**
+ * Compare two dotted version strings numerically.
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a is older, positive if newer, 0 if equal
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Migrate context data from any known older version to the current version
+ * by applying each step of CONTEXT_MIGRATIONS in order.
  *
  * @param data - Raw context data of any version
- * @returns Result with migrated ContextData or error
+ * @returns Result with migrated ContextData, CONTEXT_VERSION_MISMATCH for
+ *   newer or unknown versions, or VALIDATION_FAILED
  * @example
  * const result = migrateContextData(oldContext);
  * if (result.ok) {
- *   console.log(result.value.version); // '2.0.0'
+ *   console.log(result.value.version); // '2.7.0'
  * }
  */
 export const migrateContextData = (
   data: unknown,
 ): Result<ContextData, BenTenError> => {
-  // First validate the data can be parsed at all
-  const parseResult = ContextDataSchema.safeParse(data);
+  const version =
+    typeof data === 'object' && data !== null
+      ? (data as RawContextData).version
+      : undefined;
+  if (typeof version !== 'string') {
+    return parseContextData(data);
+  }
 
-  if (!parseResult.success) {
+  if (compareVersions(version, CONTEXT_VERSION) > 0) {
     return err(
-      createError(ErrorCode.VALIDATION_FAILED, 'Invalid context data format', {
-        errors: parseResult.error.errors,
-      }),
+      createError(
+        ErrorCode.CONTEXT_VERSION_MISMATCH,
+        `Context version ${version} is newer than this version of Ben-Ten supports (${CONTEXT_VERSION}); upgrade Ben-Ten to read it`,
+        { version, supported: CONTEXT_VERSION },
+      ),
+    );
+  }
+
+  const start = CONTEXT_VERSIONS.indexOf(version);
+  if (start === -1) {
+    return err(
+      createError(
+        ErrorCode.CONTEXT_VERSION_MISMATCH,
+        `Unknown context version: ${version}`,
+        { version, known: CONTEXT_VERSIONS },
+      ),
     );
   }
 
-  const context = parseResult.data;
+  let migrated = data as RawContextData;
+  for (const migration of CONTEXT_MIGRATIONS.slice(start)) {
+    migrated = { ...migration.up(migrated), version: migration.to };
+  }
+
+  return parseContextData(migrated);
+};
+
+/**
+ * Convert context data to an older schema version, so peers running an older
+ * Ben-Ten can read it. Fields the target version does not know are dropped.
+ *
+ * @param context - Context data at any known version
+ * @param targetVersion - Version to write
+ * @returns Result with the converted ContextData or CONTEXT_VERSION_MISMATCH
+ */
+export const downgradeContextData = (
+  context: ContextData,
+  targetVersion: string,
+): Result<ContextData, BenTenError> => {
+  const target = CONTEXT_VERSIONS.indexOf(targetVersion);
+  if (target === -1) {
+    return err(
+      createError(
+        ErrorCode.CONTEXT_VERSION_MISMATCH,
+        `Unknown context version: ${targetVersion}`,
+        { version: targetVersion, known: CONTEXT_VERSIONS },
+      ),
+    );
+  }
 
-  // If already at current version, return as-is
-  if (context.version === CONTEXT_VERSION) {
-    return ok(context);
+  const currentResult = migrateContextData(context);
+  if (!currentResult.ok) {
+    return currentResult;
   }
 
-  // Migrate from v1.0.0 to v2.0.0
-  if (context.version === '1.0.0') {
-    const migrated: ContextData = {
-      ...context,
-      version: CONTEXT_VERSION,
-      // v2.0.0 fields are optional, so we don't need to initialize them
-      // The existing keyFiles, activeTasks, etc. are preserved
-    };
-    return ok(migrated);
+  let converted: RawContextData = currentResult.value;
+  for (const migration of CONTEXT_MIGRATIONS.slice(target).reverse()) {
+    converted = { ...migration.down(converted), version: migration.from };
   }
 
-  // Unknown version - try to use as-is with updated version
-  return ok({
-    ...context,
-    version: CONTEXT_VERSION,
-  });
+  return parseContextData(converted);
 };
 
 /**
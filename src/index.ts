@@ -31,22 +31,43 @@ export {
   HookInputSchema,
   ContextDataSchema,
   ContextMetadataSchema,
+  TranscriptCursorSchema,
+  SnapshotInfoSchema,
+  BundleManifestSchema,
+  SubagentRunSchema,
   parseHookInput,
   parseContextData,
   parseContextMetadata,
+  migrateContextData,
+  downgradeContextData,
+  compareVersions,
+  CONTEXT_VERSION,
+  CONTEXT_VERSIONS,
+  CONTEXT_MIGRATIONS,
   createEmptyContext,
   updateContext,
   type HookInput,
   type ContextData,
   type ContextMetadata,
+  type TranscriptCursor,
+  type SnapshotInfo,
+  type BundleManifest,
+  type SubagentRun,
+  type ContextMigration,
+  type RawContextData,
 } from './core/types.js';
 
 // File system adapters
 export {
   createMemoryFs,
   createNodeFs,
+  DEFAULT_LOCK_STALE_MS,
+  DEFAULT_LOCK_TIMEOUT_MS,
   type FileSystem,
   type FileStats,
+  type FileLine,
+  type FileLock,
+  type LockOptions,
   type MkdirOptions,
   type RmOptions,
 } from './adapters/fs/index.js';
@@ -56,24 +77,100 @@ export {
   createContextService,
   createHookHandler,
   createCompressionService,
+  selectCompressionCodec,
   createSerializerService,
+  createSnapshotService,
+  createObjectStoreService,
+  createFsckService,
+  createBundleService,
+  createSessionGraphService,
+  createRedactionService,
+  createIgnoreService,
+  parseIgnoreRules,
+  createEncryptionService,
+  chunkMessages,
+  hashObject,
   BEN10_DIR,
   CONTEXT_FILE,
   CONTEXT_FILE_LEGACY,
   METADATA_FILE,
+  LOCK_FILE,
+  SNAPSHOTS_DIR,
+  DEFAULT_MAX_SNAPSHOTS,
+  OBJECTS_DIR,
+  OBJECTS_REKEY_DIR,
+  OBJECTS_PREVIOUS_DIR,
+  MAX_CHUNK_MESSAGES,
   MAGIC_HEADER,
   FORMAT_VERSION,
+  FORMAT_VERSION_V1,
+  FORMAT_FLAGS,
   COMPRESSION_TYPE,
+  CONTEXT_SECTIONS,
+  DEFAULT_KEY_ENV,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BUNDLE_EXTENSION,
+  findSessionChain,
+  BUILTIN_DETECTORS,
+  IGNORE_FILE,
   type ContextService,
   type ContextServiceDeps,
+  type SaveContextOptions,
+  type LoadContextOptions,
+  type ContextGarbageCollectionResult,
+  type ContextRekeyResult,
+  type SnapshotService,
+  type SnapshotServiceDeps,
+  type ObjectStoreService,
+  type ObjectStoreServiceDeps,
+  type MessageChunk,
+  type StoreMessagesResult,
+  type GarbageCollectionResult,
+  type ObjectRekeyResult,
+  type FsckService,
+  type FsckServiceDeps,
+  type FsckOptions,
+  type FsckProblem,
+  type FsckReport,
+  type BundleService,
+  type BundleServiceDeps,
+  type BundledSnapshot,
+  type ContextBundle,
+  type ExportResult,
+  type ImportMode,
+  type ImportOptions,
+  type ImportResult,
+  type SessionGraphService,
+  type SessionGraphServiceDeps,
+  type SessionGraph,
+  type SessionChainResult,
+  type TranscriptNode,
+  type RedactionService,
+  type RedactionServiceDeps,
+  type RedactionDetector,
+  type RedactionReport,
+  type RedactedText,
+  type RedactedContext,
+  type IgnoreService,
+  type IgnoreServiceDeps,
+  type IgnoreRules,
   type HookHandler,
   type HookHandlerDeps,
   type SessionStartResult,
   type PreCompactResult,
   type HookResult,
   type CompressionService,
+  type CompressionCodec,
+  type CompressionSetting,
   type SerializerService,
+  type SerializerOptions,
   type FormatType,
+  type DeserializeOptions,
+  type SalvageResult,
+  type ContextSection,
+  type EncryptionService,
+  type EncryptionServiceDeps,
 } from './services/index.js';
 
 // MCP Server
@@ -90,6 +187,8 @@ export {
   type StatusResult,
   type SaveResult,
   type ClearResult,
+  type HistoryResult,
+  type RestoreResult,
 } from './mcp/index.js';
 
 // CLI
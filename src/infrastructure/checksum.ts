@@ -0,0 +1,31 @@
+/**
+ * Lookup table for the IEEE 802.3 CRC-32 polynomial (reflected 0xEDB88320).
+ */
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum of a buffer (same as zlib/gzip/PNG).
+ *
+ * @param data - The bytes to checksum
+ * @returns Unsigned 32-bit checksum
+ * @example
+ * crc32(Buffer.from('123456789')); // 0xcbf43926
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc =
+      (CRC32_TABLE[(crc ^ (data[i] as number)) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
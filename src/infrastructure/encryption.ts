@@ -0,0 +1,95 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { type BenTenError, ErrorCode, createError } from './errors.js';
+import { type Result, err, ok } from './result.js';
+
+/** Cipher used for at-rest encryption (authenticated) */
+const CIPHER = 'aes-256-gcm';
+
+/** Required key length in bytes */
+export const ENCRYPTION_KEY_SIZE = 32;
+
+/** GCM nonce length in bytes */
+const IV_SIZE = 12;
+
+/** GCM authentication tag length in bytes */
+const TAG_SIZE = 16;
+
+/**
+ * Encrypts data with AES-256-GCM under a fresh random nonce.
+ *
+ * Output layout: [12 bytes IV][16 bytes auth tag][ciphertext]
+ *
+ * @param plaintext - The bytes to encrypt
+ * @param key - 32-byte encryption key
+ * @returns Encrypted payload or ENCRYPTION_KEY_INVALID
+ */
+export const encrypt = (
+  plaintext: Buffer,
+  key: Buffer,
+): Result<Buffer, BenTenError> => {
+  if (key.length !== ENCRYPTION_KEY_SIZE) {
+    return err(
+      createError(
+        ErrorCode.ENCRYPTION_KEY_INVALID,
+        `Encryption key must be ${ENCRYPTION_KEY_SIZE} bytes`,
+        { actual: key.length },
+      ),
+    );
+  }
+
+  const iv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return ok(Buffer.concat([iv, cipher.getAuthTag(), ciphertext]));
+};
+
+/**
+ * Decrypts and authenticates a payload produced by encrypt().
+ *
+ * @param payload - [IV][auth tag][ciphertext]
+ * @param key - 32-byte encryption key
+ * @returns Plaintext, or DECRYPTION_FAILED if the key is wrong or data was altered
+ */
+export const decrypt = (
+  payload: Buffer,
+  key: Buffer,
+): Result<Buffer, BenTenError> => {
+  if (key.length !== ENCRYPTION_KEY_SIZE) {
+    return err(
+      createError(
+        ErrorCode.ENCRYPTION_KEY_INVALID,
+        `Encryption key must be ${ENCRYPTION_KEY_SIZE} bytes`,
+        { actual: key.length },
+      ),
+    );
+  }
+
+  if (payload.length < IV_SIZE + TAG_SIZE) {
+    return err(
+      createError(ErrorCode.DECRYPTION_FAILED, 'Encrypted data is truncated', {
+        size: payload.length,
+      }),
+    );
+  }
+
+  try {
+    const iv = payload.subarray(0, IV_SIZE);
+    const tag = payload.subarray(IV_SIZE, IV_SIZE + TAG_SIZE);
+    const decipher = createDecipheriv(CIPHER, key, iv);
+    decipher.setAuthTag(tag);
+    return ok(
+      Buffer.concat([
+        decipher.update(payload.subarray(IV_SIZE + TAG_SIZE)),
+        decipher.final(),
+      ]),
+    );
+  } catch (e) {
+    return err(
+      createError(
+        ErrorCode.DECRYPTION_FAILED,
+        'Failed to decrypt context data: wrong key or tampered data',
+        { error: e instanceof Error ? e.message : String(e) },
+      ),
+    );
+  }
+};
@@ -20,10 +20,23 @@ export const ErrorCode = {
   DESERIALIZE_FAILED: 'DESERIALIZE_FAILED',
   CHECKSUM_MISMATCH: 'CHECKSUM_MISMATCH',
 
+  // Encryption errors
+  ENCRYPTION_KEY_MISSING: 'ENCRYPTION_KEY_MISSING',
+  ENCRYPTION_KEY_INVALID: 'ENCRYPTION_KEY_INVALID',
+  DECRYPTION_FAILED: 'DECRYPTION_FAILED',
+
   // Snapshot errors
   SNAPSHOT_NOT_FOUND: 'SNAPSHOT_NOT_FOUND',
   SNAPSHOT_CORRUPTED: 'SNAPSHOT_CORRUPTED',
 
+  // Object store errors
+  OBJECT_NOT_FOUND: 'OBJECT_NOT_FOUND',
+  OBJECT_CORRUPTED: 'OBJECT_CORRUPTED',
+
+  // Bundle errors
+  BUNDLE_INVALID: 'BUNDLE_INVALID',
+  BUNDLE_CONFLICT: 'BUNDLE_CONFLICT',
+
   // Hook errors
   HOOK_INVALID_INPUT: 'HOOK_INVALID_INPUT',
   HOOK_EXECUTION_FAILED: 'HOOK_EXECUTION_FAILED',
@@ -94,6 +107,32 @@ export const createError = (
   return Object.freeze(error);
 };
 
+/**
+ * Errors caused by a missing or wrong encryption key rather than bad data.
+ * Callers should surface these as-is instead of reporting corruption.
+ * DECRYPTION_FAILED is only reported for files whose checksum shows them
+ * intact; objects that fail to decrypt are reported as OBJECT_CORRUPTED.
+ *
+ * @param error - The error to check
+ * @returns true if the error is an encryption key problem
+ */
+export const isEncryptionKeyError = (error: BenTenError): boolean =>
+  error.code === ErrorCode.ENCRYPTION_KEY_MISSING ||
+  error.code === ErrorCode.ENCRYPTION_KEY_INVALID ||
+  error.code === ErrorCode.DECRYPTION_FAILED;
+
+/**
+ * Errors meaning the data is intact but this process cannot read it: the
+ * encryption key is missing or wrong, or a newer Ben-Ten wrote it.
+ * Callers should surface these as-is instead of reporting corruption.
+ *
+ * @param error - The error to check
+ * @returns true if the data should not be treated as damaged
+ */
+export const isUnreadableDataError = (error: BenTenError): boolean =>
+  isEncryptionKeyError(error) ||
+  error.code === ErrorCode.CONTEXT_VERSION_MISMATCH;
+
 /**
  * Type guard to check if a value is a valid ErrorCode.
  *
@@ -7,6 +7,12 @@ import {
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  createObjectStoreService,
+  hashObject,
+  isObjectHash,
+  parseMessageChunk,
+} from '../services/object-store-service.js';
 import type {
   ContextSummary,
   SegmentOptions,
@@ -19,6 +25,12 @@ const CONTEXTS_DIR = 'contexts';
 const CONTEXT_FILE = 'context.ctx';
 const METADATA_FILE = 'metadata.json';
 
+/**
+ * Unreferenced chunks younger than this survive a save, so chunks uploaded
+ * for another client's save that has not arrived yet are not pruned.
+ */
+const UPLOAD_GRACE_MS = 10 * 60 * 1000;
+
 /**
  * Metadata stored alongside context for quick access.
  */
@@ -52,6 +64,23 @@ export interface HttpServerStorage {
     context: ContextData,
   ): Promise<Result<void, BenTenError>>;
 
+  /**
+   * Report which of the given chunk hashes are not stored for a project.
+   */
+  findMissingObjects(
+    projectHash: string,
+    hashes: readonly string[],
+  ): Promise<Result<string[], BenTenError>>;
+
+  /**
+   * Store an uploaded conversation chunk after checking it matches its hash.
+   */
+  putObject(
+    projectHash: string,
+    hash: string,
+    data: Buffer,
+  ): Promise<Result<void, BenTenError>>;
+
   /**
    * Delete context for a project.
    */
@@ -84,6 +113,8 @@ export interface HttpServerStorageDeps {
   fs: FileSystem;
   logger: Logger;
   storagePath: string;
+  /** Key for encrypting stored contexts at rest */
+  encryptionKey?: Buffer;
 }
 
 /**
@@ -95,8 +126,8 @@ export interface HttpServerStorageDeps {
 export const createHttpServerStorage = (
   deps: HttpServerStorageDeps,
 ): HttpServerStorage => {
-  const { fs, logger, storagePath } = deps;
-  const serializer = createSerializerService();
+  const { fs, logger, storagePath, encryptionKey } = deps;
+  const serializer = createSerializerService({ encryptionKey });
 
   const getProjectDir = (projectHash: string): string =>
     `${storagePath}/${CONTEXTS_DIR}/${projectHash}`;
@@ -107,6 +138,15 @@ export const createHttpServerStorage = (
   const getMetadataPath = (projectHash: string): string =>
     `${getProjectDir(projectHash)}/${METADATA_FILE}`;
 
+  // Chunks live with their project, so deleting a project removes them too
+  const getObjectStore = (projectHash: string) =>
+    createObjectStoreService({
+      fs,
+      logger,
+      benTenDir: getProjectDir(projectHash),
+      encryptionKey,
+    });
+
   const storage: HttpServerStorage = {
     async hasContext(projectHash) {
       const contextPath = getContextPath(projectHash);
@@ -149,12 +189,25 @@ export const createHttpServerStorage = (
         );
       }
 
+      const inlineResult = await getObjectStore(projectHash).inlineConversation(
+        deserializeResult.value,
+      );
+      if (!inlineResult.ok) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            'Failed to load conversation chunks',
+            { projectHash, error: inlineResult.error.message },
+          ),
+        );
+      }
+
       logger.info('Context loaded from storage', {
         projectHash,
-        sessionId: deserializeResult.value.sessionId,
+        sessionId: inlineResult.value.sessionId,
       });
 
-      return ok(deserializeResult.value);
+      return ok(inlineResult.value);
     },
 
     async saveContext(projectHash, context) {
@@ -179,8 +232,40 @@ export const createHttpServerStorage = (
         );
       }
 
+      // Conversations arrive either inline or as chunks uploaded beforehand
+      const objects = getObjectStore(projectHash);
+      const chunks = context.conversation?.chunks ?? [];
+      const missingResult = await storage.findMissingObjects(
+        projectHash,
+        chunks,
+      );
+      if (!missingResult.ok) {
+        return err(missingResult.error);
+      }
+      if (missingResult.value.length > 0) {
+        return err(
+          createError(
+            ErrorCode.VALIDATION_FAILED,
+            'Context references chunks that were not uploaded',
+            { projectHash, missing: missingResult.value },
+          ),
+        );
+      }
+
+      const storedResult = await objects.externalizeConversation(context);
+      if (!storedResult.ok) {
+        return err(
+          createError(
+            ErrorCode.FS_WRITE_ERROR,
+            'Failed to store conversation chunks',
+            { projectHash, error: storedResult.error.message },
+          ),
+        );
+      }
+      const stored = storedResult.value;
+
       // Serialize context
-      const serializeResult = serializer.serialize(context);
+      const serializeResult = serializer.serialize(stored);
       if (!serializeResult.ok) {
         return err(
           createError(
@@ -212,7 +297,8 @@ export const createHttpServerStorage = (
         sessionId: context.sessionId,
         updatedAt: context.updatedAt,
         createdAt: context.createdAt,
-        summaryPreview: context.summary.slice(0, 200),
+        // Keep summary text out of plaintext metadata when encrypting
+        summaryPreview: encryptionKey ? '' : context.summary.slice(0, 200),
       };
 
       const metadataWriteResult = await fs.writeFile(
@@ -227,6 +313,18 @@ export const createHttpServerStorage = (
         // Continue anyway - metadata is optional
       }
 
+      // The server keeps no history, so only the new context's chunks matter
+      const pruneResult = await objects.prune(
+        new Set(stored.conversation?.chunks ?? []),
+        UPLOAD_GRACE_MS,
+      );
+      if (!pruneResult.ok) {
+        logger.warn('Failed to prune conversation chunks', {
+          projectHash,
+          error: pruneResult.error.message,
+        });
+      }
+
       logger.info('Context saved to storage', {
         projectHash,
         size: serializeResult.value.length,
@@ -235,6 +333,52 @@ export const createHttpServerStorage = (
       return ok(undefined);
     },
 
+    async findMissingObjects(projectHash, hashes) {
+      const objects = getObjectStore(projectHash);
+      const missing: string[] = [];
+      for (const hash of hashes) {
+        if (!(await objects.hasObject(hash))) {
+          missing.push(hash);
+        }
+      }
+      return ok(missing);
+    },
+
+    async putObject(projectHash, hash, data) {
+      if (!isObjectHash(hash) || hashObject(data) !== hash) {
+        return err(
+          createError(
+            ErrorCode.VALIDATION_FAILED,
+            'Chunk content does not match its hash',
+            { projectHash, hash },
+          ),
+        );
+      }
+
+      const parseResult = parseMessageChunk(data);
+      if (!parseResult.ok) {
+        return err(
+          createError(ErrorCode.VALIDATION_FAILED, 'Invalid chunk content', {
+            projectHash,
+            hash,
+            error: parseResult.error.message,
+          }),
+        );
+      }
+
+      const writeResult = await getObjectStore(projectHash).writeObject(data);
+      if (!writeResult.ok) {
+        return err(writeResult.error);
+      }
+
+      logger.debug('Chunk stored', {
+        projectHash,
+        hash,
+        written: writeResult.value.written,
+      });
+      return ok(undefined);
+    },
+
     async deleteContext(projectHash) {
       const projectDir = getProjectDir(projectHash);
       logger.debug('Deleting context from storage', { projectHash });
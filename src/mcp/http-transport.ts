@@ -5,7 +5,7 @@ import {
 } from 'node:http';
 import { URL } from 'node:url';
 import type { FileSystem } from '../adapters/fs/memory-fs.js';
-import { parseContextData } from '../core/types.js';
+import { migrateContextData } from '../core/types.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { createHttpServerStorage } from './http-server.js';
 
@@ -21,6 +21,8 @@ export interface HttpServerConfig {
   apiKeys: string[];
   /** Path to store contexts (e.g., ~/.ben-ten-server) */
   storagePath: string;
+  /** Key for encrypting stored contexts at rest */
+  encryptionKey?: Buffer;
 }
 
 /**
@@ -42,25 +44,27 @@ export interface HttpTransportDeps {
 }
 
 /**
- * Parse JSON body from request.
+ * Read the raw request body.
  */
-const parseBody = (req: IncomingMessage): Promise<unknown> => {
+const readBody = (req: IncomingMessage): Promise<Buffer> => {
   return new Promise((resolve, reject) => {
-    let body = '';
+    const chunks: Buffer[] = [];
     req.on('data', (chunk: Buffer) => {
-      body += chunk.toString();
-    });
-    req.on('end', () => {
-      try {
-        resolve(body ? JSON.parse(body) : null);
-      } catch (e) {
-        reject(e);
-      }
+      chunks.push(chunk);
     });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
     req.on('error', reject);
   });
 };
 
+/**
+ * Parse JSON body from request.
+ */
+const parseBody = async (req: IncomingMessage): Promise<unknown> => {
+  const body = (await readBody(req)).toString();
+  return body ? JSON.parse(body) : null;
+};
+
 /**
  * Send JSON response.
  */
@@ -114,6 +118,7 @@ export const createHttpServer = (deps: HttpTransportDeps): HttpServer => {
     fs,
     logger,
     storagePath: config.storagePath,
+    encryptionKey: config.encryptionKey,
   });
 
   let actualPort = config.port;
@@ -246,6 +251,46 @@ export const createHttpServer = (deps: HttpTransportDeps): HttpServer => {
           return;
         }
 
+        // Find which conversation chunks still need uploading
+        if (subPath === '/objects/missing' && method === 'POST') {
+          const body = (await parseBody(req)) as { hashes?: unknown } | null;
+          const hashes = body?.hashes;
+          if (
+            !Array.isArray(hashes) ||
+            !hashes.every((h) => typeof h === 'string')
+          ) {
+            sendError(res, 400, 'Expected { hashes: string[] }');
+            return;
+          }
+          const result = await storage.findMissingObjects(projectHash, hashes);
+          if (!result.ok) {
+            sendError(res, 500, result.error.message);
+            return;
+          }
+          sendJson(res, 200, { missing: result.value });
+          return;
+        }
+
+        // Upload a conversation chunk
+        const objectMatch = subPath.match(/^\/objects\/([a-f0-9]{64})$/);
+        if (objectMatch?.[1] && method === 'PUT') {
+          const result = await storage.putObject(
+            projectHash,
+            objectMatch[1],
+            await readBody(req),
+          );
+          if (!result.ok) {
+            if (result.error.code === 'VALIDATION_FAILED') {
+              sendError(res, 400, result.error.message);
+              return;
+            }
+            sendError(res, 500, result.error.message);
+            return;
+          }
+          sendJson(res, 200, { stored: true });
+          return;
+        }
+
         // Get full context
         if (subPath === '' && method === 'GET') {
           const result = await storage.loadContext(projectHash);
@@ -264,8 +309,12 @@ export const createHttpServer = (deps: HttpTransportDeps): HttpServer => {
         // Save context
         if (subPath === '' && method === 'PUT') {
           const body = await parseBody(req);
-          const parseResult = parseContextData(body);
+          const parseResult = migrateContextData(body);
           if (!parseResult.ok) {
+            if (parseResult.error.code === 'CONTEXT_VERSION_MISMATCH') {
+              sendError(res, 409, parseResult.error.message);
+              return;
+            }
             sendError(res, 400, 'Invalid context data');
             return;
           }
@@ -275,6 +324,10 @@ export const createHttpServer = (deps: HttpTransportDeps): HttpServer => {
             parseResult.value,
           );
           if (!saveResult.ok) {
+            if (saveResult.error.code === 'VALIDATION_FAILED') {
+              sendError(res, 400, saveResult.error.message);
+              return;
+            }
             sendError(res, 500, saveResult.error.message);
             return;
           }
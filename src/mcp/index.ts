@@ -9,6 +9,8 @@ export {
   type StatusResult,
   type SaveResult,
   type ClearResult,
+  type HistoryResult,
+  type RestoreResult,
 } from './server.js';
 
 export { startMcpServer, type McpTransportDeps } from './transport.js';
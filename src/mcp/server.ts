@@ -2,7 +2,9 @@ import type { FileSystem } from '../adapters/fs/memory-fs.js';
 import {
   CONTEXT_VERSION,
   type ContextData,
-  type FileMetadata,
+  type ContextMetadata,
+  type SnapshotInfo,
+  type TranscriptCursor,
 } from '../core/types.js';
 import {
   type BenTenError,
@@ -11,8 +13,27 @@ import {
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
-import { createContextService } from '../services/context-service.js';
-import { createTranscriptService } from '../services/transcript-service.js';
+import { createConfigService } from '../services/config-service.js';
+import {
+  createContextService,
+  hashDirectory,
+} from '../services/context-service.js';
+import { createIgnoreService } from '../services/ignore-service.js';
+import {
+  type RedactionReport,
+  createRedactionService,
+} from '../services/redaction-service.js';
+import { createSessionGraphService } from '../services/session-graph-service.js';
+import {
+  type TokenEstimate,
+  type TokenizerSetting,
+  createTokenCounter,
+} from '../services/token-counter-service.js';
+import {
+  type ToolHistoryQueryResult,
+  createTranscriptService,
+  queryToolHistory,
+} from '../services/transcript-service.js';
 
 /** MCP Tool definition */
 export interface ToolDefinition {
@@ -54,12 +75,18 @@ export interface StatusResult {
   summaryLength?: number;
   createdAt?: number;
   updatedAt?: number;
+  /** Tokens the summary and replay take up when loaded */
+  tokens?: TokenEstimate;
+  /** Token counter used for tokens */
+  tokenizer?: TokenizerSetting;
 }
 
 /** Save tool result */
 export interface SaveResult {
   saved: boolean;
   path: string;
+  /** Secrets redacted from the saved context */
+  redactions: RedactionReport;
 }
 
 /** Clear tool result */
@@ -67,6 +94,22 @@ export interface ClearResult {
   cleared: boolean;
 }
 
+/** History tool result */
+export interface HistoryResult {
+  snapshots: SnapshotInfo[];
+}
+
+/** Tool history tool result */
+export type ToolHistoryResult = ToolHistoryQueryResult;
+
+/** Restore tool result */
+export interface RestoreResult {
+  restored: boolean;
+  id: string;
+  sessionId: string;
+  updatedAt: number;
+}
+
 /**
  * Ben-Ten MCP Server interface.
  * Provides tools and resources for context management.
@@ -95,6 +138,8 @@ export interface BenTenServerDeps {
   fs: FileSystem;
   logger: Logger;
   projectDir: string;
+  /** Key for encrypting context files at rest */
+  encryptionKey?: Buffer;
 }
 
 /**
@@ -104,9 +149,21 @@ export interface BenTenServerDeps {
  * @returns A BenTenServer instance
  */
 export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
-  const { fs, logger, projectDir } = deps;
-  const contextService = createContextService({ fs, logger, projectDir });
+  const { fs, logger, projectDir, encryptionKey } = deps;
+  const contextService = createContextService({
+    fs,
+    logger,
+    projectDir,
+    encryptionKey,
+  });
+  const configService = createConfigService({ fs, logger, projectDir });
+  const ignoreService = createIgnoreService({ fs, logger, projectDir });
   const transcriptService = createTranscriptService({ fs, logger });
+  const sessionGraphService = createSessionGraphService({
+    fs,
+    logger,
+    transcriptService,
+  });
 
   const tools: ToolDefinition[] = [
     {
@@ -146,6 +203,11 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
             description:
               'Path to the transcript JSONL file for extracting conversation history, file references, and tool calls',
           },
+          stitchSessions: {
+            type: 'boolean',
+            description:
+              'Build the conversation from the whole chain of transcripts this session continues (resumes, /clear, compactions) instead of only the latest file',
+          },
         },
         required: ['sessionId', 'summary'],
       },
@@ -166,6 +228,51 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
         properties: {},
       },
     },
+    {
+      name: 'ben_ten_history',
+      description: 'List previous context generations (most recent first)',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'ben_ten_tool_history',
+      description:
+        'Query the tool calls recorded in the saved context (most recent first), with their outcome, duration and error output',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          toolName: {
+            type: 'string',
+            description: 'Only calls of this tool, e.g. "Bash"',
+          },
+          failuresOnly: {
+            type: 'boolean',
+            description: 'Only calls that returned an error',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of calls to return (default: 50)',
+          },
+        },
+      },
+    },
+    {
+      name: 'ben_ten_restore',
+      description:
+        'Restore a previous context generation by ID (see ben_ten_history)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Snapshot ID to restore',
+          },
+        },
+        required: ['id'],
+      },
+    },
   ];
 
   const resources: ResourceDefinition[] = [
@@ -201,12 +308,23 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
           };
 
           if (hasContext) {
-            const loadResult = await contextService.loadContext();
+            const loadResult = await contextService.loadContext({
+              sections: ['summary', 'replay'],
+            });
             if (loadResult.ok) {
               result.sessionId = loadResult.value.sessionId;
               result.summaryLength = loadResult.value.summary.length;
               result.createdAt = loadResult.value.createdAt;
               result.updatedAt = loadResult.value.updatedAt;
+
+              const configResult = await configService.loadConfig();
+              const tokenCounter = createTokenCounter(
+                configResult.ok ? configResult.value.tokenizer : undefined,
+              );
+              result.tokens = tokenCounter.estimate(
+                `${loadResult.value.summary}\n${loadResult.value.conversationReplay ?? ''}`,
+              );
+              result.tokenizer = tokenCounter.name;
             }
           }
 
@@ -221,16 +339,27 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
           const providedTranscriptPath = args.transcriptPath as
             | string
             | undefined;
+          const stitchSessions = args.stitchSessions === true;
 
           // Preserve createdAt if updating
           let createdAt = Date.now();
+          let existing: ContextData | undefined;
           if (await contextService.hasContext()) {
             const existingResult = await contextService.loadContext();
             if (existingResult.ok) {
-              createdAt = existingResult.value.createdAt;
+              existing = existingResult.value;
+              createdAt = existing.createdAt;
             }
           }
 
+          // Paths in .ben-ten/ignore must not end up in saved context
+          const ignoreResult = await ignoreService.loadRules();
+          if (!ignoreResult.ok) {
+            return err(ignoreResult.error);
+          }
+          const ignore = ignoreResult.value;
+          const configResult = await configService.loadConfig();
+
           // Build enriched v2.0.0 context
           const contextData: ContextData = {
             version: CONTEXT_VERSION,
@@ -238,46 +367,85 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
             updatedAt: Date.now(),
             sessionId,
             summary,
-            keyFiles,
+            keyFiles: keyFiles?.filter((file) => !ignore.isIgnored(file)),
             activeTasks,
           };
 
           // Determine transcript path: prefer provided param, then metadata, then auto-discover
-          let transcriptPath = providedTranscriptPath;
-          if (!transcriptPath && (await contextService.hasMetadata())) {
+          let metadata: ContextMetadata | undefined;
+          if (await contextService.hasMetadata()) {
             const metadataResult = await contextService.loadMetadata();
-            if (metadataResult.ok && metadataResult.value.transcriptPath) {
-              transcriptPath = metadataResult.value.transcriptPath;
+            if (metadataResult.ok) {
+              metadata = metadataResult.value;
             }
           }
+          let transcriptPath =
+            providedTranscriptPath ?? metadata?.transcriptPath;
           if (!transcriptPath) {
-            const discoverResult =
-              await transcriptService.discoverTranscriptPath(projectDir);
+            // Also search the transcript roots from config
+            const discoverResult = await createTranscriptService({
+              fs,
+              logger,
+              transcriptRoots: configResult.ok
+                ? configResult.value.transcriptRoots
+                : undefined,
+            }).discoverTranscriptPath(projectDir);
             if (discoverResult.ok && discoverResult.value) {
               transcriptPath = discoverResult.value;
             }
           }
 
           // Enrich context from transcript if available
+          let transcriptCursor: TranscriptCursor | undefined;
           if (transcriptPath) {
-            const transcriptResult =
-              await transcriptService.parseTranscript(transcriptPath);
+            // Stitch the session's transcripts together, or continue from
+            // where the last save stopped parsing
+            const cursor = metadata?.transcriptCursor;
+            const transcriptResult = stitchSessions
+              ? await sessionGraphService.parseSessionChain(transcriptPath)
+              : await transcriptService.parseTranscriptIncremental(
+                  transcriptPath,
+                  cursor && existing?.conversation
+                    ? { history: existing.conversation, cursor }
+                    : undefined,
+                );
 
             if (transcriptResult.ok) {
-              const conversation = transcriptResult.value;
+              const conversation = transcriptService.applyIgnoreRules(
+                transcriptResult.value.history,
+                ignore,
+              );
+              transcriptCursor = transcriptResult.value.cursor;
               contextData.conversation = conversation;
 
-              // Extract file references
-              const extractedFiles =
-                transcriptService.extractFileReferences(conversation);
+              // Attach what delegated subagents did to their Task calls
+              const subagentsResult = await transcriptService.collectSubagents(
+                conversation,
+                transcriptPath,
+              );
+              if (subagentsResult.ok && subagentsResult.value.length > 0) {
+                conversation.subagents = subagentsResult.value.map((run) => {
+                  const filesChanged = run.filesChanged?.filter(
+                    (path) => !ignore.isIgnored(path),
+                  );
+                  return {
+                    ...run,
+                    filesChanged: filesChanged?.length
+                      ? filesChanged
+                      : undefined,
+                  };
+                });
+              }
+
+              // Track how files were used, hashing their current content
+              const extractedFiles = transcriptService.extractFileReferences(
+                conversation,
+                ignore,
+              );
               if (extractedFiles.length > 0) {
-                const now = Date.now();
-                contextData.files = extractedFiles.map(
-                  (path): FileMetadata => ({
-                    path,
-                    lastAccessed: now,
-                    accessCount: 1,
-                  }),
+                contextData.files = await transcriptService.hashFiles(
+                  extractedFiles,
+                  projectDir,
                 );
               }
 
@@ -296,14 +464,41 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
             }
           }
 
-          const saveResult = await contextService.saveContext(contextData);
+          // Redact secrets before anything is written
+          const { context: redactedContext, report } = createRedactionService({
+            logger,
+            config: configResult.ok ? configResult.value.redaction : undefined,
+          }).redactContext(contextData);
+
+          const saveResult = await contextService.saveContext(redactedContext);
           if (!saveResult.ok) {
             return err(saveResult.error);
           }
 
+          // Record how far the transcript was parsed, so the next save resumes there
+          if (transcriptPath && transcriptCursor) {
+            const metadataResult = await contextService.saveMetadata({
+              ...(metadata ?? {
+                directory: projectDir,
+                directoryHash: hashDirectory(projectDir),
+                sessionCount: 1,
+              }),
+              lastSessionId: sessionId,
+              lastSavedAt: contextData.updatedAt,
+              transcriptPath,
+              transcriptCursor,
+            });
+            if (!metadataResult.ok) {
+              logger.warn('Failed to save transcript cursor', {
+                error: metadataResult.error.message,
+              });
+            }
+          }
+
           const result: SaveResult = {
             saved: true,
             path: contextService.getContextPath(),
+            redactions: report,
           };
           return ok(result);
         }
@@ -327,6 +522,48 @@ export const createBenTenServer = (deps: BenTenServerDeps): BenTenServer => {
           return ok(result);
         }
 
+        case 'ben_ten_history': {
+          const listResult = await contextService.listSnapshots();
+          if (!listResult.ok) {
+            return err(listResult.error);
+          }
+          const result: HistoryResult = {
+            snapshots: listResult.value,
+          };
+          return ok(result);
+        }
+
+        case 'ben_ten_tool_history': {
+          const loadResult = await contextService.loadContext();
+          if (!loadResult.ok) {
+            return err(loadResult.error);
+          }
+          const result: ToolHistoryResult = queryToolHistory(
+            loadResult.value.toolHistory ?? [],
+            {
+              toolName: args.toolName as string | undefined,
+              failuresOnly: args.failuresOnly === true,
+              limit: args.limit as number | undefined,
+            },
+          );
+          return ok(result);
+        }
+
+        case 'ben_ten_restore': {
+          const id = args.id as string;
+          const restoreResult = await contextService.restoreSnapshot(id);
+          if (!restoreResult.ok) {
+            return err(restoreResult.error);
+          }
+          const result: RestoreResult = {
+            restored: true,
+            id,
+            sessionId: restoreResult.value.sessionId,
+            updatedAt: restoreResult.value.updatedAt,
+          };
+          return ok(result);
+        }
+
         default:
           return err(
             createError(ErrorCode.MCP_TOOL_ERROR, `Unknown tool: ${name}`, {
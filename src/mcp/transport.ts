@@ -4,21 +4,49 @@ import { z } from 'zod';
 import type { FileSystem } from '../adapters/fs/memory-fs.js';
 import {
   CONTEXT_VERSION,
+  CONTEXT_VERSIONS,
   type ContextData,
-  type FileMetadata,
+  type ContextMetadata,
+  type TranscriptCursor,
 } from '../core/types.js';
 import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  COMPRESSION_SETTINGS,
+  type CompressionSetting,
+} from '../services/compression-service.js';
 import {
   type BenTenConfig,
   DEFAULT_CONFIG,
   createConfigService,
 } from '../services/config-service.js';
 import { createContextResolutionService } from '../services/context-resolution-service.js';
-import { createContextService } from '../services/context-service.js';
+import {
+  createContextService,
+  hashDirectory,
+} from '../services/context-service.js';
+import { createEncryptionService } from '../services/encryption-service.js';
+import { createIgnoreService } from '../services/ignore-service.js';
 import { createProjectIdentifierService } from '../services/project-identifier-service.js';
+import { createRedactionService } from '../services/redaction-service.js';
 import { createRemoteContextService } from '../services/remote-context-service.js';
-import { createReplayService } from '../services/replay-service.js';
-import { createTranscriptService } from '../services/transcript-service.js';
+import {
+  REPLAY_MODES,
+  type ReplayFormat,
+  type ReplayMode,
+  createReplayService,
+} from '../services/replay-service.js';
+import { createSessionGraphService } from '../services/session-graph-service.js';
+import {
+  TOKENIZER_SETTINGS,
+  type TokenizerSetting,
+  createTokenCounter,
+} from '../services/token-counter-service.js';
+import { createToolFormatterRegistry } from '../services/tool-formatter-service.js';
+import {
+  createTranscriptService,
+  queryToolHistory,
+} from '../services/transcript-service.js';
 
 export interface McpTransportDeps {
   fs: FileSystem;
@@ -45,17 +73,141 @@ const createOptionalRemoteService = (config: BenTenConfig, logger: Logger) => {
   });
 };
 
+/** Keys the ben_ten_config tool can set */
+const CONFIG_KEYS = [
+  'maxReplayPercent',
+  'contextWindowSize',
+  'maxSnapshots',
+  'compression',
+  'contextVersion',
+  'tokenizer',
+  'replayMode',
+  'segmentDigests',
+  'redaction.enabled',
+  'transcriptRoots',
+] as const;
+
+type ConfigKey = (typeof CONFIG_KEYS)[number];
+type ConfigValue = number | boolean | string | string[];
+
+const invalidValue = (
+  key: ConfigKey,
+  value: ConfigValue,
+  expected: readonly string[] | string,
+): Result<never, string> =>
+  err(
+    `Invalid ${key}: ${JSON.stringify(value)} (expected ${
+      typeof expected === 'string' ? expected : expected.join(', ')
+    })`,
+  );
+
+/**
+ * Build the config update for a ben_ten_config "set", applying the same
+ * checks as `ben-ten config <key> <value>`.
+ */
+const toConfigUpdate = (
+  key: ConfigKey,
+  value: ConfigValue,
+  config: BenTenConfig,
+): Result<Partial<BenTenConfig>, string> => {
+  switch (key) {
+    case 'maxReplayPercent':
+    case 'contextWindowSize':
+    case 'maxSnapshots':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return invalidValue(key, value, 'an integer');
+      }
+      return ok({ [key]: value });
+    case 'compression':
+      if (!COMPRESSION_SETTINGS.includes(value as CompressionSetting)) {
+        return invalidValue(key, value, COMPRESSION_SETTINGS);
+      }
+      return ok({ compression: value as CompressionSetting });
+    case 'contextVersion':
+      if (typeof value !== 'string' || !CONTEXT_VERSIONS.includes(value)) {
+        return invalidValue(key, value, CONTEXT_VERSIONS);
+      }
+      return ok({ contextVersion: value });
+    case 'tokenizer':
+      if (!TOKENIZER_SETTINGS.includes(value as TokenizerSetting)) {
+        return invalidValue(key, value, TOKENIZER_SETTINGS);
+      }
+      return ok({ tokenizer: value as TokenizerSetting });
+    case 'replayMode':
+      if (!REPLAY_MODES.includes(value as ReplayMode)) {
+        return invalidValue(key, value, REPLAY_MODES);
+      }
+      return ok({ replayMode: value as ReplayMode });
+    case 'segmentDigests':
+      if (typeof value !== 'boolean') {
+        return invalidValue(key, value, 'true or false');
+      }
+      return ok({ segmentDigests: value });
+    case 'redaction.enabled':
+      if (typeof value !== 'boolean') {
+        return invalidValue(key, value, 'true or false');
+      }
+      return ok({ redaction: { ...config.redaction, enabled: value } });
+    case 'transcriptRoots': {
+      // A list of directories, or a comma-separated string like the CLI takes
+      if (typeof value !== 'string' && !Array.isArray(value)) {
+        return invalidValue(key, value, 'a list of directories');
+      }
+      const roots = typeof value === 'string' ? value.split(',') : value;
+      return ok({
+        transcriptRoots: roots
+          .map((root) => root.trim())
+          .filter((root) => root.length > 0),
+      });
+    }
+  }
+};
+
 export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
   const { fs, logger, projectDir } = deps;
-  const contextService = createContextService({ fs, logger, projectDir });
-  const transcriptService = createTranscriptService({ fs, logger });
   const configService = createConfigService({ fs, logger, projectDir });
-  const replayService = createReplayService({ logger });
+  const ignoreService = createIgnoreService({ fs, logger, projectDir });
   const projectIdentifierService = createProjectIdentifierService({ logger });
 
-  // Load config to check for remote settings
+  // Load config to check for remote and history settings
   const configResult = await configService.loadConfig();
   const config = configResult.ok ? configResult.value : DEFAULT_CONFIG;
+  const tokenCounter = createTokenCounter(config.tokenizer);
+  const replayService = createReplayService({
+    logger,
+    tokenCounter,
+    toolFormatters: createToolFormatterRegistry(config.toolFormatters),
+  });
+  const transcriptService = createTranscriptService({
+    fs,
+    logger,
+    transcriptRoots: config.transcriptRoots,
+  });
+  const sessionGraphService = createSessionGraphService({
+    fs,
+    logger,
+    transcriptService,
+  });
+
+  // Refuse to start without the configured key rather than write plaintext
+  const keyResult = await createEncryptionService({
+    fs,
+    logger,
+    projectDir,
+  }).resolveKey(config.encryption);
+  if (!keyResult.ok) {
+    throw new Error(keyResult.error.message);
+  }
+
+  const contextService = createContextService({
+    fs,
+    logger,
+    projectDir,
+    maxSnapshots: config.maxSnapshots,
+    encryptionKey: keyResult.value,
+    compression: config.compression,
+    targetVersion: config.contextVersion,
+  });
 
   // Create optional remote service
   const remoteContextService = createOptionalRemoteService(config, logger);
@@ -90,12 +242,18 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
       };
 
       if (hasContext) {
-        const loadResult = await contextService.loadContext();
+        const loadResult = await contextService.loadContext({
+          sections: ['summary', 'replay'],
+        });
         if (loadResult.ok) {
           result.sessionId = loadResult.value.sessionId;
           result.summaryLength = loadResult.value.summary.length;
           result.createdAt = new Date(loadResult.value.createdAt).toISOString();
           result.updatedAt = new Date(loadResult.value.updatedAt).toISOString();
+          result.tokens = tokenCounter.estimate(
+            `${loadResult.value.summary}\n${loadResult.value.conversationReplay ?? ''}`,
+          );
+          result.tokenizer = tokenCounter.name;
         }
       }
 
@@ -129,6 +287,12 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           .describe(
             'Path to the transcript JSONL file for extracting conversation history, file references, and tool calls',
           ),
+        stitchSessions: z
+          .boolean()
+          .optional()
+          .describe(
+            'Build the conversation from the whole chain of transcripts this session continues (resumes, /clear, compactions) instead of only the latest file',
+          ),
         scope: z
           .enum(['local', 'remote', 'both'])
           .optional()
@@ -143,17 +307,35 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
       keyFiles,
       activeTasks,
       transcriptPath: providedTranscriptPath,
+      stitchSessions,
       scope,
     }) => {
       // Preserve createdAt if updating
       let createdAt = Date.now();
+      let existing: ContextData | undefined;
       if (await contextService.hasContext()) {
         const existingResult = await contextService.loadContext();
         if (existingResult.ok) {
-          createdAt = existingResult.value.createdAt;
+          existing = existingResult.value;
+          createdAt = existing.createdAt;
         }
       }
 
+      // Paths in .ben-ten/ignore must not end up in saved context
+      const ignoreResult = await ignoreService.loadRules();
+      if (!ignoreResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error loading ignore rules: ${ignoreResult.error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const ignore = ignoreResult.value;
+
       // Build enriched v2.0.0 context
       const contextData: ContextData = {
         version: CONTEXT_VERSION,
@@ -161,18 +343,19 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
         updatedAt: Date.now(),
         sessionId,
         summary,
-        keyFiles,
+        keyFiles: keyFiles?.filter((file) => !ignore.isIgnored(file)),
         activeTasks,
       };
 
       // Determine transcript path: prefer provided param, then metadata, then auto-discover
-      let transcriptPath = providedTranscriptPath;
-      if (!transcriptPath && (await contextService.hasMetadata())) {
+      let metadata: ContextMetadata | undefined;
+      if (await contextService.hasMetadata()) {
         const metadataResult = await contextService.loadMetadata();
-        if (metadataResult.ok && metadataResult.value.transcriptPath) {
-          transcriptPath = metadataResult.value.transcriptPath;
+        if (metadataResult.ok) {
+          metadata = metadataResult.value;
         }
       }
+      let transcriptPath = providedTranscriptPath ?? metadata?.transcriptPath;
       if (!transcriptPath) {
         const discoverResult =
           await transcriptService.discoverTranscriptPath(projectDir);
@@ -182,25 +365,54 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
       }
 
       // Enrich context from transcript if available
+      let transcriptCursor: TranscriptCursor | undefined;
       if (transcriptPath) {
-        const transcriptResult =
-          await transcriptService.parseTranscript(transcriptPath);
+        // Stitch the session's transcripts together, or continue from
+        // where the last save stopped parsing
+        const cursor = metadata?.transcriptCursor;
+        const transcriptResult = stitchSessions
+          ? await sessionGraphService.parseSessionChain(transcriptPath)
+          : await transcriptService.parseTranscriptIncremental(
+              transcriptPath,
+              cursor && existing?.conversation
+                ? { history: existing.conversation, cursor }
+                : undefined,
+            );
 
         if (transcriptResult.ok) {
-          const conversation = transcriptResult.value;
+          const conversation = transcriptService.applyIgnoreRules(
+            transcriptResult.value.history,
+            ignore,
+          );
+          transcriptCursor = transcriptResult.value.cursor;
           contextData.conversation = conversation;
 
-          // Extract file references
-          const extractedFiles =
-            transcriptService.extractFileReferences(conversation);
+          // Attach what delegated subagents did to their Task calls
+          const subagentsResult = await transcriptService.collectSubagents(
+            conversation,
+            transcriptPath,
+          );
+          if (subagentsResult.ok && subagentsResult.value.length > 0) {
+            conversation.subagents = subagentsResult.value.map((run) => {
+              const filesChanged = run.filesChanged?.filter(
+                (path) => !ignore.isIgnored(path),
+              );
+              return {
+                ...run,
+                filesChanged: filesChanged?.length ? filesChanged : undefined,
+              };
+            });
+          }
+
+          // Track how files were used, hashing their current content
+          const extractedFiles = transcriptService.extractFileReferences(
+            conversation,
+            ignore,
+          );
           if (extractedFiles.length > 0) {
-            const now = Date.now();
-            contextData.files = extractedFiles.map(
-              (path): FileMetadata => ({
-                path,
-                lastAccessed: now,
-                accessCount: 1,
-              }),
+            contextData.files = await transcriptService.hashFiles(
+              extractedFiles,
+              projectDir,
             );
           }
 
@@ -222,7 +434,13 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
 
           const replayResult = replayService.generateReplay(
             conversation.messages,
-            { maxTokens },
+            {
+              maxTokens,
+              ignore,
+              subagents: conversation.subagents,
+              mode: replayConfig.replayMode,
+              digests: replayConfig.segmentDigests,
+            },
           );
 
           if (replayResult.ok) {
@@ -235,6 +453,9 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
               allStoppingPoints: replayResult.value.allStoppingPoints,
               currentStopIndex: replayResult.value.currentStopIndex,
               startMessageIndex: replayResult.value.startMessageIndex,
+              tokenizer: tokenCounter.name,
+              heuristicTokenCount: replayResult.value.heuristicTokenCount,
+              digestCount: replayResult.value.digests?.length,
             };
             logger.info('Generated conversation replay', {
               tokenCount: replayResult.value.tokenCount,
@@ -267,8 +488,14 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
         saveRemote = true;
       }
 
+      // Redact secrets before anything is written locally or sent remotely
+      const { context: redactedContext, report } = createRedactionService({
+        logger,
+        config: config.redaction,
+      }).redactContext(contextData);
+
       const saveResult = await contextResolutionService.saveContext(
-        contextData,
+        redactedContext,
         { projectDir, saveLocal, saveRemote },
       );
 
@@ -284,6 +511,26 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
         };
       }
 
+      // Record how far the transcript was parsed, so the next save resumes there
+      if (saveLocal && transcriptPath && transcriptCursor) {
+        const metadataResult = await contextService.saveMetadata({
+          ...(metadata ?? {
+            directory: projectDir,
+            directoryHash: hashDirectory(projectDir),
+            sessionCount: 1,
+          }),
+          lastSessionId: sessionId,
+          lastSavedAt: contextData.updatedAt,
+          transcriptPath,
+          transcriptCursor,
+        });
+        if (!metadataResult.ok) {
+          logger.warn('Failed to save transcript cursor', {
+            error: metadataResult.error.message,
+          });
+        }
+      }
+
       return {
         content: [
           {
@@ -296,6 +543,7 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
                   local: saveLocal,
                   remote: saveRemote,
                 },
+                redactions: report,
               },
               null,
               2,
@@ -306,6 +554,44 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
     },
   );
 
+  /**
+   * Rewrite a loaded context's replay in another format, over the same
+   * window the saved replay covers.
+   */
+  const reformatReplay = async (
+    context: ContextData,
+    format: ReplayFormat | undefined,
+  ): Promise<ContextData> => {
+    if (!format || format === 'markdown' || !context.conversation?.messages) {
+      return context;
+    }
+
+    const formatConfigResult = await configService.loadConfig();
+    const formatConfig = formatConfigResult.ok
+      ? formatConfigResult.value
+      : DEFAULT_CONFIG;
+    const ignoreRules = await ignoreService.loadRules();
+    const replayResult = replayService.generateReplay(
+      context.conversation.messages,
+      {
+        maxTokens: Math.floor(
+          (formatConfig.contextWindowSize * formatConfig.maxReplayPercent) /
+            100,
+        ),
+        stopPointIndex: context.replayMetadata?.currentStopIndex,
+        stoppingPoints: context.replayMetadata?.allStoppingPoints,
+        ignore: ignoreRules.ok ? ignoreRules.value : undefined,
+        subagents: context.conversation.subagents,
+        mode: formatConfig.replayMode,
+        digests: formatConfig.segmentDigests,
+        format,
+      },
+    );
+    return replayResult.ok
+      ? { ...context, conversationReplay: replayResult.value.replay }
+      : context;
+  };
+
   // Register ben_ten_load tool
   server.registerTool(
     'ben_ten_load',
@@ -318,9 +604,15 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           .describe(
             'Where to load from: "local", "remote", or "auto" (default). Auto resolves from both sources.',
           ),
+        format: z
+          .enum(['markdown', 'xml', 'json'])
+          .optional()
+          .describe(
+            'Format of conversationReplay: "markdown" (default), "xml" <turn role=...> elements, or "json" turns with tool calls as objects',
+          ),
       },
     },
-    async ({ scope }) => {
+    async ({ scope, format }) => {
       // If scope is specified, load from that source directly
       if (scope === 'local') {
         const loadResult = await contextService.loadContext();
@@ -340,7 +632,10 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
             {
               type: 'text' as const,
               text: JSON.stringify(
-                { ...loadResult.value, _source: 'local' },
+                {
+                  ...(await reformatReplay(loadResult.value, format)),
+                  _source: 'local',
+                },
                 null,
                 2,
               ),
@@ -383,7 +678,10 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
             {
               type: 'text' as const,
               text: JSON.stringify(
-                { ...loadResult.value, _source: 'remote' },
+                {
+                  ...(await reformatReplay(loadResult.value, format)),
+                  _source: 'remote',
+                },
                 null,
                 2,
               ),
@@ -458,7 +756,11 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           {
             type: 'text' as const,
             text: JSON.stringify(
-              { ...result.context, _source: result.selected },
+              {
+                ...(result.context &&
+                  (await reformatReplay(result.context, format))),
+                _source: result.selected,
+              },
               null,
               2,
             ),
@@ -500,6 +802,158 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
     },
   );
 
+  // Register ben_ten_history tool
+  server.registerTool(
+    'ben_ten_history',
+    {
+      description:
+        'List previous context generations (most recent first). Use ben_ten_restore to bring one back.',
+      inputSchema: {},
+    },
+    async () => {
+      const listResult = await contextService.listSnapshots();
+      if (!listResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error listing history: ${listResult.error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const snapshots = listResult.value.map((snapshot) => ({
+        ...snapshot,
+        createdAt: new Date(snapshot.createdAt).toISOString(),
+        updatedAt: new Date(snapshot.updatedAt).toISOString(),
+      }));
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              { count: snapshots.length, snapshots },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // Register ben_ten_tool_history tool
+  server.registerTool(
+    'ben_ten_tool_history',
+    {
+      description:
+        'Query the tool calls recorded in the saved context (most recent first), with their outcome, duration and error output',
+      inputSchema: {
+        toolName: z
+          .string()
+          .optional()
+          .describe('Only calls of this tool, e.g. "Bash"'),
+        failuresOnly: z
+          .boolean()
+          .optional()
+          .describe('Only calls that returned an error'),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Maximum number of calls to return (default: 50)'),
+      },
+    },
+    async ({ toolName, failuresOnly, limit }) => {
+      const loadResult = await contextService.loadContext();
+      if (!loadResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error loading context: ${loadResult.error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const { total, calls } = queryToolHistory(
+        loadResult.value.toolHistory ?? [],
+        { toolName, failuresOnly, limit },
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                total,
+                calls: calls.map((call) => ({
+                  ...call,
+                  timestamp: new Date(call.timestamp).toISOString(),
+                })),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // Register ben_ten_restore tool
+  server.registerTool(
+    'ben_ten_restore',
+    {
+      description:
+        'Restore a previous context generation by ID. The current context is kept in history.',
+      inputSchema: {
+        id: z.string().describe('Snapshot ID from ben_ten_history'),
+      },
+    },
+    async ({ id }) => {
+      const restoreResult = await contextService.restoreSnapshot(id);
+      if (!restoreResult.ok) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `Error restoring snapshot: ${restoreResult.error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                restored: true,
+                id,
+                sessionId: restoreResult.value.sessionId,
+                updatedAt: new Date(
+                  restoreResult.value.updatedAt,
+                ).toISOString(),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
   // Register ben_ten_config tool
   server.registerTool(
     'ben_ten_config',
@@ -511,13 +965,15 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           .enum(['get', 'set'])
           .describe('Action to perform: "get" or "set"'),
         key: z
-          .enum(['maxReplayPercent', 'contextWindowSize'])
+          .enum(CONFIG_KEYS)
           .optional()
           .describe('Config key to set (required for "set" action)'),
         value: z
-          .number()
+          .union([z.number(), z.boolean(), z.string(), z.array(z.string())])
           .optional()
-          .describe('Config value to set (required for "set" action)'),
+          .describe(
+            'Config value to set (required for "set" action): a number, boolean, setting name, or list of directories for transcriptRoots',
+          ),
       },
     },
     async ({ action, key, value }) => {
@@ -558,7 +1014,20 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
         };
       }
 
-      const saveResult = await configService.saveConfig({ [key]: value });
+      const currentConfig = await configService.loadConfig();
+      const updates = toConfigUpdate(
+        key,
+        value,
+        currentConfig.ok ? currentConfig.value : DEFAULT_CONFIG,
+      );
+      if (!updates.ok) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${updates.error}` }],
+          isError: true,
+        };
+      }
+
+      const saveResult = await configService.saveConfig(updates.value);
       if (!saveResult.ok) {
         return {
           content: [
@@ -591,15 +1060,92 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
     },
   );
 
+  /**
+   * Show one segment of the saved conversation in full, for a caller that
+   * wants more than its digest. The saved replay is not changed.
+   */
+  const expandSegment = async (context: ContextData, segment: number) => {
+    if (!context.conversation?.messages) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'No conversation history found. Cannot expand a segment.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const expandConfigResult = await configService.loadConfig();
+    const expandConfig = expandConfigResult.ok
+      ? expandConfigResult.value
+      : DEFAULT_CONFIG;
+    const ignoreRules = await ignoreService.loadRules();
+    const replayResult = replayService.expandSegment(
+      context.conversation.messages,
+      segment,
+      {
+        maxTokens: Math.floor(
+          (expandConfig.contextWindowSize * expandConfig.maxReplayPercent) /
+            100,
+        ),
+        stoppingPoints: context.replayMetadata?.allStoppingPoints,
+        ignore: ignoreRules.ok ? ignoreRules.value : undefined,
+        subagents: context.conversation.subagents,
+      },
+    );
+    if (!replayResult.ok) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Error expanding segment: ${replayResult.error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: [
+            `# Segment ${segment} of ${replayResult.value.allStoppingPoints.length}`,
+            '',
+            `**Ended by:** ${replayResult.value.allStoppingPoints[replayResult.value.currentStopIndex]?.type ?? 'none'}`,
+            `**Messages:** ${replayResult.value.messageCount}`,
+            `**Tokens:** ~${replayResult.value.tokenCount}`,
+            ...(replayResult.value.stoppingPointType === 'token_budget'
+              ? ['', '*Cut short by the token budget.*']
+              : []),
+            '',
+            replayResult.value.replay,
+          ].join('\n'),
+        },
+      ],
+    };
+  };
+
   // Register ben_ten_loadMore tool
   server.registerTool(
     'ben_ten_loadMore',
     {
       description:
-        'Load more conversation context by going back to the previous stopping point. Call repeatedly to load progressively more context.',
-      inputSchema: {},
+        'Load more conversation context by going back to the previous stopping point. Call repeatedly to load progressively more context. Pass "segment" to expand one digested segment instead.',
+      inputSchema: {
+        segment: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            'Number of a digested segment to show in full, as in "Segment N" of the replay. The replay window is left as it is.',
+          ),
+      },
     },
-    async () => {
+    async ({ segment }) => {
       // Load existing context
       const loadResult = await contextService.loadContext();
       if (!loadResult.ok) {
@@ -616,6 +1162,10 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
 
       const context = loadResult.value;
 
+      if (segment !== undefined) {
+        return expandSegment(context, segment);
+      }
+
       // Check if we have replay metadata with stopping points
       if (
         !context.replayMetadata?.allStoppingPoints ||
@@ -668,13 +1218,19 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           100,
       );
 
-      // Generate new replay with next stopping point
+      // Generate new replay with next stopping point, honoring rules added
+      // to .ben-ten/ignore since the save
+      const ignoreRules = await ignoreService.loadRules();
       const replayResult = replayService.generateReplay(
         context.conversation.messages,
         {
           maxTokens,
           stopPointIndex: nextIndex,
           stoppingPoints: context.replayMetadata.allStoppingPoints,
+          ignore: ignoreRules.ok ? ignoreRules.value : undefined,
+          subagents: context.conversation.subagents,
+          mode: loadMoreConfig.replayMode,
+          digests: loadMoreConfig.segmentDigests,
         },
       );
 
@@ -703,10 +1259,16 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
           allStoppingPoints: replayResult.value.allStoppingPoints,
           currentStopIndex: replayResult.value.currentStopIndex,
           startMessageIndex: replayResult.value.startMessageIndex,
+          tokenizer: tokenCounter.name,
+          heuristicTokenCount: replayResult.value.heuristicTokenCount,
+          digestCount: replayResult.value.digests?.length,
         },
       };
 
-      const saveResult = await contextService.saveContext(updatedContext);
+      // Only the replay window changed, so don't add a history generation
+      const saveResult = await contextService.saveContext(updatedContext, {
+        snapshot: false,
+      });
       if (!saveResult.ok) {
         return {
           content: [
@@ -736,10 +1298,20 @@ export const startMcpServer = async (deps: McpTransportDeps): Promise<void> => {
               `**Type:** ${replayResult.value.stoppingPointType || 'none'}`,
               `**Messages:** ${replayResult.value.messageCount}`,
               `**Tokens:** ~${replayResult.value.tokenCount}`,
+              ...(replayResult.value.digests
+                ? [
+                    `**Digested segments:** ${replayResult.value.digests.length}`,
+                  ]
+                : []),
               '',
               remainingStops > 0
                 ? `*${remainingStops} more stopping point${remainingStops > 1 ? 's' : ''} available. Call ben_ten_loadMore again to load more.*`
                 : '*This is the earliest stopping point.*',
+              ...(replayResult.value.digests?.length
+                ? [
+                    '*Call ben_ten_loadMore with segment=N to show one digested segment in full.*',
+                  ]
+                : []),
               '',
               replayResult.value.replay,
             ].join('\n'),
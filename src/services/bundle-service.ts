@@ -0,0 +1,616 @@
+import { gunzipSync, gzipSync } from 'node:zlib';
+import type { FileSystem, LockOptions } from '../adapters/fs/memory-fs.js';
+import {
+  type BundleManifest,
+  BundleManifestSchema,
+  CONTEXT_VERSION,
+  type ContextData,
+  type ContextMetadata,
+  type SnapshotInfo,
+  SnapshotInfoSchema,
+  downgradeContextData,
+  migrateContextData,
+  parseContextMetadata,
+} from '../core/types.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+  isUnreadableDataError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import type { CompressionSetting } from './compression-service.js';
+import { type BenTenConfig, createConfigService } from './config-service.js';
+import {
+  BEN10_DIR,
+  LOCK_FILE,
+  createContextService,
+  hashDirectory,
+} from './context-service.js';
+import { createObjectStoreService } from './object-store-service.js';
+import type { ProjectIdentifierService } from './project-identifier-service.js';
+import { createSnapshotService } from './snapshot-service.js';
+
+/** Value of the manifest `format` field */
+export const BUNDLE_FORMAT = 'ben-ten-bundle';
+
+/** Current version of the bundle layout */
+export const BUNDLE_VERSION = 1;
+
+/** File extension for bundles */
+export const BUNDLE_EXTENSION = '.btb';
+
+/** A previous context generation carried in a bundle */
+export interface BundledSnapshot {
+  /** Snapshot info as it was in the exporting project */
+  info: SnapshotInfo;
+  /** The snapshotted context, with its conversation inlined */
+  context: ContextData;
+}
+
+/**
+ * Everything needed to recreate a project's context elsewhere.
+ * Conversations are inlined, and nothing in a bundle is encrypted.
+ */
+export interface ContextBundle {
+  manifest: BundleManifest;
+  /** The current context, with its conversation inlined */
+  context: ContextData;
+  metadata?: ContextMetadata;
+  /** Config without encryption settings or the remote API key */
+  config?: Partial<BenTenConfig>;
+  /** Snapshot history, most recent first */
+  snapshots: BundledSnapshot[];
+}
+
+/**
+ * Outcome of an export.
+ */
+export interface ExportResult {
+  /** The encoded bundle */
+  data: Buffer;
+  manifest: BundleManifest;
+  /** IDs of snapshots left out because they could not be read */
+  skippedSnapshots: string[];
+}
+
+/**
+ * How an import treats existing local context:
+ * - merge: keep local context, history and settings; the newer of the two
+ *   contexts becomes current and the other joins the history
+ * - overwrite: replace local context, history and settings with the bundle's
+ */
+export type ImportMode = 'merge' | 'overwrite';
+
+/**
+ * Options for an import.
+ */
+export interface ImportOptions {
+  /**
+   * How to treat existing local context. Required when the project already
+   * has context or the bundle comes from a different project.
+   */
+  mode?: ImportMode;
+}
+
+/**
+ * Outcome of an import.
+ */
+export interface ImportResult {
+  mode: ImportMode;
+  /** Whether the bundle's context is now the current context */
+  bundleContextCurrent: boolean;
+  /** Number of bundle generations added to history */
+  snapshotsAdded: number;
+  /** Whether the bundle was exported from a different project */
+  projectMismatch: boolean;
+}
+
+/**
+ * Service for moving a project's context between machines and repos as a
+ * single file, without a remote server.
+ */
+export interface BundleService {
+  /**
+   * Export the context, metadata, config and snapshot history as a bundle.
+   * Unreadable snapshots are left out and listed in the result.
+   *
+   * @returns Result with the encoded bundle or error
+   */
+  exportBundle(): Promise<Result<ExportResult, BenTenError>>;
+
+  /**
+   * Decode and validate a bundle, migrating older context versions.
+   *
+   * @param data - The encoded bundle
+   * @returns Result with the bundle, BUNDLE_INVALID or CONTEXT_VERSION_MISMATCH
+   */
+  readBundle(data: Buffer): Result<ContextBundle, BenTenError>;
+
+  /**
+   * Import a bundle into this project. Without a mode, fails with
+   * BUNDLE_CONFLICT if the project already has context or the bundle was
+   * exported from a different project. Holds the .ben-ten lock throughout,
+   * failing with CONTEXT_LOCKED if another writer holds it.
+   *
+   * @param bundle - A bundle from readBundle
+   * @param options - How to treat existing local context
+   * @returns Result with what was imported or error
+   */
+  importBundle(
+    bundle: ContextBundle,
+    options?: ImportOptions,
+  ): Promise<Result<ImportResult, BenTenError>>;
+}
+
+export interface BundleServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  projectDir: string;
+  /** Identifies the project in manifests and on import */
+  projectIdentifier: ProjectIdentifierService;
+  /** Number of previous generations to keep (default: 10) */
+  maxSnapshots?: number;
+  /** Lock acquisition settings for writes */
+  lockOptions?: LockOptions;
+  /** Key the local context files are encrypted with */
+  encryptionKey?: Buffer;
+  /** Compression codec for imported files */
+  compression?: CompressionSetting;
+  /** Context schema version to export and write (default: current) */
+  targetVersion?: string;
+}
+
+/** Identifies a context generation across projects */
+const generationKey = (context: ContextData): string =>
+  `${context.sessionId}@${context.updatedAt}`;
+
+/** Builds a BUNDLE_INVALID error */
+const invalidBundle = (
+  message: string,
+  details?: Record<string, unknown>,
+): BenTenError => createError(ErrorCode.BUNDLE_INVALID, message, details);
+
+/**
+ * Drops settings that only make sense on the exporting machine: the
+ * encryption key location and the remote API key.
+ */
+const portableConfig = (config: Partial<BenTenConfig>) => {
+  const { encryption: _encryption, ...portable } = config;
+  if (portable.remote) {
+    const { apiKey: _apiKey, ...remote } = portable.remote;
+    portable.remote = remote;
+  }
+  return portable;
+};
+
+/**
+ * Creates a service that exports and imports context bundles.
+ *
+ * A bundle is gzip-compressed JSON: a manifest naming the exporting project,
+ * the current context, metadata, portable config and snapshot history.
+ *
+ * @param deps - Dependencies including file system, logger and project path
+ * @returns A BundleService instance
+ * @example
+ * const bundles = createBundleService({ fs, logger, projectDir, projectIdentifier });
+ * const exported = await bundles.exportBundle();
+ */
+export const createBundleService = (deps: BundleServiceDeps): BundleService => {
+  const { fs, logger, projectDir, projectIdentifier } = deps;
+  const { encryptionKey, compression, targetVersion } = deps;
+  const benTenDir = `${projectDir}/${BEN10_DIR}`;
+  const contextService = createContextService(deps);
+  // Writes made while importBundle holds the lock
+  const lockedContextService = createContextService({
+    ...deps,
+    lockHeld: true,
+  });
+  const configService = createConfigService({ fs, logger, projectDir });
+  const snapshots = createSnapshotService({
+    fs,
+    logger,
+    benTenDir,
+    maxSnapshots: deps.maxSnapshots,
+    encryptionKey,
+    compression,
+    targetVersion,
+  });
+  const objects = createObjectStoreService({
+    fs,
+    logger,
+    benTenDir,
+    encryptionKey,
+    compression,
+  });
+
+  /** Convert a context to the schema version bundles are written in */
+  const toExportVersion = (
+    context: ContextData,
+  ): Result<ContextData, BenTenError> =>
+    targetVersion ? downgradeContextData(context, targetVersion) : ok(context);
+
+  /** Store a bundled context in history, sharing chunks with local ones */
+  const addSnapshot = async (
+    context: ContextData,
+    createdAt: number,
+  ): Promise<Result<void, BenTenError>> => {
+    const storedResult = await objects.externalizeConversation(context);
+    if (!storedResult.ok) {
+      return err(storedResult.error);
+    }
+    const snapshotResult = await snapshots.createSnapshot(
+      storedResult.value,
+      createdAt,
+    );
+    if (!snapshotResult.ok) {
+      return err(snapshotResult.error);
+    }
+    return ok(undefined);
+  };
+
+  /** Import a bundle; the caller holds the .ben-ten lock */
+  const importLocked = async (
+    bundle: ContextBundle,
+    options: ImportOptions,
+  ): Promise<Result<ImportResult, BenTenError>> => {
+    const identifierResult =
+      await projectIdentifier.getProjectIdentifier(projectDir);
+    if (!identifierResult.ok) {
+      return err(identifierResult.error);
+    }
+    const local = identifierResult.value;
+    const source = bundle.manifest.project;
+    const projectMismatch = local.projectHash !== source.projectHash;
+    const hasLocalContext = await contextService.hasContext();
+
+    const { mode } = options;
+    if (mode === undefined && (projectMismatch || hasLocalContext)) {
+      return err(
+        createError(
+          ErrorCode.BUNDLE_CONFLICT,
+          projectMismatch
+            ? `Bundle was exported from ${source.projectName} (${source.projectHash}), not this project (${local.projectHash}); choose merge or overwrite`
+            : 'This project already has context; choose merge or overwrite',
+          {
+            bundleProject: source,
+            localProject: local,
+            hasLocalContext,
+          },
+        ),
+      );
+    }
+    const importMode = mode ?? 'merge';
+
+    // Local generations, to avoid importing the same one twice
+    const localGenerations = new Set<string>();
+    let localContext: ContextData | undefined;
+    if (importMode === 'overwrite') {
+      const listResult = await snapshots.listSnapshots();
+      if (!listResult.ok) {
+        return err(listResult.error);
+      }
+      for (const entry of listResult.value) {
+        const deleteResult = await snapshots.deleteSnapshot(entry.id);
+        if (!deleteResult.ok) {
+          return err(deleteResult.error);
+        }
+      }
+    } else {
+      if (hasLocalContext) {
+        const loadResult = await contextService.loadContext({
+          sections: ['summary'],
+        });
+        if (!loadResult.ok) {
+          return err(loadResult.error);
+        }
+        localContext = loadResult.value;
+        localGenerations.add(generationKey(localContext));
+      }
+      const listResult = await snapshots.listSnapshots();
+      if (!listResult.ok) {
+        return err(listResult.error);
+      }
+      for (const entry of listResult.value) {
+        localGenerations.add(`${entry.sessionId}@${entry.updatedAt}`);
+      }
+    }
+
+    // Oldest first, so retention drops the oldest generations
+    let snapshotsAdded = 0;
+    for (const snapshot of [...bundle.snapshots].reverse()) {
+      if (localGenerations.has(generationKey(snapshot.context))) {
+        continue;
+      }
+      const addResult = await addSnapshot(
+        snapshot.context,
+        snapshot.info.createdAt,
+      );
+      if (!addResult.ok) {
+        return err(addResult.error);
+      }
+      localGenerations.add(generationKey(snapshot.context));
+      snapshotsAdded++;
+    }
+
+    // The newer context is current; a merged older one joins the history
+    const bundleContext = bundle.context;
+    const bundleContextCurrent =
+      localContext === undefined ||
+      bundleContext.updatedAt > localContext.updatedAt;
+    if (bundleContextCurrent) {
+      const saveResult = await lockedContextService.saveContext(bundleContext, {
+        snapshot: importMode === 'merge',
+      });
+      if (!saveResult.ok) {
+        return err(saveResult.error);
+      }
+    } else if (!localGenerations.has(generationKey(bundleContext))) {
+      const addResult = await addSnapshot(
+        bundleContext,
+        bundle.manifest.exportedAt,
+      );
+      if (!addResult.ok) {
+        return err(addResult.error);
+      }
+      snapshotsAdded++;
+    }
+
+    // Config: the bundle's settings win on overwrite, local ones on merge
+    if (bundle.config) {
+      const configResult = await configService.loadConfig();
+      if (!configResult.ok) {
+        return err(configResult.error);
+      }
+      const localConfig = configResult.value;
+      const imported = portableConfig(bundle.config);
+      let updates: Partial<BenTenConfig>;
+      if (importMode === 'overwrite') {
+        updates = imported;
+        if (imported.remote) {
+          updates.remote = {
+            ...imported.remote,
+            apiKey: localConfig.remote?.apiKey,
+          };
+        }
+      } else {
+        updates = Object.fromEntries(
+          Object.entries(imported).filter(
+            ([key]) => localConfig[key as keyof BenTenConfig] === undefined,
+          ),
+        );
+      }
+      const saveResult = await configService.saveConfig(updates);
+      if (!saveResult.ok) {
+        return err(saveResult.error);
+      }
+    }
+
+    // Metadata always describes this directory
+    const localMetadata = await contextService.loadMetadata();
+    const current = bundleContextCurrent ? bundleContext : localContext;
+    if (current) {
+      const sessionCounts = [
+        localMetadata.ok && importMode === 'merge'
+          ? localMetadata.value.sessionCount
+          : 0,
+        bundle.metadata?.sessionCount ?? 0,
+      ];
+      const metadata: ContextMetadata = {
+        directory: projectDir,
+        directoryHash: hashDirectory(projectDir),
+        lastSessionId: current.sessionId,
+        sessionCount: Math.max(1, ...sessionCounts),
+        lastSavedAt: current.updatedAt,
+      };
+      if (!bundleContextCurrent && localMetadata.ok) {
+        metadata.transcriptPath = localMetadata.value.transcriptPath;
+      }
+      const saveResult = await lockedContextService.saveMetadata(metadata);
+      if (!saveResult.ok) {
+        return err(saveResult.error);
+      }
+    }
+
+    logger.info('Context bundle imported', {
+      mode: importMode,
+      from: source.projectHash,
+      bundleContextCurrent,
+      snapshotsAdded,
+    });
+
+    return ok({
+      mode: importMode,
+      bundleContextCurrent,
+      snapshotsAdded,
+      projectMismatch,
+    });
+  };
+
+  const service: BundleService = {
+    async exportBundle() {
+      const contextResult = await contextService.loadContext();
+      if (!contextResult.ok) {
+        return err(contextResult.error);
+      }
+      const currentResult = toExportVersion(contextResult.value);
+      if (!currentResult.ok) {
+        return err(currentResult.error);
+      }
+
+      const identifierResult =
+        await projectIdentifier.getProjectIdentifier(projectDir);
+      if (!identifierResult.ok) {
+        return err(identifierResult.error);
+      }
+
+      const listResult = await snapshots.listSnapshots();
+      if (!listResult.ok) {
+        return err(listResult.error);
+      }
+      const bundled: BundledSnapshot[] = [];
+      const skippedSnapshots: string[] = [];
+      for (const info of listResult.value) {
+        const loadResult = await snapshots.loadSnapshot(info.id);
+        const inlineResult = loadResult.ok
+          ? await objects.inlineConversation(loadResult.value)
+          : loadResult;
+        const exportResult = inlineResult.ok
+          ? toExportVersion(inlineResult.value)
+          : inlineResult;
+        if (!exportResult.ok) {
+          if (isUnreadableDataError(exportResult.error)) {
+            return err(exportResult.error);
+          }
+          logger.warn('Leaving unreadable snapshot out of bundle', {
+            id: info.id,
+            error: exportResult.error.message,
+          });
+          skippedSnapshots.push(info.id);
+          continue;
+        }
+        bundled.push({ info, context: exportResult.value });
+      }
+
+      const metadataResult = await contextService.loadMetadata();
+      const configResult = (await fs.exists(configService.getConfigPath()))
+        ? await configService.loadConfig()
+        : undefined;
+
+      const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        bundleVersion: BUNDLE_VERSION,
+        contextVersion: targetVersion ?? CONTEXT_VERSION,
+        exportedAt: Date.now(),
+        project: identifierResult.value,
+        sessionId: currentResult.value.sessionId,
+        snapshotCount: bundled.length,
+      };
+      const bundle: ContextBundle = {
+        manifest,
+        context: currentResult.value,
+        metadata: metadataResult.ok ? metadataResult.value : undefined,
+        config: configResult?.ok
+          ? portableConfig(configResult.value)
+          : undefined,
+        snapshots: bundled,
+      };
+
+      logger.info('Context bundle exported', {
+        sessionId: manifest.sessionId,
+        snapshots: bundled.length,
+        skipped: skippedSnapshots.length,
+      });
+
+      return ok({
+        data: gzipSync(JSON.stringify(bundle)),
+        manifest,
+        skippedSnapshots,
+      });
+    },
+
+    readBundle(data) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(gunzipSync(data).toString('utf-8'));
+      } catch (e) {
+        return err(
+          invalidBundle('File is not a Ben-Ten bundle', {
+            originalError: e instanceof Error ? e.message : String(e),
+          }),
+        );
+      }
+      if (typeof parsed !== 'object' || parsed === null) {
+        return err(invalidBundle('File is not a Ben-Ten bundle'));
+      }
+      const raw = parsed as Record<string, unknown>;
+
+      const manifestResult = BundleManifestSchema.safeParse(raw.manifest);
+      if (!manifestResult.success) {
+        return err(
+          invalidBundle('Bundle manifest is missing or invalid', {
+            validationErrors: manifestResult.error.errors,
+          }),
+        );
+      }
+      const manifest = manifestResult.data;
+      if (manifest.bundleVersion > BUNDLE_VERSION) {
+        return err(
+          invalidBundle(
+            `Bundle version ${manifest.bundleVersion} is newer than this version of Ben-Ten supports (${BUNDLE_VERSION}); upgrade Ben-Ten to import it`,
+          ),
+        );
+      }
+
+      const contextResult = migrateContextData(raw.context);
+      if (!contextResult.ok) {
+        if (isUnreadableDataError(contextResult.error)) {
+          return err(contextResult.error);
+        }
+        return err(
+          invalidBundle('Bundle context is invalid', {
+            originalError: contextResult.error.message,
+          }),
+        );
+      }
+
+      let metadata: ContextMetadata | undefined;
+      if (raw.metadata !== undefined) {
+        const metadataResult = parseContextMetadata(raw.metadata);
+        if (!metadataResult.ok) {
+          return err(invalidBundle('Bundle metadata is invalid'));
+        }
+        metadata = metadataResult.value;
+      }
+
+      if (
+        raw.config !== undefined &&
+        (typeof raw.config !== 'object' || raw.config === null)
+      ) {
+        return err(invalidBundle('Bundle config is invalid'));
+      }
+
+      const bundled: BundledSnapshot[] = [];
+      for (const entry of Array.isArray(raw.snapshots) ? raw.snapshots : []) {
+        const infoResult = SnapshotInfoSchema.safeParse(entry?.info);
+        const snapshotResult = migrateContextData(entry?.context);
+        if (!infoResult.success || !snapshotResult.ok) {
+          return err(invalidBundle('Bundle snapshot is invalid'));
+        }
+        bundled.push({ info: infoResult.data, context: snapshotResult.value });
+      }
+
+      return ok({
+        manifest,
+        context: contextResult.value,
+        metadata,
+        config: raw.config as Partial<BenTenConfig> | undefined,
+        snapshots: bundled,
+      });
+    },
+
+    async importBundle(bundle, options = {}) {
+      // Overwrites delete history and every mode adds to it, so hold the
+      // lock throughout rather than only for the final save
+      const lockPath = `${benTenDir}/${LOCK_FILE}`;
+      const lockResult = await fs.lock(lockPath, deps.lockOptions);
+      if (!lockResult.ok) {
+        return err(lockResult.error);
+      }
+      try {
+        return await importLocked(bundle, options);
+      } finally {
+        const releaseResult = await lockResult.value.release();
+        if (!releaseResult.ok) {
+          logger.warn('Failed to release context lock', {
+            path: lockPath,
+            error: releaseResult.error.message,
+          });
+        }
+      }
+    },
+  };
+
+  return service;
+};
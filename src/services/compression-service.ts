@@ -1,3 +1,10 @@
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  gunzipSync,
+  gzipSync,
+  constants as zlibConstants,
+} from 'node:zlib';
 import * as lz4 from 'lz4js';
 import {
   type BenTenError,
@@ -6,12 +13,99 @@ import {
 } from '../infrastructure/errors.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
 
+/** Names of the available compression codecs */
+export type CompressionCodec = 'none' | 'lz4' | 'gzip' | 'brotli';
+
+/** Codec selection in config: a fixed codec, or 'auto' to choose by size */
+export type CompressionSetting = 'lz4' | 'gzip' | 'brotli' | 'auto';
+
+/** All codecs in the registry */
+export const COMPRESSION_CODECS: readonly CompressionCodec[] = [
+  'none',
+  'lz4',
+  'gzip',
+  'brotli',
+];
+
+/** Valid values for the compression config setting */
+export const COMPRESSION_SETTINGS: readonly CompressionSetting[] = [
+  'lz4',
+  'gzip',
+  'brotli',
+  'auto',
+];
+
+/** Payloads at least this large use Brotli under 'auto'; smaller use LZ4 */
+export const AUTO_BROTLI_THRESHOLD = 64 * 1024;
+
 /**
- * Service for compressing and decompressing binary data using LZ4.
+ * Brotli quality used for saves. On a 4 MB transcript, quality 5 compressed
+ * about 2.6x smaller than LZ4 in about 1.5x its time (65 ms vs 46 ms);
+ * quality 11 was another 20% smaller but took over 5 seconds.
+ */
+const BROTLI_QUALITY = 5;
+
+/**
+ * Raw codec implementation. Throws on failure; wrapped by the service.
+ */
+interface CodecImpl {
+  compress(data: Uint8Array): Buffer;
+  decompress(data: Uint8Array): Buffer;
+}
+
+/** Registry of codec implementations by name */
+const CODECS: Record<CompressionCodec, CodecImpl> = {
+  none: {
+    compress: (data) => Buffer.from(data),
+    decompress: (data) => Buffer.from(data),
+  },
+  lz4: {
+    // lz4js expects Uint8Array
+    compress: (data) => Buffer.from(lz4.compress(new Uint8Array(data))),
+    decompress: (data) => Buffer.from(lz4.decompress(new Uint8Array(data))),
+  },
+  gzip: {
+    compress: (data) => gzipSync(data),
+    decompress: (data) => gunzipSync(data),
+  },
+  brotli: {
+    compress: (data) =>
+      brotliCompressSync(data, {
+        params: {
+          [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY,
+          [zlibConstants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        },
+      }),
+    decompress: (data) => brotliDecompressSync(data),
+  },
+};
+
+/**
+ * Picks the codec to use for a save.
+ *
+ * @param setting - Configured compression setting (default: 'lz4')
+ * @param size - Uncompressed payload size in bytes
+ * @returns The codec to compress with
+ */
+export const selectCompressionCodec = (
+  setting: CompressionSetting | undefined,
+  size: number,
+): CompressionCodec => {
+  if (setting === 'auto') {
+    return size >= AUTO_BROTLI_THRESHOLD ? 'brotli' : 'lz4';
+  }
+  return setting ?? 'lz4';
+};
+
+/**
+ * Service for compressing and decompressing binary data with one codec.
  */
 export interface CompressionService {
+  /** The codec this service uses */
+  readonly codec: CompressionCodec;
+
   /**
-   * Compresses data using LZ4 algorithm.
+   * Compresses data with this service's codec.
    *
    * @param data - The data to compress
    * @returns Compressed buffer or error
@@ -19,7 +113,7 @@ export interface CompressionService {
   compress(data: Buffer): Result<Buffer, BenTenError>;
 
   /**
-   * Decompresses LZ4-compressed data.
+   * Decompresses data produced by this service's codec.
    *
    * @param data - The compressed data
    * @returns Decompressed buffer or error
@@ -28,18 +122,25 @@ export interface CompressionService {
 }
 
 /**
- * Creates a compression service using LZ4 algorithm.
+ * Creates a compression service for a codec from the registry.
  *
+ * @param codec - Codec to use (default: 'lz4')
  * @returns A CompressionService instance
  * @example
- * const compression = createCompressionService();
+ * const compression = createCompressionService('brotli');
  * const compressed = compression.compress(Buffer.from('hello'));
  * if (compressed.ok) {
  *   const decompressed = compression.decompress(compressed.value);
  * }
  */
-export const createCompressionService = (): CompressionService => {
+export const createCompressionService = (
+  codec: CompressionCodec = 'lz4',
+): CompressionService => {
+  const impl = CODECS[codec];
+
   const service: CompressionService = {
+    codec,
+
     compress(data) {
       try {
         // Handle empty buffer
@@ -47,14 +148,11 @@ export const createCompressionService = (): CompressionService => {
           return ok(Buffer.alloc(0));
         }
 
-        // lz4js expects Uint8Array
-        const input = new Uint8Array(data);
-        const compressed = lz4.compress(input);
-
-        return ok(Buffer.from(compressed));
+        return ok(impl.compress(data));
       } catch (e) {
         return err(
           createError(ErrorCode.SERIALIZE_FAILED, 'Failed to compress data', {
+            codec,
             error: e instanceof Error ? e.message : String(e),
           }),
         );
@@ -68,17 +166,13 @@ export const createCompressionService = (): CompressionService => {
           return ok(Buffer.alloc(0));
         }
 
-        // lz4js expects Uint8Array
-        const input = new Uint8Array(data);
-        const decompressed = lz4.decompress(input);
-
-        return ok(Buffer.from(decompressed));
+        return ok(impl.decompress(data));
       } catch (e) {
         return err(
           createError(
             ErrorCode.DESERIALIZE_FAILED,
             'Failed to decompress data',
-            { error: e instanceof Error ? e.message : String(e) },
+            { codec, error: e instanceof Error ? e.message : String(e) },
           ),
         );
       }
@@ -1,4 +1,5 @@
 import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import { CONTEXT_VERSIONS } from '../core/types.js';
 import {
   type BenTenError,
   ErrorCode,
@@ -6,7 +7,17 @@ import {
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  COMPRESSION_SETTINGS,
+  type CompressionSetting,
+} from './compression-service.js';
 import { BEN10_DIR } from './context-service.js';
+import { REPLAY_MODES, type ReplayMode } from './replay-service.js';
+import {
+  TOKENIZER_SETTINGS,
+  type TokenizerSetting,
+} from './token-counter-service.js';
+import type { ToolFormatterRule } from './tool-formatter-service.js';
 
 /** Config file name within .ben-ten directory */
 export const CONFIG_FILE = 'config.json';
@@ -25,6 +36,39 @@ export interface RemoteConfig {
   autoSync?: boolean;
 }
 
+/**
+ * At-rest encryption configuration for context files.
+ * The key is never stored in config, only where to find it.
+ */
+export interface EncryptionConfig {
+  /** Whether context files are encrypted */
+  enabled: boolean;
+  /** Path to a file holding the key (relative to the project directory) */
+  keyFile?: string;
+  /** Environment variable holding the key (default: BEN_TEN_ENCRYPTION_KEY) */
+  keyEnv?: string;
+}
+
+/**
+ * A custom secret pattern to redact, in addition to the built-in detectors.
+ */
+export interface RedactionPattern {
+  /** Name shown in the redaction marker, e.g. [REDACTED:internal_token] */
+  name: string;
+  /** Regular expression source, matched globally */
+  pattern: string;
+}
+
+/**
+ * Secret redaction applied to context before it is saved.
+ */
+export interface RedactionConfig {
+  /** Whether secrets are redacted (default: true) */
+  enabled: boolean;
+  /** Custom patterns to redact */
+  patterns?: RedactionPattern[];
+}
+
 /**
  * Ben-Ten configuration options.
  */
@@ -33,8 +77,32 @@ export interface BenTenConfig {
   maxReplayPercent: number;
   /** Assumed context window size in tokens (default: 100000) */
   contextWindowSize: number;
+  /** Number of previous context generations to keep (0-100, default: 10) */
+  maxSnapshots?: number;
+  /** Compression codec for saves, or 'auto' to choose by size (default: lz4) */
+  compression?: CompressionSetting;
+  /** Context schema version to write, for older peers (default: current) */
+  contextVersion?: string;
   /** Remote server configuration */
   remote?: RemoteConfig;
+  /** At-rest encryption configuration */
+  encryption?: EncryptionConfig;
+  /** Secret redaction configuration */
+  redaction?: RedactionConfig;
+  /** Extra directories holding Claude Code project folders, searched for transcripts */
+  transcriptRoots?: string[];
+  /**
+   * Token counter for replay budgets and token counts: bpe approximates a
+   * byte-pair tokenizer without its vocabulary, heuristic takes 4 characters
+   * per token (default: bpe)
+   */
+  tokenizer?: TokenizerSetting;
+  /** How replays pick messages: newest first or by importance (default: chronological) */
+  replayMode?: ReplayMode;
+  /** Digest the conversation before the replay's stopping point (default: false) */
+  segmentDigests?: boolean;
+  /** Replay formatters for tools without a built-in one, tried first */
+  toolFormatters?: ToolFormatterRule[];
 }
 
 /** Default configuration values */
@@ -116,6 +184,102 @@ const validateRemoteConfig = (remote: unknown): RemoteConfig | undefined => {
   };
 };
 
+/**
+ * Validates encryption configuration.
+ *
+ * @param encryption - Encryption config to validate
+ * @returns Validated encryption config or undefined
+ */
+const validateEncryptionConfig = (
+  encryption: unknown,
+): EncryptionConfig | undefined => {
+  if (!encryption || typeof encryption !== 'object') {
+    return undefined;
+  }
+
+  const e = encryption as Record<string, unknown>;
+  const validated: EncryptionConfig = {
+    enabled: typeof e.enabled === 'boolean' ? e.enabled : false,
+  };
+  if (typeof e.keyFile === 'string' && e.keyFile) {
+    validated.keyFile = e.keyFile;
+  }
+  if (typeof e.keyEnv === 'string' && e.keyEnv) {
+    validated.keyEnv = e.keyEnv;
+  }
+  return validated;
+};
+
+/**
+ * Validates redaction configuration.
+ * Patterns without a name or that are not valid regular expressions are dropped.
+ *
+ * @param redaction - Redaction config to validate
+ * @returns Validated redaction config or undefined
+ */
+const validateRedactionConfig = (
+  redaction: unknown,
+): RedactionConfig | undefined => {
+  if (!redaction || typeof redaction !== 'object') {
+    return undefined;
+  }
+
+  const r = redaction as Record<string, unknown>;
+  const validated: RedactionConfig = {
+    enabled: typeof r.enabled === 'boolean' ? r.enabled : true,
+  };
+  if (Array.isArray(r.patterns)) {
+    validated.patterns = r.patterns.filter(
+      (p): p is RedactionPattern =>
+        typeof p?.name === 'string' &&
+        p.name.length > 0 &&
+        typeof p.pattern === 'string' &&
+        isValidPattern(p.pattern),
+    );
+  }
+  return validated;
+};
+
+/**
+ * Validates tool formatter rules.
+ * Rules without a tool name or a template are dropped.
+ *
+ * @param rules - Rules to validate
+ * @returns Valid rules, or undefined if the setting is not a list
+ */
+const validateToolFormatters = (
+  rules: unknown,
+): ToolFormatterRule[] | undefined => {
+  if (!Array.isArray(rules)) {
+    return undefined;
+  }
+
+  return rules
+    .filter(
+      (r) =>
+        typeof r?.tool === 'string' &&
+        r.tool.length > 0 &&
+        typeof r.template === 'string',
+    )
+    .map((r) => ({
+      tool: r.tool,
+      template: r.template,
+      ...(typeof r.label === 'string' && r.label ? { label: r.label } : {}),
+    }));
+};
+
+/**
+ * Checks whether a string compiles as a regular expression.
+ */
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'g');
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+};
+
 /**
  * Validates and normalizes configuration values.
  * Clamps values to valid ranges.
@@ -141,12 +305,57 @@ const validateConfig = (config: Partial<BenTenConfig>): BenTenConfig => {
     );
   }
 
+  if (typeof config.maxSnapshots === 'number') {
+    validated.maxSnapshots = clamp(Math.floor(config.maxSnapshots), 0, 100);
+  }
+
+  if (COMPRESSION_SETTINGS.includes(config.compression as CompressionSetting)) {
+    validated.compression = config.compression;
+  }
+
+  if (REPLAY_MODES.includes(config.replayMode as ReplayMode)) {
+    validated.replayMode = config.replayMode;
+  }
+
+  if (typeof config.segmentDigests === 'boolean') {
+    validated.segmentDigests = config.segmentDigests;
+  }
+
+  const toolFormatters = validateToolFormatters(config.toolFormatters);
+  if (toolFormatters) {
+    validated.toolFormatters = toolFormatters;
+  }
+
+  if (TOKENIZER_SETTINGS.includes(config.tokenizer as TokenizerSetting)) {
+    validated.tokenizer = config.tokenizer;
+  }
+
+  if (CONTEXT_VERSIONS.includes(config.contextVersion as string)) {
+    validated.contextVersion = config.contextVersion;
+  }
+
   // Validate and preserve remote config
   const remoteConfig = validateRemoteConfig(config.remote);
   if (remoteConfig) {
     validated.remote = remoteConfig;
   }
 
+  const encryptionConfig = validateEncryptionConfig(config.encryption);
+  if (encryptionConfig) {
+    validated.encryption = encryptionConfig;
+  }
+
+  const redactionConfig = validateRedactionConfig(config.redaction);
+  if (redactionConfig) {
+    validated.redaction = redactionConfig;
+  }
+
+  if (Array.isArray(config.transcriptRoots)) {
+    validated.transcriptRoots = config.transcriptRoots.filter(
+      (root): root is string => typeof root === 'string' && root.length > 0,
+    );
+  }
+
   return validated;
 };
 
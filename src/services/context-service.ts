@@ -1,18 +1,35 @@
-import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import type { FileSystem, LockOptions } from '../adapters/fs/memory-fs.js';
 import {
   type ContextData,
   type ContextMetadata,
-  parseContextData,
+  type SnapshotInfo,
+  downgradeContextData,
+  migrateContextData,
   parseContextMetadata,
 } from '../core/types.js';
 import {
   type BenTenError,
   ErrorCode,
   createError,
+  isEncryptionKeyError,
+  isUnreadableDataError,
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
-import { createSerializerService } from './serializer-service.js';
+import type { CompressionSetting } from './compression-service.js';
+import {
+  type GarbageCollectionResult,
+  createObjectStoreService,
+} from './object-store-service.js';
+import {
+  type DeserializeOptions,
+  createSerializerService,
+  requiresV1Format,
+} from './serializer-service.js';
+import {
+  SNAPSHOT_EXTENSION,
+  createSnapshotService,
+} from './snapshot-service.js';
 
 /** Directory name for Ben-Ten storage */
 export const BEN10_DIR = '.ben-ten';
@@ -26,6 +43,57 @@ export const CONTEXT_FILE_LEGACY = 'context.json';
 /** Metadata file name */
 export const METADATA_FILE = 'metadata.json';
 
+/** Advisory lock file guarding writes to the .ben-ten directory */
+export const LOCK_FILE = 'context.lock';
+
+/**
+ * Simple hash function for directory paths, stored in metadata.
+ *
+ * @param path - Absolute project directory
+ * @returns Short hex hash
+ */
+export const hashDirectory = (path: string): string => {
+  let hash = 0;
+  for (let i = 0; i < path.length; i++) {
+    const char = path.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return Math.abs(hash).toString(16);
+};
+
+/**
+ * Outcome of garbage collection over the context and its history.
+ */
+export interface ContextGarbageCollectionResult
+  extends GarbageCollectionResult {
+  /** IDs of snapshots that could not be read */
+  skippedSnapshots: string[];
+}
+
+/**
+ * Outcome of rewriting the context and its history under a new key.
+ */
+export interface ContextRekeyResult {
+  /** Number of files rewritten */
+  rewritten: number;
+  /** Hashes of unreadable chunks, left as they were */
+  skippedObjects: string[];
+}
+
+/**
+ * Options for saving context.
+ */
+export interface SaveContextOptions {
+  /** Preserve the previous context generation in history (default: true) */
+  snapshot?: boolean;
+}
+
+/**
+ * Options for loading context.
+ */
+export type LoadContextOptions = DeserializeOptions;
+
 /**
  * Service for managing context persistence.
  */
@@ -33,14 +101,28 @@ export interface ContextService {
   /** Check if context exists for this project */
   hasContext(): Promise<boolean>;
 
-  /** Load context from disk */
-  loadContext(): Promise<Result<ContextData, BenTenError>>;
+  /**
+   * Load context from disk. Pass `sections` to decode only part of the file;
+   * a partially loaded context must never be passed back to saveContext.
+   */
+  loadContext(
+    options?: LoadContextOptions,
+  ): Promise<Result<ContextData, BenTenError>>;
+
+  /** Save context to disk, moving the previous generation into history */
+  saveContext(
+    context: ContextData,
+    options?: SaveContextOptions,
+  ): Promise<Result<void, BenTenError>>;
+
+  /** Delete context file (the deleted generation is kept in history) */
+  deleteContext(): Promise<Result<void, BenTenError>>;
 
-  /** Save context to disk */
-  saveContext(context: ContextData): Promise<Result<void, BenTenError>>;
+  /** List previous context generations, most recent first */
+  listSnapshots(): Promise<Result<SnapshotInfo[], BenTenError>>;
 
-  /** Delete context file */
-  deleteContext(): Promise<Result<void, BenTenError>>;
+  /** Restore a previous context generation as the current context */
+  restoreSnapshot(id: string): Promise<Result<ContextData, BenTenError>>;
 
   /** Get full path to context file */
   getContextPath(): string;
@@ -56,12 +138,47 @@ export interface ContextService {
 
   /** Save metadata to disk */
   saveMetadata(metadata: ContextMetadata): Promise<Result<void, BenTenError>>;
+
+  /**
+   * Rewrite the context and its history under a new encryption key
+   * (undefined writes plaintext). Files are read with the current key, and
+   * nothing is rewritten if any of them cannot be decrypted with it.
+   * Returns the number of files rewritten and the chunks that could not be
+   * read, which keep their old encryption.
+   */
+  rekey(
+    newKey: Buffer | undefined,
+  ): Promise<Result<ContextRekeyResult, BenTenError>>;
+
+  /**
+   * Delete object store chunks that neither the current context nor any
+   * snapshot references. Unreadable snapshots are skipped and reported, and
+   * every chunk they may reference is kept.
+   */
+  collectGarbage(): Promise<
+    Result<ContextGarbageCollectionResult, BenTenError>
+  >;
 }
 
 export interface ContextServiceDeps {
   fs: FileSystem;
   logger: Logger;
   projectDir: string;
+  /** Number of previous generations to keep (default: 10, 0 disables) */
+  maxSnapshots?: number;
+  /** Lock acquisition settings for writes */
+  lockOptions?: LockOptions;
+  /**
+   * The caller already holds the .ben-ten lock for the duration of its use
+   * of this service, so writes must not take it again
+   */
+  lockHeld?: boolean;
+  /** Key for encrypting context files at rest (see EncryptionService) */
+  encryptionKey?: Buffer;
+  /** Compression codec for saves, or 'auto' to choose by size (default: lz4) */
+  compression?: CompressionSetting;
+  /** Context schema version to write, for older peers (default: current) */
+  targetVersion?: string;
 }
 
 /**
@@ -74,12 +191,253 @@ export const createContextService = (
   deps: ContextServiceDeps,
 ): ContextService => {
   const { fs, logger, projectDir } = deps;
-  const serializer = createSerializerService();
+  const { encryptionKey, compression, targetVersion } = deps;
+  const serializer = createSerializerService({
+    encryptionKey,
+    compression,
+    targetVersion,
+  });
 
   const ben10Dir = `${projectDir}/${BEN10_DIR}`;
   const contextPath = `${ben10Dir}/${CONTEXT_FILE}`;
   const legacyContextPath = `${ben10Dir}/${CONTEXT_FILE_LEGACY}`;
   const metadataPath = `${ben10Dir}/${METADATA_FILE}`;
+  const lockPath = `${ben10Dir}/${LOCK_FILE}`;
+  const maxSnapshots = deps.maxSnapshots;
+  const snapshots = createSnapshotService({
+    fs,
+    logger,
+    benTenDir: ben10Dir,
+    maxSnapshots,
+    encryptionKey,
+    compression,
+    targetVersion,
+  });
+  const objects = createObjectStoreService({
+    fs,
+    logger,
+    benTenDir: ben10Dir,
+    encryptionKey,
+    compression,
+  });
+
+  /**
+   * Move the current context generation into snapshot history.
+   * Failures are logged but never block the operation that triggered them.
+   */
+  const snapshotCurrentContext = async (): Promise<void> => {
+    if (maxSnapshots === 0 || !(await service.hasContext())) {
+      return;
+    }
+
+    // Snapshots keep the stored form, so history shares conversation chunks
+    const currentResult = await readStoredContext();
+    if (!currentResult.ok) {
+      logger.warn('Current context is unreadable, not adding to history', {
+        error: currentResult.error.message,
+      });
+      return;
+    }
+
+    const snapshotResult = await snapshots.createSnapshot(currentResult.value);
+    if (!snapshotResult.ok) {
+      logger.warn('Failed to snapshot previous context', {
+        error: snapshotResult.error.message,
+      });
+    }
+  };
+
+  /**
+   * Run a write operation while holding the .ben-ten lock, so concurrent
+   * sessions and hooks cannot interleave their writes.
+   * Fails with CONTEXT_LOCKED if another writer holds the lock.
+   */
+  const withLock = async <T>(
+    operation: () => Promise<Result<T, BenTenError>>,
+  ): Promise<Result<T, BenTenError>> => {
+    if (deps.lockHeld) {
+      return operation();
+    }
+
+    const lockResult = await fs.lock(lockPath, deps.lockOptions);
+    if (!lockResult.ok) {
+      logger.warn('Could not acquire context lock', {
+        path: lockPath,
+        error: lockResult.error.message,
+      });
+      return err(lockResult.error);
+    }
+
+    try {
+      return await operation();
+    } finally {
+      const releaseResult = await lockResult.value.release();
+      if (!releaseResult.ok) {
+        logger.warn('Failed to release context lock', {
+          path: lockPath,
+          error: releaseResult.error.message,
+        });
+      }
+    }
+  };
+
+  /**
+   * Read the context file as stored, with conversation messages still
+   * referenced by object store hashes.
+   */
+  const readStoredContext = async (
+    options?: LoadContextOptions,
+  ): Promise<Result<ContextData, BenTenError>> => {
+    logger.debug('Loading context', {
+      path: contextPath,
+      sections: options?.sections,
+    });
+
+    // Try new compressed format first
+    if (await fs.exists(contextPath)) {
+      const readResult = await fs.readFileBuffer(contextPath);
+      if (!readResult.ok) {
+        return err(
+          createError(
+            ErrorCode.CONTEXT_CORRUPTED,
+            'Failed to read context file',
+            { path: contextPath, originalError: readResult.error.message },
+          ),
+        );
+      }
+
+      const deserializeResult = serializer.deserialize(
+        readResult.value,
+        options,
+      );
+      if (!deserializeResult.ok) {
+        logger.warn('Failed to deserialize context', {
+          path: contextPath,
+          error: deserializeResult.error.message,
+        });
+        if (isUnreadableDataError(deserializeResult.error)) {
+          return err(deserializeResult.error);
+        }
+        return err(
+          createError(
+            ErrorCode.CONTEXT_CORRUPTED,
+            'Context file is corrupted',
+            {
+              path: contextPath,
+              originalError: deserializeResult.error.message,
+            },
+          ),
+        );
+      }
+
+      logger.info('Context loaded successfully', {
+        sessionId: deserializeResult.value.sessionId,
+        summaryLength: deserializeResult.value.summary.length,
+      });
+
+      return ok(deserializeResult.value);
+    }
+
+    // Try legacy JSON format
+    if (await fs.exists(legacyContextPath)) {
+      logger.debug('Loading legacy JSON context', {
+        path: legacyContextPath,
+      });
+
+      const readResult = await fs.readFile(legacyContextPath);
+      if (!readResult.ok) {
+        return err(
+          createError(
+            ErrorCode.CONTEXT_CORRUPTED,
+            'Failed to read legacy context file',
+            {
+              path: legacyContextPath,
+              originalError: readResult.error.message,
+            },
+          ),
+        );
+      }
+
+      // Parse JSON
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(readResult.value);
+      } catch (e) {
+        logger.warn('Failed to parse legacy context JSON', {
+          path: legacyContextPath,
+          error: e instanceof Error ? e.message : String(e),
+        });
+        return err(
+          createError(
+            ErrorCode.CONTEXT_CORRUPTED,
+            'Legacy context file contains invalid JSON',
+            { path: legacyContextPath },
+          ),
+        );
+      }
+
+      // Validate structure, migrating older schema versions
+      const validateResult = migrateContextData(parsed);
+      if (!validateResult.ok) {
+        if (validateResult.error.code === ErrorCode.CONTEXT_VERSION_MISMATCH) {
+          return err(validateResult.error);
+        }
+        logger.warn('Legacy context file has invalid structure', {
+          path: legacyContextPath,
+          errors: validateResult.error.details,
+        });
+        return err(
+          createError(
+            ErrorCode.CONTEXT_CORRUPTED,
+            'Legacy context file has invalid structure',
+            {
+              path: legacyContextPath,
+              validationErrors: validateResult.error.details,
+            },
+          ),
+        );
+      }
+
+      logger.info('Context loaded successfully', {
+        sessionId: validateResult.value.sessionId,
+        summaryLength: validateResult.value.summary.length,
+      });
+
+      return ok(validateResult.value);
+    }
+
+    // No context file found
+    return err(
+      createError(ErrorCode.CONTEXT_NOT_FOUND, 'No context file found', {
+        path: contextPath,
+      }),
+    );
+  };
+
+  /**
+   * Replace the conversation's chunk references with the messages they hold.
+   */
+  const inlineConversation = async (
+    context: ContextData,
+  ): Promise<Result<ContextData, BenTenError>> => {
+    const inlineResult = await objects.inlineConversation(context);
+    if (!inlineResult.ok) {
+      logger.warn('Failed to load conversation chunks', {
+        error: inlineResult.error.message,
+      });
+      if (isEncryptionKeyError(inlineResult.error)) {
+        return err(inlineResult.error);
+      }
+      return err(
+        createError(
+          ErrorCode.CONTEXT_CORRUPTED,
+          'Conversation chunks are missing or corrupted',
+          { originalError: inlineResult.error.message },
+        ),
+      );
+    }
+    return inlineResult;
+  };
 
   const service: ContextService = {
     async hasContext() {
@@ -90,210 +448,171 @@ export const createContextService = (
       return fs.exists(legacyContextPath);
     },
 
-    async loadContext() {
-      logger.debug('Loading context', { path: contextPath });
+    async loadContext(options) {
+      const storedResult = await readStoredContext(options);
+      if (!storedResult.ok) {
+        return storedResult;
+      }
+      return inlineConversation(storedResult.value);
+    },
 
-      // Try new compressed format first
-      if (await fs.exists(contextPath)) {
-        const readResult = await fs.readFileBuffer(contextPath);
-        if (!readResult.ok) {
-          return err(
-            createError(
-              ErrorCode.CONTEXT_CORRUPTED,
-              'Failed to read context file',
-              { path: contextPath, originalError: readResult.error.message },
-            ),
-          );
-        }
+    async saveContext(context, options = {}) {
+      return withLock(async () => {
+        logger.debug('Saving context', {
+          path: contextPath,
+          sessionId: context.sessionId,
+        });
 
-        const deserializeResult = serializer.deserialize(readResult.value);
-        if (!deserializeResult.ok) {
-          logger.warn('Failed to deserialize context', {
-            path: contextPath,
-            error: deserializeResult.error.message,
-          });
+        // Ensure .ben-ten directory exists
+        const mkdirResult = await fs.mkdir(ben10Dir, { recursive: true });
+        if (!mkdirResult.ok) {
           return err(
             createError(
-              ErrorCode.CONTEXT_CORRUPTED,
-              'Context file is corrupted',
-              {
-                path: contextPath,
-                originalError: deserializeResult.error.message,
-              },
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to create .ben-ten directory',
+              { path: ben10Dir, originalError: mkdirResult.error.message },
             ),
           );
         }
 
-        logger.info('Context loaded successfully', {
-          sessionId: deserializeResult.value.sessionId,
-          summaryLength: deserializeResult.value.summary.length,
-        });
-
-        return ok(deserializeResult.value);
-      }
+        if (options.snapshot ?? true) {
+          await snapshotCurrentContext();
+        }
 
-      // Try legacy JSON format
-      if (await fs.exists(legacyContextPath)) {
-        logger.debug('Loading legacy JSON context', {
-          path: legacyContextPath,
-        });
+        // Convert before chunking, so chunks hold messages older peers read
+        let versioned = context;
+        if (targetVersion) {
+          const downgradeResult = downgradeContextData(context, targetVersion);
+          if (!downgradeResult.ok) {
+            return downgradeResult;
+          }
+          versioned = downgradeResult.value;
+        }
 
-        const readResult = await fs.readFile(legacyContextPath);
-        if (!readResult.ok) {
+        // Readers of the v1 container expect the conversation inline
+        const storedResult = requiresV1Format(targetVersion)
+          ? ok(versioned)
+          : await objects.externalizeConversation(versioned);
+        if (!storedResult.ok) {
           return err(
             createError(
-              ErrorCode.CONTEXT_CORRUPTED,
-              'Failed to read legacy context file',
-              {
-                path: legacyContextPath,
-                originalError: readResult.error.message,
-              },
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to store conversation chunks',
+              { originalError: storedResult.error.message },
             ),
           );
         }
 
-        // Parse JSON
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(readResult.value);
-        } catch (e) {
-          logger.warn('Failed to parse legacy context JSON', {
-            path: legacyContextPath,
-            error: e instanceof Error ? e.message : String(e),
-          });
+        // Serialize to compressed format
+        const serializeResult = serializer.serialize(storedResult.value);
+        if (!serializeResult.ok) {
           return err(
             createError(
-              ErrorCode.CONTEXT_CORRUPTED,
-              'Legacy context file contains invalid JSON',
-              { path: legacyContextPath },
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to serialize context',
+              {
+                originalError: serializeResult.error.message,
+              },
             ),
           );
         }
 
-        // Validate structure
-        const validateResult = parseContextData(parsed);
-        if (!validateResult.ok) {
-          logger.warn('Legacy context file has invalid structure', {
-            path: legacyContextPath,
-            errors: validateResult.error.details,
-          });
+        // Write compressed context file
+        const writeResult = await fs.writeFileBuffer(
+          contextPath,
+          serializeResult.value,
+        );
+        if (!writeResult.ok) {
           return err(
             createError(
-              ErrorCode.CONTEXT_CORRUPTED,
-              'Legacy context file has invalid structure',
-              {
-                path: legacyContextPath,
-                validationErrors: validateResult.error.details,
-              },
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to write context file',
+              { path: contextPath, originalError: writeResult.error.message },
             ),
           );
         }
 
-        logger.info('Context loaded successfully', {
-          sessionId: validateResult.value.sessionId,
-          summaryLength: validateResult.value.summary.length,
-        });
-
-        return ok(validateResult.value);
-      }
-
-      // No context file found
-      return err(
-        createError(ErrorCode.CONTEXT_NOT_FOUND, 'No context file found', {
+        logger.info('Context saved successfully', {
           path: contextPath,
-        }),
-      );
-    },
+          sessionId: context.sessionId,
+          size: serializeResult.value.length,
+        });
 
-    async saveContext(context) {
-      logger.debug('Saving context', {
-        path: contextPath,
-        sessionId: context.sessionId,
+        return ok(undefined);
       });
+    },
 
-      // Ensure .ben-ten directory exists
-      const mkdirResult = await fs.mkdir(ben10Dir, { recursive: true });
-      if (!mkdirResult.ok) {
-        return err(
-          createError(
-            ErrorCode.FS_WRITE_ERROR,
-            'Failed to create .ben-ten directory',
-            { path: ben10Dir, originalError: mkdirResult.error.message },
-          ),
-        );
-      }
-
-      // Serialize to compressed format
-      const serializeResult = serializer.serialize(context);
-      if (!serializeResult.ok) {
-        return err(
-          createError(ErrorCode.FS_WRITE_ERROR, 'Failed to serialize context', {
-            originalError: serializeResult.error.message,
-          }),
-        );
-      }
+    async deleteContext() {
+      return withLock(async () => {
+        logger.debug('Deleting context', { path: contextPath });
+
+        await snapshotCurrentContext();
+
+        // Delete new format if exists
+        if (await fs.exists(contextPath)) {
+          const rmResult = await fs.rm(contextPath);
+          if (!rmResult.ok) {
+            return err(
+              createError(
+                ErrorCode.FS_WRITE_ERROR,
+                'Failed to delete context file',
+                { path: contextPath, originalError: rmResult.error.message },
+              ),
+            );
+          }
+          logger.info('Context deleted', { path: contextPath });
+        }
 
-      // Write compressed context file
-      const writeResult = await fs.writeFileBuffer(
-        contextPath,
-        serializeResult.value,
-      );
-      if (!writeResult.ok) {
-        return err(
-          createError(
-            ErrorCode.FS_WRITE_ERROR,
-            'Failed to write context file',
-            { path: contextPath, originalError: writeResult.error.message },
-          ),
-        );
-      }
+        // Delete legacy format if exists
+        if (await fs.exists(legacyContextPath)) {
+          const rmResult = await fs.rm(legacyContextPath);
+          if (!rmResult.ok) {
+            return err(
+              createError(
+                ErrorCode.FS_WRITE_ERROR,
+                'Failed to delete legacy context file',
+                {
+                  path: legacyContextPath,
+                  originalError: rmResult.error.message,
+                },
+              ),
+            );
+          }
+          logger.info('Legacy context deleted', { path: legacyContextPath });
+        }
 
-      logger.info('Context saved successfully', {
-        path: contextPath,
-        sessionId: context.sessionId,
-        size: serializeResult.value.length,
+        return ok(undefined);
       });
+    },
 
-      return ok(undefined);
+    async listSnapshots() {
+      return snapshots.listSnapshots();
     },
 
-    async deleteContext() {
-      logger.debug('Deleting context', { path: contextPath });
+    async restoreSnapshot(id) {
+      logger.debug('Restoring snapshot', { id });
 
-      // Delete new format if exists
-      if (await fs.exists(contextPath)) {
-        const rmResult = await fs.rm(contextPath);
-        if (!rmResult.ok) {
-          return err(
-            createError(
-              ErrorCode.FS_WRITE_ERROR,
-              'Failed to delete context file',
-              { path: contextPath, originalError: rmResult.error.message },
-            ),
-          );
-        }
-        logger.info('Context deleted', { path: contextPath });
+      const snapshotResult = await snapshots.loadSnapshot(id);
+      if (!snapshotResult.ok) {
+        return snapshotResult;
+      }
+      const loadResult = await inlineConversation(snapshotResult.value);
+      if (!loadResult.ok) {
+        return loadResult;
       }
 
-      // Delete legacy format if exists
-      if (await fs.exists(legacyContextPath)) {
-        const rmResult = await fs.rm(legacyContextPath);
-        if (!rmResult.ok) {
-          return err(
-            createError(
-              ErrorCode.FS_WRITE_ERROR,
-              'Failed to delete legacy context file',
-              {
-                path: legacyContextPath,
-                originalError: rmResult.error.message,
-              },
-            ),
-          );
-        }
-        logger.info('Legacy context deleted', { path: legacyContextPath });
+      // Saving snapshots the current generation, so a restore can be undone
+      const saveResult = await service.saveContext(loadResult.value);
+      if (!saveResult.ok) {
+        return err(saveResult.error);
       }
 
-      return ok(undefined);
+      logger.info('Snapshot restored', {
+        id,
+        sessionId: loadResult.value.sessionId,
+      });
+
+      return ok(loadResult.value);
     },
 
     getContextPath() {
@@ -377,42 +696,213 @@ export const createContextService = (
     },
 
     async saveMetadata(metadata) {
-      logger.debug('Saving metadata', {
-        path: metadataPath,
-        sessionId: metadata.lastSessionId,
+      return withLock(async () => {
+        logger.debug('Saving metadata', {
+          path: metadataPath,
+          sessionId: metadata.lastSessionId,
+        });
+
+        // Ensure .ben-ten directory exists
+        const mkdirResult = await fs.mkdir(ben10Dir, { recursive: true });
+        if (!mkdirResult.ok) {
+          return err(
+            createError(
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to create .ben-ten directory',
+              { path: ben10Dir, originalError: mkdirResult.error.message },
+            ),
+          );
+        }
+
+        // Write metadata file
+        const content = JSON.stringify(metadata, null, 2);
+        const writeResult = await fs.writeFile(metadataPath, content);
+        if (!writeResult.ok) {
+          return err(
+            createError(
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to write metadata file',
+              { path: metadataPath, originalError: writeResult.error.message },
+            ),
+          );
+        }
+
+        logger.debug('Metadata saved successfully', {
+          path: metadataPath,
+          sessionId: metadata.lastSessionId,
+        });
+
+        return ok(undefined);
       });
+    },
 
-      // Ensure .ben-ten directory exists
-      const mkdirResult = await fs.mkdir(ben10Dir, { recursive: true });
-      if (!mkdirResult.ok) {
-        return err(
-          createError(
-            ErrorCode.FS_WRITE_ERROR,
-            'Failed to create .ben-ten directory',
-            { path: ben10Dir, originalError: mkdirResult.error.message },
-          ),
-        );
-      }
+    async rekey(newKey) {
+      return withLock(async () => {
+        let rewritten = 0;
+
+        // Check the current key against the context and every snapshot
+        // before rewriting anything; the object store checks its own
+        let stored: ContextData | undefined;
+        if (await service.hasContext()) {
+          const loadResult = await readStoredContext();
+          if (!loadResult.ok) {
+            return err(loadResult.error);
+          }
+          stored = loadResult.value;
+        }
 
-      // Write metadata file
-      const content = JSON.stringify(metadata, null, 2);
-      const writeResult = await fs.writeFile(metadataPath, content);
-      if (!writeResult.ok) {
-        return err(
-          createError(
-            ErrorCode.FS_WRITE_ERROR,
-            'Failed to write metadata file',
-            { path: metadataPath, originalError: writeResult.error.message },
-          ),
-        );
-      }
+        const listResult = await snapshots.listSnapshots();
+        if (!listResult.ok) {
+          return err(listResult.error);
+        }
+        for (const entry of listResult.value) {
+          const snapshotResult = await snapshots.loadSnapshot(entry.id);
+          if (
+            !snapshotResult.ok &&
+            isEncryptionKeyError(snapshotResult.error)
+          ) {
+            return err(snapshotResult.error);
+          }
+        }
+
+        // Rewrite history before the context file it belongs to
+        const objectsResult = await objects.rekey(newKey);
+        if (!objectsResult.ok) {
+          return err(objectsResult.error);
+        }
+        rewritten += objectsResult.value.rewritten;
+
+        const snapshotsResult = await snapshots.rekey(newKey);
+        if (!snapshotsResult.ok) {
+          return err(snapshotsResult.error);
+        }
+        rewritten += snapshotsResult.value;
+
+        if (stored) {
+          const serializeResult = createSerializerService({
+            encryptionKey: newKey,
+            compression,
+            targetVersion,
+          }).serialize(stored);
+          if (!serializeResult.ok) {
+            return err(serializeResult.error);
+          }
+
+          const writeResult = await fs.writeFileBuffer(
+            contextPath,
+            serializeResult.value,
+          );
+          if (!writeResult.ok) {
+            return err(
+              createError(
+                ErrorCode.FS_WRITE_ERROR,
+                'Failed to write context file',
+                { path: contextPath, originalError: writeResult.error.message },
+              ),
+            );
+          }
+          rewritten++;
+        }
+
+        const skippedObjects = objectsResult.value.skipped;
+        logger.info('Context rekeyed', {
+          encrypted: newKey !== undefined,
+          files: rewritten,
+          skippedObjects: skippedObjects.length,
+        });
 
-      logger.debug('Metadata saved successfully', {
-        path: metadataPath,
-        sessionId: metadata.lastSessionId,
+        return ok({ rewritten, skippedObjects });
       });
+    },
+
+    async collectGarbage() {
+      return withLock(async () => {
+        const referenced = new Set<string>();
+        const addChunks = (context: ContextData) => {
+          for (const hash of context.conversation?.chunks ?? []) {
+            referenced.add(hash);
+          }
+        };
+
+        if (await service.hasContext()) {
+          const currentResult = await readStoredContext({
+            sections: ['conversation'],
+          });
+          if (!currentResult.ok) {
+            return err(currentResult.error);
+          }
+          addChunks(currentResult.value);
+        }
 
-      return ok(undefined);
+        const listResult = await snapshots.listSnapshots();
+        if (!listResult.ok) {
+          return err(listResult.error);
+        }
+        // An unreadable snapshot is skipped, but its chunks are kept: those
+        // its readable sections list, or every chunk if none can be read
+        const skippedSnapshots: string[] = [];
+        let keepAll = false;
+        for (const entry of listResult.value) {
+          const snapshotResult = await snapshots.loadSnapshot(entry.id);
+          if (snapshotResult.ok) {
+            addChunks(snapshotResult.value);
+            continue;
+          }
+          if (isUnreadableDataError(snapshotResult.error)) {
+            return err(snapshotResult.error);
+          }
+          logger.warn(
+            'Skipping unreadable snapshot during garbage collection',
+            {
+              id: entry.id,
+              error: snapshotResult.error.message,
+            },
+          );
+          skippedSnapshots.push(entry.id);
+
+          const readResult = await fs.readFileBuffer(
+            `${snapshots.getSnapshotsDir()}/${entry.id}${SNAPSHOT_EXTENSION}`,
+          );
+          const salvageResult = readResult.ok
+            ? serializer.salvage(readResult.value)
+            : readResult;
+          if (
+            salvageResult.ok &&
+            !salvageResult.value.lostSections.includes('conversation')
+          ) {
+            addChunks(salvageResult.value.context);
+          } else {
+            keepAll = true;
+          }
+        }
+
+        if (keepAll) {
+          const objectsResult = await objects.listObjects();
+          if (!objectsResult.ok) {
+            return err(objectsResult.error);
+          }
+          logger.warn('Keeping every chunk for unreadable snapshots', {
+            skipped: skippedSnapshots,
+          });
+          return ok({
+            totalObjects: objectsResult.value.length,
+            removed: 0,
+            freedBytes: 0,
+            skippedSnapshots,
+          });
+        }
+
+        const pruneResult = await objects.prune(referenced);
+        if (!pruneResult.ok) {
+          return err(pruneResult.error);
+        }
+
+        logger.info('Object store garbage collected', {
+          ...pruneResult.value,
+          skipped: skippedSnapshots.length,
+        });
+        return ok({ ...pruneResult.value, skippedSnapshots });
+      });
     },
   };
 
@@ -0,0 +1,163 @@
+import { randomBytes } from 'node:crypto';
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import { ENCRYPTION_KEY_SIZE } from '../infrastructure/encryption.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  type EncryptionConfig,
+  createConfigService,
+} from './config-service.js';
+
+/** Environment variable read when no keyFile or keyEnv is configured */
+export const DEFAULT_KEY_ENV = 'BEN_TEN_ENCRYPTION_KEY';
+
+/**
+ * Service for locating and parsing at-rest encryption keys.
+ */
+export interface EncryptionService {
+  /**
+   * Resolve the key described by the encryption config.
+   * keyEnv is tried first, then keyFile, then BEN_TEN_ENCRYPTION_KEY.
+   *
+   * @param config - Encryption config (undefined or disabled means no key)
+   * @returns Result with the 32-byte key, undefined if encryption is off, or error
+   */
+  resolveKey(
+    config: EncryptionConfig | undefined,
+  ): Promise<Result<Buffer | undefined, BenTenError>>;
+
+  /**
+   * Resolve the key configured in the project's .ben-ten/config.json.
+   *
+   * @returns Result with the key, undefined if encryption is off, or error
+   */
+  loadProjectKey(): Promise<Result<Buffer | undefined, BenTenError>>;
+
+  /**
+   * Parse a key given as 64 hex characters or base64 of 32 bytes.
+   *
+   * @param raw - Encoded key (surrounding whitespace is ignored)
+   * @returns Result with the key bytes or ENCRYPTION_KEY_INVALID
+   */
+  parseKey(raw: string): Result<Buffer, BenTenError>;
+
+  /**
+   * Generate a new random key.
+   *
+   * @returns Base64-encoded 32-byte key
+   */
+  generateKey(): string;
+}
+
+export interface EncryptionServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  /** Base directory for relative key file paths */
+  projectDir: string;
+  /** Environment to read key variables from (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Creates an encryption service for resolving context encryption keys.
+ *
+ * @param deps - Dependencies including file system, logger and project directory
+ * @returns An EncryptionService instance
+ * @example
+ * const encryption = createEncryptionService({ fs, logger, projectDir });
+ * const keyResult = await encryption.resolveKey(config.encryption);
+ */
+export const createEncryptionService = (
+  deps: EncryptionServiceDeps,
+): EncryptionService => {
+  const { fs, logger, projectDir } = deps;
+  const env = deps.env ?? process.env;
+
+  const resolvePath = (path: string): string =>
+    path.startsWith('/') ? path : `${projectDir}/${path}`;
+
+  const service: EncryptionService = {
+    async resolveKey(config) {
+      if (!config?.enabled) {
+        return ok(undefined);
+      }
+
+      if (config.keyEnv) {
+        const value = env[config.keyEnv];
+        if (value) {
+          return service.parseKey(value);
+        }
+      }
+
+      if (config.keyFile) {
+        const keyPath = resolvePath(config.keyFile);
+        const readResult = await fs.readFile(keyPath);
+        if (!readResult.ok) {
+          return err(
+            createError(
+              ErrorCode.ENCRYPTION_KEY_MISSING,
+              `Encryption key file not readable: ${keyPath}`,
+              { path: keyPath, originalError: readResult.error.message },
+            ),
+          );
+        }
+        logger.debug('Loaded encryption key from file', { path: keyPath });
+        return service.parseKey(readResult.value);
+      }
+
+      const fallback = env[DEFAULT_KEY_ENV];
+      if (fallback) {
+        return service.parseKey(fallback);
+      }
+
+      return err(
+        createError(
+          ErrorCode.ENCRYPTION_KEY_MISSING,
+          `Encryption is enabled but no key was found (set ${config.keyEnv ?? DEFAULT_KEY_ENV} or configure a key file)`,
+          { keyEnv: config.keyEnv ?? DEFAULT_KEY_ENV, keyFile: config.keyFile },
+        ),
+      );
+    },
+
+    async loadProjectKey() {
+      const configResult = await createConfigService({
+        fs,
+        logger,
+        projectDir,
+      }).loadConfig();
+      if (!configResult.ok) {
+        return err(configResult.error);
+      }
+      return service.resolveKey(configResult.value.encryption);
+    },
+
+    parseKey(raw) {
+      const trimmed = raw.trim();
+      const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+        ? Buffer.from(trimmed, 'hex')
+        : Buffer.from(trimmed, 'base64');
+
+      if (key.length !== ENCRYPTION_KEY_SIZE) {
+        return err(
+          createError(
+            ErrorCode.ENCRYPTION_KEY_INVALID,
+            `Encryption key must be ${ENCRYPTION_KEY_SIZE} bytes (64 hex characters or base64)`,
+            { actual: key.length },
+          ),
+        );
+      }
+      return ok(key);
+    },
+
+    generateKey() {
+      return randomBytes(ENCRYPTION_KEY_SIZE).toString('base64');
+    },
+  };
+
+  return service;
+};
@@ -0,0 +1,558 @@
+import type { FileSystem, LockOptions } from '../adapters/fs/memory-fs.js';
+import {
+  type ContextData,
+  type ContextMetadata,
+  ContextMetadataSchema,
+  parseContextMetadata,
+} from '../core/types.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+  isEncryptionKeyError,
+  isUnreadableDataError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import type { CompressionSetting } from './compression-service.js';
+import {
+  BEN10_DIR,
+  CONTEXT_FILE,
+  CONTEXT_FILE_LEGACY,
+  LOCK_FILE,
+  METADATA_FILE,
+  hashDirectory,
+} from './context-service.js';
+import {
+  OBJECTS_DIR,
+  OBJECTS_PREVIOUS_DIR,
+  OBJECTS_REKEY_DIR,
+  createObjectStoreService,
+  parseMessageChunk,
+} from './object-store-service.js';
+import { createSerializerService } from './serializer-service.js';
+import {
+  SNAPSHOTS_DIR,
+  SNAPSHOT_EXTENSION,
+  createSnapshotService,
+} from './snapshot-service.js';
+
+/** Suffix for a damaged context file moved aside by a repair */
+export const CORRUPT_SUFFIX = '.corrupt';
+
+/**
+ * A problem found while checking the .ben-ten directory.
+ */
+export interface FsckProblem {
+  /** Affected file, relative to the .ben-ten directory */
+  file: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Outcome of a check.
+ */
+export interface FsckReport {
+  /** Problems found, in the order they were checked */
+  problems: FsckProblem[];
+  /** Changes made to fix them (empty unless repairing) */
+  repairs: string[];
+}
+
+/**
+ * Options for a check.
+ */
+export interface FsckOptions {
+  /** Fix what can be fixed instead of only reporting (default: false) */
+  repair?: boolean;
+}
+
+/**
+ * Service for checking and repairing a project's stored context.
+ */
+export interface FsckService {
+  /**
+   * Check the context file, snapshots, conversation chunks and metadata.
+   * With `repair`, a damaged context is salvaged section by section, or
+   * replaced by the latest readable snapshot or the legacy JSON context;
+   * unreadable snapshots and objects are removed; an interrupted rekey is
+   * finished or discarded; missing or invalid metadata is rebuilt, keeping
+   * the fields that are still valid.
+   * Fails without changing anything when files are intact but unreadable
+   * here, i.e. without the right key or when written by a newer version.
+   *
+   * @param options - Whether to repair
+   * @returns Result with the problems found and repairs made, or error
+   */
+  check(options?: FsckOptions): Promise<Result<FsckReport, BenTenError>>;
+}
+
+export interface FsckServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  projectDir: string;
+  /** Lock acquisition settings for repairs */
+  lockOptions?: LockOptions;
+  /** Key the context files are encrypted with */
+  encryptionKey?: Buffer;
+  /** Compression codec for rewritten files */
+  compression?: CompressionSetting;
+  /** Context schema version for rewritten files (default: current) */
+  targetVersion?: string;
+}
+
+/** Messages held by the readable chunks of a conversation */
+interface ChunkCheck {
+  /** Readable chunk hashes, in order */
+  readable: string[];
+  /** Unreadable chunk hashes */
+  unreadable: string[];
+  /** Number of messages in the readable chunks */
+  messageCount: number;
+}
+
+/** Appends the underlying cause, if any, to an error message */
+const describeError = (error: BenTenError): string => {
+  const cause = error.details?.originalError;
+  return typeof cause === 'string'
+    ? `${error.message}: ${cause}`
+    : error.message;
+};
+
+/**
+ * Creates a service that checks and repairs the .ben-ten directory.
+ *
+ * @param deps - Dependencies including file system, logger and project path
+ * @returns An FsckService instance
+ * @example
+ * const fsck = createFsckService({ fs, logger, projectDir });
+ * const result = await fsck.check({ repair: true });
+ */
+export const createFsckService = (deps: FsckServiceDeps): FsckService => {
+  const { fs, logger, projectDir, encryptionKey, compression } = deps;
+  const benTenDir = `${projectDir}/${BEN10_DIR}`;
+  const contextPath = `${benTenDir}/${CONTEXT_FILE}`;
+  const legacyContextPath = `${benTenDir}/${CONTEXT_FILE_LEGACY}`;
+  const metadataPath = `${benTenDir}/${METADATA_FILE}`;
+  const serializer = createSerializerService({
+    encryptionKey,
+    compression,
+    targetVersion: deps.targetVersion,
+  });
+  const snapshots = createSnapshotService({
+    fs,
+    logger,
+    benTenDir,
+    encryptionKey,
+    compression,
+  });
+  const objects = createObjectStoreService({
+    fs,
+    logger,
+    benTenDir,
+    encryptionKey,
+    compression,
+  });
+
+  const objectFile = (hash: string): string =>
+    `${OBJECTS_DIR}/${hash.slice(0, 2)}/${hash.slice(2)}`;
+
+  const run = async (
+    repair: boolean,
+  ): Promise<Result<FsckReport, BenTenError>> => {
+    const problems: FsckProblem[] = [];
+    const repairs: string[] = [];
+    const report = (file: string, message: string) => {
+      logger.warn('fsck problem', { file, message });
+      problems.push({ file, message });
+    };
+
+    // Chunk results are cached so shared chunks are read and reported once
+    const chunkErrors = new Map<string, BenTenError | null>();
+    const chunkSizes = new Map<string, number>();
+    const checkChunks = async (
+      chunks: readonly string[],
+    ): Promise<Result<ChunkCheck, BenTenError>> => {
+      const check: ChunkCheck = {
+        readable: [],
+        unreadable: [],
+        messageCount: 0,
+      };
+      for (const hash of chunks) {
+        if (!chunkErrors.has(hash)) {
+          const readResult = await objects.readObject(hash);
+          if (!readResult.ok && isEncryptionKeyError(readResult.error)) {
+            return err(readResult.error);
+          }
+          const parseResult = readResult.ok
+            ? parseMessageChunk(readResult.value)
+            : readResult;
+          if (parseResult.ok) {
+            chunkErrors.set(hash, null);
+            chunkSizes.set(hash, parseResult.value.length);
+          } else {
+            chunkErrors.set(hash, parseResult.error);
+            report(objectFile(hash), describeError(parseResult.error));
+          }
+        }
+        if (chunkErrors.get(hash) === null) {
+          check.readable.push(hash);
+          check.messageCount += chunkSizes.get(hash) ?? 0;
+        } else {
+          check.unreadable.push(hash);
+        }
+      }
+      return ok(check);
+    };
+
+    // A rekey interrupted while swapping may have left no objects in place
+    const swapping = await fs.exists(`${benTenDir}/${OBJECTS_PREVIOUS_DIR}`);
+    if (swapping || (await fs.exists(`${benTenDir}/${OBJECTS_REKEY_DIR}`))) {
+      report(
+        swapping ? OBJECTS_PREVIOUS_DIR : OBJECTS_REKEY_DIR,
+        swapping
+          ? 'Left by a rekey interrupted while swapping in new objects'
+          : 'Left by a rekey interrupted while re-encrypting objects',
+      );
+      if (repair) {
+        const recoverResult = await objects.recoverRekey();
+        if (!recoverResult.ok) {
+          return err(recoverResult.error);
+        }
+        repairs.push(
+          swapping
+            ? 'Finished the interrupted rekey'
+            : 'Discarded the interrupted rekey',
+        );
+      }
+    }
+
+    // Snapshots: drop unreadable ones, note which are fully intact
+    const listResult = await snapshots.listSnapshots();
+    if (!listResult.ok) {
+      return err(listResult.error);
+    }
+    const intactSnapshots: { id: string; context: ContextData }[] = [];
+    for (const entry of listResult.value) {
+      const file = `${SNAPSHOTS_DIR}/${entry.id}${SNAPSHOT_EXTENSION}`;
+      const loadResult = await snapshots.loadSnapshot(entry.id);
+      if (!loadResult.ok) {
+        if (isUnreadableDataError(loadResult.error)) {
+          return err(loadResult.error);
+        }
+        report(file, describeError(loadResult.error));
+        if (repair) {
+          const deleteResult = await snapshots.deleteSnapshot(entry.id);
+          if (!deleteResult.ok) {
+            return err(deleteResult.error);
+          }
+          repairs.push(`Removed unreadable snapshot ${entry.id}`);
+        }
+        continue;
+      }
+
+      const chunksResult = await checkChunks(
+        loadResult.value.conversation?.chunks ?? [],
+      );
+      if (!chunksResult.ok) {
+        return err(chunksResult.error);
+      }
+      const { unreadable } = chunksResult.value;
+      if (unreadable.length > 0) {
+        report(
+          file,
+          `References ${unreadable.length} unreadable conversation chunk(s)`,
+        );
+        continue;
+      }
+      intactSnapshots.push({ id: entry.id, context: loadResult.value });
+    }
+
+    // Current context, in stored form. `recoveredFrom` is set when it has
+    // to be rewritten, and says where the rewritten context comes from.
+    let current: ContextData | undefined;
+    let recoveredFrom: string | undefined;
+    let damagedFile: string | undefined;
+
+    const readLegacy = async (): Promise<Result<ContextData, BenTenError>> => {
+      const readResult = await fs.readFileBuffer(legacyContextPath);
+      if (!readResult.ok) {
+        return err(readResult.error);
+      }
+      return serializer.deserializeJson(readResult.value);
+    };
+
+    if (await fs.exists(contextPath)) {
+      const readResult = await fs.readFileBuffer(contextPath);
+      if (!readResult.ok) {
+        report(CONTEXT_FILE, describeError(readResult.error));
+        damagedFile = CONTEXT_FILE;
+      } else {
+        const decodeResult = serializer.deserialize(readResult.value);
+        if (decodeResult.ok) {
+          current = decodeResult.value;
+        } else if (isUnreadableDataError(decodeResult.error)) {
+          return err(decodeResult.error);
+        } else {
+          report(CONTEXT_FILE, describeError(decodeResult.error));
+          damagedFile = CONTEXT_FILE;
+
+          const salvageResult = serializer.salvage(readResult.value);
+          if (salvageResult.ok) {
+            const { context, lostSections } = salvageResult.value;
+            current = context;
+            recoveredFrom =
+              lostSections.length > 0
+                ? `the readable sections of ${CONTEXT_FILE} (lost: ${lostSections.join(', ')})`
+                : `the sections of ${CONTEXT_FILE}`;
+          } else {
+            report(
+              CONTEXT_FILE,
+              `Cannot salvage: ${describeError(salvageResult.error)}`,
+            );
+          }
+        }
+      }
+    } else if (await fs.exists(legacyContextPath)) {
+      const legacyResult = await readLegacy();
+      if (legacyResult.ok) {
+        current = legacyResult.value;
+      } else if (isUnreadableDataError(legacyResult.error)) {
+        return err(legacyResult.error);
+      } else {
+        report(CONTEXT_FILE_LEGACY, describeError(legacyResult.error));
+        damagedFile = CONTEXT_FILE_LEGACY;
+      }
+    }
+
+    // Fall back to the latest intact snapshot, then a leftover legacy file
+    if (current === undefined && damagedFile !== undefined) {
+      const latest = intactSnapshots[0];
+      if (latest) {
+        current = latest.context;
+        recoveredFrom = `snapshot ${latest.id}`;
+      } else if (
+        damagedFile === CONTEXT_FILE &&
+        (await fs.exists(legacyContextPath))
+      ) {
+        const legacyResult = await readLegacy();
+        if (legacyResult.ok) {
+          current = legacyResult.value;
+          recoveredFrom = CONTEXT_FILE_LEGACY;
+        }
+      }
+      if (current === undefined) {
+        report(
+          damagedFile,
+          'No readable snapshot or legacy context to recover from',
+        );
+      }
+    }
+
+    // Conversation chunks of the current context
+    if (current?.conversation?.chunks) {
+      const chunksResult = await checkChunks(current.conversation.chunks);
+      if (!chunksResult.ok) {
+        return err(chunksResult.error);
+      }
+      const { readable, unreadable, messageCount } = chunksResult.value;
+      if (unreadable.length > 0) {
+        report(
+          CONTEXT_FILE,
+          `Conversation references ${unreadable.length} unreadable chunk(s)`,
+        );
+        current = {
+          ...current,
+          conversation: {
+            ...current.conversation,
+            chunks: readable,
+            messageCount,
+          },
+        };
+        const dropped = `${unreadable.length} unreadable conversation chunk(s) dropped`;
+        recoveredFrom = recoveredFrom
+          ? `${recoveredFrom}, with ${dropped}`
+          : `${CONTEXT_FILE}, with ${dropped}`;
+      }
+    }
+
+    if (repair && current !== undefined && recoveredFrom !== undefined) {
+      if (damagedFile === CONTEXT_FILE) {
+        const corruptPath = `${contextPath}${CORRUPT_SUFFIX}`;
+        const renameResult = await fs.rename(contextPath, corruptPath);
+        if (!renameResult.ok) {
+          return err(renameResult.error);
+        }
+        repairs.push(
+          `Moved damaged ${CONTEXT_FILE} to ${CONTEXT_FILE}${CORRUPT_SUFFIX}`,
+        );
+      }
+
+      const serializeResult = serializer.serialize(current);
+      if (!serializeResult.ok) {
+        return err(serializeResult.error);
+      }
+      const writeResult = await fs.writeFileBuffer(
+        contextPath,
+        serializeResult.value,
+      );
+      if (!writeResult.ok) {
+        return err(
+          createError(
+            ErrorCode.FS_WRITE_ERROR,
+            'Failed to write context file',
+            { path: contextPath, originalError: writeResult.error.message },
+          ),
+        );
+      }
+      repairs.push(`Rewrote ${CONTEXT_FILE} from ${recoveredFrom}`);
+    }
+
+    // Objects nothing checked yet, e.g. unreferenced leftovers
+    const listObjectsResult = await objects.listObjects();
+    if (!listObjectsResult.ok) {
+      return err(listObjectsResult.error);
+    }
+    for (const hash of listObjectsResult.value) {
+      if (!chunkErrors.has(hash)) {
+        const readResult = await objects.readObject(hash);
+        if (readResult.ok) {
+          continue;
+        }
+        if (isEncryptionKeyError(readResult.error)) {
+          return err(readResult.error);
+        }
+        report(objectFile(hash), describeError(readResult.error));
+        chunkErrors.set(hash, readResult.error);
+      }
+      if (repair && chunkErrors.get(hash)) {
+        const deleteResult = await objects.deleteObject(hash);
+        if (!deleteResult.ok) {
+          return err(deleteResult.error);
+        }
+        repairs.push(`Removed corrupted object ${hash}`);
+      }
+    }
+
+    // Metadata, which saves write next to the context
+    let metadataError: string | undefined;
+    let previous: Record<string, unknown> = {};
+    if (!(await fs.exists(metadataPath))) {
+      if (current !== undefined) {
+        metadataError = 'Missing';
+      }
+    } else {
+      const readResult = await fs.readFile(metadataPath);
+      if (!readResult.ok) {
+        metadataError = describeError(readResult.error);
+      } else {
+        try {
+          const parsed: unknown = JSON.parse(readResult.value);
+          const parseResult = parseContextMetadata(parsed);
+          if (!parseResult.ok) {
+            metadataError = parseResult.error.message;
+            if (typeof parsed === 'object' && parsed !== null) {
+              previous = parsed as Record<string, unknown>;
+            }
+          }
+        } catch (e) {
+          metadataError = `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`;
+        }
+      }
+    }
+
+    if (metadataError !== undefined) {
+      report(METADATA_FILE, metadataError);
+      if (repair && current !== undefined) {
+        // Keep what is still valid of the old file; the rest is reset
+        const fields = ContextMetadataSchema.shape;
+        const count = fields.sessionCount.safeParse(previous.sessionCount);
+        const cursor = fields.transcriptCursor.safeParse(
+          previous.transcriptCursor,
+        );
+        const transcriptCursor = cursor.success ? cursor.data : undefined;
+        const path = fields.transcriptPath.safeParse(previous.transcriptPath);
+        const transcriptPath =
+          (path.success ? path.data : undefined) ?? transcriptCursor?.path;
+        const sessionCount =
+          count.success && count.data >= 1 ? count.data : undefined;
+
+        const metadata: ContextMetadata = {
+          directory: projectDir,
+          directoryHash: hashDirectory(projectDir),
+          lastSessionId: current.sessionId,
+          sessionCount: sessionCount ?? 1,
+          lastSavedAt: current.updatedAt,
+          ...(transcriptPath !== undefined && { transcriptPath }),
+          ...(transcriptCursor !== undefined && { transcriptCursor }),
+        };
+        const reset = [
+          sessionCount === undefined ? 'session count reset to 1' : '',
+          transcriptPath === undefined ? 'transcript path unknown' : '',
+          transcriptCursor === undefined
+            ? 'next save re-reads the whole transcript'
+            : '',
+        ].filter((note) => note.length > 0);
+
+        const writeResult = await fs.writeFile(
+          metadataPath,
+          JSON.stringify(metadata, null, 2),
+        );
+        if (!writeResult.ok) {
+          return err(
+            createError(
+              ErrorCode.FS_WRITE_ERROR,
+              'Failed to write metadata file',
+              {
+                path: metadataPath,
+                originalError: writeResult.error.message,
+              },
+            ),
+          );
+        }
+        repairs.push(
+          reset.length > 0
+            ? `Rebuilt ${METADATA_FILE} from the context (${reset.join('; ')})`
+            : `Rebuilt ${METADATA_FILE} from the context`,
+        );
+      }
+    }
+
+    logger.info('fsck finished', {
+      problems: problems.length,
+      repairs: repairs.length,
+    });
+    return ok({ problems, repairs });
+  };
+
+  return {
+    async check(options = {}) {
+      const repair = options.repair ?? false;
+      if (!(await fs.exists(benTenDir))) {
+        return ok({ problems: [], repairs: [] });
+      }
+      if (!repair) {
+        return run(false);
+      }
+
+      // Repairs rewrite several files, so hold the lock throughout
+      const lockPath = `${benTenDir}/${LOCK_FILE}`;
+      const lockResult = await fs.lock(lockPath, deps.lockOptions);
+      if (!lockResult.ok) {
+        return err(lockResult.error);
+      }
+      try {
+        return await run(true);
+      } finally {
+        const releaseResult = await lockResult.value.release();
+        if (!releaseResult.ok) {
+          logger.warn('Failed to release context lock', {
+            path: lockPath,
+            error: releaseResult.error.message,
+          });
+        }
+      }
+    },
+  };
+};
@@ -1,26 +1,42 @@
 import type { FileSystem } from '../adapters/fs/memory-fs.js';
-import type { ContextData, ContextMetadata, HookInput } from '../core/types.js';
+import {
+  CONTEXT_VERSION,
+  type ContextData,
+  type ContextMetadata,
+  type HookInput,
+  type TranscriptCursor,
+} from '../core/types.js';
 import type { BenTenError } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
-import { createContextService } from './context-service.js';
-
-/** Simple hash function for directory paths */
-const hashDirectory = (path: string): string => {
-  let hash = 0;
-  for (let i = 0; i < path.length; i++) {
-    const char = path.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(16);
-};
+import {
+  type BenTenConfig,
+  DEFAULT_CONFIG,
+  createConfigService,
+} from './config-service.js';
+import {
+  type ContextService,
+  createContextService,
+  hashDirectory,
+} from './context-service.js';
+import { createEncryptionService } from './encryption-service.js';
+import {
+  type RedactionReport,
+  createRedactionService,
+} from './redaction-service.js';
+import type { ContextSection } from './serializer-service.js';
+import { createTokenCounter } from './token-counter-service.js';
+import { createTranscriptService } from './transcript-service.js';
+
+/** SessionStart only previews the context, so skip the large sections */
+const SUMMARY_ONLY: readonly ContextSection[] = ['summary'];
 
 /** Result of handling a SessionStart event */
 export interface SessionStartResult {
   contextLoaded: boolean;
   contextSaved: boolean;
   contextCleared: boolean;
+  /** Loaded context (summary section only; call ben_ten_load for the rest) */
   context?: ContextData;
   /** Source where context was loaded from */
   source?: 'local' | 'remote';
@@ -31,6 +47,8 @@ export interface PreCompactResult {
   contextSaved: boolean;
   sessionId?: string;
   error?: string;
+  /** Secrets redacted from the saved context */
+  redactions?: RedactionReport;
 }
 
 /** Union of all hook results */
@@ -68,10 +86,53 @@ export interface HookHandlerDeps {
 export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
   const { fs, logger } = deps;
 
+  /** Load the project's config, falling back to defaults */
+  const loadConfig = async (projectDir: string): Promise<BenTenConfig> => {
+    const configResult = await createConfigService({
+      fs,
+      logger,
+      projectDir,
+    }).loadConfig();
+    return configResult.ok ? configResult.value : DEFAULT_CONFIG;
+  };
+
+  /** Create a context service using the project's storage settings */
+  const openContextService = async (
+    projectDir: string,
+    config: BenTenConfig,
+  ): Promise<Result<ContextService, BenTenError>> => {
+    const keyResult = await createEncryptionService({
+      fs,
+      logger,
+      projectDir,
+    }).resolveKey(config.encryption);
+    if (!keyResult.ok) {
+      return err(keyResult.error);
+    }
+    return ok(
+      createContextService({
+        fs,
+        logger,
+        projectDir,
+        maxSnapshots: config.maxSnapshots,
+        encryptionKey: keyResult.value,
+        compression: config.compression,
+        targetVersion: config.contextVersion,
+      }),
+    );
+  };
+
   const handler: HookHandler = {
     async handleSessionStart(input) {
       const projectDir = input.cwd;
-      const contextService = createContextService({ fs, logger, projectDir });
+      const contextServiceResult = await openContextService(
+        projectDir,
+        await loadConfig(projectDir),
+      );
+      if (!contextServiceResult.ok) {
+        return err(contextServiceResult.error);
+      }
+      const contextService = contextServiceResult.value;
 
       logger.debug('Handling SessionStart', {
         sessionId: input.session_id,
@@ -81,12 +142,20 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
 
       // Save metadata with transcript path for later use by ben_ten_save
       const saveMetadata = async () => {
-        // Load existing metadata to preserve session count
+        // Load existing metadata to preserve session count, and the
+        // transcript cursor when resuming the same transcript
         let sessionCount = 1;
+        let transcriptCursor: TranscriptCursor | undefined;
         if (await contextService.hasMetadata()) {
           const existingMeta = await contextService.loadMetadata();
           if (existingMeta.ok) {
             sessionCount = existingMeta.value.sessionCount + 1;
+            if (
+              existingMeta.value.transcriptCursor?.path ===
+              input.transcript_path
+            ) {
+              transcriptCursor = existingMeta.value.transcriptCursor;
+            }
           }
         }
 
@@ -97,6 +166,7 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
           sessionCount,
           lastSavedAt: Date.now(),
           transcriptPath: input.transcript_path,
+          transcriptCursor,
         };
         await contextService.saveMetadata(metadata);
       };
@@ -110,7 +180,9 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
 
           // Load existing context if available
           if (await contextService.hasContext()) {
-            const loadResult = await contextService.loadContext();
+            const loadResult = await contextService.loadContext({
+              sections: SUMMARY_ONLY,
+            });
             if (loadResult.ok) {
               logger.info('Context loaded from local storage', {
                 sessionId: loadResult.value.sessionId,
@@ -140,7 +212,9 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
           // Saving is handled by ben_ten_save MCP tool
           logger.debug('Compaction occurred, loading existing context');
           if (await contextService.hasContext()) {
-            const loadResult = await contextService.loadContext();
+            const loadResult = await contextService.loadContext({
+              sections: SUMMARY_ONLY,
+            });
             if (loadResult.ok) {
               logger.info(
                 'Context loaded from local storage after compaction',
@@ -186,7 +260,9 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
             source: input.source,
           });
           if (await contextService.hasContext()) {
-            const loadResult = await contextService.loadContext();
+            const loadResult = await contextService.loadContext({
+              sections: SUMMARY_ONLY,
+            });
             if (loadResult.ok) {
               return ok({
                 contextLoaded: true,
@@ -208,7 +284,12 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
 
     async handlePreCompact(input) {
       const projectDir = input.cwd;
-      const contextService = createContextService({ fs, logger, projectDir });
+      const config = await loadConfig(projectDir);
+      const contextServiceResult = await openContextService(projectDir, config);
+      if (!contextServiceResult.ok) {
+        return err(contextServiceResult.error);
+      }
+      const contextService = contextServiceResult.value;
 
       logger.debug(
         'Handling PreCompact - auto-saving context before compaction',
@@ -237,9 +318,11 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
             sessionId: input.session_id,
             isPreCompactionSnapshot: true,
             compactionTrigger: input.trigger ?? 'auto',
+            // Counted again below; an earlier count is stale
+            preCompactionTokenCount: undefined,
           }
         : {
-            version: '2.0.0',
+            version: CONTEXT_VERSION,
             createdAt: now,
             updatedAt: now,
             sessionId: input.session_id,
@@ -248,7 +331,29 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
             compactionTrigger: input.trigger ?? 'auto',
           };
 
-      const saveResult = await contextService.saveContext(contextToSave);
+      // Record how full the context window was, by the configured counter
+      const tokenCountResult = await createTranscriptService({
+        fs,
+        logger,
+      }).countContextTokens(
+        input.transcript_path,
+        createTokenCounter(config.tokenizer),
+      );
+      if (tokenCountResult.ok) {
+        contextToSave.preCompactionTokenCount = tokenCountResult.value;
+      } else {
+        logger.warn('Failed to count tokens before compaction', {
+          error: tokenCountResult.error.message,
+        });
+      }
+
+      // Never persist secrets, including ones saved before redaction existed
+      const { context: redactedContext, report } = createRedactionService({
+        logger,
+        config: config.redaction,
+      }).redactContext(contextToSave);
+
+      const saveResult = await contextService.saveContext(redactedContext);
       if (!saveResult.ok) {
         logger.warn('Failed to auto-save context before compaction', {
           error: saveResult.error.message,
@@ -268,6 +373,7 @@ export const createHookHandler = (deps: HookHandlerDeps): HookHandler => {
       return ok({
         contextSaved: true,
         sessionId: input.session_id,
+        redactions: report,
       });
     },
 
@@ -0,0 +1,250 @@
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import { BEN10_DIR } from './context-service.js';
+
+/** Ignore file name within .ben-ten directory */
+export const IGNORE_FILE = 'ignore';
+
+/**
+ * Paths excluded from saved context, read from a gitignore-syntax file.
+ */
+export interface IgnoreRules {
+  /** Number of patterns in the file */
+  readonly size: number;
+
+  /**
+   * Whether a path is excluded. Relative paths are taken as relative to
+   * the project; absolute paths outside the project are never excluded.
+   *
+   * @param path - File path as it appears in the transcript
+   * @returns True if the path or a directory containing it is excluded
+   */
+  isIgnored(path: string): boolean;
+}
+
+/**
+ * Service for reading a project's ignore rules.
+ */
+export interface IgnoreService {
+  /**
+   * Load the rules from .ben-ten/ignore.
+   * Returns empty rules if the file doesn't exist.
+   *
+   * @returns Result with the ignore rules or error
+   */
+  loadRules(): Promise<Result<IgnoreRules, BenTenError>>;
+
+  /**
+   * Get the full path to the ignore file.
+   *
+   * @returns Path to ignore file
+   */
+  getIgnorePath(): string;
+}
+
+export interface IgnoreServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  projectDir: string;
+}
+
+/** A parsed ignore pattern */
+interface IgnoreRule {
+  regex: RegExp;
+  /** Pattern started with ! and re-includes matching paths */
+  negated: boolean;
+  /** Pattern ended with / and only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Converts a gitignore glob to a regular expression over slash-separated
+ * paths: `*` and `?` stay within one segment, `**` spans segments.
+ */
+const globToRegex = (glob: string, anchored: boolean): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      i++;
+      if (atStart && atEnd) {
+        if (glob[i + 1] === '/') {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close < 0) {
+        source += '\\[';
+        continue;
+      }
+      const body = glob.slice(i + 1, close).replace(/^!/, '^');
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = close;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      i++;
+      source += (glob[i] as string).replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+};
+
+/**
+ * Parses one line of an ignore file, or returns null for blank lines and
+ * comments.
+ */
+const parseRule = (line: string): IgnoreRule | null => {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  // A slash anywhere but the end ties the pattern to the project root
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!pattern) {
+    return null;
+  }
+
+  return { regex: globToRegex(pattern, anchored), negated, directoryOnly };
+};
+
+/**
+ * Parses the content of an ignore file, using gitignore syntax: blank lines
+ * and # comments are skipped, ! re-includes, a trailing / matches only
+ * directories, and a leading or inner / anchors the pattern to the project
+ * root.
+ *
+ * @param content - Content of the ignore file
+ * @param projectDir - Project directory, for matching absolute paths
+ * @returns The parsed rules
+ * @example
+ * const rules = parseIgnoreRules('vendor/\n*.pem\n!public.pem', '/project');
+ * rules.isIgnored('/project/vendor/lib.js'); // true
+ */
+export const parseIgnoreRules = (
+  content: string,
+  projectDir?: string,
+): IgnoreRules => {
+  const rules = content
+    .split(/\r?\n/)
+    .map(parseRule)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+  /** Path relative to the project, or null if it is outside */
+  const relativePath = (path: string): string | null => {
+    let relative = path;
+    if (path.startsWith('/')) {
+      if (!projectDir || !path.startsWith(`${projectDir}/`)) {
+        return null;
+      }
+      relative = path.slice(projectDir.length + 1);
+    }
+    return relative.replace(/^(?:\.\/)+/, '');
+  };
+
+  /** Whether the last rule matching a path or directory excludes it */
+  const matches = (candidate: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(candidate)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  return {
+    size: rules.length,
+
+    isIgnored(path) {
+      if (rules.length === 0) return false;
+      const relative = relativePath(path);
+      if (!relative) return false;
+
+      const segments = relative.split('/').filter((s) => s.length > 0);
+      // Files inside an excluded directory cannot be re-included
+      for (let i = 1; i < segments.length; i++) {
+        if (matches(segments.slice(0, i).join('/'), true)) {
+          return true;
+        }
+      }
+      return matches(segments.join('/'), false);
+    },
+  };
+};
+
+/**
+ * Creates an ignore service for a project's .ben-ten/ignore file.
+ *
+ * @param deps - Dependencies including file system, logger, and project directory
+ * @returns An IgnoreService instance
+ * @example
+ * const ignoreService = createIgnoreService({ fs, logger, projectDir });
+ * const rules = await ignoreService.loadRules();
+ */
+export const createIgnoreService = (deps: IgnoreServiceDeps): IgnoreService => {
+  const { fs, logger, projectDir } = deps;
+  const ignorePath = `${projectDir}/${BEN10_DIR}/${IGNORE_FILE}`;
+
+  const service: IgnoreService = {
+    async loadRules() {
+      if (!(await fs.exists(ignorePath))) {
+        return ok(parseIgnoreRules('', projectDir));
+      }
+
+      const readResult = await fs.readFile(ignorePath);
+      if (!readResult.ok) {
+        return err(
+          createError(ErrorCode.FS_READ_ERROR, 'Failed to read ignore file', {
+            path: ignorePath,
+            originalError: readResult.error.message,
+          }),
+        );
+      }
+
+      const rules = parseIgnoreRules(readResult.value, projectDir);
+      logger.debug('Loaded ignore rules', {
+        path: ignorePath,
+        patterns: rules.size,
+      });
+      return ok(rules);
+    },
+
+    getIgnorePath() {
+      return ignorePath;
+    },
+  };
+
+  return service;
+};
@@ -2,12 +2,97 @@ export {
   createContextService,
   type ContextService,
   type ContextServiceDeps,
+  type SaveContextOptions,
+  type LoadContextOptions,
+  type ContextGarbageCollectionResult,
+  type ContextRekeyResult,
   BEN10_DIR,
   CONTEXT_FILE,
   CONTEXT_FILE_LEGACY,
   METADATA_FILE,
+  LOCK_FILE,
 } from './context-service.js';
 
+export {
+  createSnapshotService,
+  type SnapshotService,
+  type SnapshotServiceDeps,
+  SNAPSHOTS_DIR,
+  SNAPSHOT_INDEX_FILE,
+  DEFAULT_MAX_SNAPSHOTS,
+} from './snapshot-service.js';
+
+export {
+  createObjectStoreService,
+  chunkMessages,
+  hashObject,
+  type ObjectStoreService,
+  type ObjectStoreServiceDeps,
+  type MessageChunk,
+  type StoreMessagesResult,
+  type GarbageCollectionResult,
+  type ObjectRekeyResult,
+  OBJECTS_DIR,
+  OBJECTS_REKEY_DIR,
+  OBJECTS_PREVIOUS_DIR,
+  MAX_CHUNK_MESSAGES,
+} from './object-store-service.js';
+
+export {
+  createFsckService,
+  type FsckService,
+  type FsckServiceDeps,
+  type FsckOptions,
+  type FsckProblem,
+  type FsckReport,
+  CORRUPT_SUFFIX,
+} from './fsck-service.js';
+
+export {
+  createBundleService,
+  type BundleService,
+  type BundleServiceDeps,
+  type BundledSnapshot,
+  type ContextBundle,
+  type ExportResult,
+  type ImportMode,
+  type ImportOptions,
+  type ImportResult,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BUNDLE_EXTENSION,
+} from './bundle-service.js';
+
+export {
+  createSessionGraphService,
+  findSessionChain,
+  type SessionGraphService,
+  type SessionGraphServiceDeps,
+  type SessionGraph,
+  type SessionChainResult,
+  type TranscriptNode,
+} from './session-graph-service.js';
+
+export {
+  createIgnoreService,
+  parseIgnoreRules,
+  type IgnoreService,
+  type IgnoreServiceDeps,
+  type IgnoreRules,
+  IGNORE_FILE,
+} from './ignore-service.js';
+
+export {
+  createRedactionService,
+  BUILTIN_DETECTORS,
+  type RedactionService,
+  type RedactionServiceDeps,
+  type RedactionDetector,
+  type RedactionReport,
+  type RedactedText,
+  type RedactedContext,
+} from './redaction-service.js';
+
 export {
   createHookHandler,
   type HookHandler,
@@ -19,24 +104,47 @@ export {
 
 export {
   createCompressionService,
+  selectCompressionCodec,
   type CompressionService,
+  type CompressionCodec,
+  type CompressionSetting,
+  COMPRESSION_CODECS,
+  COMPRESSION_SETTINGS,
+  AUTO_BROTLI_THRESHOLD,
 } from './compression-service.js';
 
 export {
   createSerializerService,
   type SerializerService,
+  type SerializerOptions,
   type FormatType,
+  type DeserializeOptions,
+  type SalvageResult,
+  type ContextSection,
+  CONTEXT_SECTIONS,
   MAGIC_HEADER,
   FORMAT_VERSION,
+  FORMAT_VERSION_V1,
+  FORMAT_FLAGS,
   COMPRESSION_TYPE,
 } from './serializer-service.js';
 
+export {
+  createEncryptionService,
+  type EncryptionService,
+  type EncryptionServiceDeps,
+  DEFAULT_KEY_ENV,
+} from './encryption-service.js';
+
 export {
   createConfigService,
   type ConfigService,
   type ConfigServiceDeps,
   type BenTenConfig,
   type RemoteConfig,
+  type EncryptionConfig,
+  type RedactionConfig,
+  type RedactionPattern,
   CONFIG_FILE,
   DEFAULT_CONFIG,
 } from './config-service.js';
@@ -50,12 +158,39 @@ export {
   type ReplayResult,
   type StoppingPoint,
   type StoppingPointType,
-  estimateTokens,
+  type ReplayMode,
+  REPLAY_MODES,
+  type ReplayFormat,
+  REPLAY_FORMATS,
+  scoreReplayEntries,
+  type SegmentDigest,
+  digestSegment,
+  digestSegments,
   isGitCommit,
   isTaskCompletion,
   isSemanticMarker,
 } from './replay-service.js';
 
+export {
+  createTokenCounter,
+  countBpeTokens,
+  estimateTokens,
+  DEFAULT_TOKENIZER,
+  TOKENIZER_SETTINGS,
+  type TokenCounter,
+  type TokenEstimate,
+  type TokenizerSetting,
+} from './token-counter-service.js';
+
+export {
+  createToolFormatterRegistry,
+  BUILTIN_TOOL_FORMATTERS,
+  type ToolFormatter,
+  type ToolCallDescription,
+  type ToolFormatterRegistry,
+  type ToolFormatterRule,
+} from './tool-formatter-service.js';
+
 export {
   createProjectIdentifierService,
   type ProjectIdentifierService,
@@ -0,0 +1,822 @@
+import { createHash } from 'node:crypto';
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import {
+  type ContextData,
+  type TranscriptEntry,
+  TranscriptEntrySchema,
+} from '../core/types.js';
+import { crc32 } from '../infrastructure/checksum.js';
+import { decrypt, encrypt } from '../infrastructure/encryption.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+  isEncryptionKeyError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  type CompressionSetting,
+  createCompressionService,
+  selectCompressionCodec,
+} from './compression-service.js';
+import {
+  CODEC_BY_COMPRESSION_TYPE,
+  COMPRESSION_TYPE_BY_CODEC,
+  FORMAT_FLAGS,
+} from './serializer-service.js';
+
+/** Directory name for the object store within .ben-ten */
+export const OBJECTS_DIR = 'objects';
+
+/** Directory a rekey writes re-encrypted objects to before swapping them in */
+export const OBJECTS_REKEY_DIR = 'objects.rekey';
+
+/** Directory holding the previous objects while a rekey swaps in the new */
+export const OBJECTS_PREVIOUS_DIR = 'objects.previous';
+
+/** Magic header identifying a stored object: "BTOB" */
+export const OBJECT_MAGIC = 'BTOB';
+
+/** Object header size: 4 (magic) + 1 (compression) + 1 (flags) */
+const OBJECT_HEADER_SIZE = 6;
+
+/** Valid object hashes: lowercase SHA-256 hex (also prevents path traversal) */
+const OBJECT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * A message closes its chunk when the low bits of its key's CRC32 are zero,
+ * giving chunks of ~32 messages on average. Boundaries depend only on the
+ * messages themselves, so they survive messages being added or dropped
+ * elsewhere in the conversation.
+ */
+const CHUNK_BOUNDARY_MASK = 0x1f;
+
+/** Upper bound on messages per chunk */
+export const MAX_CHUNK_MESSAGES = 128;
+
+/**
+ * A run of conversation messages addressed by the hash of its content.
+ */
+export interface MessageChunk {
+  /** SHA-256 (hex) of data */
+  hash: string;
+  /** JSON array of the chunk's messages */
+  data: Buffer;
+  /** Number of messages in the chunk */
+  messageCount: number;
+}
+
+/**
+ * Result of writing a conversation to the object store.
+ */
+export interface StoreMessagesResult {
+  /** Chunk hashes in conversation order */
+  chunks: string[];
+  /** Number of chunks that were not already stored */
+  written: number;
+}
+
+/**
+ * Outcome of re-encrypting the object store.
+ */
+export interface ObjectRekeyResult {
+  /** Number of objects re-encrypted */
+  rewritten: number;
+  /** Hashes of unreadable objects, copied over unchanged */
+  skipped: string[];
+}
+
+/**
+ * Outcome of removing unreferenced objects.
+ */
+export interface GarbageCollectionResult {
+  /** Objects in the store before collection */
+  totalObjects: number;
+  /** Unreferenced objects deleted */
+  removed: number;
+  /** Bytes freed by the deleted objects */
+  freedBytes: number;
+}
+
+/**
+ * Hashes object content.
+ *
+ * @param data - Object content
+ * @returns Lowercase SHA-256 hex digest
+ */
+export const hashObject = (data: Buffer): string =>
+  createHash('sha256').update(data).digest('hex');
+
+/**
+ * Checks whether a string is a well-formed object hash.
+ *
+ * @param hash - Candidate hash
+ * @returns true if it is 64 lowercase hex characters
+ */
+export const isObjectHash = (hash: string): boolean =>
+  OBJECT_HASH_PATTERN.test(hash);
+
+/** Key deciding chunk boundaries: the transcript uuid, else the content */
+const chunkKey = (message: TranscriptEntry): string =>
+  'uuid' in message && message.uuid ? message.uuid : JSON.stringify(message);
+
+/**
+ * Splits conversation messages into content-addressed chunks.
+ *
+ * @param messages - Conversation messages in order
+ * @returns Chunks in conversation order
+ */
+export const chunkMessages = (
+  messages: readonly TranscriptEntry[],
+): MessageChunk[] => {
+  const chunks: MessageChunk[] = [];
+  let current: TranscriptEntry[] = [];
+
+  const close = () => {
+    const data = Buffer.from(JSON.stringify(current), 'utf-8');
+    chunks.push({ hash: hashObject(data), data, messageCount: current.length });
+    current = [];
+  };
+
+  for (const message of messages) {
+    current.push(message);
+    const boundary =
+      (crc32(Buffer.from(chunkKey(message), 'utf-8')) & CHUNK_BOUNDARY_MASK) ===
+      0;
+    if (boundary || current.length >= MAX_CHUNK_MESSAGES) {
+      close();
+    }
+  }
+  if (current.length > 0) {
+    close();
+  }
+
+  return chunks;
+};
+
+/**
+ * Parses the messages of a chunk.
+ *
+ * @param data - Chunk content (JSON array of messages)
+ * @returns Messages or DESERIALIZE_FAILED
+ */
+export const parseMessageChunk = (
+  data: Buffer,
+): Result<TranscriptEntry[], BenTenError> => {
+  try {
+    const parsed = TranscriptEntrySchema.array().safeParse(
+      JSON.parse(data.toString('utf-8')),
+    );
+    if (parsed.success) {
+      return ok(parsed.data);
+    }
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, 'Invalid message chunk', {
+        validationErrors: parsed.error.errors,
+      }),
+    );
+  } catch (e) {
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, 'Invalid JSON in chunk', {
+        error: e instanceof Error ? e.message : String(e),
+      }),
+    );
+  }
+};
+
+/**
+ * Content-addressed store for data shared between context generations.
+ */
+export interface ObjectStoreService {
+  /**
+   * Store an object unless one with the same content already exists.
+   *
+   * @param data - Object content
+   * @returns Result with the object's hash and whether it was newly written
+   */
+  writeObject(
+    data: Buffer,
+  ): Promise<Result<{ hash: string; written: boolean }, BenTenError>>;
+
+  /**
+   * Read an object and verify it against its hash.
+   *
+   * @param hash - The object hash
+   * @returns Result with the content or OBJECT_NOT_FOUND/OBJECT_CORRUPTED
+   */
+  readObject(hash: string): Promise<Result<Buffer, BenTenError>>;
+
+  /** Check whether an object is stored */
+  hasObject(hash: string): Promise<boolean>;
+
+  /**
+   * List the hashes of all stored objects.
+   *
+   * @returns Result with object hashes or error
+   */
+  listObjects(): Promise<Result<string[], BenTenError>>;
+
+  /**
+   * Delete an object.
+   *
+   * @param hash - The object hash
+   * @returns Result with the number of bytes freed or error
+   */
+  deleteObject(hash: string): Promise<Result<number, BenTenError>>;
+
+  /**
+   * Store conversation messages as chunks.
+   *
+   * @param messages - Conversation messages in order
+   * @returns Result with chunk hashes and the number of new chunks
+   */
+  storeMessages(
+    messages: readonly TranscriptEntry[],
+  ): Promise<Result<StoreMessagesResult, BenTenError>>;
+
+  /**
+   * Reassemble conversation messages from chunks.
+   *
+   * @param chunks - Chunk hashes in conversation order
+   * @returns Result with the messages or error
+   */
+  loadMessages(
+    chunks: readonly string[],
+  ): Promise<Result<TranscriptEntry[], BenTenError>>;
+
+  /**
+   * Move a context's conversation messages into the store, leaving chunk
+   * references in their place. Contexts without messages are returned as is.
+   *
+   * @param context - Context with inline messages
+   * @returns Result with the context in stored form or error
+   */
+  externalizeConversation(
+    context: ContextData,
+  ): Promise<Result<ContextData, BenTenError>>;
+
+  /**
+   * Replace a stored context's chunk references with the messages they hold.
+   *
+   * @param context - Context in stored form
+   * @returns Result with the context with inline messages or error
+   */
+  inlineConversation(
+    context: ContextData,
+  ): Promise<Result<ContextData, BenTenError>>;
+
+  /**
+   * Delete every object not in the keep set.
+   *
+   * @param keep - Hashes still referenced
+   * @param minAgeMs - Only delete objects at least this old, so uploads
+   *   waiting for their context to be saved survive (default: 0)
+   * @returns Result with collection counts or error
+   */
+  prune(
+    keep: ReadonlySet<string>,
+    minAgeMs?: number,
+  ): Promise<Result<GarbageCollectionResult, BenTenError>>;
+
+  /**
+   * Re-encrypt every object under a new key (undefined writes plaintext).
+   * Objects are written to a staging directory that replaces the store only
+   * once every object is in it, so a failure leaves the store as it was.
+   * Unreadable objects are copied unchanged and reported as skipped.
+   *
+   * @param newKey - The key to encrypt objects with
+   * @returns Result with the objects rewritten and skipped, or error
+   */
+  rekey(
+    newKey: Buffer | undefined,
+  ): Promise<Result<ObjectRekeyResult, BenTenError>>;
+
+  /**
+   * Finish a rekey interrupted while swapping in its staging directory, or
+   * discard one interrupted while staging.
+   *
+   * @returns Result with whether an interrupted rekey was found, or error
+   */
+  recoverRekey(): Promise<Result<boolean, BenTenError>>;
+
+  /** Get full path to the objects directory */
+  getObjectsDir(): string;
+}
+
+export interface ObjectStoreServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  /** Directory holding the objects/ store (the .ben-ten directory) */
+  benTenDir: string;
+  /** Key for encrypting objects at rest */
+  encryptionKey?: Buffer;
+  /** Compression codec setting for written objects */
+  compression?: CompressionSetting;
+}
+
+/**
+ * Creates a content-addressed object store.
+ *
+ * Layout: .ben-ten/objects/<first 2 hash chars>/<remaining 62 chars>
+ *
+ * Object file format:
+ * - Bytes 0-3: Magic header "BTOB"
+ * - Byte 4: Compression type (same values as context files)
+ * - Byte 5: Flags (0x01 = encrypted)
+ * - Bytes 6+: Compressed content, or if encrypted: [IV][auth tag][ciphertext]
+ *
+ * Objects are addressed by the SHA-256 of their uncompressed content, which
+ * is re-checked on every read.
+ *
+ * @param deps - Dependencies including file system, logger and .ben-ten path
+ * @returns An ObjectStoreService instance
+ * @example
+ * const objects = createObjectStoreService({ fs, logger, benTenDir });
+ * const stored = await objects.storeMessages(conversation.messages);
+ */
+export const createObjectStoreService = (
+  deps: ObjectStoreServiceDeps,
+): ObjectStoreService => {
+  const { fs, logger, benTenDir } = deps;
+  const objectsDir = `${benTenDir}/${OBJECTS_DIR}`;
+  const rekeyDir = `${benTenDir}/${OBJECTS_REKEY_DIR}`;
+  const previousDir = `${benTenDir}/${OBJECTS_PREVIOUS_DIR}`;
+
+  const getObjectPath = (hash: string, dir = objectsDir): string =>
+    `${dir}/${hash.slice(0, 2)}/${hash.slice(2)}`;
+
+  const encodeObject = (
+    data: Buffer,
+    key: Buffer | undefined,
+  ): Result<Buffer, BenTenError> => {
+    const codec = selectCompressionCodec(deps.compression, data.length);
+    const compressResult = createCompressionService(codec).compress(data);
+    if (!compressResult.ok) {
+      return compressResult;
+    }
+
+    let payload = compressResult.value;
+    let flags = 0;
+    if (key) {
+      const encryptResult = encrypt(payload, key);
+      if (!encryptResult.ok) {
+        return encryptResult;
+      }
+      payload = encryptResult.value;
+      flags |= FORMAT_FLAGS.ENCRYPTED;
+    }
+
+    const header = Buffer.alloc(OBJECT_HEADER_SIZE);
+    header.write(OBJECT_MAGIC, 0, 4, 'ascii');
+    header[4] = COMPRESSION_TYPE_BY_CODEC[codec];
+    header[5] = flags;
+    return ok(Buffer.concat([header, payload]));
+  };
+
+  const decodeObject = (
+    hash: string,
+    stored: Buffer,
+  ): Result<Buffer, BenTenError> => {
+    const corrupted = (message: string, details?: Record<string, unknown>) =>
+      err(
+        createError(ErrorCode.OBJECT_CORRUPTED, message, { hash, ...details }),
+      );
+
+    if (
+      stored.length < OBJECT_HEADER_SIZE ||
+      stored.subarray(0, 4).toString('ascii') !== OBJECT_MAGIC
+    ) {
+      return corrupted('Object has an invalid header');
+    }
+
+    const codec = CODEC_BY_COMPRESSION_TYPE[stored[4] as number];
+    if (!codec) {
+      return corrupted(`Unsupported compression type: ${stored[4]}`);
+    }
+
+    let payload = stored.subarray(OBJECT_HEADER_SIZE);
+    if ((stored[5] as number) & FORMAT_FLAGS.ENCRYPTED) {
+      if (!deps.encryptionKey) {
+        return err(
+          createError(
+            ErrorCode.ENCRYPTION_KEY_MISSING,
+            'Object is encrypted but no encryption key is configured',
+            { hash },
+          ),
+        );
+      }
+      // Objects carry no checksum, so a failure to decrypt one cannot tell
+      // a wrong key from damage; the key is checked against the context
+      const decryptResult = decrypt(payload, deps.encryptionKey);
+      if (!decryptResult.ok) {
+        if (decryptResult.error.code === ErrorCode.DECRYPTION_FAILED) {
+          return corrupted('Failed to decrypt object', {
+            originalError: decryptResult.error.message,
+          });
+        }
+        return decryptResult;
+      }
+      payload = decryptResult.value;
+    }
+
+    const decompressResult =
+      createCompressionService(codec).decompress(payload);
+    if (!decompressResult.ok) {
+      return corrupted('Failed to decompress object', {
+        originalError: decompressResult.error.message,
+      });
+    }
+
+    const actual = hashObject(decompressResult.value);
+    if (actual !== hash) {
+      return corrupted('Object content does not match its hash', { actual });
+    }
+
+    return ok(decompressResult.value);
+  };
+
+  /** Write an object's stored bytes into a store directory */
+  const writeStored = async (
+    hash: string,
+    stored: Buffer,
+    dir = objectsDir,
+  ): Promise<Result<void, BenTenError>> => {
+    const objectPath = getObjectPath(hash, dir);
+    const mkdirResult = await fs.mkdir(`${dir}/${hash.slice(0, 2)}`, {
+      recursive: true,
+    });
+    if (!mkdirResult.ok) {
+      return err(
+        createError(
+          ErrorCode.FS_WRITE_ERROR,
+          'Failed to create objects directory',
+          { path: dir, originalError: mkdirResult.error.message },
+        ),
+      );
+    }
+
+    const writeResult = await fs.writeFileBuffer(objectPath, stored);
+    if (!writeResult.ok) {
+      return err(
+        createError(ErrorCode.FS_WRITE_ERROR, 'Failed to write object', {
+          path: objectPath,
+          originalError: writeResult.error.message,
+        }),
+      );
+    }
+    return ok(undefined);
+  };
+
+  const writeEncoded = async (
+    hash: string,
+    data: Buffer,
+    key: Buffer | undefined,
+    dir = objectsDir,
+  ): Promise<Result<void, BenTenError>> => {
+    const encodeResult = encodeObject(data, key);
+    if (!encodeResult.ok) {
+      return err(encodeResult.error);
+    }
+    return writeStored(hash, encodeResult.value, dir);
+  };
+
+  /** Remove a directory and everything in it, if it exists */
+  const removeDir = async (dir: string): Promise<Result<void, BenTenError>> => {
+    if (!(await fs.exists(dir))) {
+      return ok(undefined);
+    }
+    const rmResult = await fs.rm(dir, { recursive: true });
+    if (!rmResult.ok) {
+      return err(
+        createError(ErrorCode.FS_WRITE_ERROR, 'Failed to remove directory', {
+          path: dir,
+          originalError: rmResult.error.message,
+        }),
+      );
+    }
+    return ok(undefined);
+  };
+
+  const service: ObjectStoreService = {
+    async writeObject(data) {
+      const hash = hashObject(data);
+      if (await fs.exists(getObjectPath(hash))) {
+        return ok({ hash, written: false });
+      }
+
+      const writeResult = await writeEncoded(hash, data, deps.encryptionKey);
+      if (!writeResult.ok) {
+        return err(writeResult.error);
+      }
+      return ok({ hash, written: true });
+    },
+
+    async readObject(hash) {
+      const objectPath = getObjectPath(hash);
+      if (!isObjectHash(hash) || !(await fs.exists(objectPath))) {
+        return err(
+          createError(ErrorCode.OBJECT_NOT_FOUND, `Object not found: ${hash}`, {
+            hash,
+          }),
+        );
+      }
+
+      const readResult = await fs.readFileBuffer(objectPath);
+      if (!readResult.ok) {
+        return err(
+          createError(ErrorCode.OBJECT_CORRUPTED, 'Failed to read object', {
+            hash,
+            path: objectPath,
+            originalError: readResult.error.message,
+          }),
+        );
+      }
+
+      return decodeObject(hash, readResult.value);
+    },
+
+    async hasObject(hash) {
+      return isObjectHash(hash) && fs.exists(getObjectPath(hash));
+    },
+
+    async listObjects() {
+      if (!(await fs.exists(objectsDir))) {
+        return ok([]);
+      }
+
+      const prefixesResult = await fs.readdir(objectsDir);
+      if (!prefixesResult.ok) {
+        return err(prefixesResult.error);
+      }
+
+      const hashes: string[] = [];
+      for (const prefix of prefixesResult.value) {
+        const namesResult = await fs.readdir(`${objectsDir}/${prefix}`);
+        if (!namesResult.ok) continue;
+        for (const name of namesResult.value) {
+          // Skips temp files left by interrupted atomic writes
+          if (isObjectHash(prefix + name)) {
+            hashes.push(prefix + name);
+          }
+        }
+      }
+      return ok(hashes.sort());
+    },
+
+    async deleteObject(hash) {
+      const objectPath = getObjectPath(hash);
+      if (!isObjectHash(hash) || !(await fs.exists(objectPath))) {
+        return ok(0);
+      }
+
+      const statResult = await fs.stat(objectPath);
+      const rmResult = await fs.rm(objectPath);
+      if (!rmResult.ok) {
+        return err(
+          createError(ErrorCode.FS_WRITE_ERROR, 'Failed to delete object', {
+            path: objectPath,
+            originalError: rmResult.error.message,
+          }),
+        );
+      }
+      return ok(statResult.ok ? statResult.value.size : 0);
+    },
+
+    async storeMessages(messages) {
+      const chunks: string[] = [];
+      let written = 0;
+
+      for (const chunk of chunkMessages(messages)) {
+        const writeResult = await service.writeObject(chunk.data);
+        if (!writeResult.ok) {
+          return err(writeResult.error);
+        }
+        chunks.push(chunk.hash);
+        if (writeResult.value.written) {
+          written++;
+        }
+      }
+
+      logger.debug('Stored conversation chunks', {
+        chunks: chunks.length,
+        written,
+      });
+      return ok({ chunks, written });
+    },
+
+    async loadMessages(chunks) {
+      const messages: TranscriptEntry[] = [];
+
+      for (const hash of chunks) {
+        const readResult = await service.readObject(hash);
+        if (!readResult.ok) {
+          return err(readResult.error);
+        }
+        const parseResult = parseMessageChunk(readResult.value);
+        if (!parseResult.ok) {
+          return err(
+            createError(ErrorCode.OBJECT_CORRUPTED, 'Object is not a chunk', {
+              hash,
+              originalError: parseResult.error.message,
+            }),
+          );
+        }
+        messages.push(...parseResult.value);
+      }
+
+      return ok(messages);
+    },
+
+    async externalizeConversation(context) {
+      const conversation = context.conversation;
+      if (!conversation || conversation.messages.length === 0) {
+        return ok(context);
+      }
+
+      const storeResult = await service.storeMessages(conversation.messages);
+      if (!storeResult.ok) {
+        return err(storeResult.error);
+      }
+
+      return ok({
+        ...context,
+        conversation: {
+          ...conversation,
+          messages: [],
+          chunks: storeResult.value.chunks,
+        },
+      });
+    },
+
+    async inlineConversation(context) {
+      const conversation = context.conversation;
+      if (!conversation?.chunks) {
+        return ok(context);
+      }
+
+      const messagesResult = await service.loadMessages(conversation.chunks);
+      if (!messagesResult.ok) {
+        return err(messagesResult.error);
+      }
+
+      const { chunks: _chunks, ...rest } = conversation;
+      return ok({
+        ...context,
+        conversation: { ...rest, messages: messagesResult.value },
+      });
+    },
+
+    async prune(keep, minAgeMs = 0) {
+      const listResult = await service.listObjects();
+      if (!listResult.ok) {
+        return err(listResult.error);
+      }
+
+      const cutoff = Date.now() - minAgeMs;
+      let removed = 0;
+      let freedBytes = 0;
+      for (const hash of listResult.value) {
+        if (keep.has(hash)) continue;
+        if (minAgeMs > 0) {
+          const statResult = await fs.stat(getObjectPath(hash));
+          if (statResult.ok && statResult.value.mtime.getTime() > cutoff) {
+            continue;
+          }
+        }
+
+        const deleteResult = await service.deleteObject(hash);
+        if (!deleteResult.ok) {
+          return err(deleteResult.error);
+        }
+        removed++;
+        freedBytes += deleteResult.value;
+      }
+
+      logger.debug('Pruned object store', {
+        totalObjects: listResult.value.length,
+        removed,
+        freedBytes,
+      });
+
+      return ok({ totalObjects: listResult.value.length, removed, freedBytes });
+    },
+
+    async rekey(newKey) {
+      const recoverResult = await service.recoverRekey();
+      if (!recoverResult.ok) {
+        return err(recoverResult.error);
+      }
+
+      const listResult = await service.listObjects();
+      if (!listResult.ok) {
+        return err(listResult.error);
+      }
+      if (listResult.value.length === 0) {
+        return ok({ rewritten: 0, skipped: [] });
+      }
+
+      // Stage the whole store before replacing any of it, so a wrong key or
+      // a failed write cannot leave it under two different keys. Staging an
+      // object says whether it was re-encrypted or copied unchanged.
+      const stage = async (
+        hash: string,
+      ): Promise<Result<boolean, BenTenError>> => {
+        const readResult = await service.readObject(hash);
+        if (readResult.ok) {
+          const writeResult = await writeEncoded(
+            hash,
+            readResult.value,
+            newKey,
+            rekeyDir,
+          );
+          return writeResult.ok ? ok(true) : err(writeResult.error);
+        }
+        if (isEncryptionKeyError(readResult.error)) {
+          return err(readResult.error);
+        }
+
+        logger.warn('Copying unreadable object unchanged during rekey', {
+          hash,
+          error: readResult.error.message,
+        });
+        const rawResult = await fs.readFileBuffer(getObjectPath(hash));
+        if (!rawResult.ok) {
+          return err(rawResult.error);
+        }
+        const writeResult = await writeStored(hash, rawResult.value, rekeyDir);
+        return writeResult.ok ? ok(false) : err(writeResult.error);
+      };
+
+      let rewritten = 0;
+      const skipped: string[] = [];
+      for (const hash of listResult.value) {
+        const stageResult = await stage(hash);
+        if (!stageResult.ok) {
+          await removeDir(rekeyDir);
+          return err(stageResult.error);
+        }
+        if (stageResult.value) {
+          rewritten++;
+        } else {
+          skipped.push(hash);
+        }
+      }
+
+      // Swap in the staged store; recoverRekey finishes an interrupted swap
+      const asideResult = await fs.rename(objectsDir, previousDir);
+      if (!asideResult.ok) {
+        await removeDir(rekeyDir);
+        return err(asideResult.error);
+      }
+      const swapResult = await fs.rename(rekeyDir, objectsDir);
+      if (!swapResult.ok) {
+        return err(swapResult.error);
+      }
+      const cleanupResult = await removeDir(previousDir);
+      if (!cleanupResult.ok) {
+        return err(cleanupResult.error);
+      }
+
+      logger.debug('Rekeyed object store', { rewritten, skipped });
+      return ok({ rewritten, skipped });
+    },
+
+    async recoverRekey() {
+      if (await fs.exists(previousDir)) {
+        // The swap had started, so the staging directory was complete
+        if (!(await fs.exists(objectsDir))) {
+          const source = (await fs.exists(rekeyDir)) ? rekeyDir : previousDir;
+          const renameResult = await fs.rename(source, objectsDir);
+          if (!renameResult.ok) {
+            return err(renameResult.error);
+          }
+        }
+        const cleanupResult = await removeDir(previousDir);
+        if (!cleanupResult.ok) {
+          return err(cleanupResult.error);
+        }
+        logger.info('Finished interrupted object store rekey');
+        return ok(true);
+      }
+
+      if (await fs.exists(rekeyDir)) {
+        // Interrupted while staging; the store itself was not touched
+        const cleanupResult = await removeDir(rekeyDir);
+        if (!cleanupResult.ok) {
+          return err(cleanupResult.error);
+        }
+        logger.info('Discarded interrupted object store rekey');
+        return ok(true);
+      }
+
+      return ok(false);
+    },
+
+    getObjectsDir() {
+      return objectsDir;
+    },
+  };
+
+  return service;
+};
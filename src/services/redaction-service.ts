@@ -0,0 +1,210 @@
+import type { ContextData } from '../core/types.js';
+import type { Logger } from '../infrastructure/logger.js';
+import type { RedactionConfig } from './config-service.js';
+
+/**
+ * A named pattern for a kind of secret.
+ * A named `keep` group, if present, is kept in front of the marker, so
+ * `API_KEY=abc` can become `API_KEY=[REDACTED:env_secret]`.
+ */
+export interface RedactionDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+/** Count of redactions applied, in total and by detector name */
+export interface RedactionReport {
+  total: number;
+  byDetector: Record<string, number>;
+}
+
+/** Text with its secrets replaced, and what was replaced */
+export interface RedactedText {
+  text: string;
+  report: RedactionReport;
+}
+
+/** A context with its secrets replaced, and what was replaced */
+export interface RedactedContext {
+  context: ContextData;
+  report: RedactionReport;
+}
+
+/** Values that were already redacted are not matched again */
+const NOT_REDACTED = '(?!\\[REDACTED)';
+
+/**
+ * Built-in detectors for common credential formats, most specific first.
+ */
+export const BUILTIN_DETECTORS: readonly RedactionDetector[] = [
+  {
+    name: 'private_key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'github_token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+  },
+  { name: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai_api_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'stripe_key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  {
+    name: 'jwt',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    name: 'bearer_token',
+    pattern: new RegExp(
+      `(?<keep>\\bBearer\\s+)${NOT_REDACTED}[A-Za-z0-9._~+/-]{16,}=*`,
+      'g',
+    ),
+  },
+  {
+    // .env lines such as DATABASE_PASSWORD=hunter2
+    name: 'env_secret',
+    pattern: new RegExp(
+      `(?<keep>^[ \\t]*(?:export[ \\t]+)?(?:[A-Z][A-Z0-9_]*)?(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*[ \\t]*=[ \\t]*)${NOT_REDACTED}\\S.*$`,
+      'gm',
+    ),
+  },
+  {
+    // "password": "..." and api_key: ... in JSON, YAML and code
+    name: 'secret_assignment',
+    pattern: new RegExp(
+      `(?<keep>\\b(?:secret|token|password|passwd|api[_-]?key|access[_-]?key)["']?[ \\t]*[:=][ \\t]*["']?)${NOT_REDACTED}[^\\s"'\`,;]{8,}`,
+      'gi',
+    ),
+  },
+];
+
+/**
+ * Service for removing secrets from context before it is persisted.
+ */
+export interface RedactionService {
+  /** Whether redaction is enabled */
+  readonly enabled: boolean;
+
+  /**
+   * Replace the secrets in a string with `[REDACTED:<detector>]` markers.
+   *
+   * @param text - Text to redact
+   * @returns The redacted text and a report of the redactions
+   */
+  redactText(text: string): RedactedText;
+
+  /**
+   * Replace the secrets in every string of a context: the summary, the
+   * conversation, the replay, tool history and file records. Keys are left
+   * alone. Returns the context unchanged when redaction is disabled.
+   *
+   * @param context - Context about to be saved
+   * @returns A redacted copy of the context and a report of the redactions
+   */
+  redactContext(context: ContextData): RedactedContext;
+}
+
+export interface RedactionServiceDeps {
+  logger: Logger;
+  /** Redaction settings; redaction is enabled when not given */
+  config?: RedactionConfig;
+}
+
+/**
+ * Creates a redaction service using the built-in detectors and any custom
+ * patterns from the config.
+ *
+ * @param deps - Dependencies including logger and redaction config
+ * @returns A RedactionService instance
+ * @example
+ * const redaction = createRedactionService({ logger, config: config.redaction });
+ * const { context, report } = redaction.redactContext(contextData);
+ */
+export const createRedactionService = (
+  deps: RedactionServiceDeps,
+): RedactionService => {
+  const { logger, config } = deps;
+  const enabled = config?.enabled ?? true;
+
+  const detectors: RedactionDetector[] = [...BUILTIN_DETECTORS];
+  for (const custom of config?.patterns ?? []) {
+    try {
+      detectors.push({
+        name: custom.name,
+        pattern: new RegExp(custom.pattern, 'g'),
+      });
+    } catch (error) {
+      logger.warn('Ignoring invalid redaction pattern', {
+        name: custom.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /** Redact a string, counting matches into a report */
+  const redactInto = (text: string, report: RedactionReport): string => {
+    let redacted = text;
+    for (const { name, pattern } of detectors) {
+      redacted = redacted.replace(pattern, (...args) => {
+        const groups = args[args.length - 1] as
+          | Record<string, string | undefined>
+          | undefined;
+        const match = args[0] as string;
+        if (match.length === 0) return match;
+        report.total++;
+        report.byDetector[name] = (report.byDetector[name] ?? 0) + 1;
+        const keep = typeof groups === 'object' ? (groups?.keep ?? '') : '';
+        return `${keep}[REDACTED:${name}]`;
+      });
+    }
+    return redacted;
+  };
+
+  /** Redact every string in a JSON value */
+  const redactValue = (value: unknown, report: RedactionReport): unknown => {
+    if (typeof value === 'string') {
+      return redactInto(value, report);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redactValue(item, report));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          redactValue(item, report),
+        ]),
+      );
+    }
+    return value;
+  };
+
+  const emptyReport = (): RedactionReport => ({ total: 0, byDetector: {} });
+
+  const service: RedactionService = {
+    enabled,
+
+    redactText(text) {
+      const report = emptyReport();
+      return { text: enabled ? redactInto(text, report) : text, report };
+    },
+
+    redactContext(context) {
+      const report = emptyReport();
+      if (!enabled) {
+        return { context, report };
+      }
+      const redacted = redactValue(context, report) as ContextData;
+      if (report.total > 0) {
+        logger.info('Redacted secrets from context', { ...report });
+      }
+      return { context: redacted, report };
+    },
+  };
+
+  return service;
+};
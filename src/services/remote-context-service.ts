@@ -1,4 +1,4 @@
-import type { ContextData } from '../core/types.js';
+import { type ContextData, migrateContextData } from '../core/types.js';
 import {
   type BenTenError,
   ErrorCode,
@@ -6,6 +6,7 @@ import {
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
+import { chunkMessages } from './object-store-service.js';
 
 /**
  * Summary of context metadata without full content.
@@ -72,7 +73,9 @@ export interface RemoteContextService {
   loadContext(projectHash: string): Promise<Result<ContextData, BenTenError>>;
 
   /**
-   * Save context to the remote server.
+   * Save context to the remote server. Conversations are sent as
+   * content-addressed chunks, uploading only chunks the server lacks;
+   * servers without chunk support receive the whole context instead.
    *
    * @param projectHash - The project hash identifier
    * @param context - The context data to save
@@ -228,6 +231,17 @@ export const createRemoteContextService = (
           );
         }
 
+        // Handle context versions the server cannot store (no retry)
+        if (response.status === 409) {
+          return err(
+            createError(
+              ErrorCode.CONTEXT_VERSION_MISMATCH,
+              'Remote server does not support this context version',
+              { path, status: response.status },
+            ),
+          );
+        }
+
         // Handle server errors with retry
         if (response.status >= 500) {
           if (attempt < retryAttempts - 1) {
@@ -317,6 +331,67 @@ export const createRemoteContextService = (
     );
   };
 
+  /**
+   * Upload the conversation chunks the server is missing, then the context
+   * referencing them. Fails with REMOTE_CONTEXT_NOT_FOUND if the server
+   * predates chunk uploads.
+   */
+  const saveChunked = async (
+    projectHash: string,
+    context: ContextData,
+  ): Promise<Result<void, BenTenError>> => {
+    const conversation = context.conversation;
+    const chunks = chunkMessages(conversation?.messages ?? []);
+
+    const missingResult = await fetchWithRetry<{ missing: string[] }>(
+      `/api/contexts/${projectHash}/objects/missing`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ hashes: chunks.map((chunk) => chunk.hash) }),
+      },
+    );
+    if (!missingResult.ok) {
+      return missingResult;
+    }
+
+    const missing = new Set(missingResult.value.missing);
+    for (const chunk of chunks) {
+      if (!missing.has(chunk.hash)) continue;
+      const uploadResult = await fetchWithRetry<{ stored: boolean }>(
+        `/api/contexts/${projectHash}/objects/${chunk.hash}`,
+        { method: 'PUT', body: chunk.data },
+      );
+      if (!uploadResult.ok) {
+        return uploadResult;
+      }
+    }
+
+    logger.debug('Uploaded conversation chunks', {
+      projectHash,
+      chunks: chunks.length,
+      uploaded: missing.size,
+    });
+
+    const result = await fetchWithRetry<{ saved: boolean }>(
+      `/api/contexts/${projectHash}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          ...context,
+          conversation: {
+            ...conversation,
+            messages: [],
+            chunks: chunks.map((chunk) => chunk.hash),
+          },
+        }),
+      },
+    );
+    if (!result.ok) {
+      return result;
+    }
+    return ok(undefined);
+  };
+
   const service: RemoteContextService = {
     async healthCheck() {
       logger.debug('Checking remote server health', { serverUrl });
@@ -366,12 +441,18 @@ export const createRemoteContextService = (
         return result;
       }
 
+      // Contexts saved by older clients are upgraded like local files
+      const migrateResult = migrateContextData(result.value);
+      if (!migrateResult.ok) {
+        return migrateResult;
+      }
+
       logger.info('Context loaded from remote', {
         projectHash,
-        sessionId: result.value.sessionId,
+        sessionId: migrateResult.value.sessionId,
       });
 
-      return ok(result.value);
+      return ok(migrateResult.value);
     },
 
     async saveContext(projectHash, context) {
@@ -380,6 +461,20 @@ export const createRemoteContextService = (
         sessionId: context.sessionId,
       });
 
+      if (context.conversation?.messages.length) {
+        const chunkedResult = await saveChunked(projectHash, context);
+        if (chunkedResult.ok) {
+          logger.info('Context saved to remote', { projectHash });
+          return chunkedResult;
+        }
+        if (chunkedResult.error.code !== ErrorCode.REMOTE_CONTEXT_NOT_FOUND) {
+          return chunkedResult;
+        }
+        logger.debug('Server does not support chunk uploads, sending all', {
+          projectHash,
+        });
+      }
+
       const result = await fetchWithRetry<{ saved: boolean }>(
         `/api/contexts/${projectHash}`,
         {
@@ -1,11 +1,31 @@
 import {
   type ContentBlock,
+  type SubagentRun,
   type TranscriptEntry,
   getTranscriptEntryContent,
 } from '../core/types.js';
-import type { BenTenError } from '../infrastructure/errors.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+} from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
-import { type Result, ok } from '../infrastructure/result.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import type { IgnoreRules } from './ignore-service.js';
+import {
+  type TokenCounter,
+  createTokenCounter,
+  estimateTokens,
+} from './token-counter-service.js';
+import {
+  type ToolCallDescription,
+  type ToolFormatterRegistry,
+  createToolFormatterRegistry,
+} from './tool-formatter-service.js';
+import {
+  toolFileAccesses,
+  toolTouchesIgnoredPath,
+} from './transcript-service.js';
 
 /** Maximum characters for user message truncation */
 const MAX_USER_MESSAGE_LENGTH = 500;
@@ -13,12 +33,65 @@ const MAX_USER_MESSAGE_LENGTH = 500;
 /** Maximum characters for tool command truncation */
 const MAX_TOOL_COMMAND_LENGTH = 50;
 
+/** Maximum characters of a subagent's outcome shown under its Task call */
+const MAX_SUBAGENT_OUTCOME_LENGTH = 300;
+
+/** Maximum paths listed per line of a segment digest */
+const MAX_DIGEST_FILES = 8;
+
+/** Maximum commands listed in a segment digest */
+const MAX_DIGEST_COMMANDS = 5;
+
+/** Maximum characters of a segment digest's outcome line */
+const MAX_DIGEST_OUTCOME_LENGTH = 200;
+
 /** Patterns for detecting semantic completion markers */
 const COMPLETION_PATTERNS = [
   /\b(?:done|complete|finished|completed)\b/i,
   /\b(?:moving on|let's work on|next up|now let's)\b/i,
 ];
 
+/**
+ * How messages are picked for the replay: the newest that fit the budget,
+ * or the most important ones, with gaps marked.
+ */
+export type ReplayMode = 'chronological' | 'ranked';
+
+/** Valid values for the replayMode config setting */
+export const REPLAY_MODES: readonly ReplayMode[] = ['chronological', 'ranked'];
+
+/**
+ * How the replay is written: markdown, <turn role=...> XML, or JSON turns
+ * with tool calls kept as objects.
+ */
+export type ReplayFormat = 'markdown' | 'xml' | 'json';
+
+/** Valid values for the replay format option */
+export const REPLAY_FORMATS: readonly ReplayFormat[] = [
+  'markdown',
+  'xml',
+  'json',
+];
+
+/** Tools whose calls change files */
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/** Patterns for user directives worth keeping */
+const DIRECTIVE_PATTERN =
+  /\b(?:must|never|always|don't|do not|make sure|should|need to|please|instead)\b/i;
+
+/** Patterns for decisions in assistant text */
+const DECISION_PATTERN =
+  /\b(?:decided|decision|let's go with|we'll use|i'll use|going with|instead of|the plan is|approach)\b/i;
+
+/** Patterns for errors in messages and tool results */
+const ERROR_PATTERN =
+  /\b(?:error|failed|failure|exception|traceback|cannot|can't find)\b/i;
+
+/** Patterns for fixes in assistant text */
+const FIX_PATTERN =
+  /\b(?:fix(?:ed|es)?|resolved|works now|now passes|passing|root cause)\b/i;
+
 /**
  * Stopping point types in priority order.
  */
@@ -38,8 +111,23 @@ export interface ReplayOptions {
   stopPointIndex?: number;
   /** Pre-computed stopping points to reuse (avoids re-scanning) */
   stoppingPoints?: StoppingPoint[];
+  /** Ignore rules; tool calls touching excluded paths are shown without input */
+  ignore?: IgnoreRules;
+  /** Subagent runs, summarized under the Task calls that started them */
+  subagents?: SubagentRun[];
+  /** How to pick messages (default: chronological) */
+  mode?: ReplayMode;
+  /** Digest the segments before the replay's stopping point (default: false) */
+  digests?: boolean;
+  /** How the replay is written (default: markdown) */
+  format?: ReplayFormat;
 }
 
+/** Replay options that affect how single entries are formatted */
+type FormatOptions = Pick<ReplayOptions, 'ignore' | 'subagents' | 'format'> & {
+  formatters?: ToolFormatterRegistry;
+};
+
 /**
  * Information about a stopping point in the transcript.
  */
@@ -50,6 +138,31 @@ export interface StoppingPoint {
   type: StoppingPointType;
 }
 
+/**
+ * What happened in a segment of the conversation that ends at a stopping
+ * point, derived from its tool calls and last assistant message.
+ */
+export interface SegmentDigest {
+  /** Index of the segment's first message */
+  startIndex: number;
+  /** Index of the stopping point that ends the segment */
+  endIndex: number;
+  /** Type of that stopping point */
+  stoppingPointType: StoppingPointType;
+  /** User and assistant messages in the segment */
+  messageCount: number;
+  /** Files edited, written or deleted */
+  filesChanged: string[];
+  /** Files read but not changed */
+  filesRead: string[];
+  /** Shell commands run, other than commits */
+  commands: string[];
+  /** Messages of the commits made */
+  commits: string[];
+  /** The segment's last assistant text */
+  outcome?: string;
+}
+
 /**
  * Result of replay generation.
  */
@@ -58,6 +171,8 @@ export interface ReplayResult {
   replay: string;
   /** Estimated token count of the replay */
   tokenCount: number;
+  /** Token count by the 4 characters per token heuristic, for comparison */
+  heuristicTokenCount: number;
   /** Number of messages included */
   messageCount: number;
   /** Type of stopping point that was detected */
@@ -68,6 +183,10 @@ export interface ReplayResult {
   currentStopIndex: number;
   /** Starting message index for this replay */
   startMessageIndex: number;
+  /** Messages left out between the ones shown (ranked mode) */
+  omittedMessageCount?: number;
+  /** Digests of earlier segments shown before the messages, oldest first */
+  digests?: SegmentDigest[];
 }
 
 /**
@@ -85,22 +204,31 @@ export interface ReplayService {
     messages: TranscriptEntry[],
     options?: ReplayOptions,
   ): Result<ReplayResult, BenTenError>;
+
+  /**
+   * Replay the messages of one segment in full, e.g. to expand its digest.
+   * The segment's messages are shown in order until the budget runs out.
+   *
+   * @param messages - Transcript entries to process
+   * @param segment - Segment number, from 1 for the oldest, as in the digests
+   * @param options - Replay options; mode, digests and stopPointIndex are ignored
+   * @returns Result with the segment's replay, or an error if there is no such segment
+   */
+  expandSegment(
+    messages: TranscriptEntry[],
+    segment: number,
+    options?: ReplayOptions,
+  ): Result<ReplayResult, BenTenError>;
 }
 
 export interface ReplayServiceDeps {
   logger: Logger;
+  /** Counts tokens against the budget (default: bpe approximation) */
+  tokenCounter?: TokenCounter;
+  /** Formats tool calls (default: the built-in formatters) */
+  toolFormatters?: ToolFormatterRegistry;
 }
 
-/**
- * Estimates token count using 4 characters per token heuristic.
- *
- * @param text - Text to estimate tokens for
- * @returns Estimated token count
- */
-export const estimateTokens = (text: string): number => {
-  return Math.floor(text.length / 4);
-};
-
 /**
  * Checks if a transcript entry contains a git commit command.
  *
@@ -177,93 +305,439 @@ const truncateText = (text: string, maxLength: number): string => {
 };
 
 /**
- * Formats a tool use block into a condensed string.
+ * Formats what a subagent did, for the line of its Task call.
+ *
+ * @param run - The subagent run
+ * @returns Status, counts and outcome of the run
+ */
+const formatSubagentRun = (run: SubagentRun): string => {
+  let formatted = ` (${run.status}, ${run.toolCallCount} tool calls`;
+  if (run.filesChanged && run.filesChanged.length > 0) {
+    formatted += `, changed ${run.filesChanged.join(', ')}`;
+  }
+  formatted += ')';
+  if (run.outcome) {
+    formatted += `\n  Outcome: ${truncateText(run.outcome.replace(/\s+/g, ' '), MAX_SUBAGENT_OUTCOME_LENGTH)}`;
+  }
+  return formatted;
+};
+
+/** Formatters used when the service is not given any */
+const DEFAULT_TOOL_FORMATTERS = createToolFormatterRegistry();
+
+/**
+ * Whether a tool call touches a path excluded by the ignore rules, or was
+ * masked for doing so when it was saved.
+ */
+const isIgnoredCall = (
+  block: Extract<ContentBlock, { type: 'tool_use' }>,
+  ignore?: IgnoreRules,
+): boolean =>
+  (block.input as { ignored?: unknown } | undefined)?.ignored === true ||
+  (ignore !== undefined &&
+    toolTouchesIgnoredPath(block.name, block.input, ignore));
+
+/**
+ * Describes a tool call with the tool formatters, hiding the arguments of
+ * calls that touch ignored paths.
  *
  * @param block - Tool use content block
- * @returns Formatted tool string
+ * @param options - Ignore rules for masking calls, and the tool formatters
+ * @returns The label and arguments to show
  */
-const formatToolUse = (
+const describeToolUse = (
   block: Extract<ContentBlock, { type: 'tool_use' }>,
-): string => {
-  const input = block.input as Record<string, unknown>;
+  options: FormatOptions,
+): ToolCallDescription => {
+  if (isIgnoredCall(block, options.ignore)) {
+    return { label: block.name, args: '(ignored path)' };
+  }
+  return (options.formatters ?? DEFAULT_TOOL_FORMATTERS).describe(
+    block.name,
+    block.input,
+  );
+};
 
-  switch (block.name) {
-    case 'Bash': {
-      const command = String(input.command || '');
-      return `[Bash: ${truncateText(command, MAX_TOOL_COMMAND_LENGTH)}]`;
-    }
-    case 'Read': {
-      const filePath = String(input.file_path || '');
-      return `[Read: ${filePath}]`;
-    }
-    case 'Edit': {
-      const filePath = String(input.file_path || '');
-      return `[Edit: ${filePath}]`;
-    }
-    case 'Write': {
-      const filePath = String(input.file_path || '');
-      return `[Write: ${filePath}]`;
-    }
-    case 'Glob': {
-      const pattern = String(input.pattern || '');
-      return `[Glob: ${pattern}]`;
-    }
-    case 'Grep': {
-      const pattern = String(input.pattern || '');
-      return `[Grep: ${pattern}]`;
-    }
-    case 'Task': {
-      const description = String(input.description || '');
-      return `[Task: ${description}]`;
-    }
-    default:
-      return `[${block.name}]`;
+/**
+ * Shortens the strings of a tool call's input so large arguments, such as
+ * the content of a Write, do not take over the replay.
+ */
+const condenseInput = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return truncateText(value, MAX_USER_MESSAGE_LENGTH);
+  }
+  if (Array.isArray(value)) {
+    return value.map(condenseInput);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, condenseInput(item)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Escapes text for XML content and attribute values.
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Formats a tool call as an XML element, with its subagent run nested.
+ */
+const formatToolUseXml = (
+  block: Extract<ContentBlock, { type: 'tool_use' }>,
+  options: FormatOptions,
+): string => {
+  const { label, args } = describeToolUse(block, options);
+  let subagent = '';
+  const run = options.subagents?.find((r) => r.toolUseId === block.id);
+  if (run) {
+    const changed = run.filesChanged?.length
+      ? ` changed="${escapeXml(run.filesChanged.join(', '))}"`
+      : '';
+    const attributes = `status="${run.status}" tool_calls="${run.toolCallCount}"${changed}`;
+    subagent = run.outcome
+      ? `<subagent ${attributes}>${escapeXml(truncateText(run.outcome.replace(/\s+/g, ' '), MAX_SUBAGENT_OUTCOME_LENGTH))}</subagent>`
+      : `<subagent ${attributes}/>`;
   }
+  return `<tool_call name="${escapeXml(label)}">${escapeXml(args)}${subagent}</tool_call>`;
+};
+
+/**
+ * Formats a tool call as a JSON object: its input, condensed, and the run of
+ * the subagent it started.
+ */
+const toolUseJson = (
+  block: Extract<ContentBlock, { type: 'tool_use' }>,
+  options: FormatOptions,
+): Record<string, unknown> => {
+  const run = options.subagents?.find((r) => r.toolUseId === block.id);
+  return {
+    id: block.id,
+    name: block.name,
+    input: isIgnoredCall(block, options.ignore)
+      ? { ignored: true }
+      : condenseInput(block.input),
+    ...(run
+      ? {
+          subagent: {
+            status: run.status,
+            toolCallCount: run.toolCallCount,
+            filesChanged: run.filesChanged,
+            outcome: run.outcome
+              ? truncateText(run.outcome, MAX_SUBAGENT_OUTCOME_LENGTH)
+              : undefined,
+          },
+        }
+      : {}),
+  };
 };
 
 /**
- * Formats a single transcript entry for the replay.
+ * Formats a single transcript entry for the replay, in the replay's format.
+ * Subagent (sidechain) messages are left out; their Task calls summarize
+ * them.
  *
  * @param entry - Entry to format
+ * @param options - Ignore rules for masking tool calls, subagent runs, tool
+ *   formatters and the replay format
  * @returns Formatted entry string
  */
-const formatEntry = (entry: TranscriptEntry): string => {
+const formatEntry = (
+  entry: TranscriptEntry,
+  options: FormatOptions = {},
+): string => {
+  // Skip other entry types
+  if (entry.type !== 'user' && entry.type !== 'assistant') {
+    return '';
+  }
+  if (entry.isSidechain) {
+    return '';
+  }
+  const format = options.format ?? 'markdown';
+
   if (entry.type === 'user') {
-    const content =
+    const content = truncateText(
       typeof entry.message.content === 'string'
         ? entry.message.content
-        : '[tool results]';
-    return `**User:** ${truncateText(content, MAX_USER_MESSAGE_LENGTH)}`;
+        : getTranscriptEntryContent(entry) || '[tool results]',
+      MAX_USER_MESSAGE_LENGTH,
+    );
+    if (format === 'xml') {
+      return `<turn role="user">${escapeXml(content)}</turn>`;
+    }
+    if (format === 'json') {
+      return JSON.stringify({ role: 'user', text: content });
+    }
+    return `**User:** ${content}`;
+  }
+
+  const textParts: string[] = [];
+  const tools: Extract<ContentBlock, { type: 'tool_use' }>[] = [];
+  for (const block of entry.message.content) {
+    if (block.type === 'text') {
+      textParts.push(block.text);
+    } else if (block.type === 'tool_use') {
+      tools.push(block as Extract<ContentBlock, { type: 'tool_use' }>);
+    }
+    // Omit thinking blocks
+  }
+  const text =
+    textParts.length > 0
+      ? truncateText(textParts.join('\n'), MAX_USER_MESSAGE_LENGTH)
+      : '';
+
+  if (format === 'xml') {
+    const calls = tools.map((block) => formatToolUseXml(block, options));
+    return `<turn role="assistant">${escapeXml(text)}${calls.map((call) => `\n${call}`).join('')}${calls.length > 0 ? '\n' : ''}</turn>`;
+  }
+
+  if (format === 'json') {
+    return JSON.stringify({
+      role: 'assistant',
+      ...(text ? { text } : {}),
+      ...(tools.length > 0
+        ? { toolCalls: tools.map((block) => toolUseJson(block, options)) }
+        : {}),
+    });
+  }
+
+  let formatted = '**Assistant:**';
+  if (text) {
+    formatted += ` ${text}`;
+  }
+  if (tools.length > 0) {
+    const toolParts = tools.map((block) => {
+      const { label, args } = describeToolUse(block, options);
+      const run = options.subagents?.find((r) => r.toolUseId === block.id);
+      return `[${label}${args ? `: ${args}` : ''}]${run ? formatSubagentRun(run) : ''}`;
+    });
+    formatted += `\n- ${toolParts.join('\n- ')}`;
   }
 
-  if (entry.type === 'assistant') {
-    const textParts: string[] = [];
-    const toolParts: string[] = [];
+  return formatted;
+};
+
+/**
+ * The message of a git commit command, or the command itself if it has
+ * none inline. Heredoc messages give their first line.
+ *
+ * @param command - The git commit command
+ * @returns First line of the commit message
+ */
+const commitMessage = (command: string): string => {
+  const match = command.match(
+    /(?:\s-[A-Za-z]*m|--message)[=\s]\s*(?:"([^"]*)"|'([^']*)'|(\S+))/,
+  );
+  const message = match?.[1] ?? match?.[2] ?? match?.[3];
+  if (!message) {
+    return truncateText(command, MAX_TOOL_COMMAND_LENGTH);
+  }
+  const lines = message
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  // -m "$(cat <<'EOF' ... EOF)" puts the message on the following lines
+  const first = lines[0]?.includes('<<') ? lines[1] : lines[0];
+  return truncateText(first ?? '', MAX_TOOL_COMMAND_LENGTH);
+};
+
+/**
+ * Digests the messages of one segment of the conversation. The same
+ * messages always give the same digest.
+ *
+ * @param messages - The conversation
+ * @param startIndex - Index of the segment's first message
+ * @param stoppingPoint - The stopping point that ends the segment
+ * @param ignore - Ignore rules; calls touching excluded paths are skipped
+ * @returns The segment's digest
+ */
+export const digestSegment = (
+  messages: TranscriptEntry[],
+  startIndex: number,
+  stoppingPoint: StoppingPoint,
+  ignore?: IgnoreRules,
+): SegmentDigest => {
+  const changed = new Set<string>();
+  const read = new Set<string>();
+  const commands = new Set<string>();
+  const commits: string[] = [];
+  let outcome: string | undefined;
+  let messageCount = 0;
+
+  for (let i = startIndex; i <= stoppingPoint.index; i++) {
+    const entry = messages[i];
+    if (
+      !entry ||
+      (entry.type !== 'user' && entry.type !== 'assistant') ||
+      entry.isSidechain
+    ) {
+      continue;
+    }
+    messageCount++;
+    if (entry.type !== 'assistant') continue;
+
+    const text = entry.message.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) outcome = text;
 
     for (const block of entry.message.content) {
-      if (block.type === 'text') {
-        textParts.push(block.text);
-      } else if (block.type === 'tool_use') {
-        toolParts.push(
-          formatToolUse(block as Extract<ContentBlock, { type: 'tool_use' }>),
-        );
+      if (block.type !== 'tool_use') continue;
+      if (ignore && toolTouchesIgnoredPath(block.name, block.input, ignore)) {
+        continue;
+      }
+      for (const access of toolFileAccesses(block.name, block.input)) {
+        (access.kind === 'read' ? read : changed).add(access.path);
+      }
+      const command = (block.input as { command?: unknown } | undefined)
+        ?.command;
+      if (block.name === 'Bash' && typeof command === 'string') {
+        if (/git\s+commit\b/.test(command)) {
+          commits.push(commitMessage(command));
+        } else {
+          const firstLine = command.trim().split('\n')[0] ?? '';
+          commands.add(truncateText(firstLine, MAX_TOOL_COMMAND_LENGTH));
+        }
       }
-      // Omit thinking blocks
     }
+  }
 
-    let formatted = '**Assistant:**';
-    if (textParts.length > 0) {
-      formatted += ` ${truncateText(textParts.join('\n'), MAX_USER_MESSAGE_LENGTH)}`;
-    }
-    if (toolParts.length > 0) {
-      formatted += `\n- ${toolParts.join('\n- ')}`;
-    }
+  return {
+    startIndex,
+    endIndex: stoppingPoint.index,
+    stoppingPointType: stoppingPoint.type,
+    messageCount,
+    filesChanged: [...changed],
+    filesRead: [...read].filter((path) => !changed.has(path)),
+    commands: [...commands],
+    commits,
+    outcome: outcome
+      ? truncateText(outcome, MAX_DIGEST_OUTCOME_LENGTH)
+      : undefined,
+  };
+};
 
-    return formatted;
+/**
+ * Digests every segment that ends before a message: the conversation is
+ * split after each stopping point.
+ *
+ * @param messages - The conversation
+ * @param stoppingPoints - Stopping points, most recent first
+ * @param beforeIndex - Only segments ending before this index are digested
+ * @param ignore - Ignore rules; calls touching excluded paths are skipped
+ * @returns Digests in conversation order
+ */
+export const digestSegments = (
+  messages: TranscriptEntry[],
+  stoppingPoints: StoppingPoint[],
+  beforeIndex: number,
+  ignore?: IgnoreRules,
+): SegmentDigest[] => {
+  const digests: SegmentDigest[] = [];
+  let startIndex = 0;
+  for (const point of [...stoppingPoints].reverse()) {
+    if (point.index >= beforeIndex) break;
+    digests.push(digestSegment(messages, startIndex, point, ignore));
+    startIndex = point.index + 1;
   }
+  return digests;
+};
 
-  // Skip other entry types
-  return '';
+/**
+ * Lists items on one line, saying how many more there are past a limit.
+ */
+const listItems = (items: string[], limit: number): string => {
+  const shown = items.slice(0, limit).join(', ');
+  return items.length > limit
+    ? `${shown} (+${items.length - limit} more)`
+    : shown;
+};
+
+/**
+ * Formats a segment digest for the replay.
+ *
+ * @param digest - The digest
+ * @param number - Position of the segment in the conversation, from 1
+ * @param format - Format of the replay
+ * @returns The digest in the replay's format
+ */
+const formatDigest = (
+  digest: SegmentDigest,
+  number: number,
+  format: ReplayFormat,
+): string => {
+  if (format === 'json') {
+    return JSON.stringify({ segment: number, ...digest });
+  }
+
+  if (format === 'xml') {
+    const lines = [
+      `<segment number="${number}" messages="${digest.messageCount}" ended_by="${digest.stoppingPointType}">`,
+    ];
+    const element = (tag: string, items: string[], separator = ', ') => {
+      if (items.length > 0) {
+        lines.push(`<${tag}>${escapeXml(items.join(separator))}</${tag}>`);
+      }
+    };
+    element('changed', digest.filesChanged);
+    element('read', digest.filesRead);
+    element('ran', digest.commands, '; ');
+    element('committed', digest.commits, '; ');
+    element('outcome', digest.outcome ? [digest.outcome] : []);
+    lines.push('</segment>');
+    return lines.join('\n');
+  }
+
+  const lines = [
+    `**Segment ${number}** (${digest.messageCount} message${digest.messageCount === 1 ? '' : 's'}, ended by ${digest.stoppingPointType.replace('_', ' ')})`,
+  ];
+  if (digest.filesChanged.length > 0) {
+    lines.push(
+      `- Changed: ${listItems(digest.filesChanged, MAX_DIGEST_FILES)}`,
+    );
+  }
+  if (digest.filesRead.length > 0) {
+    lines.push(`- Read: ${listItems(digest.filesRead, MAX_DIGEST_FILES)}`);
+  }
+  if (digest.commands.length > 0) {
+    lines.push(
+      `- Ran: ${listItems(
+        digest.commands.map((command) => `\`${command}\``),
+        MAX_DIGEST_COMMANDS,
+      )}`,
+    );
+  }
+  if (digest.commits.length > 0) {
+    lines.push(`- Committed: ${digest.commits.join('; ')}`);
+  }
+  if (digest.outcome) {
+    lines.push(`- Outcome: ${digest.outcome}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Classifies a transcript entry as a stopping point.
+ *
+ * @param entry - Transcript entry to check
+ * @returns The stopping point type, or null if it is not one
+ */
+const stoppingPointTypeOf = (
+  entry: TranscriptEntry,
+): StoppingPointType | null => {
+  if (isGitCommit(entry)) return 'git_commit';
+  if (isTaskCompletion(entry)) return 'task_completion';
+  if (isSemanticMarker(entry)) return 'semantic_marker';
+  return null;
 };
 
 /**
@@ -281,18 +755,147 @@ export const findAllStoppingPoints = (
     const entry = messages[i];
     if (!entry) continue;
 
-    if (isGitCommit(entry)) {
-      stoppingPoints.push({ index: i, type: 'git_commit' });
-    } else if (isTaskCompletion(entry)) {
-      stoppingPoints.push({ index: i, type: 'task_completion' });
-    } else if (isSemanticMarker(entry)) {
-      stoppingPoints.push({ index: i, type: 'semantic_marker' });
+    const type = stoppingPointTypeOf(entry);
+    if (type) {
+      stoppingPoints.push({ index: i, type });
     }
   }
 
   return stoppingPoints;
 };
 
+/**
+ * Whether a user entry is something the user wrote, not tool output.
+ */
+const isUserRequest = (entry: TranscriptEntry): boolean =>
+  entry.type === 'user' &&
+  !entry.isSidechain &&
+  (typeof entry.message.content === 'string' ||
+    !entry.message.content.some((block) => block.type === 'tool_result'));
+
+/**
+ * Scores how much each message is worth keeping in a ranked replay. User
+ * instructions (the first request most of all), decisions, errors and their
+ * fixes, file edits, and messages around stopping points score highest;
+ * newer messages win ties.
+ *
+ * @param messages - The conversation
+ * @param startIndex - First message the replay can include
+ * @param stopIndexes - Indexes of the stopping points
+ * @returns Scores of messages[startIndex..], higher is more important
+ */
+export const scoreReplayEntries = (
+  messages: TranscriptEntry[],
+  startIndex: number,
+  stopIndexes: ReadonlySet<number>,
+): number[] => {
+  const window = messages.slice(startIndex);
+  const firstRequest = window.findIndex(isUserRequest);
+
+  return window.map((entry, offset) => {
+    if (entry.type !== 'user' && entry.type !== 'assistant') {
+      return 0;
+    }
+    const index = startIndex + offset;
+    const text = getTranscriptEntryContent(entry);
+
+    let score = 0;
+    if (isUserRequest(entry)) {
+      score += 5;
+      if (DIRECTIVE_PATTERN.test(text)) score += 2;
+      if (offset === firstRequest) score += 3;
+    } else if (entry.type === 'user') {
+      const failed =
+        typeof entry.message.content !== 'string' &&
+        entry.message.content.some(
+          (block) => block.type === 'tool_result' && block.is_error === true,
+        );
+      if (failed || ERROR_PATTERN.test(text)) score += 3;
+    } else {
+      if (DECISION_PATTERN.test(text)) score += 3;
+      if (FIX_PATTERN.test(text)) score += 3;
+      else if (ERROR_PATTERN.test(text)) score += 2;
+      const edits = entry.message.content.filter(
+        (block) => block.type === 'tool_use' && EDIT_TOOLS.has(block.name),
+      ).length;
+      score += Math.min(edits * 2, 4);
+    }
+
+    if (stopIndexes.has(index)) {
+      score += 3;
+    } else if (
+      [1, 2].some(
+        (d) => stopIndexes.has(index - d) || stopIndexes.has(index + d),
+      )
+    ) {
+      score += 2;
+    }
+
+    // Between 0 and 1, so it only breaks ties
+    return score + (offset + 1) / (window.length + 1);
+  });
+};
+
+/** Parts of a replay: the recent messages, and digests of earlier segments */
+type ReplaySection = 'recent' | 'earlier';
+
+/**
+ * How a replay format lays out its sections and marks what was left out.
+ */
+interface ReplayLayout {
+  /** Wraps a section's formatted parts */
+  section(name: ReplaySection, parts: string[]): string;
+  /** Marks messages or earlier segments that were left out */
+  gap(count: number, of: ReplaySection): string;
+  /** Combines sections, earlier segments first */
+  join(sections: string[]): string;
+}
+
+/** Layouts of the replay formats */
+const LAYOUTS: Record<ReplayFormat, ReplayLayout> = {
+  markdown: {
+    section: (name, parts) =>
+      `## ${name === 'recent' ? 'Recent Conversation' : 'Earlier Segments'}\n\n${parts.join('\n\n')}`,
+    gap: (count, of) =>
+      `*[… ${count} ${of === 'recent' ? 'message' : 'earlier segment'}${count === 1 ? '' : 's'} omitted …]*`,
+    join: (sections) => sections.join('\n\n'),
+  },
+  xml: {
+    section: (name, parts) => {
+      const tag = name === 'recent' ? 'conversation' : 'earlier_segments';
+      return `<${tag}>\n${parts.join('\n')}\n</${tag}>`;
+    },
+    gap: (count, of) =>
+      `<omitted ${of === 'recent' ? 'messages' : 'segments'}="${count}"/>`,
+    join: (sections) => sections.join('\n\n'),
+  },
+  json: {
+    section: (name, parts) =>
+      `{"${name === 'recent' ? 'turns' : 'earlierSegments'}":[\n${parts.join(',\n')}\n]}`,
+    gap: (count, of) =>
+      JSON.stringify(
+        of === 'recent'
+          ? { omittedMessages: count }
+          : { omittedSegments: count },
+      ),
+    // Sections are objects; merge their keys into one
+    join: (sections) =>
+      `{${sections.map((section) => section.slice(1, -1)).join(',\n')}}`,
+  },
+};
+
+/**
+ * Renders formatted entries as the replay.
+ *
+ * @param formatted - Formatted entries in conversation order
+ * @param layout - Layout of the replay format
+ * @returns The replay, or an empty string if nothing is shown
+ */
+const renderReplay = (formatted: string[], layout: ReplayLayout): string => {
+  const lines = formatted.filter((line) => line.length > 0);
+  return lines.length > 0 ? layout.section('recent', lines) : '';
+};
+
 /**
  * Creates a replay service for generating conversation replays.
  *
@@ -303,12 +906,189 @@ export const findAllStoppingPoints = (
  * const result = replayService.generateReplay(messages, { maxTokens: 50000 });
  */
 export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
-  const { logger } = deps;
+  const {
+    logger,
+    tokenCounter = createTokenCounter(),
+    toolFormatters = DEFAULT_TOOL_FORMATTERS,
+  } = deps;
 
-  return {
+  /**
+   * Digest the segments before the replay's window, newest first, within
+   * half the budget; older segments that do not fit are counted in a marker.
+   */
+  const digestSection = (
+    messages: TranscriptEntry[],
+    allStoppingPoints: StoppingPoint[],
+    startIndex: number,
+    maxTokens: number,
+    options: FormatOptions,
+  ): { text: string; tokens: number; digests: SegmentDigest[] } => {
+    const format = options.format ?? 'markdown';
+    const layout = LAYOUTS[format];
+    const digests = digestSegments(
+      messages,
+      allStoppingPoints,
+      startIndex,
+      options.ignore,
+    );
+    if (digests.length === 0) {
+      return { text: '', tokens: 0, digests: [] };
+    }
+
+    const budget = Math.floor(maxTokens / 2);
+    const parts: string[] = [];
+    let used = tokenCounter.count(layout.section('earlier', []));
+    let first = digests.length;
+    while (first > 0) {
+      const part = formatDigest(
+        digests[first - 1] as SegmentDigest,
+        first,
+        format,
+      );
+      const tokens = tokenCounter.count(part);
+      if (used + tokens > budget) break;
+      parts.unshift(part);
+      used += tokens;
+      first--;
+    }
+    if (parts.length === 0) {
+      return { text: '', tokens: 0, digests: [] };
+    }
+    if (first > 0) {
+      parts.unshift(layout.gap(first, 'earlier'));
+    }
+
+    const text = layout.section('earlier', parts);
+    return {
+      text,
+      tokens: tokenCounter.count(text),
+      digests: digests.slice(first),
+    };
+  };
+
+  /**
+   * Put the digests of earlier segments before a replay's messages.
+   */
+  const withDigests = (
+    result: ReplayResult,
+    section: { text: string; digests: SegmentDigest[] },
+    layout: ReplayLayout,
+  ): ReplayResult => {
+    if (!section.text) {
+      return result;
+    }
+    const replay = layout.join(
+      [section.text, result.replay].filter((part) => part.length > 0),
+    );
+    return {
+      ...result,
+      replay,
+      tokenCount: tokenCounter.count(replay),
+      heuristicTokenCount: estimateTokens(replay),
+      digests: section.digests,
+    };
+  };
+
+  /**
+   * Pick the highest-scoring messages of the window that fit the budget,
+   * shown in conversation order with markers for the gaps between them.
+   */
+  const rankedReplay = (
+    messages: TranscriptEntry[],
+    window: {
+      startIndex: number;
+      maxTokens: number;
+      allStoppingPoints: StoppingPoint[];
+      stoppingPointType: StoppingPointType | null;
+      currentStopIndex: number;
+      format: (entry: TranscriptEntry) => string;
+      layout: ReplayLayout;
+    },
+  ): ReplayResult => {
+    const { startIndex, maxTokens, allStoppingPoints, format, layout } = window;
+    const stopIndexes = new Set(allStoppingPoints.map((p) => p.index));
+
+    const scores = scoreReplayEntries(messages, startIndex, stopIndexes);
+    const ranked: {
+      index: number;
+      text: string;
+      tokens: number;
+      score: number;
+    }[] = [];
+    for (let i = startIndex; i < messages.length; i++) {
+      const entry = messages[i];
+      if (!entry) continue;
+      const text = format(entry);
+      if (!text) continue;
+      ranked.push({
+        index: i,
+        text,
+        tokens: tokenCounter.count(text),
+        score: scores[i - startIndex] ?? 0,
+      });
+    }
+    const shown = ranked.length;
+
+    // Every pick may open a gap, so each reserves room for a marker
+    const markerTokens = tokenCounter.count(layout.gap(shown, 'recent'));
+    let used = markerTokens;
+    const picked = new Set<number>();
+    for (const item of [...ranked].sort((a, b) => b.score - a.score)) {
+      if (used + item.tokens + markerTokens > maxTokens) continue;
+      picked.add(item.index);
+      used += item.tokens + markerTokens;
+    }
+
+    const parts: string[] = [];
+    let gap = 0;
+    let omitted = 0;
+    for (const item of ranked) {
+      if (!picked.has(item.index)) {
+        gap++;
+        continue;
+      }
+      if (gap > 0) {
+        parts.push(layout.gap(gap, 'recent'));
+        omitted += gap;
+        gap = 0;
+      }
+      parts.push(item.text);
+    }
+    if (gap > 0 && parts.length > 0) {
+      parts.push(layout.gap(gap, 'recent'));
+      omitted += gap;
+    }
+
+    const replay = renderReplay(parts, layout);
+    const result: ReplayResult = {
+      replay,
+      tokenCount: tokenCounter.count(replay),
+      heuristicTokenCount: estimateTokens(replay),
+      messageCount: picked.size,
+      stoppingPointType:
+        window.stoppingPointType ??
+        (picked.size < shown ? 'token_budget' : null),
+      allStoppingPoints,
+      currentStopIndex: window.currentStopIndex,
+      startMessageIndex: startIndex,
+      omittedMessageCount: omitted + (parts.length === 0 ? shown : 0),
+    };
+
+    logger.debug('Generated ranked replay', {
+      tokenCount: result.tokenCount,
+      messageCount: result.messageCount,
+      omittedMessageCount: result.omittedMessageCount,
+    });
+    return result;
+  };
+
+  const service: ReplayService = {
     generateReplay(messages, options = {}) {
       const maxTokens = options.maxTokens ?? 50000;
       const stopPointIndex = options.stopPointIndex ?? 0;
+      const format = (entry: TranscriptEntry) =>
+        formatEntry(entry, { ...options, formatters: toolFormatters });
+      const layout = LAYOUTS[options.format ?? 'markdown'];
 
       logger.debug('Generating replay', {
         messageCount: messages.length,
@@ -321,6 +1101,7 @@ export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
         return ok({
           replay: '',
           tokenCount: 0,
+          heuristicTokenCount: 0,
           messageCount: 0,
           stoppingPointType: null,
           allStoppingPoints: [],
@@ -364,16 +1145,46 @@ export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
       let totalTokens = 0;
       let budgetExceeded = false;
 
+      const digests = options.digests
+        ? digestSection(
+            messages,
+            allStoppingPoints,
+            startIndex,
+            maxTokens,
+            options,
+          )
+        : { text: '', tokens: 0, digests: [] };
+      // Separated from the messages by a blank line
+      const budget = maxTokens - digests.tokens - (digests.text ? 1 : 0);
+
+      if (options.mode === 'ranked') {
+        return ok(
+          withDigests(
+            rankedReplay(messages, {
+              startIndex,
+              maxTokens: budget,
+              allStoppingPoints,
+              stoppingPointType,
+              currentStopIndex,
+              format,
+              layout,
+            }),
+            digests,
+            layout,
+          ),
+        );
+      }
+
       // If we have a stopping point, include messages after it
       // Otherwise, iterate backwards from end until budget exceeded
       if (stoppingIndex !== -1) {
         for (let i = startIndex; i < messages.length; i++) {
           const entry = messages[i];
           if (!entry) continue;
-          const formatted = formatEntry(entry);
-          const entryTokens = estimateTokens(formatted);
+          const formatted = format(entry);
+          const entryTokens = tokenCounter.count(formatted);
 
-          if (totalTokens + entryTokens > maxTokens) {
+          if (totalTokens + entryTokens > budget) {
             budgetExceeded = true;
             break;
           }
@@ -386,8 +1197,8 @@ export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
         for (let i = messages.length - 1; i >= 0; i--) {
           const entry = messages[i];
           if (!entry) continue;
-          const formatted = formatEntry(entry);
-          const entryTokens = estimateTokens(formatted);
+          const formatted = format(entry);
+          const entryTokens = tokenCounter.count(formatted);
 
           if (totalTokens + entryTokens > maxTokens) {
             stoppingPointType = 'token_budget';
@@ -406,24 +1217,22 @@ export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
       }
 
       // Format replay
-      const formattedLines = replayMessages
-        .map(formatEntry)
-        .filter((line) => line.length > 0);
-
-      let replay = '';
-      if (formattedLines.length > 0) {
-        replay = `## Recent Conversation\n\n${formattedLines.join('\n\n')}`;
-      }
+      const replay = renderReplay(replayMessages.map(format), layout);
 
-      const result: ReplayResult = {
-        replay,
-        tokenCount: estimateTokens(replay),
-        messageCount: replayMessages.length,
-        stoppingPointType,
-        allStoppingPoints,
-        currentStopIndex,
-        startMessageIndex: startIndex,
-      };
+      const result = withDigests(
+        {
+          replay,
+          tokenCount: tokenCounter.count(replay),
+          heuristicTokenCount: estimateTokens(replay),
+          messageCount: replayMessages.length,
+          stoppingPointType,
+          allStoppingPoints,
+          currentStopIndex,
+          startMessageIndex: startIndex,
+        },
+        digests,
+        layout,
+      );
 
       logger.debug('Generated replay', {
         tokenCount: result.tokenCount,
@@ -435,5 +1244,70 @@ export const createReplayService = (deps: ReplayServiceDeps): ReplayService => {
 
       return ok(result);
     },
+
+    expandSegment(messages, segment, options = {}) {
+      const maxTokens = options.maxTokens ?? 50000;
+      const allStoppingPoints =
+        options.stoppingPoints ?? findAllStoppingPoints(messages);
+
+      // Stopping points are most recent first; segment 1 ends at the oldest
+      const stopIndex = allStoppingPoints.length - segment;
+      const stopPoint = Number.isInteger(segment)
+        ? allStoppingPoints[stopIndex]
+        : undefined;
+      if (segment < 1 || !stopPoint) {
+        return err(
+          createError(
+            ErrorCode.VALIDATION_FAILED,
+            `No segment ${segment}: the conversation has ${allStoppingPoints.length}`,
+            { segment, segmentCount: allStoppingPoints.length },
+          ),
+        );
+      }
+      const previous = allStoppingPoints[stopIndex + 1];
+      const startIndex = previous ? previous.index + 1 : 0;
+      const format = (entry: TranscriptEntry) =>
+        formatEntry(entry, { ...options, formatters: toolFormatters });
+
+      const formatted: string[] = [];
+      let totalTokens = 0;
+      let budgetExceeded = false;
+      for (let i = startIndex; i <= stopPoint.index; i++) {
+        const entry = messages[i];
+        if (!entry) continue;
+        const text = format(entry);
+        const entryTokens = tokenCounter.count(text);
+        if (totalTokens + entryTokens > maxTokens) {
+          budgetExceeded = true;
+          break;
+        }
+        formatted.push(text);
+        totalTokens += entryTokens;
+      }
+
+      const replay = renderReplay(
+        formatted,
+        LAYOUTS[options.format ?? 'markdown'],
+      );
+      logger.debug('Expanded segment', {
+        segment,
+        startIndex,
+        endIndex: stopPoint.index,
+        messageCount: formatted.length,
+      });
+
+      return ok({
+        replay,
+        tokenCount: tokenCounter.count(replay),
+        heuristicTokenCount: estimateTokens(replay),
+        messageCount: formatted.length,
+        stoppingPointType: budgetExceeded ? 'token_budget' : stopPoint.type,
+        allStoppingPoints,
+        currentStopIndex: stopIndex,
+        startMessageIndex: startIndex,
+      });
+    },
   };
+
+  return service;
 };
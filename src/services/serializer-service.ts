@@ -1,38 +1,171 @@
 import type { ContextData } from '../core/types.js';
-import { parseContextData } from '../core/types.js';
+import {
+  compareVersions,
+  downgradeContextData,
+  migrateContextData,
+} from '../core/types.js';
+import { crc32 } from '../infrastructure/checksum.js';
+import { decrypt, encrypt } from '../infrastructure/encryption.js';
 import {
   type BenTenError,
   ErrorCode,
   createError,
 } from '../infrastructure/errors.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
-import { createCompressionService } from './compression-service.js';
+import {
+  type CompressionCodec,
+  type CompressionService,
+  type CompressionSetting,
+  createCompressionService,
+  selectCompressionCodec,
+} from './compression-service.js';
 
 /** Magic header identifying Ben-Ten compressed format: "BT10" */
 export const MAGIC_HEADER = 'BT10';
 
-/** Current format version */
-export const FORMAT_VERSION = 0x01;
+/** Current format version (adds flags and payload checksum) */
+export const FORMAT_VERSION = 0x02;
+
+/** Original format version without checksum, still readable */
+export const FORMAT_VERSION_V1 = 0x01;
 
 /** Compression type identifiers */
 export const COMPRESSION_TYPE = {
   NONE: 0x00,
   LZ4: 0x01,
   ZSTD: 0x02,
+  GZIP: 0x03,
+  BROTLI: 0x04,
+} as const;
+
+/** Header byte written for each codec */
+export const COMPRESSION_TYPE_BY_CODEC: Record<CompressionCodec, number> = {
+  none: COMPRESSION_TYPE.NONE,
+  lz4: COMPRESSION_TYPE.LZ4,
+  gzip: COMPRESSION_TYPE.GZIP,
+  brotli: COMPRESSION_TYPE.BROTLI,
+};
+
+/** Codec used to decode each supported header byte (ZSTD is reserved) */
+export const CODEC_BY_COMPRESSION_TYPE: Record<number, CompressionCodec> = {
+  [COMPRESSION_TYPE.NONE]: 'none',
+  [COMPRESSION_TYPE.LZ4]: 'lz4',
+  [COMPRESSION_TYPE.GZIP]: 'gzip',
+  [COMPRESSION_TYPE.BROTLI]: 'brotli',
+};
+
+/** v1 header size in bytes: 4 (magic) + 1 (version) + 1 (compression) + 4 (size) = 10 */
+const HEADER_SIZE_V1 = 10;
+
+/** v2 header size in bytes: v1 header + 1 (flags) + 1 (reserved) + 4 (CRC32) = 16 */
+const HEADER_SIZE = 16;
+
+/**
+ * First schema version whose readers understand format 0x02, sections and
+ * conversation chunks. Files for older versions use the v1 container.
+ */
+export const FORMAT_V2_CONTEXT_VERSION = '2.1.0';
+
+/**
+ * Checks whether files written for a schema version must use the v1
+ * container: LZ4, unsectioned, unencrypted, with the conversation inline.
+ *
+ * @param targetVersion - Schema version being written, or undefined for current
+ * @returns true if the version's readers predate format 0x02
+ */
+export const requiresV1Format = (targetVersion?: string): boolean =>
+  targetVersion !== undefined &&
+  compareVersions(targetVersion, FORMAT_V2_CONTEXT_VERSION) < 0;
+
+/** Header flag bits (format version 0x02+) */
+export const FORMAT_FLAGS = {
+  /** Payload is AES-256-GCM encrypted after compression */
+  ENCRYPTED: 0x01,
+  /** Payload is a section index followed by independently compressed sections */
+  SECTIONED: 0x02,
 } as const;
 
-/** Header size in bytes: 4 (magic) + 1 (version) + 1 (compression) + 4 (size) = 10 */
-const HEADER_SIZE = 10;
+/** Flag bits understood by this reader */
+const SUPPORTED_FLAGS = FORMAT_FLAGS.ENCRYPTED | FORMAT_FLAGS.SECTIONED;
+
+/** Independently loadable parts of a context file */
+export type ContextSection = 'summary' | 'conversation' | 'replay' | 'files';
+
+/** All sections, in the order they are written */
+export const CONTEXT_SECTIONS: readonly ContextSection[] = [
+  'summary',
+  'conversation',
+  'replay',
+  'files',
+];
+
+/** Section identifiers stored in the index */
+export const SECTION_ID: Record<ContextSection, number> = {
+  summary: 0x01,
+  conversation: 0x02,
+  replay: 0x03,
+  files: 0x04,
+};
+
+/** Fields stored in each section; 'summary' holds every field not listed */
+const SECTION_FIELDS: Record<
+  Exclude<ContextSection, 'summary'>,
+  readonly (keyof ContextData)[]
+> = {
+  conversation: ['conversation'],
+  replay: ['conversationReplay', 'replayMetadata'],
+  files: ['files', 'toolHistory'],
+};
+
+/** Section index entry size: 1 (id) + 4 (offset) + 4 (stored size) + 4 (size) + 4 (CRC32) */
+const SECTION_ENTRY_SIZE = 17;
+
+/** Size of the section count that precedes the index */
+const SECTION_COUNT_SIZE = 2;
 
 /** Detected format types */
 export type FormatType = 'compressed' | 'json' | 'unknown';
 
+/**
+ * Options for the serializer.
+ */
+export interface SerializerOptions {
+  /** 32-byte key; when set, written files are encrypted */
+  encryptionKey?: Buffer;
+  /** Codec for written files, or 'auto' to choose by size (default: 'lz4') */
+  compression?: CompressionSetting;
+  /** Schema version for written files, for older peers (default: current) */
+  targetVersion?: string;
+}
+
+/**
+ * Options for deserializing a context file.
+ */
+export interface DeserializeOptions {
+  /**
+   * Sections to decode (default: all). 'summary' is always included.
+   * Files written before sections existed are always decoded in full.
+   */
+  sections?: readonly ContextSection[];
+}
+
+/**
+ * Context data recovered from a damaged file.
+ */
+export interface SalvageResult {
+  /** Context rebuilt from every section that could still be read */
+  context: ContextData;
+  /** Sections that were damaged and left out */
+  lostSections: ContextSection[];
+}
+
 /**
  * Service for serializing and deserializing context data.
  */
 export interface SerializerService {
   /**
-   * Serializes context data to compressed binary format.
+   * Serializes context data to compressed binary format, converted to the
+   * target schema version if one is configured.
    *
    * @param data - The context data to serialize
    * @returns Compressed binary buffer with header or error
@@ -40,12 +173,27 @@ export interface SerializerService {
   serialize(data: ContextData): Result<Buffer, BenTenError>;
 
   /**
-   * Deserializes compressed binary format back to context data.
+   * Deserializes compressed binary format back to context data, migrated
+   * to the current schema version.
    *
    * @param buffer - The compressed binary data with header
-   * @returns Context data or error
+   * @param options - Optional subset of sections to decode
+   * @returns Context data (without fields of skipped sections) or error
+   */
+  deserialize(
+    buffer: Buffer,
+    options?: DeserializeOptions,
+  ): Result<ContextData, BenTenError>;
+
+  /**
+   * Recovers what it can from a damaged binary file. The file checksum is
+   * ignored and damaged sections other than the summary are dropped.
+   *
+   * @param buffer - The compressed binary data with header
+   * @returns The recovered context and the sections lost, or an error when
+   *   the header, encryption or summary section is unreadable
    */
-  deserialize(buffer: Buffer): Result<ContextData, BenTenError>;
+  salvage(buffer: Buffer): Result<SalvageResult, BenTenError>;
 
   /**
    * Deserializes JSON format to context data.
@@ -62,18 +210,256 @@ export interface SerializerService {
    * @returns The detected format type
    */
   detectFormat(buffer: Buffer): FormatType;
+
+  /**
+   * Checks whether a binary buffer has the encrypted flag set.
+   *
+   * @param buffer - The compressed binary data with header
+   * @returns true if the payload is encrypted
+   */
+  isEncrypted(buffer: Buffer): boolean;
+}
+
+/** A payload whose header has been validated, decrypted if it was encrypted */
+interface OpenedPayload {
+  codec: CompressionCodec;
+  flags: number;
+  uncompressedSize: number;
+  payload: Buffer;
 }
 
+/** A section's JSON bytes, ready to compress */
+interface SectionData {
+  id: number;
+  json: Buffer;
+}
+
+/**
+ * Splits context data into per-section JSON. Empty non-summary sections are
+ * omitted so small contexts stay small.
+ */
+const splitSections = (data: ContextData): SectionData[] => {
+  const summary: Record<string, unknown> = { ...data };
+  const rest: SectionData[] = [];
+
+  for (const [section, fields] of Object.entries(SECTION_FIELDS)) {
+    const part: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (data[field] !== undefined) {
+        part[field] = data[field];
+      }
+      delete summary[field];
+    }
+    if (Object.keys(part).length > 0) {
+      rest.push({
+        id: SECTION_ID[section as ContextSection],
+        json: Buffer.from(JSON.stringify(part), 'utf-8'),
+      });
+    }
+  }
+
+  return [
+    {
+      id: SECTION_ID.summary,
+      json: Buffer.from(JSON.stringify(summary), 'utf-8'),
+    },
+    ...rest,
+  ];
+};
+
+/** Parses JSON bytes, reporting failures as DESERIALIZE_FAILED */
+const parseJson = (
+  data: Buffer,
+  message: string,
+): Result<unknown, BenTenError> => {
+  try {
+    return ok(JSON.parse(data.toString('utf-8')));
+  } catch (e) {
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, message, {
+        error: e instanceof Error ? e.message : String(e),
+      }),
+    );
+  }
+};
+
+/**
+ * Verifies and decodes the section described by one index entry.
+ */
+const decodeSection = (
+  payload: Buffer,
+  entry: number,
+  dataStart: number,
+  compression: CompressionService,
+): Result<unknown, BenTenError> => {
+  const id = payload[entry] as number;
+  const offset = dataStart + payload.readUInt32LE(entry + 1);
+  const storedSize = payload.readUInt32LE(entry + 5);
+  const size = payload.readUInt32LE(entry + 9);
+  const expectedChecksum = payload.readUInt32LE(entry + 13);
+
+  if (offset + storedSize > payload.length) {
+    return err(
+      createError(
+        ErrorCode.DESERIALIZE_FAILED,
+        `Section ${id} extends past end of data`,
+        { section: id, offset, storedSize, payloadSize: payload.length },
+      ),
+    );
+  }
+
+  const stored = payload.subarray(offset, offset + storedSize);
+  const actualChecksum = crc32(stored);
+  if (actualChecksum !== expectedChecksum) {
+    return err(
+      createError(
+        ErrorCode.CHECKSUM_MISMATCH,
+        `Checksum mismatch in section ${id}: context data is corrupted`,
+        { section: id, expected: expectedChecksum, actual: actualChecksum },
+      ),
+    );
+  }
+
+  const decompressResult = compression.decompress(stored);
+  if (!decompressResult.ok) {
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, 'Failed to decompress data', {
+        section: id,
+        originalError: decompressResult.error.message,
+      }),
+    );
+  }
+  if (decompressResult.value.length !== size) {
+    return err(
+      createError(
+        ErrorCode.DESERIALIZE_FAILED,
+        'Size mismatch after decompression',
+        {
+          section: id,
+          expected: size,
+          actual: decompressResult.value.length,
+        },
+      ),
+    );
+  }
+
+  return parseJson(decompressResult.value, 'Invalid JSON in decompressed data');
+};
+
+/**
+ * Decodes the requested sections of a sectioned payload and merges them into
+ * one object. Sections with unknown IDs are skipped for forward compatibility.
+ * When `lost` is given, damaged non-summary sections are recorded there and
+ * skipped instead of failing the decode.
+ */
+const decodeSections = (
+  payload: Buffer,
+  codec: CompressionCodec,
+  sections: readonly ContextSection[],
+  lost?: number[],
+): Result<unknown, BenTenError> => {
+  if (payload.length < SECTION_COUNT_SIZE) {
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, 'Section index is truncated', {
+        size: payload.length,
+      }),
+    );
+  }
+
+  const count = payload.readUInt16LE(0);
+  const dataStart = SECTION_COUNT_SIZE + count * SECTION_ENTRY_SIZE;
+  if (payload.length < dataStart) {
+    return err(
+      createError(ErrorCode.DESERIALIZE_FAILED, 'Section index is truncated', {
+        size: payload.length,
+        sectionCount: count,
+      }),
+    );
+  }
+
+  const wanted = new Set(sections.map((section) => SECTION_ID[section]));
+  wanted.add(SECTION_ID.summary);
+
+  const compression = createCompressionService(codec);
+  const merged: Record<string, unknown> = {};
+  let hasSummary = false;
+
+  for (let i = 0; i < count; i++) {
+    const entry = SECTION_COUNT_SIZE + i * SECTION_ENTRY_SIZE;
+    const id = payload[entry] as number;
+    if (!wanted.has(id)) {
+      continue;
+    }
+
+    const parsed = decodeSection(payload, entry, dataStart, compression);
+    if (!parsed.ok) {
+      if (lost && id !== SECTION_ID.summary) {
+        lost.push(id);
+        continue;
+      }
+      return parsed;
+    }
+    Object.assign(merged, parsed.value);
+    hasSummary ||= id === SECTION_ID.summary;
+  }
+
+  if (!hasSummary) {
+    return err(
+      createError(
+        ErrorCode.DESERIALIZE_FAILED,
+        'Context data has no summary section',
+      ),
+    );
+  }
+
+  return ok(merged);
+};
+
+/**
+ * Migrates decoded data to the current schema and validates it. Data written
+ * by a newer version is reported as CONTEXT_VERSION_MISMATCH, not as damage.
+ */
+const validateContext = (parsed: unknown): Result<ContextData, BenTenError> => {
+  const migrateResult = migrateContextData(parsed);
+  if (!migrateResult.ok) {
+    if (migrateResult.error.code === ErrorCode.CONTEXT_VERSION_MISMATCH) {
+      return migrateResult;
+    }
+    return err(
+      createError(
+        ErrorCode.DESERIALIZE_FAILED,
+        'Invalid context data structure',
+        { validationErrors: migrateResult.error.details },
+      ),
+    );
+  }
+  return migrateResult;
+};
+
 /**
  * Creates a serializer service for context data.
  *
- * File format:
+ * File format (version 0x02):
  * - Bytes 0-3: Magic header "BT10"
- * - Byte 4: Format version (0x01)
- * - Byte 5: Compression type (0x01 = LZ4)
+ * - Byte 4: Format version (0x02)
+ * - Byte 5: Compression type (0x00 = none, 0x01 = LZ4, 0x03 = gzip, 0x04 = Brotli)
  * - Bytes 6-9: Uncompressed size (uint32 LE)
- * - Bytes 10+: Compressed data
+ * - Byte 10: Flags (0x01 = encrypted, 0x02 = sectioned)
+ * - Byte 11: Reserved (0x00)
+ * - Bytes 12-15: CRC32 of the stored payload (uint32 LE)
+ * - Bytes 16+: Payload, or if encrypted: [IV][auth tag][encrypted payload]
+ *
+ * A sectioned payload is a section count (uint16 LE), then one 17-byte index
+ * entry per section (id, offset, stored size, uncompressed size, CRC32 of the
+ * stored bytes; uint32 LE), then the sections. Offsets are relative to the end
+ * of the index. Each section is a JSON object compressed on its own, so readers
+ * can decode only the sections they need. Unsectioned payloads are the whole
+ * context as one compressed JSON document.
  *
+ * Version 0x01 files have the same first 10 bytes, no checksum, and the
+ * compressed data starting at byte 10. They are still read.
+ *
+ * @param options - Optional encryption key and compression setting
  * @returns A SerializerService instance
  * @example
  * const serializer = createSerializerService();
@@ -82,32 +468,323 @@ export interface SerializerService {
  *   await fs.writeFileBuffer('context.ctx', result.value);
  * }
  */
-export const createSerializerService = (): SerializerService => {
-  const compression = createCompressionService();
+export const createSerializerService = (
+  options: SerializerOptions = {},
+): SerializerService => {
+  const { encryptionKey } = options;
+
+  /**
+   * Validates the header and returns the payload, decrypted if needed.
+   * Salvage skips the whole-file checksum so intact sections can still be
+   * found behind a damaged one.
+   */
+  const openPayload = (
+    buffer: Buffer,
+    verifyChecksum: boolean,
+  ): Result<OpenedPayload, BenTenError> => {
+    // Check minimum size
+    if (buffer.length < HEADER_SIZE_V1) {
+      return err(
+        createError(
+          ErrorCode.DESERIALIZE_FAILED,
+          'Data too short: missing header',
+          { size: buffer.length, minSize: HEADER_SIZE_V1 },
+        ),
+      );
+    }
+
+    // Validate magic header
+    const magic = buffer.subarray(0, 4).toString('ascii');
+    if (magic !== MAGIC_HEADER) {
+      return err(
+        createError(
+          ErrorCode.DESERIALIZE_FAILED,
+          `Invalid magic header: expected "${MAGIC_HEADER}", got "${magic}"`,
+          { expected: MAGIC_HEADER, actual: magic },
+        ),
+      );
+    }
+
+    // Validate format version
+    const version = buffer[4];
+    if (version !== FORMAT_VERSION && version !== FORMAT_VERSION_V1) {
+      return err(
+        createError(
+          ErrorCode.DESERIALIZE_FAILED,
+          `Unsupported format version: ${version}`,
+          { expected: FORMAT_VERSION, actual: version },
+        ),
+      );
+    }
+
+    // Validate compression type
+    const compressionType = buffer[5] as number;
+    const codec = CODEC_BY_COMPRESSION_TYPE[compressionType];
+    if (!codec) {
+      return err(
+        createError(
+          ErrorCode.DESERIALIZE_FAILED,
+          `Unsupported compression type: ${compressionType}`,
+          {
+            supported: Object.keys(CODEC_BY_COMPRESSION_TYPE).map(Number),
+            actual: compressionType,
+          },
+        ),
+      );
+    }
+
+    // Read uncompressed size
+    const uncompressedSize = buffer.readUInt32LE(6);
+
+    let payload = buffer.subarray(HEADER_SIZE_V1);
+    let flags = 0;
+
+    if (version === FORMAT_VERSION) {
+      if (buffer.length < HEADER_SIZE) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            'Data too short: missing header',
+            { size: buffer.length, minSize: HEADER_SIZE },
+          ),
+        );
+      }
+
+      flags = buffer[10] as number;
+      if ((flags & ~SUPPORTED_FLAGS) !== 0) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            `Unsupported format flags: ${flags}`,
+            { supported: SUPPORTED_FLAGS, actual: flags },
+          ),
+        );
+      }
+
+      // Verify checksum before decompressing so bit-rot is reported as such
+      payload = buffer.subarray(HEADER_SIZE);
+      const expectedChecksum = buffer.readUInt32LE(12);
+      const actualChecksum = crc32(payload);
+      if (verifyChecksum && actualChecksum !== expectedChecksum) {
+        return err(
+          createError(
+            ErrorCode.CHECKSUM_MISMATCH,
+            'Checksum mismatch: context data is corrupted',
+            { expected: expectedChecksum, actual: actualChecksum },
+          ),
+        );
+      }
+
+      if (flags & FORMAT_FLAGS.ENCRYPTED) {
+        if (!encryptionKey) {
+          return err(
+            createError(
+              ErrorCode.ENCRYPTION_KEY_MISSING,
+              'Context is encrypted but no encryption key is configured',
+            ),
+          );
+        }
+        // The checksum vouches for the ciphertext, so a failure to decrypt
+        // intact data means the key is wrong
+        const decryptResult = decrypt(payload, encryptionKey);
+        if (!decryptResult.ok) {
+          if (
+            decryptResult.error.code === ErrorCode.DECRYPTION_FAILED &&
+            actualChecksum !== expectedChecksum
+          ) {
+            return err(
+              createError(
+                ErrorCode.CHECKSUM_MISMATCH,
+                'Checksum mismatch: context data is corrupted',
+                { expected: expectedChecksum, actual: actualChecksum },
+              ),
+            );
+          }
+          return decryptResult;
+        }
+        payload = decryptResult.value;
+      }
+    }
+
+    return ok({ codec, flags, uncompressedSize, payload });
+  };
+
+  /**
+   * Decodes an opened payload into validated context data. When `lost` is
+   * given, damaged sections other than the summary are recorded there and
+   * skipped instead of failing the decode.
+   */
+  const decodePayload = (
+    opened: OpenedPayload,
+    sections: readonly ContextSection[],
+    lost?: number[],
+  ): Result<ContextData, BenTenError> => {
+    const { codec, flags, uncompressedSize, payload } = opened;
+
+    let parsed: unknown;
+    if (flags & FORMAT_FLAGS.SECTIONED) {
+      const sectionsResult = decodeSections(payload, codec, sections, lost);
+      if (!sectionsResult.ok) {
+        return sectionsResult;
+      }
+      parsed = sectionsResult.value;
+    } else {
+      // Decompress
+      const decompressResult =
+        createCompressionService(codec).decompress(payload);
+      if (!decompressResult.ok) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            'Failed to decompress data',
+            {
+              originalError: decompressResult.error.message,
+            },
+          ),
+        );
+      }
+
+      // Verify size
+      if (decompressResult.value.length !== uncompressedSize) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            'Size mismatch after decompression',
+            {
+              expected: uncompressedSize,
+              actual: decompressResult.value.length,
+            },
+          ),
+        );
+      }
+
+      // Parse JSON
+      const jsonResult = parseJson(
+        decompressResult.value,
+        'Invalid JSON in decompressed data',
+      );
+      if (!jsonResult.ok) {
+        return jsonResult;
+      }
+      parsed = jsonResult.value;
+    }
+
+    return validateContext(parsed);
+  };
+
+  /**
+   * Writes the v1 container read by peers older than
+   * FORMAT_V2_CONTEXT_VERSION: one LZ4 block of the whole context.
+   */
+  const serializeV1 = (data: ContextData): Result<Buffer, BenTenError> => {
+    if (encryptionKey) {
+      return err(
+        createError(
+          ErrorCode.SERIALIZE_FAILED,
+          `Context version ${data.version} cannot be encrypted: its readers predate encryption`,
+          { version: data.version, minVersion: FORMAT_V2_CONTEXT_VERSION },
+        ),
+      );
+    }
+    if (data.conversation?.chunks) {
+      return err(
+        createError(
+          ErrorCode.SERIALIZE_FAILED,
+          `Context version ${data.version} needs the conversation inline, not in chunks`,
+          { version: data.version, minVersion: FORMAT_V2_CONTEXT_VERSION },
+        ),
+      );
+    }
+
+    const json = Buffer.from(JSON.stringify(data), 'utf-8');
+    const compressResult = createCompressionService('lz4').compress(json);
+    if (!compressResult.ok) {
+      return compressResult;
+    }
+
+    const header = Buffer.alloc(HEADER_SIZE_V1);
+    header.write(MAGIC_HEADER, 0, 4, 'ascii');
+    header[4] = FORMAT_VERSION_V1;
+    header[5] = COMPRESSION_TYPE.LZ4;
+    header.writeUInt32LE(json.length, 6);
+
+    return ok(Buffer.concat([header, compressResult.value]));
+  };
 
   const service: SerializerService = {
     serialize(data) {
       try {
-        // Convert to JSON
-        const json = JSON.stringify(data);
-        const jsonBuffer = Buffer.from(json, 'utf-8');
-        const uncompressedSize = jsonBuffer.length;
-
-        // Compress with LZ4
-        const compressResult = compression.compress(jsonBuffer);
-        if (!compressResult.ok) {
-          return compressResult;
+        let versioned = data;
+        if (options.targetVersion) {
+          const downgradeResult = downgradeContextData(
+            data,
+            options.targetVersion,
+          );
+          if (!downgradeResult.ok) {
+            return downgradeResult;
+          }
+          versioned = downgradeResult.value;
+        }
+        if (requiresV1Format(options.targetVersion)) {
+          return serializeV1(versioned);
+        }
+
+        // Split into sections and compress each with the configured codec
+        const sections = splitSections(versioned);
+        const uncompressedSize = sections.reduce(
+          (total, section) => total + section.json.length,
+          0,
+        );
+        const codec = selectCompressionCodec(
+          options.compression,
+          uncompressedSize,
+        );
+        const compression = createCompressionService(codec);
+
+        const index = Buffer.alloc(
+          SECTION_COUNT_SIZE + sections.length * SECTION_ENTRY_SIZE,
+        );
+        index.writeUInt16LE(sections.length, 0);
+        const stored: Buffer[] = [];
+        let offset = 0;
+        for (const [i, section] of sections.entries()) {
+          const compressResult = compression.compress(section.json);
+          if (!compressResult.ok) {
+            return compressResult;
+          }
+          const entry = SECTION_COUNT_SIZE + i * SECTION_ENTRY_SIZE;
+          index[entry] = section.id;
+          index.writeUInt32LE(offset, entry + 1);
+          index.writeUInt32LE(compressResult.value.length, entry + 5);
+          index.writeUInt32LE(section.json.length, entry + 9);
+          index.writeUInt32LE(crc32(compressResult.value), entry + 13);
+          stored.push(compressResult.value);
+          offset += compressResult.value.length;
+        }
+
+        // Encrypt after compressing (ciphertext does not compress)
+        let payload: Buffer = Buffer.concat([index, ...stored]);
+        let flags: number = FORMAT_FLAGS.SECTIONED;
+        if (encryptionKey) {
+          const encryptResult = encrypt(payload, encryptionKey);
+          if (!encryptResult.ok) {
+            return encryptResult;
+          }
+          payload = encryptResult.value;
+          flags |= FORMAT_FLAGS.ENCRYPTED;
         }
 
         // Build header
         const header = Buffer.alloc(HEADER_SIZE);
         header.write(MAGIC_HEADER, 0, 4, 'ascii');
         header[4] = FORMAT_VERSION;
-        header[5] = COMPRESSION_TYPE.LZ4;
+        header[5] = COMPRESSION_TYPE_BY_CODEC[codec];
         header.writeUInt32LE(uncompressedSize, 6);
+        header[10] = flags;
+        header.writeUInt32LE(crc32(payload), 12);
 
-        // Combine header and compressed data
-        return ok(Buffer.concat([header, compressResult.value]));
+        // Combine header and payload
+        return ok(Buffer.concat([header, payload]));
       } catch (e) {
         return err(
           createError(
@@ -121,120 +798,53 @@ export const createSerializerService = (): SerializerService => {
       }
     },
 
-    deserialize(buffer) {
+    deserialize(buffer, deserializeOptions = {}) {
       try {
-        // Check minimum size
-        if (buffer.length < HEADER_SIZE) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Data too short: missing header',
-              { size: buffer.length, minSize: HEADER_SIZE },
-            ),
-          );
-        }
-
-        // Validate magic header
-        const magic = buffer.subarray(0, 4).toString('ascii');
-        if (magic !== MAGIC_HEADER) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              `Invalid magic header: expected "${MAGIC_HEADER}", got "${magic}"`,
-              { expected: MAGIC_HEADER, actual: magic },
-            ),
-          );
-        }
-
-        // Validate format version
-        const version = buffer[4];
-        if (version !== FORMAT_VERSION) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              `Unsupported format version: ${version}`,
-              { expected: FORMAT_VERSION, actual: version },
-            ),
-          );
-        }
-
-        // Validate compression type
-        const compressionType = buffer[5];
-        if (compressionType !== COMPRESSION_TYPE.LZ4) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              `Unsupported compression type: ${compressionType}`,
-              { expected: COMPRESSION_TYPE.LZ4, actual: compressionType },
-            ),
-          );
-        }
-
-        // Read uncompressed size
-        const uncompressedSize = buffer.readUInt32LE(6);
-
-        // Extract compressed data
-        const compressedData = buffer.subarray(HEADER_SIZE);
-
-        // Decompress
-        const decompressResult = compression.decompress(compressedData);
-        if (!decompressResult.ok) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Failed to decompress data',
-              { originalError: decompressResult.error.message },
-            ),
-          );
-        }
-
-        // Verify size
-        if (decompressResult.value.length !== uncompressedSize) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Size mismatch after decompression',
-              {
-                expected: uncompressedSize,
-                actual: decompressResult.value.length,
-              },
-            ),
-          );
+        const openResult = openPayload(buffer, true);
+        if (!openResult.ok) {
+          return openResult;
         }
+        return decodePayload(
+          openResult.value,
+          deserializeOptions.sections ?? CONTEXT_SECTIONS,
+        );
+      } catch (e) {
+        return err(
+          createError(
+            ErrorCode.DESERIALIZE_FAILED,
+            'Failed to deserialize context data',
+            { error: e instanceof Error ? e.message : String(e) },
+          ),
+        );
+      }
+    },
 
-        // Parse JSON
-        const json = decompressResult.value.toString('utf-8');
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(json);
-        } catch (e) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Invalid JSON in decompressed data',
-              { error: e instanceof Error ? e.message : String(e) },
-            ),
-          );
+    salvage(buffer) {
+      try {
+        const openResult = openPayload(buffer, false);
+        if (!openResult.ok) {
+          return openResult;
         }
-
-        // Validate context structure
-        const validateResult = parseContextData(parsed);
-        if (!validateResult.ok) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Invalid context data structure',
-              { validationErrors: validateResult.error.details },
-            ),
-          );
+        const lost: number[] = [];
+        const decodeResult = decodePayload(
+          openResult.value,
+          CONTEXT_SECTIONS,
+          lost,
+        );
+        if (!decodeResult.ok) {
+          return decodeResult;
         }
-
-        return ok(validateResult.value);
+        return ok({
+          context: decodeResult.value,
+          lostSections: CONTEXT_SECTIONS.filter((section) =>
+            lost.includes(SECTION_ID[section]),
+          ),
+        });
       } catch (e) {
         return err(
           createError(
             ErrorCode.DESERIALIZE_FAILED,
-            'Failed to deserialize context data',
+            'Failed to salvage context data',
             { error: e instanceof Error ? e.message : String(e) },
           ),
         );
@@ -255,19 +865,7 @@ export const createSerializerService = (): SerializerService => {
           );
         }
 
-        // Validate context structure
-        const validateResult = parseContextData(parsed);
-        if (!validateResult.ok) {
-          return err(
-            createError(
-              ErrorCode.DESERIALIZE_FAILED,
-              'Invalid context data structure',
-              { validationErrors: validateResult.error.details },
-            ),
-          );
-        }
-
-        return ok(validateResult.value);
+        return validateContext(parsed);
       } catch (e) {
         return err(
           createError(
@@ -300,6 +898,15 @@ export const createSerializerService = (): SerializerService => {
 
       return 'unknown';
     },
+
+    isEncrypted(buffer) {
+      return (
+        service.detectFormat(buffer) === 'compressed' &&
+        buffer.length >= HEADER_SIZE &&
+        buffer[4] === FORMAT_VERSION &&
+        ((buffer[10] as number) & FORMAT_FLAGS.ENCRYPTED) !== 0
+      );
+    },
   };
 
   return service;
@@ -0,0 +1,394 @@
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import type {
+  ConversationHistory,
+  TranscriptCursor,
+  TranscriptEntry,
+} from '../core/types.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import {
+  type TranscriptService,
+  isSubagentTranscript,
+} from './transcript-service.js';
+
+/**
+ * A transcript file and the transcripts it continues from.
+ */
+export interface TranscriptNode {
+  /** Path of the transcript file */
+  path: string;
+  /** Session IDs recorded in the transcript's entries */
+  sessionIds: string[];
+  /** Earliest entry timestamp, or the file's mtime if no entry has one */
+  startedAt: number;
+  /** Latest entry timestamp, or the file's mtime if no entry has one */
+  endedAt: number;
+  /** Number of user and assistant messages */
+  messageCount: number;
+  /** Paths of earlier transcripts this one continues (resume, compaction) */
+  parents: string[];
+}
+
+/**
+ * The transcripts of a project and how they link up, ordered by when each
+ * was last active.
+ */
+export interface SessionGraph {
+  transcripts: TranscriptNode[];
+}
+
+/**
+ * A conversation stitched together from a chain of transcripts.
+ */
+export interface SessionChainResult {
+  /** Messages of every transcript in the chain, oldest first */
+  history: ConversationHistory;
+  /** Cursor at the end of the last transcript, for incremental saves */
+  cursor: TranscriptCursor;
+  /** Paths of the transcripts that were stitched, oldest first */
+  transcripts: string[];
+}
+
+/**
+ * Service for linking the transcripts of a project into sessions.
+ */
+export interface SessionGraphService {
+  /**
+   * Scan the transcripts in a directory and link them by session ID,
+   * parent message UUIDs and the leafUuid of summary entries.
+   *
+   * @param transcriptDir - Directory holding the .jsonl transcripts
+   * @returns Result with the session graph, or error
+   */
+  buildGraph(transcriptDir: string): Promise<Result<SessionGraph, BenTenError>>;
+
+  /**
+   * Parse a transcript together with every earlier transcript it continues
+   * from, into one conversation. Messages repeated by a later transcript
+   * are kept only once.
+   *
+   * @param transcriptPath - The most recent transcript of the session
+   * @returns Result with the stitched conversation, or error
+   */
+  parseSessionChain(
+    transcriptPath: string,
+  ): Promise<Result<SessionChainResult, BenTenError>>;
+}
+
+export interface SessionGraphServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  transcriptService: TranscriptService;
+}
+
+/**
+ * Finds the chain of transcripts leading to a transcript.
+ *
+ * @param graph - Session graph containing the transcript
+ * @param path - Path of the last transcript of the chain
+ * @returns Paths of the transcript and its ancestors, oldest first
+ */
+export const findSessionChain = (
+  graph: SessionGraph,
+  path: string,
+): string[] => {
+  const byPath = new Map(graph.transcripts.map((node) => [node.path, node]));
+  const chain = new Set<string>();
+  const pending = [path];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    if (chain.has(current)) continue;
+    chain.add(current);
+    pending.push(...(byPath.get(current)?.parents ?? []));
+  }
+  // The graph is already in time order
+  const ordered = graph.transcripts
+    .map((node) => node.path)
+    .filter((p) => chain.has(p));
+  return byPath.has(path) ? ordered : [path];
+};
+
+/** What a scan of one transcript found, before linking */
+interface TranscriptScan {
+  node: TranscriptNode;
+  uuids: Set<string>;
+  /** Message UUIDs the transcript refers to */
+  references: Set<string>;
+}
+
+/** Session ID a transcript file is named after (<sessionId>.jsonl) */
+const fileSessionId = (path: string): string =>
+  (path.split('/').pop() ?? '').replace(/\.jsonl$/, '');
+
+/** UUID of an entry, if it has one */
+const uuidOf = (entry: TranscriptEntry): string | undefined =>
+  'uuid' in entry ? entry.uuid : undefined;
+
+/**
+ * Creates a session graph service for stitching transcripts together.
+ *
+ * @param deps - Dependencies including file system and transcript service
+ * @returns A SessionGraphService instance
+ */
+export const createSessionGraphService = (
+  deps: SessionGraphServiceDeps,
+): SessionGraphService => {
+  const { fs, logger, transcriptService } = deps;
+
+  /**
+   * Stream one transcript, collecting its UUIDs, references and times.
+   */
+  const scanTranscript = async (
+    path: string,
+    mtime: number,
+  ): Promise<Result<TranscriptScan, BenTenError>> => {
+    const streamResult = await transcriptService.streamTranscript(path);
+    if (!streamResult.ok) {
+      return err(streamResult.error);
+    }
+
+    const uuids = new Set<string>();
+    const references = new Set<string>();
+    const sessionIds = new Set<string>();
+    let startedAt = Number.POSITIVE_INFINITY;
+    let endedAt = Number.NEGATIVE_INFINITY;
+    let messageCount = 0;
+
+    try {
+      for await (const entry of streamResult.value) {
+        if (entry.type === 'summary') {
+          if (entry.leafUuid) references.add(entry.leafUuid);
+          continue;
+        }
+        if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+
+        messageCount++;
+        if (entry.uuid) uuids.add(entry.uuid);
+        if (entry.parentUuid) references.add(entry.parentUuid);
+        if (entry.sessionId) sessionIds.add(entry.sessionId);
+        const time = entry.timestamp ? Date.parse(entry.timestamp) : Number.NaN;
+        if (!Number.isNaN(time)) {
+          startedAt = Math.min(startedAt, time);
+          endedAt = Math.max(endedAt, time);
+        }
+      }
+    } catch (error) {
+      return err(error as BenTenError);
+    }
+
+    for (const uuid of uuids) {
+      references.delete(uuid);
+    }
+
+    return ok({
+      node: {
+        path,
+        sessionIds: Array.from(sessionIds),
+        startedAt: Number.isFinite(startedAt) ? startedAt : mtime,
+        endedAt: Number.isFinite(endedAt) ? endedAt : mtime,
+        messageCount,
+        parents: [],
+      },
+      uuids,
+      references,
+    });
+  };
+
+  /**
+   * Link each transcript to the earlier ones it refers to. Expects the scans
+   * in time order; a UUID found in several transcripts belongs to the
+   * earliest one.
+   */
+  const linkTranscripts = (scans: TranscriptScan[]): void => {
+    const ownerOfUuid = new Map<string, string>();
+    const pathOfSession = new Map<string, string>();
+    const order = new Map(scans.map((scan, i) => [scan.node.path, i]));
+    for (const { node, uuids } of scans) {
+      for (const uuid of uuids) {
+        if (!ownerOfUuid.has(uuid)) ownerOfUuid.set(uuid, node.path);
+      }
+      pathOfSession.set(fileSessionId(node.path), node.path);
+    }
+
+    for (const { node, references } of scans) {
+      const parents = new Set<string>();
+      for (const uuid of references) {
+        const owner = ownerOfUuid.get(uuid);
+        if (owner) parents.add(owner);
+      }
+      // Entries carrying another transcript's session ID continue it
+      for (const sessionId of node.sessionIds) {
+        const owner = pathOfSession.get(sessionId);
+        if (owner) parents.add(owner);
+      }
+      // Only earlier transcripts can be continued
+      const position = order.get(node.path) ?? 0;
+      node.parents = Array.from(parents).filter(
+        (parent) => (order.get(parent) ?? position) < position,
+      );
+    }
+  };
+
+  /**
+   * Read the transcripts of a chain, dropping messages that a later
+   * transcript of the chain repeats.
+   *
+   * @param paths - Transcripts to read, oldest first
+   * @param later - UUIDs of messages from after the chain
+   * @returns The messages, and how many lines of the transcripts were skipped
+   */
+  const readChain = async (
+    paths: string[],
+    later: Set<string>,
+  ): Promise<
+    Result<{ messages: TranscriptEntry[]; skippedLines: number }, BenTenError>
+  > => {
+    const parts: TranscriptEntry[][] = [];
+    let skippedLines = 0;
+    for (const path of paths) {
+      const parseResult = await transcriptService.parseTranscript(path);
+      if (!parseResult.ok) {
+        return err(parseResult.error);
+      }
+      parts.push(parseResult.value.messages);
+      skippedLines += parseResult.value.skippedLines ?? 0;
+    }
+
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const part = parts[i] as TranscriptEntry[];
+      parts[i] = part.filter((entry) => {
+        const uuid = uuidOf(entry);
+        return !uuid || !later.has(uuid);
+      });
+      for (const entry of part) {
+        const uuid = uuidOf(entry);
+        if (uuid) later.add(uuid);
+      }
+    }
+    return ok({ messages: parts.flat(), skippedLines });
+  };
+
+  const service: SessionGraphService = {
+    async buildGraph(transcriptDir) {
+      logger.debug('Building session graph', { transcriptDir });
+
+      const readdirResult = await fs.readdir(transcriptDir);
+      if (!readdirResult.ok) {
+        if (readdirResult.error.code === ErrorCode.FS_NOT_FOUND) {
+          return ok({ transcripts: [] });
+        }
+        return err(
+          createError(
+            ErrorCode.TRANSCRIPT_PARSE_ERROR,
+            'Failed to list transcripts',
+            { transcriptDir, originalError: readdirResult.error.message },
+          ),
+        );
+      }
+
+      const scans: TranscriptScan[] = [];
+      // Subagent side conversations belong to their session's transcript
+      for (const file of readdirResult.value.filter(
+        (f) => f.endsWith('.jsonl') && !isSubagentTranscript(f),
+      )) {
+        const path = `${transcriptDir}/${file}`;
+        const statResult = await fs.stat(path);
+        if (!statResult.ok || !statResult.value.isFile) continue;
+
+        const scanResult = await scanTranscript(
+          path,
+          statResult.value.mtime.getTime(),
+        );
+        if (!scanResult.ok) {
+          logger.warn('Skipping unreadable transcript', {
+            path,
+            error: scanResult.error.message,
+          });
+          continue;
+        }
+        scans.push(scanResult.value);
+      }
+
+      // Order by last activity, since resumed transcripts start with
+      // messages copied from earlier ones
+      scans.sort(
+        (a, b) =>
+          a.node.endedAt - b.node.endedAt ||
+          a.node.startedAt - b.node.startedAt ||
+          a.node.path.localeCompare(b.node.path),
+      );
+      linkTranscripts(scans);
+
+      const transcripts = scans.map((scan) => scan.node);
+      logger.info('Built session graph', {
+        transcriptDir,
+        transcripts: transcripts.length,
+        links: transcripts.reduce((n, t) => n + t.parents.length, 0),
+      });
+      return ok({ transcripts });
+    },
+
+    async parseSessionChain(transcriptPath) {
+      const transcriptDir = transcriptPath.slice(
+        0,
+        transcriptPath.lastIndexOf('/'),
+      );
+      const graphResult = await service.buildGraph(transcriptDir);
+      if (!graphResult.ok) {
+        return err(graphResult.error);
+      }
+      const chain = findSessionChain(graphResult.value, transcriptPath);
+      const earlier = chain.slice(0, -1);
+
+      // Parse the last transcript on its own to get a cursor for it
+      const lastResult =
+        await transcriptService.parseTranscriptIncremental(transcriptPath);
+      if (!lastResult.ok) {
+        return err(lastResult.error);
+      }
+      const lastMessages = lastResult.value.history.messages;
+      const lastUuids = new Set<string>();
+      for (const entry of lastMessages) {
+        const uuid = uuidOf(entry);
+        if (uuid) lastUuids.add(uuid);
+      }
+      const chainResult = await readChain(earlier, lastUuids);
+      if (!chainResult.ok) {
+        return err(chainResult.error);
+      }
+      const messages = [...chainResult.value.messages, ...lastMessages];
+      const skippedLines =
+        chainResult.value.skippedLines +
+        (lastResult.value.history.skippedLines ?? 0);
+      // Counted after dropping repeats, so resumed copies count once
+      const unknownEntries = messages.filter(
+        (m) => m.type === 'unknown',
+      ).length;
+
+      logger.info('Stitched session chain', {
+        transcripts: chain.length,
+        messageCount: messages.length,
+        unknownEntries,
+        skippedLines,
+      });
+
+      return ok({
+        history: {
+          messages,
+          messageCount: messages.length,
+          ...(unknownEntries > 0 && { unknownEntries }),
+          ...(skippedLines > 0 && { skippedLines }),
+        },
+        cursor: lastResult.value.cursor,
+        transcripts: chain,
+      });
+    },
+  };
+
+  return service;
+};
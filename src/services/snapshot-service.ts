@@ -0,0 +1,488 @@
+import type { FileSystem } from '../adapters/fs/memory-fs.js';
+import {
+  type ContextData,
+  type SnapshotInfo,
+  SnapshotInfoSchema,
+} from '../core/types.js';
+import {
+  type BenTenError,
+  ErrorCode,
+  createError,
+  isUnreadableDataError,
+} from '../infrastructure/errors.js';
+import type { Logger } from '../infrastructure/logger.js';
+import { type Result, err, ok } from '../infrastructure/result.js';
+import type { CompressionSetting } from './compression-service.js';
+import { createSerializerService } from './serializer-service.js';
+
+/** Directory name for snapshot history within .ben-ten */
+export const SNAPSHOTS_DIR = 'snapshots';
+
+/** Snapshot index file name within the snapshots directory */
+export const SNAPSHOT_INDEX_FILE = 'index.json';
+
+/** File extension for snapshot files */
+export const SNAPSHOT_EXTENSION = '.ctx';
+
+/** Default number of snapshots to retain */
+export const DEFAULT_MAX_SNAPSHOTS = 10;
+
+/** Valid snapshot IDs: timestamp characters only (prevents path traversal) */
+const SNAPSHOT_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+/**
+ * Service for managing the rolling history of previous context generations.
+ */
+export interface SnapshotService {
+  /**
+   * Store a context generation in the snapshot history.
+   * Prunes the oldest snapshots beyond the retention limit.
+   *
+   * @param context - The context generation to preserve
+   * @param createdAt - When the snapshot was taken (default: now), for
+   *   snapshots imported from elsewhere
+   * @returns Result with info about the new snapshot or error
+   */
+  createSnapshot(
+    context: ContextData,
+    createdAt?: number,
+  ): Promise<Result<SnapshotInfo, BenTenError>>;
+
+  /**
+   * List available snapshots, most recent first.
+   *
+   * @returns Result with snapshot info array or error
+   */
+  listSnapshots(): Promise<Result<SnapshotInfo[], BenTenError>>;
+
+  /**
+   * Load the context stored in a snapshot.
+   *
+   * @param id - The snapshot identifier
+   * @returns Result with ContextData or SNAPSHOT_NOT_FOUND/SNAPSHOT_CORRUPTED
+   */
+  loadSnapshot(id: string): Promise<Result<ContextData, BenTenError>>;
+
+  /**
+   * Remove a snapshot from history.
+   *
+   * @param id - The snapshot identifier
+   * @returns Result with void or SNAPSHOT_NOT_FOUND/FS_WRITE_ERROR
+   */
+  deleteSnapshot(id: string): Promise<Result<void, BenTenError>>;
+
+  /**
+   * Re-encrypt every snapshot under a new key (undefined writes plaintext).
+   * Snapshots that cannot be read with the current key are left untouched.
+   *
+   * @param newKey - The key to encrypt snapshots with
+   * @returns Result with the number of snapshots rewritten or error
+   */
+  rekey(newKey: Buffer | undefined): Promise<Result<number, BenTenError>>;
+
+  /** Get full path to the snapshots directory */
+  getSnapshotsDir(): string;
+}
+
+export interface SnapshotServiceDeps {
+  fs: FileSystem;
+  logger: Logger;
+  /** Path to the .ben-ten directory */
+  benTenDir: string;
+  /** Maximum number of snapshots to retain (default: 10) */
+  maxSnapshots?: number;
+  /** Key for encrypting snapshots at rest */
+  encryptionKey?: Buffer;
+  /** Compression codec setting for written snapshots */
+  compression?: CompressionSetting;
+  /** Context schema version for written snapshots (default: current) */
+  targetVersion?: string;
+}
+
+/**
+ * Builds a sortable snapshot ID from a timestamp.
+ *
+ * @param timestamp - Milliseconds since epoch
+ * @returns ID like "20240115T103000123Z"
+ */
+const toSnapshotId = (timestamp: number): string =>
+  new Date(timestamp).toISOString().replace(/[-:.]/g, '');
+
+/**
+ * Creates a snapshot service for context history.
+ *
+ * Layout:
+ * - .ben-ten/snapshots/<id>.ctx - Serialized context generation
+ * - .ben-ten/snapshots/index.json - Snapshot info, most recent first
+ *
+ * @param deps - Dependencies including file system, logger and .ben-ten path
+ * @returns A SnapshotService instance
+ * @example
+ * const snapshots = createSnapshotService({ fs, logger, benTenDir });
+ * const list = await snapshots.listSnapshots();
+ */
+export const createSnapshotService = (
+  deps: SnapshotServiceDeps,
+): SnapshotService => {
+  const { fs, logger, benTenDir } = deps;
+  const maxSnapshots = deps.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS;
+  const serializer = createSerializerService({
+    encryptionKey: deps.encryptionKey,
+    compression: deps.compression,
+    targetVersion: deps.targetVersion,
+  });
+
+  const snapshotsDir = `${benTenDir}/${SNAPSHOTS_DIR}`;
+  const indexPath = `${snapshotsDir}/${SNAPSHOT_INDEX_FILE}`;
+
+  const getSnapshotPath = (id: string): string =>
+    `${snapshotsDir}/${id}${SNAPSHOT_EXTENSION}`;
+
+  const writeIndex = async (
+    entries: SnapshotInfo[],
+  ): Promise<Result<void, BenTenError>> => {
+    const writeResult = await fs.writeFile(
+      indexPath,
+      JSON.stringify(entries, null, 2),
+    );
+    if (!writeResult.ok) {
+      return err(
+        createError(
+          ErrorCode.FS_WRITE_ERROR,
+          'Failed to write snapshot index',
+          { path: indexPath, originalError: writeResult.error.message },
+        ),
+      );
+    }
+    return ok(undefined);
+  };
+
+  /**
+   * Rebuild the index by decoding every snapshot file on disk.
+   * Used when the index is missing or unreadable.
+   */
+  const rebuildIndex = async (): Promise<
+    Result<SnapshotInfo[], BenTenError>
+  > => {
+    const readdirResult = await fs.readdir(snapshotsDir);
+    if (!readdirResult.ok) {
+      return err(readdirResult.error);
+    }
+
+    const entries: SnapshotInfo[] = [];
+    for (const file of readdirResult.value) {
+      if (!file.endsWith(SNAPSHOT_EXTENSION)) continue;
+      const id = file.slice(0, -SNAPSHOT_EXTENSION.length);
+      const readResult = await fs.readFileBuffer(getSnapshotPath(id));
+      if (!readResult.ok) continue;
+      const decoded = serializer.deserialize(readResult.value);
+      if (!decoded.ok) {
+        logger.warn('Skipping unreadable snapshot while rebuilding index', {
+          id,
+          error: decoded.error.message,
+        });
+        continue;
+      }
+      const statResult = await fs.stat(getSnapshotPath(id));
+      entries.push({
+        id,
+        createdAt: statResult.ok ? statResult.value.mtime.getTime() : 0,
+        sessionId: decoded.value.sessionId,
+        updatedAt: decoded.value.updatedAt,
+        summaryPreview: decoded.value.summary.slice(0, 200),
+        size: readResult.value.length,
+      });
+    }
+
+    entries.sort((a, b) => b.id.localeCompare(a.id));
+    logger.info('Rebuilt snapshot index', { count: entries.length });
+    return ok(entries);
+  };
+
+  const readIndex = async (): Promise<Result<SnapshotInfo[], BenTenError>> => {
+    if (!(await fs.exists(snapshotsDir))) {
+      return ok([]);
+    }
+
+    if (!(await fs.exists(indexPath))) {
+      return rebuildIndex();
+    }
+
+    const readResult = await fs.readFile(indexPath);
+    if (!readResult.ok) {
+      return rebuildIndex();
+    }
+
+    try {
+      const parsed = SnapshotInfoSchema.array().safeParse(
+        JSON.parse(readResult.value),
+      );
+      if (parsed.success) {
+        return ok(parsed.data);
+      }
+    } catch {
+      // Fall through to rebuild
+    }
+
+    logger.warn('Snapshot index is invalid, rebuilding', { path: indexPath });
+    return rebuildIndex();
+  };
+
+  const service: SnapshotService = {
+    async createSnapshot(context, createdAt = Date.now()) {
+      const mkdirResult = await fs.mkdir(snapshotsDir, { recursive: true });
+      if (!mkdirResult.ok) {
+        return err(
+          createError(
+            ErrorCode.FS_WRITE_ERROR,
+            'Failed to create snapshots directory',
+            { path: snapshotsDir, originalError: mkdirResult.error.message },
+          ),
+        );
+      }
+
+      const indexResult = await readIndex();
+      if (!indexResult.ok) {
+        return err(indexResult.error);
+      }
+      const entries = indexResult.value;
+
+      // Ensure a unique ID when two snapshots land in the same millisecond
+      const baseId = toSnapshotId(createdAt);
+      let id = baseId;
+      for (let n = 1; entries.some((e) => e.id === id); n++) {
+        id = `${baseId}-${n}`;
+      }
+
+      const serializeResult = serializer.serialize(context);
+      if (!serializeResult.ok) {
+        return err(serializeResult.error);
+      }
+
+      const snapshotPath = getSnapshotPath(id);
+      const writeResult = await fs.writeFileBuffer(
+        snapshotPath,
+        serializeResult.value,
+      );
+      if (!writeResult.ok) {
+        return err(
+          createError(ErrorCode.FS_WRITE_ERROR, 'Failed to write snapshot', {
+            path: snapshotPath,
+            originalError: writeResult.error.message,
+          }),
+        );
+      }
+
+      const info: SnapshotInfo = {
+        id,
+        createdAt,
+        sessionId: context.sessionId,
+        updatedAt: context.updatedAt,
+        summaryPreview: context.summary.slice(0, 200),
+        size: serializeResult.value.length,
+      };
+
+      // Most recent first; drop anything beyond the retention limit
+      const updated = [info, ...entries].sort((a, b) =>
+        b.id.localeCompare(a.id),
+      );
+      const retained = updated.slice(0, maxSnapshots);
+      for (const pruned of updated.slice(maxSnapshots)) {
+        const prunedPath = getSnapshotPath(pruned.id);
+        if (await fs.exists(prunedPath)) {
+          const rmResult = await fs.rm(prunedPath);
+          if (!rmResult.ok) {
+            logger.warn('Failed to prune snapshot', {
+              id: pruned.id,
+              error: rmResult.error.message,
+            });
+          }
+        }
+      }
+
+      const indexWrite = await writeIndex(retained);
+      if (!indexWrite.ok) {
+        return err(indexWrite.error);
+      }
+
+      logger.debug('Snapshot created', {
+        id,
+        sessionId: context.sessionId,
+        retained: retained.length,
+      });
+
+      return ok(info);
+    },
+
+    async listSnapshots() {
+      const indexResult = await readIndex();
+      if (!indexResult.ok) {
+        return err(indexResult.error);
+      }
+
+      // Hide entries whose file has gone missing
+      const available: SnapshotInfo[] = [];
+      for (const entry of indexResult.value) {
+        if (await fs.exists(getSnapshotPath(entry.id))) {
+          available.push(entry);
+        }
+      }
+      return ok(available);
+    },
+
+    async loadSnapshot(id) {
+      const snapshotPath = getSnapshotPath(id);
+
+      if (!SNAPSHOT_ID_PATTERN.test(id) || !(await fs.exists(snapshotPath))) {
+        return err(
+          createError(
+            ErrorCode.SNAPSHOT_NOT_FOUND,
+            `Snapshot not found: ${id}`,
+            {
+              id,
+            },
+          ),
+        );
+      }
+
+      const readResult = await fs.readFileBuffer(snapshotPath);
+      if (!readResult.ok) {
+        return err(
+          createError(
+            ErrorCode.SNAPSHOT_CORRUPTED,
+            'Failed to read snapshot file',
+            { id, path: snapshotPath, originalError: readResult.error.message },
+          ),
+        );
+      }
+
+      const deserializeResult = serializer.deserialize(readResult.value);
+      if (!deserializeResult.ok) {
+        if (isUnreadableDataError(deserializeResult.error)) {
+          return err(deserializeResult.error);
+        }
+        return err(
+          createError(ErrorCode.SNAPSHOT_CORRUPTED, 'Snapshot is corrupted', {
+            id,
+            path: snapshotPath,
+            originalError: deserializeResult.error.message,
+          }),
+        );
+      }
+
+      return ok(deserializeResult.value);
+    },
+
+    async deleteSnapshot(id) {
+      const indexResult = await readIndex();
+      if (!indexResult.ok) {
+        return err(indexResult.error);
+      }
+
+      const snapshotPath = getSnapshotPath(id);
+      const indexed = indexResult.value.some((entry) => entry.id === id);
+      if (
+        !SNAPSHOT_ID_PATTERN.test(id) ||
+        (!indexed && !(await fs.exists(snapshotPath)))
+      ) {
+        return err(
+          createError(
+            ErrorCode.SNAPSHOT_NOT_FOUND,
+            `Snapshot not found: ${id}`,
+            {
+              id,
+            },
+          ),
+        );
+      }
+
+      if (await fs.exists(snapshotPath)) {
+        const rmResult = await fs.rm(snapshotPath);
+        if (!rmResult.ok) {
+          return err(
+            createError(ErrorCode.FS_WRITE_ERROR, 'Failed to delete snapshot', {
+              path: snapshotPath,
+              originalError: rmResult.error.message,
+            }),
+          );
+        }
+      }
+
+      if (indexed) {
+        const indexWrite = await writeIndex(
+          indexResult.value.filter((entry) => entry.id !== id),
+        );
+        if (!indexWrite.ok) {
+          return err(indexWrite.error);
+        }
+      }
+
+      logger.debug('Snapshot deleted', { id });
+      return ok(undefined);
+    },
+
+    async rekey(newKey) {
+      const indexResult = await readIndex();
+      if (!indexResult.ok) {
+        return err(indexResult.error);
+      }
+
+      const newSerializer = createSerializerService({
+        encryptionKey: newKey,
+        compression: deps.compression,
+        targetVersion: deps.targetVersion,
+      });
+      const updated: SnapshotInfo[] = [];
+      let rewritten = 0;
+
+      for (const entry of indexResult.value) {
+        const loadResult = await service.loadSnapshot(entry.id);
+        if (!loadResult.ok) {
+          logger.warn('Skipping unreadable snapshot during rekey', {
+            id: entry.id,
+            error: loadResult.error.message,
+          });
+          updated.push(entry);
+          continue;
+        }
+
+        const serializeResult = newSerializer.serialize(loadResult.value);
+        if (!serializeResult.ok) {
+          return err(serializeResult.error);
+        }
+
+        const snapshotPath = getSnapshotPath(entry.id);
+        const writeResult = await fs.writeFileBuffer(
+          snapshotPath,
+          serializeResult.value,
+        );
+        if (!writeResult.ok) {
+          return err(
+            createError(ErrorCode.FS_WRITE_ERROR, 'Failed to write snapshot', {
+              path: snapshotPath,
+              originalError: writeResult.error.message,
+            }),
+          );
+        }
+
+        updated.push({ ...entry, size: serializeResult.value.length });
+        rewritten++;
+      }
+
+      if (updated.length > 0) {
+        const indexWrite = await writeIndex(updated);
+        if (!indexWrite.ok) {
+          return err(indexWrite.error);
+        }
+      }
+
+      return ok(rewritten);
+    },
+
+    getSnapshotsDir() {
+      return snapshotsDir;
+    },
+  };
+
+  return service;
+};
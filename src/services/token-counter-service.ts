@@ -0,0 +1,162 @@
+/** Names of the available token counters */
+export type TokenizerSetting = 'heuristic' | 'bpe';
+
+/** Valid values for the tokenizer config setting */
+export const TOKENIZER_SETTINGS: readonly TokenizerSetting[] = [
+  'heuristic',
+  'bpe',
+];
+
+/** Token counter used when the config does not choose one */
+export const DEFAULT_TOKENIZER: TokenizerSetting = 'bpe';
+
+/**
+ * A token count, and how far it is from the 4 characters per token
+ * heuristic.
+ */
+export interface TokenEstimate {
+  /** Tokens counted by the selected counter */
+  tokens: number;
+  /** Tokens by the 4 characters per token heuristic */
+  heuristicTokens: number;
+  /** (tokens - heuristicTokens) / heuristicTokens, or 0 for empty text */
+  deviation: number;
+}
+
+/**
+ * Counts the tokens a text takes up in the model's context window.
+ */
+export interface TokenCounter {
+  /** Name of the counter, as set in config */
+  readonly name: TokenizerSetting;
+
+  /**
+   * Count the tokens of a text.
+   *
+   * @param text - Text to count
+   * @returns Estimated token count
+   */
+  count(text: string): number;
+
+  /**
+   * Count the tokens of a text and compare with the heuristic.
+   *
+   * @param text - Text to count
+   * @returns The count, the heuristic count and their deviation
+   */
+  estimate(text: string): TokenEstimate;
+}
+
+/**
+ * Estimates token count using 4 characters per token heuristic.
+ *
+ * @param text - Text to estimate tokens for
+ * @returns Estimated token count
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.floor(text.length / 4);
+};
+
+/**
+ * Splits text the way byte-pair tokenizers pre-tokenize it: contractions,
+ * words with their leading space, digits in groups of up to three,
+ * punctuation runs, and whitespace.
+ */
+const PRE_TOKENIZE =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+/** Scripts that take about one token per character */
+const IDEOGRAPHIC =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Estimates the tokens of one pre-tokenized piece. Common words are
+ * single tokens and long ones split every few characters; code punctuation
+ * merges in pairs; other scripts take more tokens per character since they
+ * need several bytes each.
+ */
+const countPiece = (piece: string): number => {
+  const word = piece.replace(/^[^\p{L}\p{N}]/u, '');
+  if (/^\p{L}+$/u.test(word)) {
+    if (/^[A-Za-z]+$/.test(word)) {
+      return word.length <= 8 ? 1 : Math.ceil(word.length / 5);
+    }
+    let tokens = 0;
+    let other = 0;
+    for (const char of word) {
+      if (IDEOGRAPHIC.test(char)) {
+        tokens++;
+      } else {
+        other++;
+      }
+    }
+    // Latin letters with accents merge almost like ASCII
+    return (
+      tokens +
+      Math.ceil(other / (/^[\p{Script=Latin}]+$/u.test(word) ? 4 : 2.5))
+    );
+  }
+  if (/^\p{N}+$/u.test(piece)) {
+    return 1;
+  }
+  if (/^\s+$/.test(piece)) {
+    return 1;
+  }
+  // Punctuation and symbols: ASCII merges in pairs, the rest go by bytes
+  const bytes = Buffer.byteLength(piece.trimStart(), 'utf8');
+  const ascii = /^[\x20-\x7e\r\n]*$/.test(piece);
+  return Math.max(1, Math.ceil(ascii ? bytes / 2 : bytes / 3));
+};
+
+/**
+ * Approximates a byte-pair tokenizer without a vocabulary: text is split
+ * into the pieces such a tokenizer starts from, and each piece is costed by
+ * its kind and length. This is still an estimate; the tests hold it within
+ * 25% of cl100k_base on prose, code, JSON, CJK and Cyrillic samples.
+ *
+ * @param text - Text to count
+ * @returns Estimated token count
+ */
+export const countBpeTokens = (text: string): number => {
+  let tokens = 0;
+  for (const match of text.matchAll(PRE_TOKENIZE)) {
+    tokens += countPiece(match[0]);
+  }
+  return tokens;
+};
+
+/**
+ * Creates a token counter.
+ *
+ * @param setting - Which counter to use (default: bpe)
+ * @returns A TokenCounter instance
+ * @example
+ * const counter = createTokenCounter(config.tokenizer);
+ * const { tokens, deviation } = counter.estimate(replay);
+ */
+export const createTokenCounter = (
+  setting: TokenizerSetting = DEFAULT_TOKENIZER,
+): TokenCounter => {
+  const count = setting === 'heuristic' ? estimateTokens : countBpeTokens;
+
+  const counter: TokenCounter = {
+    name: setting,
+
+    count,
+
+    estimate(text) {
+      const tokens = count(text);
+      const heuristicTokens = estimateTokens(text);
+      return {
+        tokens,
+        heuristicTokens,
+        deviation:
+          heuristicTokens === 0
+            ? 0
+            : (tokens - heuristicTokens) / heuristicTokens,
+      };
+    },
+  };
+
+  return counter;
+};
@@ -0,0 +1,251 @@
+/** Maximum characters of a Bash command shown */
+const MAX_COMMAND_LENGTH = 50;
+
+/** Maximum characters of any other argument shown */
+const MAX_ARGUMENT_LENGTH = 80;
+
+/** Arguments an MCP tool call shows when no formatter matches it */
+const MAX_MCP_ARGUMENTS = 3;
+
+/**
+ * Summarizes a tool call's arguments for the replay.
+ *
+ * @param input - The tool call's input
+ * @returns The arguments worth showing, or an empty string for none
+ */
+export type ToolFormatter = (input: Record<string, unknown>) => string;
+
+/**
+ * A formatter declared in config, for tools without a built-in one such as
+ * those of in-house MCP servers.
+ */
+export interface ToolFormatterRule {
+  /** Tool name, or a pattern where * matches any characters (mcp__jira__*) */
+  tool: string;
+  /** Replaces {field} and {field.subfield} with the call's input */
+  template: string;
+  /** Shown instead of the tool name */
+  label?: string;
+}
+
+/**
+ * A tool call as a replay shows it.
+ */
+export interface ToolCallDescription {
+  /** Tool name, or the label it is shown under */
+  label: string;
+  /** Arguments worth showing, or an empty string for none */
+  args: string;
+}
+
+/**
+ * Formats tool calls for replays, choosing a formatter by tool name.
+ */
+export interface ToolFormatterRegistry {
+  /**
+   * Describe a tool call. Config rules are tried first, then the built-in
+   * formatters, then the MCP fallback; other tools show just their name.
+   *
+   * @param name - Tool name
+   * @param input - Tool input
+   * @returns The label and arguments to show
+   */
+  describe(name: string, input: unknown): ToolCallDescription;
+
+  /**
+   * Format a tool call as describe() sees it.
+   *
+   * @param name - Tool name
+   * @param input - Tool input
+   * @returns The call as [Label: arguments], or [Label] without arguments
+   */
+  format(name: string, input: unknown): string;
+}
+
+/**
+ * Truncates text to a maximum length, adding ellipsis if truncated.
+ */
+const truncateText = (text: string, maxLength: number): string =>
+  text.length <= maxLength ? text : `${text.substring(0, maxLength - 3)}...`;
+
+/**
+ * Shows an argument value on one line: strings as they are, lists by their
+ * length, and objects as JSON.
+ */
+const showValue = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return truncateText(text.replace(/\s+/g, ' ').trim(), MAX_ARGUMENT_LENGTH);
+};
+
+/**
+ * Shows a string argument, or nothing if it is missing.
+ */
+const arg = (input: Record<string, unknown>, key: string): string =>
+  typeof input[key] === 'string' ? showValue(input[key]) : '';
+
+/**
+ * Joins the parts that are present with a separator.
+ */
+const joinParts = (parts: string[], separator = ' '): string =>
+  parts.filter((part) => part.length > 0).join(separator);
+
+/**
+ * Formatters for the tools Claude Code provides.
+ */
+export const BUILTIN_TOOL_FORMATTERS: Readonly<Record<string, ToolFormatter>> =
+  {
+    Bash: (input) =>
+      truncateText(String(input.command || ''), MAX_COMMAND_LENGTH),
+    BashOutput: (input) => arg(input, 'bash_id'),
+    KillShell: (input) => arg(input, 'shell_id'),
+    KillBash: (input) => arg(input, 'shell_id'),
+    Read: (input) => String(input.file_path || ''),
+    Edit: (input) => String(input.file_path || ''),
+    Write: (input) => String(input.file_path || ''),
+    MultiEdit: (input) => {
+      const edits = Array.isArray(input.edits) ? input.edits.length : 0;
+      return joinParts([
+        arg(input, 'file_path'),
+        edits > 0 ? `(${edits} edit${edits === 1 ? '' : 's'})` : '',
+      ]);
+    },
+    NotebookRead: (input) => arg(input, 'notebook_path'),
+    NotebookEdit: (input) =>
+      joinParts([
+        arg(input, 'notebook_path'),
+        input.edit_mode && input.edit_mode !== 'replace'
+          ? `(${showValue(input.edit_mode)})`
+          : '',
+      ]),
+    Glob: (input) => String(input.pattern || ''),
+    Grep: (input) => String(input.pattern || ''),
+    LS: (input) => arg(input, 'path'),
+    Task: (input) => String(input.description || ''),
+    Agent: (input) => String(input.description || ''),
+    TodoWrite: (input) => {
+      const todos = Array.isArray(input.todos)
+        ? (input.todos as { status?: unknown; content?: unknown }[])
+        : [];
+      const done = todos.filter((todo) => todo?.status === 'completed');
+      const active = todos.find((todo) => todo?.status === 'in_progress');
+      return joinParts(
+        [
+          `${done.length}/${todos.length} done`,
+          active ? `now: ${showValue(active.content)}` : '',
+        ],
+        ', ',
+      );
+    },
+    TaskCreate: (input) => arg(input, 'subject'),
+    TaskUpdate: (input) =>
+      joinParts([
+        input.taskId !== undefined ? `#${showValue(input.taskId)}` : '',
+        input.status !== undefined ? `→ ${showValue(input.status)}` : '',
+      ]),
+    WebFetch: (input) => arg(input, 'url'),
+    WebSearch: (input) => arg(input, 'query'),
+    SlashCommand: (input) => arg(input, 'command'),
+    Skill: (input) => arg(input, 'skill') || arg(input, 'command'),
+    ExitPlanMode: () => '',
+  };
+
+/**
+ * Fallback for MCP tools (mcp__<server>__<tool>): the server and tool, and
+ * the first few scalar arguments.
+ */
+const describeMcpTool = (
+  name: string,
+  input: Record<string, unknown>,
+): ToolCallDescription | null => {
+  const match = name.match(/^mcp__(.+?)__(.+)$/);
+  if (!match) {
+    return null;
+  }
+  const args = Object.entries(input)
+    .filter(([, value]) => value !== null && typeof value !== 'object')
+    .slice(0, MAX_MCP_ARGUMENTS)
+    .map(([key, value]) => `${key}=${showValue(value)}`);
+  return { label: `${match[1]}/${match[2]}`, args: args.join(', ') };
+};
+
+/**
+ * Compiles a tool name pattern where * matches any characters.
+ */
+const toolPattern = (tool: string): RegExp =>
+  new RegExp(
+    `^${tool
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  );
+
+/**
+ * Fills a config template with values from a tool call's input.
+ */
+const renderTemplate = (
+  template: string,
+  input: Record<string, unknown>,
+): string =>
+  template
+    .replace(/\{([\w.]+)\}/g, (_, path: string) => {
+      let value: unknown = input;
+      for (const key of path.split('.')) {
+        value = (value as Record<string, unknown> | undefined)?.[key];
+      }
+      return showValue(value);
+    })
+    .trim();
+
+/**
+ * Creates a tool formatter registry.
+ *
+ * @param rules - Formatters declared in config, tried before the built-ins
+ * @returns A ToolFormatterRegistry instance
+ * @example
+ * const formatters = createToolFormatterRegistry(config.toolFormatters);
+ * formatters.format('Read', { file_path: 'src/index.ts' }); // [Read: src/index.ts]
+ */
+export const createToolFormatterRegistry = (
+  rules: ToolFormatterRule[] = [],
+): ToolFormatterRegistry => {
+  const compiled = rules.map((rule) => ({
+    pattern: toolPattern(rule.tool),
+    template: rule.template,
+    label: rule.label,
+  }));
+
+  const registry: ToolFormatterRegistry = {
+    describe(name, input) {
+      const args = (input ?? {}) as Record<string, unknown>;
+
+      const rule = compiled.find((r) => r.pattern.test(name));
+      if (rule) {
+        return {
+          label: rule.label || name,
+          args: renderTemplate(rule.template, args),
+        };
+      }
+
+      if (Object.hasOwn(BUILTIN_TOOL_FORMATTERS, name)) {
+        const formatter = BUILTIN_TOOL_FORMATTERS[name] as ToolFormatter;
+        return { label: name, args: formatter(args) };
+      }
+
+      return describeMcpTool(name, args) ?? { label: name, args: '' };
+    },
+
+    format(name, input) {
+      const { label, args } = registry.describe(name, input);
+      return args ? `[${label}: ${args}]` : `[${label}]`;
+    },
+  };
+
+  return registry;
+};
@@ -1,8 +1,11 @@
+import { createHash } from 'node:crypto';
 import type { FileSystem } from '../adapters/fs/memory-fs.js';
 import {
-  type ContentBlock,
   type ConversationHistory,
+  type FileMetadata,
+  type SubagentRun,
   type ToolExecution,
+  type TranscriptCursor,
   type TranscriptEntry,
   TranscriptEntrySchema,
   getTranscriptEntryContent,
@@ -14,6 +17,420 @@ import {
 } from '../infrastructure/errors.js';
 import type { Logger } from '../infrastructure/logger.js';
 import { type Result, err, ok } from '../infrastructure/result.js';
+import type { IgnoreRules } from './ignore-service.js';
+import type { TokenCounter } from './token-counter-service.js';
+
+/** Maximum characters of error output kept on a failed tool call */
+const MAX_TOOL_ERROR_LENGTH = 200;
+
+/**
+ * Truncates text to a maximum length, adding ellipsis if truncated.
+ */
+const truncate = (text: string, maxLength: number): string =>
+  text.length <= maxLength ? text : `${text.substring(0, maxLength - 3)}...`;
+
+/**
+ * Text of a tool_result's content, which is a string or a list of blocks.
+ */
+const toolResultText = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+  return content
+    .map((block) =>
+      typeof block?.text === 'string' ? (block.text as string) : '',
+    )
+    .filter((text) => text.length > 0)
+    .join('\n');
+};
+
+/** How a file was used in a conversation */
+export type FileAccessKind = 'read' | 'edit' | 'write' | 'mention';
+
+/** A file a tool call or shell command touched */
+export interface FileAccess {
+  path: string;
+  kind: FileAccessKind;
+}
+
+/** Largest file whose content is hashed at save time */
+const MAX_HASHED_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Shell commands whose file arguments are changed rather than read */
+const WRITING_COMMANDS = new Set(['touch', 'rm', 'mv']);
+
+/**
+ * Whether a tool argument or shell word looks like a file path: it has a
+ * file extension and is not an option, URL, variable or glob.
+ */
+const looksLikeFilePath = (word: string): boolean =>
+  word.length > 0 &&
+  !word.startsWith('-') &&
+  !word.includes('://') &&
+  !/[$*?=<>|&;(){}\s]/.test(word) &&
+  /\.[A-Za-z][A-Za-z0-9]*$/.test(word);
+
+/**
+ * Files a Bash command reads and changes. Redirect targets and the files
+ * of cp, mv, rm and touch count as writes, sed -i and perl -i targets as
+ * edits, and any other path-like argument as a read.
+ */
+const bashFileAccesses = (command: string): FileAccess[] => {
+  const accesses: FileAccess[] = [];
+  for (const segment of command.split(/&&|\|\||[;|\n]/)) {
+    const words = segment
+      .replace(/(\d?>>?|<)/g, ' $1 ')
+      .split(/\s+/)
+      .map((word) => word.replace(/^['"]|['"]$/g, ''))
+      .filter((word) => word.length > 0);
+    // Skip leading VAR=value assignments
+    const start = words.findIndex((word) => !/^\w+=/.test(word));
+    if (start < 0) continue;
+    const program = words[start]?.split('/').pop() ?? '';
+    const inPlace =
+      (program === 'sed' || program === 'perl') &&
+      words.some((word) => /^-\w*i/.test(word));
+
+    const args: string[] = [];
+    for (let i = start + 1; i < words.length; i++) {
+      const word = words[i] as string;
+      if (/^\d?>>?$/.test(word) || word === '<') {
+        const target = words[++i];
+        if (target && looksLikeFilePath(target)) {
+          accesses.push({
+            path: target,
+            kind: word === '<' ? 'read' : 'write',
+          });
+        }
+      } else if (looksLikeFilePath(word)) {
+        args.push(word);
+      }
+    }
+
+    args.forEach((path, i) => {
+      let kind: FileAccessKind = 'read';
+      if (inPlace) kind = 'edit';
+      else if (WRITING_COMMANDS.has(program)) kind = 'write';
+      else if (program === 'cp' && i === args.length - 1) kind = 'write';
+      accesses.push({ path, kind });
+    });
+  }
+  return accesses;
+};
+
+/**
+ * Files a tool call reads or changes, judged from its name and input.
+ *
+ * @param name - Tool name
+ * @param input - Tool input
+ * @returns The files and how they are used
+ */
+export const toolFileAccesses = (
+  name: string,
+  input: unknown,
+): FileAccess[] => {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const pathArg = (key: string): string | undefined =>
+    typeof args[key] === 'string' && args[key]
+      ? (args[key] as string)
+      : undefined;
+
+  switch (name) {
+    case 'Read':
+    case 'NotebookRead': {
+      const path = pathArg('file_path') ?? pathArg('notebook_path');
+      return path ? [{ path, kind: 'read' }] : [];
+    }
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit': {
+      const path = pathArg('file_path') ?? pathArg('notebook_path');
+      return path ? [{ path, kind: 'edit' }] : [];
+    }
+    case 'Write': {
+      const path = pathArg('file_path');
+      return path ? [{ path, kind: 'write' }] : [];
+    }
+    case 'Grep': {
+      // Grep searches a directory unless given a single file
+      const path = pathArg('path');
+      return path && looksLikeFilePath(path) ? [{ path, kind: 'read' }] : [];
+    }
+    case 'Bash': {
+      const command = pathArg('command');
+      return command ? bashFileAccesses(command) : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/** Input left on a tool call that touched an ignored path */
+const IGNORED_TOOL_INPUT = { ignored: true } as const;
+
+/** Output left on the result of a tool call that touched an ignored path */
+const IGNORED_TOOL_OUTPUT = '[output omitted: ignored path]';
+
+/**
+ * Whether a tool call reads or changes a path excluded by the ignore rules,
+ * or was already masked for doing so.
+ *
+ * @param name - Tool name
+ * @param input - Tool input
+ * @param ignore - Ignore rules of the project
+ * @returns True if the call should not be shown or kept
+ */
+export const toolTouchesIgnoredPath = (
+  name: string,
+  input: unknown,
+  ignore: IgnoreRules,
+): boolean =>
+  (input as { ignored?: unknown } | undefined)?.ignored === true ||
+  toolFileAccesses(name, input).some((access) => ignore.isIgnored(access.path));
+
+/** Maximum characters of a subagent's final report kept */
+const MAX_SUBAGENT_OUTCOME_LENGTH = 500;
+
+/** Tools that delegate work to a subagent */
+const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+/**
+ * Whether a transcript file holds a subagent's side conversation rather
+ * than a session (agent-<id>.jsonl).
+ *
+ * @param path - Path or name of the transcript file
+ * @returns True for subagent transcripts
+ */
+export const isSubagentTranscript = (path: string): boolean =>
+  /^agent-[^/]*\.jsonl$/.test(path.split('/').pop() ?? '');
+
+/** Lines read from the start of a transcript when looking for its cwd */
+const CWD_SCAN_LINES = 50;
+
+/**
+ * Converts a project directory to the folder name Claude Code keeps its
+ * transcripts under: every character but letters and digits becomes a dash.
+ * The encoding is lossy (/a/b.c and /a/b-c share a folder), so discovery
+ * prefers the cwd recorded in the transcripts.
+ *
+ * @param projectDir - The project directory path
+ * @returns Folder name, e.g. -mnt-c-Users-rickh-GitHub-Ben10
+ */
+export const toClaudeProjectPath = (projectDir: string): string =>
+  projectDir.replace(/[^A-Za-z0-9]/g, '-');
+
+/**
+ * Normalizes a project path so the same directory compares equal from
+ * Windows and WSL: backslashes become slashes, C:\ becomes /mnt/c/, and
+ * trailing slashes are dropped.
+ *
+ * @param path - Project path as written by Claude Code or the user
+ * @returns Normalized path
+ */
+export const normalizeProjectPath = (path: string): string => {
+  let normalized = path.replace(/\\/g, '/');
+  normalized = normalized.replace(
+    /^(?:([A-Za-z]):|\/mnt\/([A-Za-z]))(?=\/|$)/,
+    (_, drive?: string, mount?: string) =>
+      `/mnt/${(drive ?? mount ?? '').toLowerCase()}`,
+  );
+  return normalized.replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+};
+
+/**
+ * A transcript that may belong to a project.
+ */
+export interface TranscriptCandidate {
+  /** Path of the transcript file */
+  path: string;
+  /** Projects directory it was found under */
+  root: string;
+  /** Session ID the file is named after */
+  sessionId: string;
+  /** Last modification time in ms */
+  mtime: number;
+  /** File size in bytes */
+  size: number;
+  /** Working directory recorded in the project folder's transcripts */
+  cwd?: string;
+  /** Whether the folder matched by recorded cwd or by its encoded name */
+  matchedBy: 'cwd' | 'name';
+}
+
+/** A subagent's side conversation */
+interface Sidechain {
+  /** The prompt the subagent was started with */
+  prompt: string | undefined;
+  entries: TranscriptEntry[];
+}
+
+/**
+ * Groups the sidechain entries of a conversation into side conversations,
+ * following parentUuid links. With all set, every message counts as part
+ * of a sidechain (for agent-*.jsonl files).
+ */
+const groupSidechains = (
+  entries: TranscriptEntry[],
+  all = false,
+): Sidechain[] => {
+  const chains: Sidechain[] = [];
+  const chainOf = new Map<string, Sidechain>();
+  for (const entry of entries) {
+    if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+    if (!all && !entry.isSidechain) continue;
+
+    let chain = entry.parentUuid ? chainOf.get(entry.parentUuid) : undefined;
+    if (!chain && all) {
+      chain = chains[0];
+    }
+    if (!chain) {
+      chain = {
+        prompt:
+          entry.type === 'user'
+            ? getTranscriptEntryContent(entry).trim()
+            : undefined,
+        entries: [],
+      };
+      chains.push(chain);
+    }
+    chain.entries.push(entry);
+    if (entry.uuid) chainOf.set(entry.uuid, chain);
+  }
+  return chains;
+};
+
+/**
+ * Condenses a subagent's side conversation into a run record.
+ *
+ * @param call - The Task tool_use, its input and its result
+ * @param chain - The side conversation, if it was found
+ */
+const summarizeSubagent = (
+  call: {
+    id: string;
+    input: Record<string, unknown>;
+    result?: { content?: unknown; is_error?: boolean };
+  },
+  chain: Sidechain | undefined,
+): SubagentRun => {
+  const entries = chain?.entries ?? [];
+  let toolCallCount = 0;
+  let finalText = '';
+  const filesChanged = new Set<string>();
+  for (const entry of entries) {
+    if (entry.type !== 'assistant') continue;
+    const text = getTranscriptEntryContent(entry).trim();
+    if (text) finalText = text;
+    for (const block of entry.message.content) {
+      if (block.type !== 'tool_use') continue;
+      toolCallCount++;
+      for (const access of toolFileAccesses(block.name, block.input)) {
+        if (access.kind === 'edit' || access.kind === 'write') {
+          filesChanged.add(access.path);
+        }
+      }
+    }
+  }
+
+  // The Task result carries the subagent's report when its side
+  // conversation was not found
+  const outcome = finalText || toolResultText(call.result?.content).trim();
+  let status: SubagentRun['status'] = 'running';
+  if (call.result) {
+    status = call.result.is_error ? 'failed' : 'completed';
+  }
+  const { description, subagent_type: subagentType } = call.input;
+
+  return {
+    toolUseId: call.id,
+    ...(typeof description === 'string' && { description }),
+    ...(typeof subagentType === 'string' && { subagentType }),
+    status,
+    messageCount: entries.length,
+    toolCallCount,
+    ...(filesChanged.size > 0 && { filesChanged: Array.from(filesChanged) }),
+    ...(outcome && {
+      outcome: truncate(outcome, MAX_SUBAGENT_OUTCOME_LENGTH),
+    }),
+  };
+};
+
+/** Default number of calls returned by queryToolHistory */
+export const DEFAULT_TOOL_HISTORY_LIMIT = 50;
+
+/**
+ * Filters for querying a tool execution history.
+ */
+export interface ToolHistoryQuery {
+  /** Only calls of this tool (case-insensitive) */
+  toolName?: string;
+  /** Only calls whose result was an error */
+  failuresOnly?: boolean;
+  /** Maximum number of calls to return (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Result of querying a tool execution history.
+ */
+export interface ToolHistoryQueryResult {
+  /** Number of calls matching the filters, before the limit */
+  total: number;
+  /** Matching calls, most recent first */
+  calls: ToolExecution[];
+}
+
+/**
+ * Filters a tool execution history, most recent calls first.
+ *
+ * @param tools - Tool history in conversation order
+ * @param query - Filters to apply
+ * @returns The matching calls and how many there were in total
+ * @example
+ * const { calls } = queryToolHistory(context.toolHistory ?? [], {
+ *   toolName: 'Bash',
+ *   failuresOnly: true,
+ * });
+ */
+export const queryToolHistory = (
+  tools: ToolExecution[],
+  query: ToolHistoryQuery = {},
+): ToolHistoryQueryResult => {
+  const toolName = query.toolName?.toLowerCase();
+  const matching = tools.filter(
+    (call) =>
+      (!toolName || call.toolName.toLowerCase() === toolName) &&
+      (!query.failuresOnly || !call.success),
+  );
+  const limit = query.limit ?? DEFAULT_TOOL_HISTORY_LIMIT;
+  return {
+    total: matching.length,
+    calls: matching.reverse().slice(0, Math.max(0, limit)),
+  };
+};
+
+/**
+ * A previous parse of a transcript to continue from.
+ */
+export interface TranscriptParseBase {
+  /** Conversation parsed so far */
+  history: ConversationHistory;
+  /** Where that parse stopped */
+  cursor: TranscriptCursor;
+}
+
+/**
+ * A parsed transcript and the cursor to continue from next time.
+ */
+export interface TranscriptParseResult {
+  history: ConversationHistory;
+  cursor: TranscriptCursor;
+  /** Whether only lines appended since the base were parsed */
+  incremental: boolean;
+}
 
 /**
  * Service for parsing and extracting information from Claude Code transcripts.
@@ -21,7 +438,7 @@ import { type Result, err, ok } from '../infrastructure/result.js';
 export interface TranscriptService {
   /**
    * Discover the most recent transcript file for a project.
-   * Looks in ~/.claude/projects/<project-path>/ for .jsonl files.
+   * Takes the newest of listTranscripts.
    *
    * @param projectDir - The project directory path
    * @returns Result with transcript path or null if not found
@@ -30,6 +447,37 @@ export interface TranscriptService {
     projectDir: string,
   ): Promise<Result<string | null, BenTenError>>;
 
+  /**
+   * Get the directory where Claude Code keeps a project's transcripts.
+   *
+   * @param projectDir - The project directory path
+   * @returns Path of <projects dir>/<project-path> under the first root
+   */
+  getTranscriptDir(projectDir: string): string;
+
+  /**
+   * Get the projects directories searched for transcripts:
+   * $CLAUDE_CONFIG_DIR/projects, ~/.claude/projects, then the extra roots.
+   *
+   * @returns Existing and missing roots, without duplicates
+   */
+  getTranscriptRoots(): string[];
+
+  /**
+   * List every transcript that may belong to a project, across all roots.
+   * A project folder matches when the cwd recorded in its transcripts is
+   * the project directory, or, for transcripts without a cwd, when its
+   * name is the project's encoded path. In each root the folder named by
+   * the encoded path is tried first, and the other folders are scanned only
+   * when it does not match. Subagent transcripts are left out.
+   *
+   * @param projectDir - The project directory path
+   * @returns Result with the candidates, newest first, or error
+   */
+  listTranscripts(
+    projectDir: string,
+  ): Promise<Result<TranscriptCandidate[], BenTenError>>;
+
   /**
    * Parse a transcript JSONL file into conversation history.
    *
@@ -41,13 +489,71 @@ export interface TranscriptService {
   ): Promise<Result<ConversationHistory, BenTenError>>;
 
   /**
-   * Extract file references from conversation history.
-   * Looks for file paths in backticks and tool mentions.
+   * Stream the entries of a transcript JSONL file one at a time, without
+   * loading the whole file. Malformed lines are skipped. If reading fails
+   * partway, iteration throws a TRANSCRIPT_PARSE_ERROR BenTenError.
+   *
+   * @param path - Path to the transcript file
+   * @returns Result with an async iterable of entries, or error
+   */
+  streamTranscript(
+    path: string,
+  ): Promise<Result<AsyncIterable<TranscriptEntry>, BenTenError>>;
+
+  /**
+   * Parse only the lines appended to a transcript since a previous parse and
+   * append them to its history. Falls back to a full parse when there is no
+   * base, or the transcript was replaced, truncated or rewritten since.
+   * A partially written last line is left for the next parse.
+   *
+   * @param path - Path to the transcript file
+   * @param base - The previous parse, with the cursor it returned
+   * @returns Result with the merged history and new cursor, or error
+   */
+  parseTranscriptIncremental(
+    path: string,
+    base?: TranscriptParseBase,
+  ): Promise<Result<TranscriptParseResult, BenTenError>>;
+
+  /**
+   * Extract file activity from conversation history: how often each file
+   * was read, edited, written or mentioned, and when. Looks at file paths
+   * in backticks, the inputs of file tools and Bash commands, and the
+   * files listed by Grep and Glob.
    *
    * @param history - Parsed conversation history
-   * @returns Array of unique file paths
+   * @param ignore - Ignore rules; excluded paths are left out
+   * @returns One record per file, in order of first use, without contentHash
+   */
+  extractFileReferences(
+    history: ConversationHistory,
+    ignore?: IgnoreRules,
+  ): FileMetadata[];
+
+  /**
+   * Mask the tool calls that touch paths excluded by the ignore rules: their
+   * input is replaced by `{ ignored: true }` and the output of their results
+   * is dropped. Other entries are returned as they are.
+   *
+   * @param history - Parsed conversation history
+   * @param ignore - Ignore rules of the project
+   * @returns The conversation with ignored tool calls masked
+   */
+  applyIgnoreRules(
+    history: ConversationHistory,
+    ignore: IgnoreRules,
+  ): ConversationHistory;
+
+  /**
+   * Fill in the contentHash of files that exist, resolving relative paths
+   * against a directory. Missing, unreadable and very large files are
+   * returned unchanged.
+   *
+   * @param files - File records, e.g. from extractFileReferences
+   * @param baseDir - Directory relative paths are resolved against
+   * @returns The records with SHA-256 content hashes where available
    */
-  extractFileReferences(history: ConversationHistory): string[];
+  hashFiles(files: FileMetadata[], baseDir: string): Promise<FileMetadata[]>;
 
   /**
    * Extract tool calls from conversation history.
@@ -58,6 +564,22 @@ export interface TranscriptService {
    */
   extractToolCalls(history: ConversationHistory): ToolExecution[];
 
+  /**
+   * Find what the subagents started by Task tool calls did. Side
+   * conversations are taken from the history's sidechain entries and, given
+   * the transcript path, from the agent-*.jsonl files of the same session
+   * next to it or in its <session>/subagents directory. They are matched to
+   * Task calls by prompt, then in order.
+   *
+   * @param history - Parsed conversation history
+   * @param transcriptPath - Path of the transcript the history came from
+   * @returns Result with one run per Task call, in call order, or error
+   */
+  collectSubagents(
+    history: ConversationHistory,
+    transcriptPath?: string,
+  ): Promise<Result<SubagentRun[], BenTenError>>;
+
   /**
    * Get the latest summary from a transcript.
    *
@@ -65,11 +587,29 @@ export interface TranscriptService {
    * @returns Result with the latest summary string or null if none
    */
   getLatestSummary(path: string): Promise<Result<string | null, BenTenError>>;
+
+  /**
+   * Count the tokens of the conversation the model currently holds: the
+   * messages, tool calls and tool results since the last compaction,
+   * plus that compaction's summary.
+   *
+   * @param path - Path to the transcript file
+   * @param counter - Token counter to use
+   * @returns Result with the token count or error
+   */
+  countContextTokens(
+    path: string,
+    counter: TokenCounter,
+  ): Promise<Result<number, BenTenError>>;
 }
 
 export interface TranscriptServiceDeps {
   fs: FileSystem;
   logger: Logger;
+  /** Extra projects directories to search, e.g. from another OS or container */
+  transcriptRoots?: string[];
+  /** Environment for CLAUDE_CONFIG_DIR and HOME (default: process.env) */
+  env?: Record<string, string | undefined>;
 }
 
 /**
@@ -81,237 +621,875 @@ export interface TranscriptServiceDeps {
 export const createTranscriptService = (
   deps: TranscriptServiceDeps,
 ): TranscriptService => {
-  const { fs, logger } = deps;
+  const { fs, logger, transcriptRoots = [], env = process.env } = deps;
 
   /**
    * Parse a single line of JSONL into a TranscriptEntry.
-   * Returns null for invalid or unparseable lines.
+   * JSON objects that do not match a modelled entry type are kept as
+   * unknown entries. Returns null for blank lines and lines that are not
+   * JSON objects.
    */
   const parseLine = (line: string): TranscriptEntry | null => {
     if (!line.trim()) {
       return null;
     }
 
+    let parsed: unknown;
     try {
-      const parsed = JSON.parse(line);
-      const result = TranscriptEntrySchema.safeParse(parsed);
-      if (result.success) {
-        return result.data;
-      }
-      return null;
+      parsed = JSON.parse(line);
     } catch {
       return null;
     }
+
+    const result = TranscriptEntrySchema.safeParse(parsed);
+    if (result.success) {
+      return result.data;
+    }
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+    ) {
+      return { type: 'unknown', raw: parsed as Record<string, unknown> };
+    }
+    return null;
   };
 
   /**
-   * Convert a project directory path to Claude Code's project path format.
-   * Example: /mnt/c/Users/rickh/GitHub/Ben10 -> -mnt-c-Users-rickh-GitHub-Ben10
+   * Map a failure to open a transcript to a transcript error.
    */
-  const toClaudeProjectPath = (projectDir: string): string => {
-    // Replace all path separators with dashes, remove leading slash
-    return projectDir.replace(/^\//, '').replace(/\//g, '-');
+  const openError = (path: string, error: BenTenError): BenTenError => {
+    if (error.code === ErrorCode.FS_NOT_FOUND) {
+      return createError(
+        ErrorCode.TRANSCRIPT_NOT_FOUND,
+        'Transcript file not found',
+        { path },
+      );
+    }
+    return createError(
+      ErrorCode.TRANSCRIPT_PARSE_ERROR,
+      'Failed to read transcript',
+      { path, originalError: error.message },
+    );
   };
 
   /**
-   * Get the Claude Code projects directory.
-   * Returns ~/.claude/projects on Unix-like systems.
+   * Map an error thrown while streaming a transcript to a transcript error.
+   * Errors already mapped by an inner stream pass through unchanged.
    */
-  const getClaudeProjectsDir = (): string => {
-    const home = process.env.HOME || process.env.USERPROFILE || '';
-    return `${home}/.claude/projects`;
+  const streamError = (path: string, error: unknown): BenTenError => {
+    const thrown = error as Partial<BenTenError> | undefined;
+    if (thrown?.code === ErrorCode.TRANSCRIPT_PARSE_ERROR) {
+      return thrown as BenTenError;
+    }
+    return createError(
+      ErrorCode.TRANSCRIPT_PARSE_ERROR,
+      'Failed to read transcript',
+      {
+        path,
+        originalError: thrown?.message ?? String(error),
+      },
+    );
   };
 
-  const service: TranscriptService = {
-    async discoverTranscriptPath(projectDir) {
-      const claudeProjectPath = toClaudeProjectPath(projectDir);
-      const projectsDir = getClaudeProjectsDir();
-      const transcriptDir = `${projectsDir}/${claudeProjectPath}`;
+  /**
+   * Warn about a complete line that is not a transcript entry.
+   * Returns whether the line was skipped (blank lines are not counted).
+   */
+  const warnMalformed = (line: string): boolean => {
+    if (!line.trim()) {
+      return false;
+    }
+    logger.warn('Skipping malformed transcript line', {
+      line: line.substring(0, 100),
+    });
+    return true;
+  };
 
-      logger.debug('Discovering transcript', { projectDir, transcriptDir });
+  /** File paths mentioned in backticks in an entry's text */
+  const mentionedFiles = (entry: TranscriptEntry): string[] => {
+    const content = getTranscriptEntryContent(entry);
+    if (!content) return [];
 
-      // Check if directory exists
-      if (!(await fs.exists(transcriptDir))) {
-        logger.debug('Claude projects directory not found', { transcriptDir });
-        return ok(null);
+    // Pattern to match file paths in backticks
+    // Matches: `path/to/file.ts`, `./relative/file.js`, `/absolute/file.py`
+    const backtickPattern = /`([^`]+\.[a-zA-Z0-9]+)`/g;
+    const paths: string[] = [];
+
+    let match = backtickPattern.exec(content);
+    while (match) {
+      const filePath = match[1];
+      // Filter out things that don't look like file paths
+      if (
+        filePath &&
+        (filePath.includes('/') ||
+          (filePath.includes('.') && !filePath.includes(' ')))
+      ) {
+        paths.push(filePath);
+      }
+      match = backtickPattern.exec(content);
+    }
+    return paths;
+  };
+
+  /**
+   * Tallies how each file was used as entries are read in order: mentions
+   * in message text, the files tool calls read and change, and the files
+   * listed in Grep and Glob results. Accesses take the timestamp of their
+   * entry, or the fallback when it has none.
+   */
+  const createFileActivityCollector = (fallbackTimestamp: number) => {
+    const files = new Map<string, FileMetadata>();
+    // Grep and Glob calls whose results list matching files
+    const searches = new Set<string>();
+
+    const record = (path: string, kind: FileAccessKind, at: number): void => {
+      const file = files.get(path) ?? {
+        path,
+        firstAccessed: at,
+        lastAccessed: at,
+        accessCount: 0,
+      };
+      file.accessCount++;
+      file.firstAccessed = Math.min(file.firstAccessed ?? at, at);
+      file.lastAccessed = Math.max(file.lastAccessed, at);
+      if (kind === 'read') file.readCount = (file.readCount ?? 0) + 1;
+      if (kind === 'edit') file.editCount = (file.editCount ?? 0) + 1;
+      if (kind === 'write') file.writeCount = (file.writeCount ?? 0) + 1;
+      files.set(path, file);
+    };
+
+    const add = (entry: TranscriptEntry): void => {
+      const time =
+        'timestamp' in entry && entry.timestamp
+          ? Date.parse(entry.timestamp)
+          : Number.NaN;
+      const at = Number.isNaN(time) ? fallbackTimestamp : time;
+
+      for (const path of mentionedFiles(entry)) {
+        record(path, 'mention', at);
+      }
+      if (entry.type !== 'user' && entry.type !== 'assistant') {
+        return;
+      }
+      const content = entry.message.content;
+      if (typeof content === 'string') {
+        return;
       }
 
-      // List all .jsonl files in the directory
-      const readdirResult = await fs.readdir(transcriptDir);
-      if (!readdirResult.ok) {
-        logger.warn('Failed to read Claude projects directory', {
-          transcriptDir,
-          error: readdirResult.error.message,
-        });
-        return ok(null);
+      for (const block of content) {
+        if (block.type === 'tool_use') {
+          for (const access of toolFileAccesses(block.name, block.input)) {
+            record(access.path, access.kind, at);
+          }
+          if (block.name === 'Grep' || block.name === 'Glob') {
+            searches.add(block.id);
+          }
+        } else if (
+          block.type === 'tool_result' &&
+          searches.delete(block.tool_use_id) &&
+          !block.is_error
+        ) {
+          for (const line of toolResultText(block.content).split('\n')) {
+            const path = line.trim();
+            if (looksLikeFilePath(path)) record(path, 'mention', at);
+          }
+        }
+      }
+    };
+
+    const result = (): FileMetadata[] => Array.from(files.values());
+
+    return { add, result };
+  };
+
+  /**
+   * Pairs tool_use blocks with the tool_result answering them as entries are
+   * read in order. Calls take the timestamp of their entry, or the fallback
+   * when it has none; durations need timestamps on both sides.
+   */
+  const createToolCallCollector = (fallbackTimestamp: number) => {
+    const tools: ToolExecution[] = [];
+    const pending = new Map<
+      string,
+      { call: ToolExecution; startedAt: number | undefined }
+    >();
+
+    const add = (entry: TranscriptEntry): void => {
+      if (entry.type !== 'user' && entry.type !== 'assistant') {
+        return;
       }
+      const content = entry.message.content;
+      if (typeof content === 'string') {
+        return;
+      }
+      const time = entry.timestamp ? Date.parse(entry.timestamp) : Number.NaN;
+      const at = Number.isNaN(time) ? undefined : time;
+
+      for (const block of content) {
+        if (block.type === 'tool_use') {
+          const call: ToolExecution = {
+            toolName: block.name,
+            timestamp: at ?? fallbackTimestamp,
+            success: true,
+            toolUseId: block.id,
+          };
+          tools.push(call);
+          pending.set(block.id, { call, startedAt: at });
+        } else if (block.type === 'tool_result') {
+          const match = pending.get(block.tool_use_id);
+          if (!match) continue;
+          pending.delete(block.tool_use_id);
 
-      const jsonlFiles = readdirResult.value.filter((f) =>
-        f.endsWith('.jsonl'),
+          const { call, startedAt } = match;
+          if (startedAt !== undefined && at !== undefined) {
+            call.durationMs = Math.max(0, at - startedAt);
+          }
+          if (block.is_error) {
+            call.success = false;
+            const output = toolResultText(block.content).trim();
+            if (output) {
+              call.error = truncate(output, MAX_TOOL_ERROR_LENGTH);
+            }
+          }
+        }
+      }
+    };
+
+    /** The calls in order, marking those still waiting for a result */
+    const result = (): ToolExecution[] =>
+      tools.map((call) =>
+        call.toolUseId && pending.has(call.toolUseId)
+          ? { ...call, completed: false }
+          : call,
       );
-      if (jsonlFiles.length === 0) {
-        logger.debug('No transcript files found', { transcriptDir });
-        return ok(null);
+
+    return { add, result };
+  };
+
+  /** UUID of the last entry in a list that has one */
+  const lastUuidOf = (entries: TranscriptEntry[]): string | undefined => {
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const entry = entries[i];
+      if (entry && 'uuid' in entry && entry.uuid) {
+        return entry.uuid;
       }
+    }
+    return undefined;
+  };
 
-      // Find the most recently modified transcript file
-      let latestFile: string | null = null;
-      let latestMtime = 0;
+  /**
+   * Says why a base cannot be continued from, or null if it can.
+   */
+  const cursorMismatch = (
+    path: string,
+    base: TranscriptParseBase,
+    size: number,
+    mtime: number,
+  ): string | null => {
+    const { cursor, history } = base;
+    if (cursor.path !== path) {
+      return 'different transcript';
+    }
+    if (size < cursor.size || size < cursor.offset) {
+      return 'transcript was truncated';
+    }
+    if (size === cursor.size && mtime !== cursor.mtime) {
+      return 'transcript was rewritten';
+    }
+    if (lastUuidOf(history.messages) !== cursor.lastUuid) {
+      return 'saved conversation does not match cursor';
+    }
+    return null;
+  };
+
+  const home = env.HOME || env.USERPROFILE || '';
 
-      for (const file of jsonlFiles) {
-        const filePath = `${transcriptDir}/${file}`;
-        const statResult = await fs.stat(filePath);
-        if (statResult.ok) {
-          const mtime = statResult.value.mtime.getTime();
-          if (mtime > latestMtime) {
-            latestMtime = mtime;
-            latestFile = filePath;
+  /**
+   * Read the cwd recorded near the start of a transcript, if any.
+   */
+  const readTranscriptCwd = async (
+    path: string,
+  ): Promise<string | undefined> => {
+    const linesResult = await fs.readLines(path);
+    if (!linesResult.ok) return undefined;
+    let scanned = 0;
+    try {
+      for await (const line of linesResult.value) {
+        if (++scanned > CWD_SCAN_LINES) break;
+        try {
+          const parsed = JSON.parse(line.text) as { cwd?: unknown };
+          if (typeof parsed?.cwd === 'string' && parsed.cwd) {
+            return parsed.cwd;
           }
+        } catch {
+          // Malformed lines are skipped here as when parsing
         }
       }
+    } catch {
+      return undefined;
+    }
+    return undefined;
+  };
+
+  /**
+   * List the session transcripts of one project folder, newest first.
+   */
+  const listFolder = async (
+    root: string,
+    folder: string,
+  ): Promise<Omit<TranscriptCandidate, 'matchedBy' | 'cwd'>[]> => {
+    const dir = `${root}/${folder}`;
+    const readdirResult = await fs.readdir(dir);
+    if (!readdirResult.ok) return [];
+
+    const transcripts: Omit<TranscriptCandidate, 'matchedBy' | 'cwd'>[] = [];
+    for (const file of readdirResult.value) {
+      if (!file.endsWith('.jsonl') || isSubagentTranscript(file)) continue;
+      const statResult = await fs.stat(`${dir}/${file}`);
+      if (!statResult.ok || !statResult.value.isFile) continue;
+      transcripts.push({
+        path: `${dir}/${file}`,
+        root,
+        sessionId: file.replace(/\.jsonl$/, ''),
+        mtime: statResult.value.mtime.getTime(),
+        size: statResult.value.size,
+      });
+    }
+    return transcripts.sort((a, b) => b.mtime - a.mtime);
+  };
+
+  /**
+   * List the transcripts of a project folder if they belong to the project:
+   * by the cwd they record or, without one, by the folder's name.
+   */
+  const matchFolder = async (
+    root: string,
+    folder: string,
+    project: string,
+    encoded: string,
+  ): Promise<TranscriptCandidate[]> => {
+    const transcripts = await listFolder(root, folder);
+    if (transcripts.length === 0) return [];
+
+    // Every transcript of a folder shares the folder's cwd
+    let cwd: string | undefined;
+    for (const transcript of transcripts) {
+      cwd = await readTranscriptCwd(transcript.path);
+      if (cwd) break;
+    }
+    let matchedBy: TranscriptCandidate['matchedBy'] | undefined;
+    if (cwd) {
+      if (normalizeProjectPath(cwd) === project) matchedBy = 'cwd';
+    } else if (folder === encoded) {
+      matchedBy = 'name';
+    }
+    if (!matchedBy) return [];
+
+    return transcripts.map((transcript) => ({
+      ...transcript,
+      ...(cwd && { cwd }),
+      matchedBy,
+    }));
+  };
+
+  const service: TranscriptService = {
+    getTranscriptDir(projectDir) {
+      const [root] = service.getTranscriptRoots();
+      return `${root}/${toClaudeProjectPath(projectDir)}`;
+    },
+
+    getTranscriptRoots() {
+      const roots = [
+        ...(env.CLAUDE_CONFIG_DIR ? [`${env.CLAUDE_CONFIG_DIR}/projects`] : []),
+        `${home}/.claude/projects`,
+        ...transcriptRoots.map((root) => root.replace(/^~(?=\/|$)/, home)),
+      ].map((root) => root.replace(/\/+$/, ''));
+      return Array.from(new Set(roots));
+    },
+
+    async listTranscripts(projectDir) {
+      const project = normalizeProjectPath(projectDir);
+      const encoded = toClaudeProjectPath(projectDir);
+      const candidates: TranscriptCandidate[] = [];
+
+      for (const root of service.getTranscriptRoots()) {
+        // Claude Code names the folder after the project path, so only scan
+        // the whole root when that folder is missing or another project's
+        const named = await matchFolder(root, encoded, project, encoded);
+        if (named.length > 0) {
+          candidates.push(...named);
+          continue;
+        }
+
+        const readdirResult = await fs.readdir(root);
+        if (!readdirResult.ok) {
+          logger.debug('Transcript root not readable', {
+            root,
+            error: readdirResult.error.message,
+          });
+          continue;
+        }
+        for (const folder of readdirResult.value) {
+          if (folder === encoded) continue;
+          candidates.push(
+            ...(await matchFolder(root, folder, project, encoded)),
+          );
+        }
+      }
+
+      candidates.sort((a, b) => b.mtime - a.mtime);
+      logger.debug('Listed transcripts', {
+        projectDir,
+        candidates: candidates.length,
+      });
+      return ok(candidates);
+    },
 
-      if (latestFile) {
-        logger.info('Discovered transcript', { path: latestFile });
+    async discoverTranscriptPath(projectDir) {
+      const listResult = await service.listTranscripts(projectDir);
+      if (!listResult.ok) {
+        return err(listResult.error);
       }
 
-      return ok(latestFile);
+      const latest = listResult.value[0];
+      if (!latest) {
+        logger.debug('No transcript files found', { projectDir });
+        return ok(null);
+      }
+      logger.info('Discovered transcript', {
+        path: latest.path,
+        matchedBy: latest.matchedBy,
+      });
+      return ok(latest.path);
     },
 
     async parseTranscript(path) {
-      logger.debug('Parsing transcript', { path });
-
-      // Check if file exists
-      if (!(await fs.exists(path))) {
-        return err(
-          createError(
-            ErrorCode.TRANSCRIPT_NOT_FOUND,
-            'Transcript file not found',
-            {
-              path,
-            },
-          ),
-        );
+      const parseResult = await service.parseTranscriptIncremental(path);
+      if (!parseResult.ok) {
+        return err(parseResult.error);
       }
+      return ok(parseResult.value.history);
+    },
 
-      // Read file
-      const readResult = await fs.readFile(path);
-      if (!readResult.ok) {
-        return err(
-          createError(
-            ErrorCode.TRANSCRIPT_PARSE_ERROR,
-            'Failed to read transcript',
-            {
-              path,
-              originalError: readResult.error.message,
-            },
-          ),
-        );
+    async streamTranscript(path) {
+      logger.debug('Streaming transcript', { path });
+
+      const linesResult = await fs.readLines(path);
+      if (!linesResult.ok) {
+        return err(openError(path, linesResult.error));
+      }
+      const lines = linesResult.value;
+
+      async function* entries(): AsyncGenerator<TranscriptEntry> {
+        try {
+          for await (const line of lines) {
+            const entry = parseLine(line.text);
+            if (entry) {
+              yield entry;
+            } else if (line.terminated) {
+              warnMalformed(line.text);
+            }
+          }
+        } catch (error) {
+          throw streamError(path, error);
+        }
       }
 
-      const content = readResult.value;
-      const lines = content.split('\n');
-      const messages: TranscriptEntry[] = [];
+      return ok(entries());
+    },
+
+    async parseTranscriptIncremental(path, base) {
+      logger.debug('Parsing transcript', { path, cursor: base?.cursor });
 
-      for (const line of lines) {
-        const entry = parseLine(line);
-        if (entry) {
-          messages.push(entry);
-        } else if (line.trim()) {
-          logger.warn('Skipping malformed transcript line', {
-            line: line.substring(0, 100),
+      const statResult = await fs.stat(path);
+      if (!statResult.ok) {
+        return err(openError(path, statResult.error));
+      }
+      const mtime = statResult.value.mtime.getTime();
+
+      let resumeFrom = base;
+      if (base) {
+        const mismatch = cursorMismatch(
+          path,
+          base,
+          statResult.value.size,
+          mtime,
+        );
+        if (mismatch) {
+          logger.info('Parsing whole transcript', { path, reason: mismatch });
+          resumeFrom = undefined;
+        } else if (
+          statResult.value.size === base.cursor.size &&
+          mtime === base.cursor.mtime
+        ) {
+          return ok({
+            history: base.history,
+            cursor: base.cursor,
+            incremental: true,
           });
         }
       }
 
+      const start = resumeFrom?.cursor.offset ?? 0;
+      const linesResult = await fs.readLines(path, start);
+      if (!linesResult.ok) {
+        return err(openError(path, linesResult.error));
+      }
+
+      // Entries already parsed, which appended lines must not repeat
+      const parsedUuids = new Set(
+        resumeFrom?.history.messages.map((m) =>
+          'uuid' in m ? m.uuid : undefined,
+        ),
+      );
+      const entries: TranscriptEntry[] = [];
+      let consumed = start;
+      let size = start;
+      let rewritten: string | null = null;
+      let skippedLines = resumeFrom?.history.skippedLines ?? 0;
+      try {
+        for await (const line of linesResult.value) {
+          size = line.end;
+          const entry = parseLine(line.text);
+          if (
+            resumeFrom &&
+            consumed === start &&
+            line.terminated &&
+            line.text.trim() &&
+            !entry
+          ) {
+            rewritten = 'cursor is not at a line boundary';
+            break;
+          }
+          if (entry) {
+            if ('uuid' in entry && entry.uuid && parsedUuids.has(entry.uuid)) {
+              rewritten = 'appended entries repeat parsed ones';
+              break;
+            }
+            entries.push(entry);
+          } else if (!line.terminated) {
+            // May still be being written; leave it for the next parse
+            break;
+          } else if (warnMalformed(line.text)) {
+            skippedLines++;
+          }
+          consumed = line.end;
+        }
+      } catch (error) {
+        return err(streamError(path, error));
+      }
+
+      if (resumeFrom && rewritten) {
+        logger.info('Parsing whole transcript', { path, reason: rewritten });
+        return service.parseTranscriptIncremental(path);
+      }
+
+      const messages = resumeFrom
+        ? [...resumeFrom.history.messages, ...entries]
+        : entries;
+      const unknownEntries = messages.filter(
+        (m) => m.type === 'unknown',
+      ).length;
       const history: ConversationHistory = {
         messages,
         messageCount: messages.length,
+        ...(unknownEntries > 0 && { unknownEntries }),
+        ...(skippedLines > 0 && { skippedLines }),
+      };
+      const cursor: TranscriptCursor = {
+        path,
+        offset: consumed,
+        lastUuid: lastUuidOf(messages),
+        size,
+        mtime,
       };
 
       logger.info('Parsed transcript', {
         path,
         messageCount: messages.length,
+        newMessages: entries.length,
+        unknownEntries,
+        skippedLines,
+        incremental: resumeFrom !== undefined,
       });
 
-      return ok(history);
+      return ok({
+        history,
+        cursor,
+        incremental: resumeFrom !== undefined,
+      });
     },
 
-    extractFileReferences(history) {
-      const fileSet = new Set<string>();
+    extractFileReferences(history, ignore) {
+      const collector = createFileActivityCollector(Date.now());
+      for (const entry of history.messages) {
+        collector.add(entry);
+      }
+      return collector.result().filter((file) => !ignore?.isIgnored(file.path));
+    },
 
-      // Pattern to match file paths in backticks
-      // Matches: `path/to/file.ts`, `./relative/file.js`, `/absolute/file.py`
-      const backtickPattern = /`([^`]+\.[a-zA-Z0-9]+)`/g;
+    applyIgnoreRules(history, ignore) {
+      if (ignore.size === 0) {
+        return history;
+      }
 
-      for (const entry of history.messages) {
-        const content = getTranscriptEntryContent(entry);
-        if (!content) continue;
+      const masked = new Set<string>();
+      let maskedCount = 0;
+      const messages = history.messages.map((entry): TranscriptEntry => {
+        if (entry.type !== 'user' && entry.type !== 'assistant') {
+          return entry;
+        }
+        const content = entry.message.content;
+        if (typeof content === 'string') {
+          return entry;
+        }
 
-        let match = backtickPattern.exec(content);
-        while (match) {
-          const filePath = match[1];
-          // Filter out things that don't look like file paths
+        let changed = false;
+        const blocks = content.map((block) => {
+          if (
+            block.type === 'tool_use' &&
+            toolTouchesIgnoredPath(block.name, block.input, ignore)
+          ) {
+            masked.add(block.id);
+            if (
+              (block.input as { ignored?: unknown } | undefined)?.ignored ===
+              true
+            ) {
+              return block;
+            }
+            changed = true;
+            maskedCount++;
+            return { ...block, input: IGNORED_TOOL_INPUT };
+          }
           if (
-            filePath &&
-            (filePath.includes('/') ||
-              (filePath.includes('.') && !filePath.includes(' ')))
+            block.type === 'tool_result' &&
+            masked.has(block.tool_use_id) &&
+            block.content !== IGNORED_TOOL_OUTPUT
           ) {
-            fileSet.add(filePath);
+            changed = true;
+            return { ...block, content: IGNORED_TOOL_OUTPUT };
           }
-          match = backtickPattern.exec(content);
+          return block;
+        });
+        if (!changed) {
+          return entry;
         }
-        // Reset regex lastIndex for next iteration
-        backtickPattern.lastIndex = 0;
-      }
+        return {
+          ...entry,
+          message: { ...entry.message, content: blocks },
+        } as TranscriptEntry;
+      });
 
-      return Array.from(fileSet);
+      if (maskedCount > 0) {
+        logger.info('Masked tool calls on ignored paths', {
+          toolCalls: maskedCount,
+        });
+      }
+      return { ...history, messages };
     },
 
     extractToolCalls(history) {
-      const tools: ToolExecution[] = [];
-      const now = Date.now();
-
+      const collector = createToolCallCollector(Date.now());
       for (const entry of history.messages) {
-        if (entry.type !== 'assistant') {
+        collector.add(entry);
+      }
+      return collector.result();
+    },
+
+    async hashFiles(files, baseDir) {
+      const hashed: FileMetadata[] = [];
+      for (const file of files) {
+        const path = file.path.startsWith('/')
+          ? file.path
+          : `${baseDir}/${file.path.replace(/^\.\//, '')}`;
+        const statResult = await fs.stat(path);
+        if (
+          !statResult.ok ||
+          !statResult.value.isFile ||
+          statResult.value.size > MAX_HASHED_FILE_SIZE
+        ) {
+          hashed.push(file);
           continue;
         }
+        const readResult = await fs.readFileBuffer(path);
+        hashed.push(
+          readResult.ok
+            ? {
+                ...file,
+                contentHash: createHash('sha256')
+                  .update(readResult.value)
+                  .digest('hex'),
+              }
+            : file,
+        );
+      }
+      return hashed;
+    },
+
+    async collectSubagents(history, transcriptPath) {
+      // Task calls of the main conversation, with their results
+      const calls: Parameters<typeof summarizeSubagent>[0][] = [];
+      const callById = new Map<string, (typeof calls)[number]>();
+      const sessionIds = new Set<string>();
+      for (const entry of history.messages) {
+        if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+        if (entry.sessionId) sessionIds.add(entry.sessionId);
+        const content = entry.message.content;
+        if (entry.isSidechain || typeof content === 'string') continue;
+        for (const block of content) {
+          if (block.type === 'tool_use' && SUBAGENT_TOOLS.has(block.name)) {
+            const call = {
+              id: block.id,
+              input: (block.input ?? {}) as Record<string, unknown>,
+            };
+            calls.push(call);
+            callById.set(block.id, call);
+          } else if (block.type === 'tool_result') {
+            const call = callById.get(block.tool_use_id);
+            if (call) call.result = block;
+          }
+        }
+      }
+      if (calls.length === 0) {
+        return ok([]);
+      }
 
-        // Extract tool_use blocks directly from content
-        for (const block of entry.message.content) {
-          if (block.type === 'tool_use') {
-            const toolBlock = block as Extract<
-              ContentBlock,
-              { type: 'tool_use' }
-            >;
-            tools.push({
-              toolName: toolBlock.name,
-              timestamp: now,
-              success: true, // Assume success; could check for tool_result later
-            });
+      const chains = groupSidechains(history.messages);
+      if (transcriptPath) {
+        const dir = transcriptPath.slice(0, transcriptPath.lastIndexOf('/'));
+        const sessionId = (transcriptPath.split('/').pop() ?? '').replace(
+          /\.jsonl$/,
+          '',
+        );
+        sessionIds.add(sessionId);
+        for (const agentDir of [dir, `${dir}/${sessionId}/subagents`]) {
+          const readdirResult = await fs.readdir(agentDir);
+          if (!readdirResult.ok) continue;
+          for (const file of readdirResult.value.filter(isSubagentTranscript)) {
+            const parseResult = await service.parseTranscript(
+              `${agentDir}/${file}`,
+            );
+            if (!parseResult.ok) {
+              logger.warn('Skipping unreadable subagent transcript', {
+                path: `${agentDir}/${file}`,
+                error: parseResult.error.message,
+              });
+              continue;
+            }
+            // Agent files of other sessions share the directory
+            const messages = parseResult.value.messages;
+            const belongs = messages.some(
+              (entry) =>
+                'sessionId' in entry &&
+                entry.sessionId !== undefined &&
+                sessionIds.has(entry.sessionId),
+            );
+            if (belongs) {
+              chains.push(...groupSidechains(messages, true));
+            }
           }
         }
       }
 
-      return tools;
+      // Match by prompt first, then hand out the rest in order
+      const matched = new Map<string, Sidechain>();
+      const unused = new Set(chains);
+      for (const call of calls) {
+        const prompt =
+          typeof call.input.prompt === 'string'
+            ? call.input.prompt.trim()
+            : undefined;
+        const chain = chains.find(
+          (candidate) =>
+            unused.has(candidate) && prompt && candidate.prompt === prompt,
+        );
+        if (chain) {
+          matched.set(call.id, chain);
+          unused.delete(chain);
+        }
+      }
+      const remaining = Array.from(unused);
+      for (const call of calls) {
+        if (!matched.has(call.id) && remaining.length > 0) {
+          matched.set(call.id, remaining.shift() as Sidechain);
+        }
+      }
+
+      const runs = calls.map((call) =>
+        summarizeSubagent(call, matched.get(call.id)),
+      );
+      logger.debug('Collected subagent runs', {
+        runs: runs.length,
+        sidechains: chains.length,
+      });
+      return ok(runs);
     },
 
     async getLatestSummary(path) {
-      const parseResult = await service.parseTranscript(path);
-      if (!parseResult.ok) {
-        return err(parseResult.error);
+      const streamResult = await service.streamTranscript(path);
+      if (!streamResult.ok) {
+        return err(streamResult.error);
       }
 
-      const { messages } = parseResult.value;
       let latestSummary: string | null = null;
-
-      for (const entry of messages) {
-        if (entry.type === 'summary') {
-          latestSummary = entry.summary;
+      try {
+        for await (const entry of streamResult.value) {
+          if (entry.type === 'summary') {
+            latestSummary = entry.summary;
+          }
         }
+      } catch (error) {
+        return err(streamError(path, error));
       }
 
       return ok(latestSummary);
     },
+
+    async countContextTokens(path, counter) {
+      const streamResult = await service.streamTranscript(path);
+      if (!streamResult.ok) {
+        return err(streamResult.error);
+      }
+
+      let tokens = 0;
+      try {
+        for await (const entry of streamResult.value) {
+          // Compaction replaces everything before with its summary, a user
+          // message after the boundary. Summary entries are only titles.
+          if (entry.type === 'system' && entry.subtype === 'compact_boundary') {
+            tokens = 0;
+            continue;
+          }
+          if (entry.type !== 'user' && entry.type !== 'assistant') continue;
+          if (entry.isSidechain) continue;
+          if (entry.type === 'user' && entry.isCompactSummary) {
+            tokens = 0;
+          }
+
+          const content = entry.message.content;
+          if (typeof content === 'string') {
+            tokens += counter.count(content);
+            continue;
+          }
+          for (const block of content) {
+            if (block.type === 'text') {
+              tokens += counter.count(block.text);
+            } else if (block.type === 'tool_use') {
+              tokens += counter.count(
+                `${block.name}${JSON.stringify(block.input ?? {})}`,
+              );
+            } else if (block.type === 'tool_result') {
+              tokens += counter.count(toolResultText(block.content));
+            }
+          }
+        }
+      } catch (error) {
+        return err(streamError(path, error));
+      }
+
+      return ok(tokens);
+    },
   };
 
   return service;
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   createAssistantEntry,
+  createCompactionEntries,
   createProgressEntry,
   createSummaryEntry,
   createTextBlock,
@@ -52,6 +53,16 @@ describe('transcript-factory', () => {
     });
   });
 
+  describe('createCompactionEntries', () => {
+    it('creates a boundary followed by the summary message', () => {
+      const [boundary, summary] = createCompactionEntries('Earlier work');
+
+      expect(boundary.subtype).toBe('compact_boundary');
+      expect(summary.message.content).toBe('Earlier work');
+      expect(summary.isCompactSummary).toBe(true);
+    });
+  });
+
   describe('createProgressEntry', () => {
     it('creates a progress type entry', () => {
       const entry = createProgressEntry({ hookEvent: 'SessionStart' });
@@ -5,6 +5,7 @@
 export interface SummaryEntry {
   type: 'summary';
   summary: string;
+  leafUuid?: string;
 }
 
 export interface ContentBlockText {
@@ -36,17 +37,35 @@ export interface AssistantEntry {
     content: ContentBlock[];
   };
   uuid?: string;
+  parentUuid?: string | null;
+  sessionId?: string;
   timestamp?: string;
 }
 
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: unknown;
+  is_error?: boolean;
+}
+
 export interface UserEntry {
   type: 'user';
   message: {
     role: 'user';
-    content: string;
+    content: string | ToolResultBlock[];
   };
   uuid?: string;
+  parentUuid?: string | null;
+  sessionId?: string;
   timestamp?: string;
+  isCompactSummary?: boolean;
+}
+
+export interface SystemEntry {
+  type: 'system';
+  subtype?: string;
+  content?: string;
 }
 
 export interface ProgressEntry {
@@ -63,19 +82,25 @@ export type TranscriptEntry =
   | SummaryEntry
   | AssistantEntry
   | UserEntry
+  | SystemEntry
   | ProgressEntry
   | FileHistorySnapshotEntry;
 
 /**
  * Creates a summary entry for a transcript.
- * Summary entries are created during compaction.
+ * Summary entries title the session as of the message they point at.
  *
  * @param summary - The summary text
+ * @param leafUuid - Optional last message UUID the summary covers
  * @returns A summary entry object
  */
-export const createSummaryEntry = (summary: string): SummaryEntry => ({
+export const createSummaryEntry = (
+  summary: string,
+  leafUuid?: string,
+): SummaryEntry => ({
   type: 'summary',
   summary,
+  ...(leafUuid && { leafUuid }),
 });
 
 /**
@@ -121,17 +146,27 @@ export const createToolUseBlock = (
   input,
 });
 
+/**
+ * Optional identifying fields of user and assistant entries.
+ */
+export interface EntryOptions {
+  uuid?: string;
+  parentUuid?: string;
+  sessionId?: string;
+  timestamp?: string;
+}
+
 /**
  * Creates an assistant entry for a transcript.
  * These are the main conversation messages.
  *
  * @param content - The assistant message content (string or content blocks)
- * @param options - Optional uuid and timestamp
+ * @param options - Optional uuid, parentUuid, sessionId and timestamp
  * @returns An assistant entry object
  */
 export const createAssistantEntry = (
   content: string | ContentBlock[],
-  options: { uuid?: string; timestamp?: string } = {},
+  options: EntryOptions = {},
 ): AssistantEntry => ({
   type: 'assistant',
   message: {
@@ -139,6 +174,8 @@ export const createAssistantEntry = (
     content: typeof content === 'string' ? [createTextBlock(content)] : content,
   },
   ...(options.uuid && { uuid: options.uuid }),
+  ...(options.parentUuid && { parentUuid: options.parentUuid }),
+  ...(options.sessionId && { sessionId: options.sessionId }),
   ...(options.timestamp && { timestamp: options.timestamp }),
 });
 
@@ -147,12 +184,12 @@ export const createAssistantEntry = (
  * These are user messages in the conversation.
  *
  * @param content - The user message content
- * @param options - Optional uuid and timestamp
+ * @param options - Optional uuid, parentUuid, sessionId and timestamp
  * @returns A user entry object
  */
 export const createUserEntry = (
   content: string,
-  options: { uuid?: string; timestamp?: string } = {},
+  options: EntryOptions = {},
 ): UserEntry => ({
   type: 'user',
   message: {
@@ -160,9 +197,59 @@ export const createUserEntry = (
     content,
   },
   ...(options.uuid && { uuid: options.uuid }),
+  ...(options.parentUuid && { parentUuid: options.parentUuid }),
+  ...(options.sessionId && { sessionId: options.sessionId }),
   ...(options.timestamp && { timestamp: options.timestamp }),
 });
 
+/**
+ * Creates a user entry carrying the result of a tool call.
+ *
+ * @param toolUseId - ID of the tool_use block being answered
+ * @param content - The tool output
+ * @param options - Optional isError flag, uuid, parentUuid, sessionId and timestamp
+ * @returns A user entry with a single tool_result block
+ */
+export const createToolResultEntry = (
+  toolUseId: string,
+  content: unknown,
+  options: EntryOptions & { isError?: boolean } = {},
+): UserEntry => {
+  const { isError, ...entryOptions } = options;
+  return {
+    ...createUserEntry('', entryOptions),
+    message: {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: toolUseId,
+          content,
+          ...(isError !== undefined && { is_error: isError }),
+        },
+      ],
+    },
+  };
+};
+
+/**
+ * Creates the entries a compaction leaves in a transcript: a boundary
+ * marker, then a user message holding the summary of everything before.
+ *
+ * @param summary - The compaction summary
+ * @returns The boundary and summary entries
+ */
+export const createCompactionEntries = (
+  summary: string,
+): [SystemEntry, UserEntry] => [
+  {
+    type: 'system',
+    subtype: 'compact_boundary',
+    content: 'Conversation compacted',
+  },
+  { ...createUserEntry(summary), isCompactSummary: true },
+];
+
 /**
  * Creates a progress entry for a transcript.
  * These track hook execution and tool progress.
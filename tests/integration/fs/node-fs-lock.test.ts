@@ -0,0 +1,160 @@
+import type { Stats } from 'node:fs';
+import { mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { hostname, tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createNodeFs } from '../../../src/adapters/fs/node-fs.js';
+import { isOk } from '../../../src/infrastructure/result.js';
+
+// Lets a test pause the first stat of a path until a condition holds, to
+// line up contenders deterministically, and stall whoever moves a path
+const statGate = vi.hoisted(() => ({
+  path: undefined as string | undefined,
+  until: undefined as (() => Promise<boolean>) | undefined,
+  renameDelayMs: 0,
+}));
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  const stat = async (target: string): Promise<Stats> => {
+    const stats = await actual.stat(target);
+    const until = statGate.until;
+    if (target === statGate.path && until) {
+      statGate.until = undefined;
+      while (!(await until())) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    }
+    return stats;
+  };
+  const rename = async (from: string, to: string): Promise<void> => {
+    await actual.rename(from, to);
+    if (from === statGate.path && statGate.renameDelayMs > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, statGate.renameDelayMs),
+      );
+    }
+  };
+  return {
+    ...actual,
+    stat,
+    rename,
+    default: { ...actual, stat, rename },
+  };
+});
+
+describe('NodeFs lock', () => {
+  const fs = createNodeFs();
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'ben-ten-lock-'));
+    lockPath = path.join(dir, 'context.lock');
+    holders = 0;
+    maxHolders = 0;
+  });
+
+  afterEach(async () => {
+    statGate.until = undefined;
+    statGate.renameDelayMs = 0;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  let holders: number;
+  let maxHolders: number;
+
+  const writeStaleLock = async () => {
+    await writeFile(
+      lockPath,
+      JSON.stringify({
+        pid: process.pid,
+        hostname: hostname(),
+        token: 'abandoned',
+        acquiredAt: 0,
+      }),
+    );
+    const past = new Date(Date.now() - 60_000);
+    await utimes(lockPath, past, past);
+  };
+
+  const contend = async (holdMs = 50) => {
+    const result = await fs.lock(lockPath, {
+      timeoutMs: 2000,
+      staleMs: 1000,
+    });
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) {
+      return;
+    }
+    holders++;
+    maxHolders = Math.max(maxHolders, holders);
+    await new Promise((resolve) => setTimeout(resolve, holdMs));
+    holders--;
+    await result.value.release();
+  };
+
+  it('gives a stale lock to only one of two contenders', async () => {
+    await writeStaleLock();
+
+    // The first contender judges the lock stale, then stalls until the
+    // second has taken it over
+    statGate.path = lockPath;
+    statGate.until = async () => {
+      const current = await readFile(lockPath, 'utf-8').catch(() => '');
+      return current !== '' && !current.includes('abandoned');
+    };
+
+    await Promise.all([contend(), contend()]);
+
+    expect(maxHolders).toBe(1);
+    await expect(readFile(lockPath, 'utf-8')).rejects.toThrow();
+  });
+
+  it('gives a stale lock to only one of three contenders', async () => {
+    await writeStaleLock();
+
+    // The first contender judges the lock stale, then stalls until another
+    // holds a fresh lock. Moving that live lock aside, even briefly, would
+    // let the third create one too
+    statGate.path = lockPath;
+    statGate.until = async () => {
+      const current = await readFile(lockPath, 'utf-8').catch(() => '');
+      return current !== '' && !current.includes('abandoned');
+    };
+    statGate.renameDelayMs = 150;
+
+    await Promise.all([contend(200), contend(200), contend(200)]);
+
+    expect(maxHolders).toBe(1);
+    await expect(readFile(lockPath, 'utf-8')).rejects.toThrow();
+    await expect(readFile(`${lockPath}.takeover`)).rejects.toThrow();
+  });
+
+  it('ignores a takeover claim left by a crashed waiter', async () => {
+    await writeStaleLock();
+    await writeFile(`${lockPath}.takeover`, 'crashed');
+    const past = new Date(Date.now() - 60_000);
+    await utimes(`${lockPath}.takeover`, past, past);
+
+    const result = await fs.lock(lockPath, { timeoutMs: 2000, staleMs: 1000 });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      await result.value.release();
+    }
+  });
+
+  it('keeps a held lock fresh so it is not taken over', async () => {
+    const first = await fs.lock(lockPath, { staleMs: 150 });
+    expect(isOk(first)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    const second = await fs.lock(lockPath, { timeoutMs: 0, staleMs: 150 });
+
+    expect(isOk(second)).toBe(false);
+    if (isOk(first)) {
+      await first.value.release();
+    }
+  });
+});
@@ -1,6 +1,10 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import type { FileSystem } from '../../../src/adapters/fs/memory-fs.js';
-import type { ContextData, ContextMetadata } from '../../../src/core/types.js';
+import {
+  CONTEXT_VERSION,
+  type ContextData,
+  type ContextMetadata,
+} from '../../../src/core/types.js';
 import type { Logger } from '../../../src/infrastructure/logger.js';
 import { isOk } from '../../../src/infrastructure/result.js';
 import {
@@ -361,7 +365,7 @@ Line 3 with conclusion`;
       );
     });
 
-    it('saves v2.0.0 context with conversation history from transcript', async () => {
+    it('saves current-version context with conversation history from transcript', async () => {
       // Create a transcript file with tool_use blocks
       const transcript = createTranscript([
         createUserEntry('Hello, can you help me?'),
@@ -386,7 +390,7 @@ Line 3 with conclusion`;
       expect(isOk(loadResult)).toBe(true);
       if (isOk(loadResult)) {
         const ctx = loadResult.value as ContextData;
-        expect(ctx.version).toBe('2.0.0');
+        expect(ctx.version).toBe(CONTEXT_VERSION);
         expect(ctx.summary).toBe('User asked for help with index.ts');
 
         // Verify conversation was parsed
@@ -404,7 +408,7 @@ Line 3 with conclusion`;
       }
     });
 
-    it('saves v2.0.0 even without transcript', async () => {
+    it('saves current-version context even without transcript', async () => {
       // No transcript file exists
       const result = await server.callTool('ben_ten_save', {
         sessionId: 'no-transcript-test',
@@ -418,7 +422,7 @@ Line 3 with conclusion`;
       expect(isOk(loadResult)).toBe(true);
       if (isOk(loadResult)) {
         const ctx = loadResult.value as ContextData;
-        expect(ctx.version).toBe('2.0.0');
+        expect(ctx.version).toBe(CONTEXT_VERSION);
         expect(ctx.summary).toBe('Context without transcript');
         expect(ctx.keyFiles).toEqual(['src/main.ts']);
         // No conversation since transcript doesn't exist
@@ -477,5 +481,85 @@ Line 3 with conclusion`;
         expect(ctx.conversation?.messages).toHaveLength(2);
       }
     });
+
+    it('resumes parsing from the transcript cursor on the next save', async () => {
+      const first = createTranscript([
+        createUserEntry('First question', { uuid: 'uuid-1' }),
+        createAssistantEntry('First answer', { uuid: 'uuid-2' }),
+      ]);
+      await setupTranscriptFile(fs, transcriptPath, first);
+      await server.callTool('ben_ten_save', {
+        sessionId: 'cursor-test',
+        summary: 'First save',
+      });
+
+      const metadataPath = `${projectDir}/${BEN10_DIR}/${METADATA_FILE}`;
+      const readMetadata = async (): Promise<ContextMetadata> => {
+        const readResult = await fs.readFile(metadataPath);
+        return isOk(readResult) ? JSON.parse(readResult.value) : undefined;
+      };
+      const cursor = (await readMetadata()).transcriptCursor;
+      expect(cursor?.path).toBe(transcriptPath);
+      expect(cursor?.lastUuid).toBe('uuid-2');
+
+      const appended = createTranscript([
+        createUserEntry('Second question', { uuid: 'uuid-3' }),
+      ]);
+      await setupTranscriptFile(fs, transcriptPath, `${first}\n${appended}`);
+      await server.callTool('ben_ten_save', {
+        sessionId: 'cursor-test',
+        summary: 'Second save',
+      });
+
+      const loadResult = await server.callTool('ben_ten_load', {});
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        const ctx = loadResult.value as ContextData;
+        expect(ctx.conversation?.messageCount).toBe(3);
+      }
+      const next = (await readMetadata()).transcriptCursor;
+      expect(next?.offset).toBeGreaterThan(cursor?.offset ?? 0);
+      expect(next?.lastUuid).toBe('uuid-3');
+    });
+
+    it('stitches earlier transcripts of a resumed session when asked', async () => {
+      await setupTranscriptFile(
+        fs,
+        '/home/user/.claude/original.jsonl',
+        createTranscript([
+          createUserEntry('Before the resume', {
+            uuid: 'uuid-1',
+            timestamp: '2026-01-01T00:00:00.000Z',
+          }),
+        ]),
+      );
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        createTranscript([
+          createUserEntry('After the resume', {
+            uuid: 'uuid-2',
+            parentUuid: 'uuid-1',
+            timestamp: '2026-01-01T01:00:00.000Z',
+          }),
+        ]),
+      );
+
+      await server.callTool('ben_ten_save', {
+        sessionId: 'stitch-test',
+        summary: 'Stitched',
+        stitchSessions: true,
+      });
+
+      const loadResult = await server.callTool('ben_ten_load', {});
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        const ctx = loadResult.value as ContextData;
+        expect(ctx.conversation?.messages).toHaveLength(2);
+        expect(ctx.conversation?.messages[0]).toMatchObject({
+          uuid: 'uuid-1',
+        });
+      }
+    });
   });
 });
@@ -282,6 +282,58 @@ describe('MemoryFs', () => {
     });
   });
 
+  describe('readFileRange', () => {
+    it('reads from a byte offset to the end of the file', async () => {
+      await fs.writeFile('/test.txt', 'héllo world');
+
+      const result = await fs.readFileRange('/test.txt', 7);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.toString()).toBe('world');
+      }
+    });
+
+    it('returns an empty buffer past the end of the file', async () => {
+      await fs.writeFileBuffer('/test.bin', Buffer.from('abc'));
+
+      const result = await fs.readFileRange('/test.bin', 10);
+
+      expect(isOk(result) && result.value.length).toBe(0);
+    });
+  });
+
+  describe('readLines', () => {
+    const collect = async (path: string, start?: number) => {
+      const result = await fs.readLines(path, start);
+      if (!isOk(result)) throw new Error('readLines failed');
+      const lines = [];
+      for await (const line of result.value) {
+        lines.push(line);
+      }
+      return lines;
+    };
+
+    it('yields lines with the byte offset after each one', async () => {
+      await fs.writeFile('/log.jsonl', 'ä\n\nlast');
+
+      expect(await collect('/log.jsonl')).toEqual([
+        { text: 'ä', end: 3, terminated: true },
+        { text: '', end: 4, terminated: true },
+        { text: 'last', end: 8, terminated: false },
+      ]);
+      expect(await collect('/log.jsonl', 4)).toEqual([
+        { text: 'last', end: 8, terminated: false },
+      ]);
+    });
+
+    it('returns an error for a missing file', async () => {
+      const result = await fs.readLines('/missing.jsonl');
+
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
   describe('writeFileBuffer', () => {
     it('writes Buffer content to file', async () => {
       const buffer = Buffer.from([0x00, 0x01, 0x02, 0xff]);
@@ -345,4 +397,107 @@ describe('MemoryFs', () => {
       }
     });
   });
+
+  describe('rename', () => {
+    it('moves a file to the new path', async () => {
+      await fs.writeFile('/a.txt', 'content');
+
+      const result = await fs.rename('/a.txt', '/dir/b.txt');
+
+      expect(isOk(result)).toBe(true);
+      expect(await fs.exists('/a.txt')).toBe(false);
+      const readResult = await fs.readFile('/dir/b.txt');
+      if (isOk(readResult)) {
+        expect(readResult.value).toBe('content');
+      }
+    });
+
+    it('replaces an existing target', async () => {
+      await fs.writeFile('/a.txt', 'new');
+      await fs.writeFile('/b.txt', 'old');
+
+      await fs.rename('/a.txt', '/b.txt');
+
+      const readResult = await fs.readFile('/b.txt');
+      if (isOk(readResult)) {
+        expect(readResult.value).toBe('new');
+      }
+    });
+
+    it('moves directory contents', async () => {
+      await fs.writeFile('/src/nested/file.txt', 'content');
+
+      await fs.rename('/src', '/dest');
+
+      expect(await fs.exists('/dest/nested/file.txt')).toBe(true);
+      expect(await fs.exists('/src/nested/file.txt')).toBe(false);
+    });
+
+    it('returns FS_NOT_FOUND for missing source', async () => {
+      const result = await fs.rename('/missing.txt', '/b.txt');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.FS_NOT_FOUND);
+      }
+    });
+  });
+
+  describe('lock', () => {
+    it('creates the lock file while held and removes it on release', async () => {
+      const result = await fs.lock('/project/.lock');
+
+      expect(isOk(result)).toBe(true);
+      expect(await fs.exists('/project/.lock')).toBe(true);
+
+      if (isOk(result)) {
+        await result.value.release();
+      }
+      expect(await fs.exists('/project/.lock')).toBe(false);
+    });
+
+    it('returns CONTEXT_LOCKED when the lock stays held', async () => {
+      await fs.lock('/project/.lock');
+
+      const result = await fs.lock('/project/.lock', { timeoutMs: 0 });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CONTEXT_LOCKED);
+      }
+    });
+
+    it('waits for the holder to release', async () => {
+      const first = await fs.lock('/project/.lock');
+      expect(isOk(first)).toBe(true);
+      if (!isOk(first)) return;
+
+      const second = fs.lock('/project/.lock', { timeoutMs: 1000 });
+      await first.value.release();
+
+      expect(isOk(await second)).toBe(true);
+    });
+
+    it('takes over a stale lock', async () => {
+      await fs.lock('/project/.lock');
+
+      const result = await fs.lock('/project/.lock', {
+        timeoutMs: 0,
+        staleMs: -1,
+      });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('does not remove a lock taken over by another holder', async () => {
+      const first = await fs.lock('/project/.lock');
+      await fs.lock('/project/.lock', { staleMs: -1 });
+
+      if (isOk(first)) {
+        await first.value.release();
+      }
+
+      expect(await fs.exists('/project/.lock')).toBe(true);
+    });
+  });
 });
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import {
+  CONTEXT_MIGRATIONS,
   CONTEXT_VERSION,
+  CONTEXT_VERSIONS,
   type ContextData,
   ContextDataSchema,
   type ContextMetadata,
@@ -14,6 +16,8 @@ import {
   type ToolExecution,
   ToolExecutionSchema,
   TranscriptEntrySchema,
+  compareVersions,
+  downgradeContextData,
   migrateContextData,
   parseContextData,
   parseHookInput,
@@ -528,7 +532,7 @@ describe('Core Types', () => {
       }
     });
 
-    it('passes through v2.0.0 context unchanged', () => {
+    it('migrates v2.0.0 context to the current version keeping its conversation', () => {
       const v2Data: ContextData = {
         version: '2.0.0',
         createdAt: 1000,
@@ -547,11 +551,57 @@ describe('Core Types', () => {
 
       expect(isOk(result)).toBe(true);
       if (isOk(result)) {
-        expect(result.value.version).toBe('2.0.0');
+        expect(result.value.version).toBe(CONTEXT_VERSION);
         expect(result.value.conversation?.messages).toHaveLength(1);
       }
     });
 
+    it('passes through current-version context unchanged', () => {
+      const current: ContextData = {
+        version: CONTEXT_VERSION,
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'session-123',
+        summary: 'Current context',
+        conversationReplay: '## Replay',
+      };
+
+      const result = migrateContextData(current);
+
+      expect(isOk(result) && result.value).toEqual(current);
+    });
+
+    it('returns CONTEXT_VERSION_MISMATCH for newer versions', () => {
+      const result = migrateContextData({
+        version: '99.0.0',
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'future',
+        summary: 'From the future',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('CONTEXT_VERSION_MISMATCH');
+        expect(result.error.message).toContain('99.0.0');
+      }
+    });
+
+    it('returns CONTEXT_VERSION_MISMATCH for unknown older versions', () => {
+      const result = migrateContextData({
+        version: '1.5.0',
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'unknown',
+        summary: 'Unknown version',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('CONTEXT_VERSION_MISMATCH');
+      }
+    });
+
     it('returns error for invalid context data', () => {
       const invalid = { garbage: true };
 
@@ -564,9 +614,219 @@ describe('Core Types', () => {
     });
   });
 
+  describe('downgradeContextData', () => {
+    const current: ContextData = {
+      version: CONTEXT_VERSION,
+      createdAt: 1000,
+      updatedAt: 2000,
+      sessionId: 'session-123',
+      summary: 'Current context',
+      keyFiles: ['src/index.ts'],
+      conversation: { messages: [], messageCount: 0 },
+      toolHistory: [{ toolName: 'Read', timestamp: 1, success: true }],
+      conversationReplay: '## Replay',
+      replayMetadata: {
+        tokenCount: 10,
+        stoppingPointType: 'git_commit',
+        messageCount: 2,
+        generatedAt: 3000,
+      },
+    };
+
+    it('drops each field added after v2.2.0 when writing the version before it', () => {
+      const rich: ContextData = {
+        ...current,
+        conversation: {
+          messages: [
+            {
+              type: 'user',
+              message: { role: 'user', content: 'Summary' },
+              isCompactSummary: true,
+            },
+          ],
+          messageCount: 1,
+          subagents: [
+            {
+              toolUseId: 't1',
+              status: 'completed',
+              messageCount: 2,
+              toolCallCount: 1,
+            },
+          ],
+        },
+        files: [
+          {
+            path: 'src/index.ts',
+            lastAccessed: 2,
+            accessCount: 2,
+            firstAccessed: 1,
+            readCount: 1,
+            editCount: 1,
+            writeCount: 0,
+          },
+        ],
+        toolHistory: [
+          {
+            toolName: 'Read',
+            timestamp: 1,
+            success: false,
+            toolUseId: 't2',
+            error: 'ENOENT',
+            completed: true,
+          },
+        ],
+        replayMetadata: {
+          tokenCount: 10,
+          stoppingPointType: null,
+          messageCount: 1,
+          generatedAt: 3000,
+          tokenizer: 'bpe',
+          heuristicTokenCount: 12,
+          digestCount: 2,
+        },
+      };
+      const downgrade = (target: string) => {
+        const result = downgradeContextData(rich, target);
+        if (!isOk(result)) throw new Error(result.error.message);
+        return result.value;
+      };
+
+      expect(downgrade('2.6.0').replayMetadata).not.toHaveProperty(
+        'digestCount',
+      );
+      const v2_5 = downgrade('2.5.0');
+      expect(v2_5.replayMetadata).toEqual({
+        tokenCount: 10,
+        stoppingPointType: null,
+        messageCount: 1,
+        generatedAt: 3000,
+      });
+      expect(v2_5.conversation?.messages[0]).not.toHaveProperty(
+        'isCompactSummary',
+      );
+      expect(downgrade('2.4.0').conversation).not.toHaveProperty('subagents');
+      expect(downgrade('2.3.0').files).toEqual([
+        { path: 'src/index.ts', lastAccessed: 2, accessCount: 2 },
+      ]);
+      expect(downgrade('2.2.0').toolHistory).toEqual([
+        { toolName: 'Read', timestamp: 1, success: false },
+      ]);
+    });
+
+    it('downgrades v2.2.0 to v2.1.0 by dropping entries and blocks it cannot read', () => {
+      const result = downgradeContextData(
+        {
+          ...current,
+          conversation: {
+            messages: [
+              { type: 'system', content: 'Compacted' },
+              {
+                type: 'user',
+                message: {
+                  role: 'user',
+                  content: [
+                    { type: 'text', text: 'Look' },
+                    { type: 'image', source: {} },
+                  ],
+                },
+              },
+              {
+                type: 'assistant',
+                message: {
+                  role: 'assistant',
+                  content: [
+                    { type: 'text', text: 'Seen' },
+                    { type: 'unknown', raw: { type: 'new_block' } },
+                  ],
+                },
+              },
+              { type: 'unknown', raw: { type: 'new_entry' } },
+            ],
+            messageCount: 4,
+            unknownEntries: 1,
+          },
+        },
+        '2.1.0',
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.version).toBe('2.1.0');
+        expect(result.value.conversation).toEqual({
+          messages: [
+            { type: 'user', message: { role: 'user', content: 'Look' } },
+            {
+              type: 'assistant',
+              message: {
+                role: 'assistant',
+                content: [{ type: 'text', text: 'Seen' }],
+              },
+            },
+          ],
+          messageCount: 2,
+        });
+      }
+    });
+
+    it('downgrades v2.1.0 to v2.0.0 by dropping the replay', () => {
+      const result = downgradeContextData(current, '2.0.0');
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.version).toBe('2.0.0');
+        expect(result.value.conversationReplay).toBeUndefined();
+        expect(result.value.replayMetadata).toBeUndefined();
+        expect(result.value.conversation).toEqual(current.conversation);
+      }
+    });
+
+    it('downgrades v2.0.0 to v1.0.0 by dropping session history', () => {
+      const result = downgradeContextData(current, '1.0.0');
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual({
+          version: '1.0.0',
+          createdAt: 1000,
+          updatedAt: 2000,
+          sessionId: 'session-123',
+          summary: 'Current context',
+          keyFiles: ['src/index.ts'],
+        });
+      }
+    });
+
+    it('returns CONTEXT_VERSION_MISMATCH for unknown target versions', () => {
+      const result = downgradeContextData(current, '3.0.0');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe('CONTEXT_VERSION_MISMATCH');
+      }
+    });
+  });
+
   describe('CONTEXT_VERSION', () => {
-    it('is set to 2.0.0', () => {
-      expect(CONTEXT_VERSION).toBe('2.0.0');
+    it('is set to 2.7.0', () => {
+      expect(CONTEXT_VERSION).toBe('2.7.0');
+    });
+
+    it('is produced by the last migration step', () => {
+      expect(CONTEXT_MIGRATIONS.at(-1)?.to).toBe(CONTEXT_VERSION);
+      for (const [i, migration] of CONTEXT_MIGRATIONS.entries()) {
+        expect(migration.to).toBe(CONTEXT_VERSIONS[i + 1]);
+        expect(compareVersions(migration.to, migration.from)).toBeGreaterThan(
+          0,
+        );
+      }
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('compares numerically, not lexically', () => {
+      expect(compareVersions('2.10.0', '2.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('1.0.0', '2.0.0')).toBeLessThan(0);
+      expect(compareVersions('2.1', '2.1.0')).toBe(0);
     });
   });
 });
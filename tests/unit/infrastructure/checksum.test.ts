@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 } from '../../../src/infrastructure/checksum.js';
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('detects a single flipped bit', () => {
+    const data = Buffer.from('ben-ten context payload');
+    const flipped = Buffer.from(data);
+    flipped[3] = (flipped[3] as number) ^ 0x01;
+
+    expect(crc32(flipped)).not.toBe(crc32(data));
+  });
+});
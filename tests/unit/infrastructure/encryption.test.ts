@@ -0,0 +1,85 @@
+import { randomBytes } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  ENCRYPTION_KEY_SIZE,
+  decrypt,
+  encrypt,
+} from '../../../src/infrastructure/encryption.js';
+import { ErrorCode } from '../../../src/infrastructure/errors.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+
+describe('encryption', () => {
+  const key = randomBytes(ENCRYPTION_KEY_SIZE);
+  const plaintext = Buffer.from('secret conversation content');
+
+  it('round-trips data', () => {
+    const encrypted = encrypt(plaintext, key);
+    expect(isOk(encrypted)).toBe(true);
+    if (!isOk(encrypted)) return;
+
+    const decrypted = decrypt(encrypted.value, key);
+
+    expect(isOk(decrypted)).toBe(true);
+    if (isOk(decrypted)) {
+      expect(decrypted.value.equals(plaintext)).toBe(true);
+    }
+  });
+
+  it('does not leave plaintext in the output', () => {
+    const encrypted = encrypt(plaintext, key);
+
+    expect(isOk(encrypted)).toBe(true);
+    if (isOk(encrypted)) {
+      expect(encrypted.value.includes(plaintext)).toBe(false);
+    }
+  });
+
+  it('uses a fresh nonce for every call', () => {
+    const first = encrypt(plaintext, key);
+    const second = encrypt(plaintext, key);
+
+    expect(isOk(first) && isOk(second)).toBe(true);
+    if (isOk(first) && isOk(second)) {
+      expect(first.value.equals(second.value)).toBe(false);
+    }
+  });
+
+  it('returns DECRYPTION_FAILED for the wrong key', () => {
+    const encrypted = encrypt(plaintext, key);
+    expect(isOk(encrypted)).toBe(true);
+    if (!isOk(encrypted)) return;
+
+    const result = decrypt(encrypted.value, randomBytes(ENCRYPTION_KEY_SIZE));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe(ErrorCode.DECRYPTION_FAILED);
+    }
+  });
+
+  it('returns DECRYPTION_FAILED for tampered data', () => {
+    const encrypted = encrypt(plaintext, key);
+    expect(isOk(encrypted)).toBe(true);
+    if (!isOk(encrypted)) return;
+
+    const tampered = Buffer.from(encrypted.value);
+    const last = tampered.length - 1;
+    tampered[last] = (tampered[last] as number) ^ 0x01;
+
+    const result = decrypt(tampered, key);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe(ErrorCode.DECRYPTION_FAILED);
+    }
+  });
+
+  it('returns ENCRYPTION_KEY_INVALID for a short key', () => {
+    const result = encrypt(plaintext, randomBytes(16));
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_INVALID);
+    }
+  });
+});
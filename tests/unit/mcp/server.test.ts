@@ -15,6 +15,13 @@ import {
   CONTEXT_FILE,
   CONTEXT_FILE_LEGACY,
 } from '../../../src/services/context-service.js';
+import { setupTranscriptFile } from '../../fixtures/test-helpers.js';
+import {
+  createAssistantEntry,
+  createToolResultEntry,
+  createToolUseBlock,
+  createTranscript,
+} from '../../fixtures/transcript-factory.js';
 
 describe('BenTenServer', () => {
   let fs: FileSystem;
@@ -37,6 +44,16 @@ describe('BenTenServer', () => {
   });
 
   describe('listTools', () => {
+    it('includes ben_ten_tool_history tool', () => {
+      const tools = server.listTools();
+
+      expect(tools).toContainEqual(
+        expect.objectContaining({
+          name: 'ben_ten_tool_history',
+        }),
+      );
+    });
+
     it('includes ben_ten_status tool', () => {
       const tools = server.listTools();
 
@@ -110,6 +127,12 @@ describe('BenTenServer', () => {
         expect(result.value.hasContext).toBe(true);
         expect(result.value.sessionId).toBe('test-session');
         expect(result.value.summaryLength).toBe(contextData.summary.length);
+        expect(result.value.tokenizer).toBe('bpe');
+        expect(result.value.tokens).toEqual({
+          tokens: 5,
+          heuristicTokens: 6,
+          deviation: -1 / 6,
+        });
       }
     });
   });
@@ -159,6 +182,70 @@ describe('BenTenServer', () => {
         expect(loadResult.value.sessionId).toBe('updated-session');
       }
     });
+
+    it('keeps paths in .ben-ten/ignore out of the saved context', async () => {
+      await fs.mkdir(`${projectDir}/${BEN10_DIR}`, { recursive: true });
+      await fs.writeFile(`${projectDir}/${BEN10_DIR}/ignore`, 'customers/\n');
+      const transcriptPath = '/transcripts/ignored.jsonl';
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        createTranscript([
+          createAssistantEntry([
+            createToolUseBlock(
+              'Read',
+              { file_path: 'customers/acme.csv' },
+              't1',
+            ),
+            createToolUseBlock('Read', { file_path: 'src/app.ts' }, 't2'),
+          ]),
+          createToolResultEntry('t1', 'acme,contact@acme.example'),
+        ]),
+      );
+
+      await server.callTool('ben_ten_save', {
+        sessionId: 'ignore-session',
+        summary: 'Looked at customers',
+        keyFiles: ['customers/acme.csv', 'src/app.ts'],
+        transcriptPath,
+      });
+
+      const loadResult = await server.callTool('ben_ten_load', {});
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        const context = loadResult.value as ContextData;
+        expect(JSON.stringify(context)).not.toContain('acme');
+        expect(context.keyFiles).toEqual(['src/app.ts']);
+        expect(context.files?.map((f) => f.path)).toEqual(['src/app.ts']);
+      }
+    });
+
+    it('redacts secrets from the transcript before saving', async () => {
+      const transcriptPath = '/transcripts/secrets.jsonl';
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        createTranscript([
+          createToolResultEntry('t1', 'OPENAI_API_KEY=sk-live-value-123'),
+        ]),
+      );
+
+      const result = await server.callTool('ben_ten_save', {
+        sessionId: 'secret-session',
+        summary: 'Set up the API key',
+        transcriptPath,
+      });
+
+      expect(isOk(result) && result.value.redactions).toEqual({
+        total: 1,
+        byDetector: { env_secret: 1 },
+      });
+      const loadResult = await server.callTool('ben_ten_load', {});
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(JSON.stringify(loadResult.value)).not.toContain('sk-live');
+      }
+    });
   });
 
   describe('callTool - ben_ten_load', () => {
@@ -237,6 +324,117 @@ describe('BenTenServer', () => {
     });
   });
 
+  describe('callTool - ben_ten_history', () => {
+    it('returns empty history when nothing was saved', async () => {
+      const result = await server.callTool('ben_ten_history', {});
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.snapshots).toEqual([]);
+      }
+    });
+
+    it('lists previous generations after repeated saves', async () => {
+      await server.callTool('ben_ten_save', {
+        sessionId: 'first-session',
+        summary: 'First summary',
+      });
+      await server.callTool('ben_ten_save', {
+        sessionId: 'second-session',
+        summary: 'Second summary',
+      });
+
+      const result = await server.callTool('ben_ten_history', {});
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.snapshots).toHaveLength(1);
+        expect(result.value.snapshots[0].sessionId).toBe('first-session');
+      }
+    });
+  });
+
+  describe('callTool - ben_ten_tool_history', () => {
+    it('returns the failed calls of a tool from the saved transcript', async () => {
+      const transcriptPath = '/transcripts/tools.jsonl';
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        createTranscript([
+          createAssistantEntry([
+            createToolUseBlock('Bash', { command: 'npm test' }, 't1'),
+            createToolUseBlock('Read', { file_path: 'a.ts' }, 't2'),
+          ]),
+          createToolResultEntry('t1', 'exit 1', { isError: true }),
+          createToolResultEntry('t2', 'ENOENT', { isError: true }),
+        ]),
+      );
+      await server.callTool('ben_ten_save', {
+        sessionId: 'tools-session',
+        summary: 'Ran tests',
+        transcriptPath,
+      });
+
+      const result = await server.callTool('ben_ten_tool_history', {
+        toolName: 'Bash',
+        failuresOnly: true,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.total).toBe(1);
+        expect(result.value.calls[0]).toMatchObject({
+          toolName: 'Bash',
+          success: false,
+          error: 'exit 1',
+        });
+      }
+    });
+
+    it('returns an error when there is no context', async () => {
+      const result = await server.callTool('ben_ten_tool_history', {});
+
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('callTool - ben_ten_restore', () => {
+    it('restores a previous generation', async () => {
+      await server.callTool('ben_ten_save', {
+        sessionId: 'good-session',
+        summary: 'Good summary',
+      });
+      await server.callTool('ben_ten_save', {
+        sessionId: 'bad-session',
+        summary: 'Bad summary',
+      });
+      const history = await server.callTool('ben_ten_history', {});
+      if (!isOk(history)) return;
+
+      const result = await server.callTool('ben_ten_restore', {
+        id: history.value.snapshots[0].id,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.restored).toBe(true);
+        expect(result.value.sessionId).toBe('good-session');
+      }
+      const loadResult = await server.callTool('ben_ten_load', {});
+      if (isOk(loadResult)) {
+        expect(loadResult.value.summary).toBe('Good summary');
+      }
+    });
+
+    it('returns error for unknown snapshot', async () => {
+      const result = await server.callTool('ben_ten_restore', {
+        id: 'missing',
+      });
+
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
   describe('callTool - unknown tool', () => {
     it('returns error for unknown tool', async () => {
       const result = await server.callTool('unknown_tool', {});
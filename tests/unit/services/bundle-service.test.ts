@@ -0,0 +1,277 @@
+import { randomBytes } from 'node:crypto';
+import { gzipSync } from 'node:zlib';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import { CONTEXT_VERSION, type ContextData } from '../../../src/core/types.js';
+import { ErrorCode } from '../../../src/infrastructure/errors.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isErr, isOk, ok } from '../../../src/infrastructure/result.js';
+import {
+  type BundleService,
+  type ContextBundle,
+  createBundleService,
+} from '../../../src/services/bundle-service.js';
+import { createConfigService } from '../../../src/services/config-service.js';
+import {
+  type ContextService,
+  LOCK_FILE,
+  createContextService,
+} from '../../../src/services/context-service.js';
+import type { ProjectIdentifierService } from '../../../src/services/project-identifier-service.js';
+import {
+  createAssistantEntry,
+  createUserEntry,
+} from '../../fixtures/transcript-factory.js';
+
+describe('BundleService', () => {
+  let fs: FileSystem;
+  const logger = createLogger({ level: LogLevel.ERROR });
+  const sourceDir = '/source';
+  const targetDir = '/target';
+
+  /** Identifies every project as the same repo unless given a hash */
+  const createIdentifier = (
+    projectHash = 'abcdef0123456789',
+  ): ProjectIdentifierService => ({
+    getProjectIdentifier: async () =>
+      ok({
+        remoteUrl: 'github.com/user/repo',
+        projectHash,
+        projectName: 'repo',
+      }),
+    computeHash: (input) => input,
+    normalizeUrl: (url) => url,
+  });
+
+  const createContext = (
+    sessionId: string,
+    updatedAt: number,
+    messageCount = 0,
+  ): ContextData => {
+    const messages = Array.from({ length: messageCount }, (_, i) =>
+      i % 2 === 0
+        ? createUserEntry(`Question ${i}`, { uuid: `uuid-${i}` })
+        : createAssistantEntry(`Answer ${i}`, { uuid: `uuid-${i}` }),
+    );
+    return {
+      version: CONTEXT_VERSION,
+      createdAt: 1000,
+      updatedAt,
+      sessionId,
+      summary: `Summary for ${sessionId}`,
+      conversation: messageCount > 0 ? { messages, messageCount } : undefined,
+    };
+  };
+
+  const services = (
+    projectDir: string,
+    projectIdentifier = createIdentifier(),
+  ): { context: ContextService; bundles: BundleService } => ({
+    context: createContextService({ fs, logger, projectDir }),
+    bundles: createBundleService({
+      fs,
+      logger,
+      projectDir,
+      projectIdentifier,
+    }),
+  });
+
+  /** Export the source project and decode the result */
+  const exportSource = async (): Promise<ContextBundle> => {
+    const exportResult = await services(sourceDir).bundles.exportBundle();
+    if (!isOk(exportResult)) throw new Error('export failed');
+    const readResult = services(targetDir).bundles.readBundle(
+      exportResult.value.data,
+    );
+    if (!isOk(readResult)) throw new Error('read failed');
+    return readResult.value;
+  };
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+  });
+
+  it('round-trips context, history and config into an empty project', async () => {
+    const source = services(sourceDir).context;
+    await source.saveContext(createContext('s1', 2000, 300));
+    await source.saveContext(createContext('s2', 3000, 320));
+    await createConfigService({ fs, logger, projectDir: sourceDir }).saveConfig(
+      {
+        maxSnapshots: 5,
+        remote: { serverUrl: 'http://server', apiKey: 'secret', enabled: true },
+      },
+    );
+
+    const bundle = await exportSource();
+    expect(bundle.manifest.project.projectHash).toBe('abcdef0123456789');
+    expect(bundle.manifest.snapshotCount).toBe(1);
+    expect(bundle.config?.remote?.apiKey).toBeUndefined();
+
+    const { context: target, bundles } = services(targetDir);
+    const importResult = await bundles.importBundle(bundle);
+
+    expect(isOk(importResult)).toBe(true);
+    if (isOk(importResult)) {
+      expect(importResult.value).toEqual({
+        mode: 'merge',
+        bundleContextCurrent: true,
+        snapshotsAdded: 1,
+        projectMismatch: false,
+      });
+    }
+    const loadResult = await target.loadContext();
+    expect(isOk(loadResult) && loadResult.value).toEqual(
+      createContext('s2', 3000, 320),
+    );
+    const history = await target.listSnapshots();
+    expect(isOk(history) && history.value.map((s) => s.sessionId)).toEqual([
+      's1',
+    ]);
+    const metadata = await target.loadMetadata();
+    expect(isOk(metadata) && metadata.value.directory).toBe(targetDir);
+    const config = await createConfigService({
+      fs,
+      logger,
+      projectDir: targetDir,
+    }).loadConfig();
+    expect(isOk(config) && config.value.maxSnapshots).toBe(5);
+    expect(isOk(config) && config.value.remote?.apiKey).toBeUndefined();
+  });
+
+  it('requires a mode when the project already has context', async () => {
+    await services(sourceDir).context.saveContext(createContext('s1', 2000));
+    await services(targetDir).context.saveContext(createContext('local', 1500));
+    const bundle = await exportSource();
+
+    const result = await services(targetDir).bundles.importBundle(bundle);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe(ErrorCode.BUNDLE_CONFLICT);
+    }
+  });
+
+  it('requires a mode when the bundle comes from another project', async () => {
+    await services(sourceDir).context.saveContext(createContext('s1', 2000));
+    const bundle = await exportSource();
+    const other = services(targetDir, createIdentifier('9999999999999999'));
+
+    const conflict = await other.bundles.importBundle(bundle);
+    const merged = await other.bundles.importBundle(bundle, { mode: 'merge' });
+
+    expect(isErr(conflict)).toBe(true);
+    if (isErr(conflict)) {
+      expect(conflict.error.code).toBe(ErrorCode.BUNDLE_CONFLICT);
+      expect(conflict.error.message).toContain('repo');
+    }
+    expect(isOk(merged) && merged.value.projectMismatch).toBe(true);
+  });
+
+  it('merges by keeping the newer context and adding the other to history', async () => {
+    await services(sourceDir).context.saveContext(createContext('s1', 2000));
+    const bundle = await exportSource();
+    const { context: target, bundles } = services(targetDir);
+    await target.saveContext(createContext('local', 5000));
+
+    const result = await bundles.importBundle(bundle, { mode: 'merge' });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.bundleContextCurrent).toBe(false);
+      expect(result.value.snapshotsAdded).toBe(1);
+    }
+    const current = await target.loadContext();
+    expect(isOk(current) && current.value.sessionId).toBe('local');
+    const history = await target.listSnapshots();
+    expect(isOk(history) && history.value.map((s) => s.sessionId)).toEqual([
+      's1',
+    ]);
+
+    // Importing the same bundle again adds nothing
+    const again = await bundles.importBundle(bundle, { mode: 'merge' });
+    expect(isOk(again) && again.value.snapshotsAdded).toBe(0);
+  });
+
+  it('overwrites local context and history', async () => {
+    await services(sourceDir).context.saveContext(createContext('s1', 2000));
+    const bundle = await exportSource();
+    const { context: target, bundles } = services(targetDir);
+    await target.saveContext(createContext('old', 1000));
+    await target.saveContext(createContext('local', 5000));
+
+    const result = await bundles.importBundle(bundle, { mode: 'overwrite' });
+
+    expect(isOk(result) && result.value.bundleContextCurrent).toBe(true);
+    const current = await target.loadContext();
+    expect(isOk(current) && current.value.sessionId).toBe('s1');
+    const history = await target.listSnapshots();
+    expect(isOk(history) && history.value).toEqual([]);
+  });
+
+  it('leaves history alone when another writer holds the lock', async () => {
+    await services(sourceDir).context.saveContext(createContext('s1', 2000));
+    const bundle = await exportSource();
+    const { context: target } = services(targetDir);
+    await target.saveContext(createContext('old', 1000));
+    await target.saveContext(createContext('local', 5000));
+    await fs.lock(`${target.getBenTenDir()}/${LOCK_FILE}`);
+
+    const result = await createBundleService({
+      fs,
+      logger,
+      projectDir: targetDir,
+      projectIdentifier: createIdentifier(),
+      lockOptions: { timeoutMs: 0 },
+    }).importBundle(bundle, { mode: 'overwrite' });
+
+    expect(isErr(result) && result.error.code).toBe(ErrorCode.CONTEXT_LOCKED);
+    const history = await target.listSnapshots();
+    expect(isOk(history) && history.value).toHaveLength(1);
+  });
+
+  it('exports encrypted projects as readable bundles', async () => {
+    const key = randomBytes(32);
+    await createContextService({
+      fs,
+      logger,
+      projectDir: sourceDir,
+      encryptionKey: key,
+    }).saveContext(createContext('secret', 2000, 10));
+
+    const exportResult = await createBundleService({
+      fs,
+      logger,
+      projectDir: sourceDir,
+      projectIdentifier: createIdentifier(),
+      encryptionKey: key,
+    }).exportBundle();
+
+    expect(isOk(exportResult)).toBe(true);
+    if (!isOk(exportResult)) return;
+    const readResult = services(targetDir).bundles.readBundle(
+      exportResult.value.data,
+    );
+    expect(isOk(readResult) && readResult.value.context.sessionId).toBe(
+      'secret',
+    );
+  });
+
+  it('rejects files that are not bundles', () => {
+    const { bundles } = services(targetDir);
+
+    const garbage = bundles.readBundle(Buffer.from('not a bundle'));
+    const noManifest = bundles.readBundle(
+      gzipSync(JSON.stringify({ context: createContext('s1', 2000) })),
+    );
+
+    for (const result of [garbage, noManifest]) {
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.BUNDLE_INVALID);
+      }
+    }
+  });
+});
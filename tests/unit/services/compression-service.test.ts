@@ -2,8 +2,11 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import { ErrorCode } from '../../../src/infrastructure/errors.js';
 import { isErr, isOk } from '../../../src/infrastructure/result.js';
 import {
+  AUTO_BROTLI_THRESHOLD,
+  COMPRESSION_CODECS,
   type CompressionService,
   createCompressionService,
+  selectCompressionCodec,
 } from '../../../src/services/compression-service.js';
 
 describe('CompressionService', () => {
@@ -157,4 +160,81 @@ describe('CompressionService', () => {
       expect(ratio).toBeLessThan(0.5);
     });
   });
+
+  describe('codecs', () => {
+    const transcript = Buffer.from(
+      JSON.stringify(
+        Array.from({ length: 200 }, (_, i) => ({
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Message ${i} about refactoring the context service`,
+        })),
+      ),
+    );
+
+    it.each(COMPRESSION_CODECS)('round-trips data with %s', (codec) => {
+      const codecService = createCompressionService(codec);
+
+      const compressResult = codecService.compress(transcript);
+      expect(isOk(compressResult)).toBe(true);
+      if (!isOk(compressResult)) return;
+
+      const decompressResult = codecService.decompress(compressResult.value);
+      expect(isOk(decompressResult)).toBe(true);
+      if (isOk(decompressResult)) {
+        expect(decompressResult.value.equals(transcript)).toBe(true);
+      }
+    });
+
+    it('defaults to lz4', () => {
+      expect(service.codec).toBe('lz4');
+    });
+
+    it('compresses text better with brotli than lz4', () => {
+      const lz4Result = createCompressionService('lz4').compress(transcript);
+      const brotliResult =
+        createCompressionService('brotli').compress(transcript);
+
+      expect(isOk(lz4Result) && isOk(brotliResult)).toBe(true);
+      if (isOk(lz4Result) && isOk(brotliResult)) {
+        expect(brotliResult.value.length).toBeLessThan(lz4Result.value.length);
+      }
+    });
+
+    it('returns error for data from a different codec', () => {
+      const gzipResult = createCompressionService('gzip').compress(transcript);
+      expect(isOk(gzipResult)).toBe(true);
+      if (!isOk(gzipResult)) return;
+
+      const result = createCompressionService('brotli').decompress(
+        gzipResult.value,
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.DESERIALIZE_FAILED);
+      }
+    });
+  });
+
+  describe('selectCompressionCodec', () => {
+    it('defaults to lz4', () => {
+      expect(selectCompressionCodec(undefined, 10)).toBe('lz4');
+    });
+
+    it('uses a fixed codec regardless of size', () => {
+      expect(selectCompressionCodec('gzip', 10)).toBe('gzip');
+      expect(selectCompressionCodec('lz4', AUTO_BROTLI_THRESHOLD * 10)).toBe(
+        'lz4',
+      );
+    });
+
+    it('chooses by payload size under auto', () => {
+      expect(selectCompressionCodec('auto', AUTO_BROTLI_THRESHOLD - 1)).toBe(
+        'lz4',
+      );
+      expect(selectCompressionCodec('auto', AUTO_BROTLI_THRESHOLD)).toBe(
+        'brotli',
+      );
+    });
+  });
 });
@@ -209,6 +209,139 @@ describe('ConfigService', () => {
       }
     });
 
+    it('validates maxSnapshots range', async () => {
+      const result = await service.saveConfig({ maxSnapshots: 500 });
+
+      expect(isOk(result)).toBe(true);
+
+      const loadResult = await service.loadConfig();
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value.maxSnapshots).toBe(100); // Clamped to max
+      }
+    });
+
+    it('keeps valid compression settings and drops unknown ones', async () => {
+      await service.saveConfig({ compression: 'brotli' });
+      const validResult = await service.loadConfig();
+      if (isOk(validResult)) {
+        expect(validResult.value.compression).toBe('brotli');
+      }
+
+      await service.saveConfig({
+        compression: 'zstd' as unknown as 'brotli',
+      });
+      const invalidResult = await service.loadConfig();
+      if (isOk(invalidResult)) {
+        expect(invalidResult.value.compression).toBeUndefined();
+      }
+    });
+
+    it('keeps known context versions and drops unknown ones', async () => {
+      await service.saveConfig({ contextVersion: '2.0.0' });
+      const validResult = await service.loadConfig();
+      if (isOk(validResult)) {
+        expect(validResult.value.contextVersion).toBe('2.0.0');
+      }
+
+      await service.saveConfig({ contextVersion: '9.9.9' });
+      const invalidResult = await service.loadConfig();
+      if (isOk(invalidResult)) {
+        expect(invalidResult.value.contextVersion).toBeUndefined();
+      }
+    });
+
+    it('keeps encryption settings but drops invalid fields', async () => {
+      await service.saveConfig({
+        encryption: {
+          enabled: true,
+          keyFile: '.ben-ten/key',
+          keyEnv: 42 as unknown as string,
+        },
+      });
+
+      const loadResult = await service.loadConfig();
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value.encryption).toEqual({
+          enabled: true,
+          keyFile: '.ben-ten/key',
+        });
+      }
+    });
+
+    it('keeps redaction settings but drops invalid patterns', async () => {
+      await service.saveConfig({
+        redaction: {
+          enabled: false,
+          patterns: [
+            { name: 'internal', pattern: 'itk-[0-9a-f]{8}' },
+            { name: 'broken', pattern: '([' },
+            { name: '', pattern: 'x' },
+          ],
+        },
+      });
+
+      const loadResult = await service.loadConfig();
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value.redaction).toEqual({
+          enabled: false,
+          patterns: [{ name: 'internal', pattern: 'itk-[0-9a-f]{8}' }],
+        });
+      }
+    });
+
+    it('keeps transcript roots that are non-empty strings', async () => {
+      await service.saveConfig({
+        transcriptRoots: ['/mnt/host/.claude/projects', '', 42 as never],
+      });
+
+      const loadResult = await service.loadConfig();
+      expect(isOk(loadResult) && loadResult.value.transcriptRoots).toEqual([
+        '/mnt/host/.claude/projects',
+      ]);
+    });
+
+    it('keeps known replay modes and drops unknown ones', async () => {
+      await service.saveConfig({ replayMode: 'ranked' });
+      const validResult = await service.loadConfig();
+      expect(isOk(validResult) && validResult.value.replayMode).toBe('ranked');
+
+      await service.saveConfig({ replayMode: 'random' as never });
+      const invalidResult = await service.loadConfig();
+      expect(isOk(invalidResult) && invalidResult.value.replayMode).toBe(
+        undefined,
+      );
+    });
+
+    it('keeps segmentDigests only when it is a boolean', async () => {
+      await service.saveConfig({ segmentDigests: true });
+      const validResult = await service.loadConfig();
+      expect(isOk(validResult) && validResult.value.segmentDigests).toBe(true);
+
+      await service.saveConfig({ segmentDigests: 'yes' as never });
+      const invalidResult = await service.loadConfig();
+      expect(isOk(invalidResult) && invalidResult.value.segmentDigests).toBe(
+        undefined,
+      );
+    });
+
+    it('keeps tool formatter rules with a tool and a template', async () => {
+      await service.saveConfig({
+        toolFormatters: [
+          { tool: 'mcp__jira__*', template: '{summary}', label: 'Jira' },
+          { tool: '', template: '{x}' },
+          { tool: 'Read' } as never,
+        ],
+      });
+
+      const loadResult = await service.loadConfig();
+      expect(isOk(loadResult) && loadResult.value.toolFormatters).toEqual([
+        { tool: 'mcp__jira__*', template: '{summary}', label: 'Jira' },
+      ]);
+    });
+
     it('saved config can be loaded back', async () => {
       const config = {
         maxReplayPercent: 65,
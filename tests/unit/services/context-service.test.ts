@@ -1,9 +1,14 @@
+import { randomBytes } from 'node:crypto';
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
   type FileSystem,
   createMemoryFs,
 } from '../../../src/adapters/fs/memory-fs.js';
-import type { ContextData, ContextMetadata } from '../../../src/core/types.js';
+import {
+  CONTEXT_VERSION,
+  type ContextData,
+  type ContextMetadata,
+} from '../../../src/core/types.js';
 import { ErrorCode } from '../../../src/infrastructure/errors.js';
 import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
 import { isErr, isOk } from '../../../src/infrastructure/result.js';
@@ -12,9 +17,23 @@ import {
   CONTEXT_FILE,
   CONTEXT_FILE_LEGACY,
   type ContextService,
+  LOCK_FILE,
   METADATA_FILE,
   createContextService,
 } from '../../../src/services/context-service.js';
+import {
+  OBJECTS_DIR,
+  createObjectStoreService,
+} from '../../../src/services/object-store-service.js';
+import {
+  FORMAT_VERSION_V1,
+  createSerializerService,
+} from '../../../src/services/serializer-service.js';
+import {
+  SNAPSHOTS_DIR,
+  SNAPSHOT_EXTENSION,
+} from '../../../src/services/snapshot-service.js';
+import { createUserEntry } from '../../fixtures/transcript-factory.js';
 
 describe('ContextService', () => {
   let fs: FileSystem;
@@ -33,6 +52,7 @@ describe('ContextService', () => {
       expect(CONTEXT_FILE).toBe('context.ctx');
       expect(CONTEXT_FILE_LEGACY).toBe('context.json');
       expect(METADATA_FILE).toBe('metadata.json');
+      expect(LOCK_FILE).toBe('context.lock');
     });
   });
 
@@ -124,6 +144,28 @@ describe('ContextService', () => {
         expect(result.error.code).toBe(ErrorCode.CONTEXT_CORRUPTED);
       }
     });
+
+    it('loads only the requested sections', async () => {
+      await service.saveContext({
+        version: '2.0.0',
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'sectioned',
+        summary: 'Summary only',
+        conversation: { messages: [], messageCount: 0 },
+        files: [{ path: '/a.ts', lastAccessed: 1, accessCount: 1 }],
+      });
+
+      const result = await service.loadContext({ sections: ['summary'] });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.sessionId).toBe('sectioned');
+        expect(result.value.updatedAt).toBe(2000);
+        expect(result.value.conversation).toBeUndefined();
+        expect(result.value.files).toBeUndefined();
+      }
+    });
   });
 
   describe('saveContext', () => {
@@ -191,7 +233,7 @@ describe('ContextService', () => {
 
     it('saved context can be loaded back', async () => {
       const contextData: ContextData = {
-        version: '1.0.0',
+        version: CONTEXT_VERSION,
         createdAt: 1234567890,
         updatedAt: 1234567899,
         sessionId: 'roundtrip-test',
@@ -415,7 +457,7 @@ describe('ContextService', () => {
 
     it('loads compressed context correctly', async () => {
       const contextData: ContextData = {
-        version: '2.0.0',
+        version: CONTEXT_VERSION,
         createdAt: 1234567890,
         updatedAt: 1234567899,
         sessionId: 'test-load-compressed',
@@ -541,4 +583,528 @@ describe('ContextService', () => {
       expect(newExists).toBe(false);
     });
   });
+
+  describe('snapshot history', () => {
+    const createGeneration = (sessionId: string): ContextData => ({
+      version: '2.0.0',
+      createdAt: 1000,
+      updatedAt: Date.now(),
+      sessionId,
+      summary: `Generation from ${sessionId}`,
+    });
+
+    it('keeps the previous generation when saving over it', async () => {
+      await service.saveContext(createGeneration('first'));
+      await service.saveContext(createGeneration('second'));
+
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(1);
+        expect(result.value[0]?.sessionId).toBe('first');
+      }
+    });
+
+    it('does not snapshot when snapshot option is false', async () => {
+      await service.saveContext(createGeneration('first'));
+      await service.saveContext(createGeneration('second'), {
+        snapshot: false,
+      });
+
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(0);
+      }
+    });
+
+    it('does not snapshot when maxSnapshots is 0', async () => {
+      const logger = createLogger({ level: LogLevel.ERROR });
+      service = createContextService({
+        fs,
+        logger,
+        projectDir,
+        maxSnapshots: 0,
+      });
+
+      await service.saveContext(createGeneration('first'));
+      await service.saveContext(createGeneration('second'));
+
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(0);
+      }
+    });
+
+    it('keeps the deleted generation in history', async () => {
+      await service.saveContext(createGeneration('cleared'));
+
+      await service.deleteContext();
+
+      const result = await service.listSnapshots();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value[0]?.sessionId).toBe('cleared');
+      }
+    });
+
+    it('restores a previous generation as current', async () => {
+      await service.saveContext(createGeneration('good'));
+      await service.saveContext(createGeneration('bad'));
+
+      const listResult = await service.listSnapshots();
+      expect(isOk(listResult)).toBe(true);
+      if (!isOk(listResult) || !listResult.value[0]) return;
+
+      const restoreResult = await service.restoreSnapshot(
+        listResult.value[0].id,
+      );
+
+      expect(isOk(restoreResult)).toBe(true);
+      const loadResult = await service.loadContext();
+      if (isOk(loadResult)) {
+        expect(loadResult.value.sessionId).toBe('good');
+      }
+
+      // The replaced generation is now in history so the restore can be undone
+      const afterRestore = await service.listSnapshots();
+      if (isOk(afterRestore)) {
+        expect(afterRestore.value[0]?.sessionId).toBe('bad');
+      }
+    });
+
+    it('returns SNAPSHOT_NOT_FOUND when restoring unknown ID', async () => {
+      const result = await service.restoreSnapshot('missing');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SNAPSHOT_NOT_FOUND);
+      }
+    });
+  });
+
+  describe('locking', () => {
+    const lockPath = `${projectDir}/${BEN10_DIR}/${LOCK_FILE}`;
+    const contextData: ContextData = {
+      version: '2.0.0',
+      createdAt: 1000,
+      updatedAt: 2000,
+      sessionId: 'locked-session',
+      summary: 'Locked',
+    };
+
+    beforeEach(() => {
+      const logger = createLogger({ level: LogLevel.ERROR });
+      service = createContextService({
+        fs,
+        logger,
+        projectDir,
+        lockOptions: { timeoutMs: 0 },
+      });
+    });
+
+    it('releases the lock after saving', async () => {
+      await service.saveContext(contextData);
+
+      expect(await fs.exists(lockPath)).toBe(false);
+    });
+
+    it('returns CONTEXT_LOCKED when another writer holds the lock', async () => {
+      await fs.lock(lockPath);
+
+      const result = await service.saveContext(contextData);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CONTEXT_LOCKED);
+      }
+      expect(await service.hasContext()).toBe(false);
+    });
+
+    it('guards metadata saves and deletes', async () => {
+      await service.saveContext(contextData);
+      await fs.lock(lockPath);
+
+      const metadataResult = await service.saveMetadata({
+        directory: projectDir,
+        directoryHash: 'hash',
+        lastSessionId: 'locked-session',
+        sessionCount: 1,
+        lastSavedAt: 2000,
+      });
+      const deleteResult = await service.deleteContext();
+
+      expect(isErr(metadataResult)).toBe(true);
+      expect(isErr(deleteResult)).toBe(true);
+      expect(await service.hasContext()).toBe(true);
+    });
+  });
+
+  describe('encryption', () => {
+    const key = randomBytes(32);
+    const contextData: ContextData = {
+      version: '2.0.0',
+      createdAt: 1000,
+      updatedAt: 2000,
+      sessionId: 'secret-session',
+      summary: 'Customer secret: hunter2',
+    };
+    const contextPath = `${projectDir}/${BEN10_DIR}/${CONTEXT_FILE}`;
+
+    const createEncrypted = (encryptionKey?: Buffer): ContextService =>
+      createContextService({
+        fs,
+        logger: createLogger({ level: LogLevel.ERROR }),
+        projectDir,
+        encryptionKey,
+      });
+
+    it('saves and loads encrypted context', async () => {
+      const encrypted = createEncrypted(key);
+
+      await encrypted.saveContext(contextData);
+      const result = await encrypted.loadContext();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.summary).toBe('Customer secret: hunter2');
+      }
+    });
+
+    it('returns ENCRYPTION_KEY_MISSING instead of CONTEXT_CORRUPTED', async () => {
+      await createEncrypted(key).saveContext(contextData);
+
+      const result = await createEncrypted().loadContext();
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_MISSING);
+      }
+    });
+
+    it('rekeys the context and its history', async () => {
+      await service.saveContext({ ...contextData, sessionId: 'older' });
+      await service.saveContext(contextData);
+
+      const rekeyResult = await service.rekey(key);
+
+      expect(isOk(rekeyResult)).toBe(true);
+      if (isOk(rekeyResult)) {
+        expect(rekeyResult.value).toEqual({ rewritten: 2, skippedObjects: [] });
+      }
+
+      const readResult = await fs.readFileBuffer(contextPath);
+      if (isOk(readResult)) {
+        expect(readResult.value.includes(Buffer.from('hunter2'))).toBe(false);
+      }
+
+      const encrypted = createEncrypted(key);
+      const loadResult = await encrypted.loadContext();
+      expect(isOk(loadResult)).toBe(true);
+
+      const history = await encrypted.listSnapshots();
+      expect(isOk(history)).toBe(true);
+      if (isOk(history) && history.value[0]) {
+        const snapshot = await encrypted.restoreSnapshot(history.value[0].id);
+        expect(isOk(snapshot)).toBe(true);
+      }
+    });
+
+    it('rewrites nothing when a snapshot cannot be decrypted', async () => {
+      const encrypted = createEncrypted(key);
+      await encrypted.saveContext({ ...contextData, sessionId: 'oldest' });
+      await encrypted.saveContext({ ...contextData, sessionId: 'older' });
+      await encrypted.saveContext(contextData);
+      const history = await encrypted.listSnapshots();
+      if (!isOk(history)) throw new Error('list failed');
+      const [newer, oldest] = history.value.map(
+        (info) =>
+          `${projectDir}/${BEN10_DIR}/${SNAPSHOTS_DIR}/${info.id}${SNAPSHOT_EXTENSION}`,
+      );
+      if (!newer || !oldest) throw new Error('expected two snapshots');
+
+      // The oldest generation was written under some other key
+      const foreign = createSerializerService({
+        encryptionKey: randomBytes(32),
+      }).serialize({ ...contextData, sessionId: 'oldest' });
+      if (!isOk(foreign)) throw new Error('serialize failed');
+      await fs.writeFileBuffer(oldest, foreign.value);
+      const before = await Promise.all(
+        [contextPath, newer].map((path) => fs.readFileBuffer(path)),
+      );
+
+      const result = await encrypted.rekey(randomBytes(32));
+
+      expect(isErr(result) && result.error.code).toBe(
+        ErrorCode.DECRYPTION_FAILED,
+      );
+      const after = await Promise.all(
+        [contextPath, newer].map((path) => fs.readFileBuffer(path)),
+      );
+      expect(after).toEqual(before);
+      expect(isOk(await encrypted.loadContext())).toBe(true);
+    });
+  });
+
+  describe('schema versions', () => {
+    it('reports contexts from a newer version instead of corruption', async () => {
+      const serializeResult = createSerializerService().serialize({
+        version: '99.0.0',
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'future',
+        summary: 'Written by a newer Ben-Ten',
+      });
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+      await fs.mkdir(`${projectDir}/${BEN10_DIR}`, { recursive: true });
+      await fs.writeFileBuffer(
+        `${projectDir}/${BEN10_DIR}/${CONTEXT_FILE}`,
+        serializeResult.value,
+      );
+
+      const result = await service.loadContext();
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CONTEXT_VERSION_MISMATCH);
+      }
+    });
+  });
+
+  describe('conversation chunks', () => {
+    const objectsDir = `${projectDir}/${BEN10_DIR}/${OBJECTS_DIR}`;
+    const contextPath = `${projectDir}/${BEN10_DIR}/${CONTEXT_FILE}`;
+
+    const createConversationContext = (
+      messageCount: number,
+      sessionId = 'chunked-session',
+    ): ContextData => {
+      const messages = Array.from({ length: messageCount }, (_, i) =>
+        createUserEntry(`Message ${i}`, { uuid: `uuid-${i}` }),
+      );
+      return {
+        version: CONTEXT_VERSION,
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId,
+        summary: 'Chunked conversation',
+        conversation: { messages, messageCount },
+      };
+    };
+
+    const countObjects = async (): Promise<number> => {
+      const objects = createObjectStoreService({
+        fs,
+        logger: createLogger({ level: LogLevel.ERROR }),
+        benTenDir: `${projectDir}/${BEN10_DIR}`,
+      });
+      const result = await objects.listObjects();
+      return isOk(result) ? result.value.length : -1;
+    };
+
+    it('stores messages in the object store and loads them back', async () => {
+      const context = createConversationContext(120);
+
+      await service.saveContext(context);
+
+      expect(await fs.exists(objectsDir)).toBe(true);
+      const raw = await fs.readFileBuffer(contextPath);
+      const stored =
+        isOk(raw) && createSerializerService().deserialize(raw.value);
+      expect(
+        stored && isOk(stored) && stored.value.conversation?.messages,
+      ).toEqual([]);
+
+      const result = await service.loadContext();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(context);
+      }
+    });
+
+    it('keeps the conversation inline for versions that predate chunks', async () => {
+      const pinned = createContextService({
+        fs,
+        logger: createLogger({ level: LogLevel.ERROR }),
+        projectDir,
+        targetVersion: '2.0.0',
+      });
+      const context = createConversationContext(120);
+
+      const saveResult = await pinned.saveContext(context);
+
+      expect(isOk(saveResult)).toBe(true);
+      expect(await countObjects()).toBe(0);
+      const raw = await fs.readFileBuffer(contextPath);
+      expect(isOk(raw) && raw.value[4]).toBe(FORMAT_VERSION_V1);
+      const stored =
+        isOk(raw) && createSerializerService().deserialize(raw.value);
+      expect(
+        stored && isOk(stored) && stored.value.conversation?.messages,
+      ).toHaveLength(120);
+    });
+
+    it('writes only changed chunks on later saves', async () => {
+      await service.saveContext(createConversationContext(200));
+      const before = await countObjects();
+
+      await service.saveContext(createConversationContext(210));
+
+      const after = await countObjects();
+      expect(after - before).toBeLessThanOrEqual(2);
+    });
+
+    it('restores snapshots that share chunks with the current context', async () => {
+      await service.saveContext(createConversationContext(100, 'first'));
+      await service.saveContext(createConversationContext(150, 'second'));
+
+      const history = await service.listSnapshots();
+      expect(isOk(history)).toBe(true);
+      if (!isOk(history) || !history.value[0]) return;
+
+      const restored = await service.restoreSnapshot(history.value[0].id);
+      expect(isOk(restored)).toBe(true);
+      if (isOk(restored)) {
+        expect(restored.value.sessionId).toBe('first');
+        expect(restored.value.conversation?.messages).toHaveLength(100);
+      }
+    });
+
+    it('garbage collects chunks no context or snapshot references', async () => {
+      const noHistory = createContextService({
+        fs,
+        logger: createLogger({ level: LogLevel.ERROR }),
+        projectDir,
+        maxSnapshots: 0,
+      });
+      await noHistory.saveContext(createConversationContext(100, 'old'));
+      const replacement = createConversationContext(50, 'new');
+      for (const message of replacement.conversation?.messages ?? []) {
+        if (message.type === 'user') {
+          message.message.content = `Different ${message.message.content}`;
+        }
+      }
+      await noHistory.saveContext(replacement);
+      const before = await countObjects();
+
+      const gcResult = await noHistory.collectGarbage();
+
+      expect(isOk(gcResult)).toBe(true);
+      if (isOk(gcResult)) {
+        expect(gcResult.value.totalObjects).toBe(before);
+        expect(gcResult.value.removed).toBeGreaterThan(0);
+      }
+      const loadResult = await noHistory.loadContext();
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value).toEqual(replacement);
+      }
+    });
+
+    it('keeps chunks referenced by snapshots during garbage collection', async () => {
+      await service.saveContext(createConversationContext(100, 'old'));
+      await service.deleteContext();
+      const before = await countObjects();
+
+      const gcResult = await service.collectGarbage();
+
+      expect(isOk(gcResult)).toBe(true);
+      if (isOk(gcResult)) {
+        expect(gcResult.value.removed).toBe(0);
+      }
+      expect(await countObjects()).toBe(before);
+    });
+
+    describe('with an unreadable snapshot', () => {
+      /** Moves a conversation into history and adds one unused chunk */
+      const setUp = async (): Promise<string> => {
+        await service.saveContext({
+          ...createConversationContext(100, 'old'),
+          files: [{ path: '/src/index.ts', lastAccessed: 1, accessCount: 1 }],
+        });
+        await service.deleteContext();
+        await createObjectStoreService({
+          fs,
+          logger: createLogger({ level: LogLevel.ERROR }),
+          benTenDir: `${projectDir}/${BEN10_DIR}`,
+        }).writeObject(Buffer.from('unused'));
+        const history = await service.listSnapshots();
+        const id = isOk(history) ? history.value[0]?.id : undefined;
+        if (!id) throw new Error('snapshot missing');
+        return `${projectDir}/${BEN10_DIR}/${SNAPSHOTS_DIR}/${id}${SNAPSHOT_EXTENSION}`;
+      };
+
+      it('keeps the chunks its readable sections reference', async () => {
+        const snapshotPath = await setUp();
+        // The files section is written last
+        const readResult = await fs.readFileBuffer(snapshotPath);
+        if (!isOk(readResult)) throw new Error('snapshot missing');
+        const data = Buffer.from(readResult.value);
+        data[data.length - 1] = (data[data.length - 1] as number) ^ 0xff;
+        await fs.writeFileBuffer(snapshotPath, data);
+        const before = await countObjects();
+
+        const gcResult = await service.collectGarbage();
+
+        expect(isOk(gcResult)).toBe(true);
+        if (isOk(gcResult)) {
+          expect(gcResult.value.removed).toBe(1);
+          expect(gcResult.value.skippedSnapshots).toHaveLength(1);
+        }
+        expect(await countObjects()).toBe(before - 1);
+      });
+
+      it('keeps every chunk when its references cannot be read', async () => {
+        const snapshotPath = await setUp();
+        await fs.writeFileBuffer(snapshotPath, Buffer.from('not a snapshot'));
+        const before = await countObjects();
+
+        const gcResult = await service.collectGarbage();
+
+        expect(isOk(gcResult)).toBe(true);
+        if (isOk(gcResult)) {
+          expect(gcResult.value.removed).toBe(0);
+          expect(gcResult.value.skippedSnapshots).toHaveLength(1);
+        }
+        expect(await countObjects()).toBe(before);
+      });
+    });
+
+    it('reports missing chunks as CONTEXT_CORRUPTED', async () => {
+      await service.saveContext(createConversationContext(40));
+      await fs.rm(objectsDir, { recursive: true });
+
+      const result = await service.loadContext();
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CONTEXT_CORRUPTED);
+      }
+    });
+
+    it('rekeys chunks along with the context', async () => {
+      const key = randomBytes(32);
+      await service.saveContext(createConversationContext(60));
+
+      const rekeyResult = await service.rekey(key);
+
+      expect(isOk(rekeyResult)).toBe(true);
+      const encrypted = createContextService({
+        fs,
+        logger: createLogger({ level: LogLevel.ERROR }),
+        projectDir,
+        encryptionKey: key,
+      });
+      const loadResult = await encrypted.loadContext();
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value.conversation?.messages).toHaveLength(60);
+      }
+    });
+  });
 });
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import { ErrorCode } from '../../../src/infrastructure/errors.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import {
+  DEFAULT_KEY_ENV,
+  type EncryptionService,
+  createEncryptionService,
+} from '../../../src/services/encryption-service.js';
+
+describe('EncryptionService', () => {
+  let fs: FileSystem;
+  let env: Record<string, string | undefined>;
+  let service: EncryptionService;
+  const projectDir = '/project';
+  const logger = createLogger({ level: LogLevel.ERROR });
+  const hexKey = 'ab'.repeat(32);
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+    env = {};
+    service = createEncryptionService({ fs, logger, projectDir, env });
+  });
+
+  describe('resolveKey', () => {
+    it('returns undefined when encryption is not configured', async () => {
+      const result = await service.resolveKey(undefined);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBeUndefined();
+      }
+    });
+
+    it('returns undefined when encryption is disabled', async () => {
+      env[DEFAULT_KEY_ENV] = hexKey;
+
+      const result = await service.resolveKey({ enabled: false });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBeUndefined();
+      }
+    });
+
+    it('reads the key from the configured environment variable', async () => {
+      env.MY_KEY = hexKey;
+
+      const result = await service.resolveKey({
+        enabled: true,
+        keyEnv: 'MY_KEY',
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value?.toString('hex')).toBe(hexKey);
+      }
+    });
+
+    it('reads the key from a file relative to the project', async () => {
+      await fs.writeFile(`${projectDir}/.ben-ten/key`, `${hexKey}\n`);
+
+      const result = await service.resolveKey({
+        enabled: true,
+        keyFile: '.ben-ten/key',
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value?.toString('hex')).toBe(hexKey);
+      }
+    });
+
+    it('falls back to the default environment variable', async () => {
+      env[DEFAULT_KEY_ENV] = hexKey;
+
+      const result = await service.resolveKey({ enabled: true });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('returns ENCRYPTION_KEY_MISSING when no key is available', async () => {
+      const result = await service.resolveKey({
+        enabled: true,
+        keyFile: 'missing.key',
+      });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_MISSING);
+      }
+    });
+  });
+
+  describe('loadProjectKey', () => {
+    it('resolves the key from project config', async () => {
+      env.PROJECT_KEY = hexKey;
+      await fs.writeFile(
+        `${projectDir}/.ben-ten/config.json`,
+        JSON.stringify({
+          encryption: { enabled: true, keyEnv: 'PROJECT_KEY' },
+        }),
+      );
+
+      const result = await service.loadProjectKey();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value?.toString('hex')).toBe(hexKey);
+      }
+    });
+  });
+
+  describe('parseKey', () => {
+    it('accepts base64 keys', () => {
+      const generated = service.generateKey();
+
+      const result = service.parseKey(generated);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.length).toBe(32);
+      }
+    });
+
+    it('returns ENCRYPTION_KEY_INVALID for wrong length', () => {
+      const result = service.parseKey('too-short');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_INVALID);
+      }
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { randomBytes } from 'node:crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import type { ContextData } from '../../../src/core/types.js';
+import { ErrorCode } from '../../../src/infrastructure/errors.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import {
+  BEN10_DIR,
+  CONTEXT_FILE,
+  CONTEXT_FILE_LEGACY,
+  type ContextService,
+  METADATA_FILE,
+  type SaveContextOptions,
+  createContextService,
+  hashDirectory,
+} from '../../../src/services/context-service.js';
+import {
+  CORRUPT_SUFFIX,
+  type FsckService,
+  createFsckService,
+} from '../../../src/services/fsck-service.js';
+import {
+  OBJECTS_DIR,
+  OBJECTS_PREVIOUS_DIR,
+  OBJECTS_REKEY_DIR,
+} from '../../../src/services/object-store-service.js';
+import { SNAPSHOTS_DIR } from '../../../src/services/snapshot-service.js';
+import {
+  createAssistantEntry,
+  createUserEntry,
+} from '../../fixtures/transcript-factory.js';
+
+describe('FsckService', () => {
+  let fs: FileSystem;
+  let contextService: ContextService;
+  let fsck: FsckService;
+  const projectDir = '/project';
+  const benTenDir = `${projectDir}/${BEN10_DIR}`;
+  const contextPath = `${benTenDir}/${CONTEXT_FILE}`;
+  const logger = createLogger({ level: LogLevel.ERROR });
+
+  const createContext = (sessionId: string, messageCount = 0): ContextData => {
+    const messages = Array.from({ length: messageCount }, (_, i) =>
+      i % 2 === 0
+        ? createUserEntry(`Question ${i}`, { uuid: `uuid-${i}` })
+        : createAssistantEntry(`Answer ${i}`, { uuid: `uuid-${i}` }),
+    );
+    return {
+      version: '2.0.0',
+      createdAt: 1000,
+      updatedAt: 2000,
+      sessionId,
+      summary: `Summary for ${sessionId}`,
+      conversation: messageCount > 0 ? { messages, messageCount } : undefined,
+      files: [{ path: '/src/index.ts', lastAccessed: 1, accessCount: 1 }],
+    };
+  };
+
+  /** Saves context and metadata, as the end of a session does */
+  const save = async (context: ContextData, options?: SaveContextOptions) => {
+    await contextService.saveContext(context, options);
+    await contextService.saveMetadata({
+      directory: projectDir,
+      directoryHash: hashDirectory(projectDir),
+      lastSessionId: context.sessionId,
+      sessionCount: 3,
+      lastSavedAt: context.updatedAt,
+      transcriptPath: '/home/user/.claude/projects/-project/s.jsonl',
+    });
+  };
+
+  /** Flips a byte of the context file, counted from the end */
+  const damageContext = async (fromEnd: number) => {
+    const readResult = await fs.readFileBuffer(contextPath);
+    if (!isOk(readResult)) throw new Error('context missing');
+    const data = Buffer.from(readResult.value);
+    const at = data.length - fromEnd;
+    data[at] = (data[at] as number) ^ 0xff;
+    await fs.writeFileBuffer(contextPath, data);
+  };
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+    contextService = createContextService({ fs, logger, projectDir });
+    fsck = createFsckService({ fs, logger, projectDir });
+  });
+
+  it('reports nothing for a healthy project', async () => {
+    await save(createContext('s1', 50));
+    await save(createContext('s2', 60));
+
+    const result = await fsck.check();
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value).toEqual({ problems: [], repairs: [] });
+    }
+  });
+
+  it('salvages the readable sections of a damaged context', async () => {
+    await save(createContext('s1', 50));
+    // The files section is written last
+    await damageContext(1);
+
+    const checkResult = await fsck.check();
+    expect(isOk(checkResult)).toBe(true);
+    if (isOk(checkResult)) {
+      expect(checkResult.value.problems[0]?.file).toBe(CONTEXT_FILE);
+      expect(checkResult.value.repairs).toEqual([]);
+    }
+    expect(isErr(await contextService.loadContext())).toBe(true);
+
+    const repairResult = await fsck.check({ repair: true });
+
+    expect(isOk(repairResult)).toBe(true);
+    if (isOk(repairResult)) {
+      expect(repairResult.value.repairs).toEqual([
+        `Moved damaged ${CONTEXT_FILE} to ${CONTEXT_FILE}${CORRUPT_SUFFIX}`,
+        `Rewrote ${CONTEXT_FILE} from the readable sections of ${CONTEXT_FILE} (lost: files)`,
+      ]);
+    }
+    expect(await fs.exists(`${contextPath}${CORRUPT_SUFFIX}`)).toBe(true);
+    const loadResult = await contextService.loadContext();
+    expect(isOk(loadResult)).toBe(true);
+    if (isOk(loadResult)) {
+      expect(loadResult.value.sessionId).toBe('s1');
+      expect(loadResult.value.conversation?.messages).toHaveLength(50);
+      expect(loadResult.value.files).toBeUndefined();
+    }
+    const recheck = await fsck.check();
+    expect(isOk(recheck) && recheck.value.problems).toEqual([]);
+  });
+
+  it('falls back to the latest intact snapshot', async () => {
+    await save(createContext('s1', 20));
+    await save(createContext('s2', 30));
+    await fs.writeFileBuffer(contextPath, Buffer.from('BT10 garbage'));
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.repairs.at(-1)).toMatch(
+        new RegExp(`^Rewrote ${CONTEXT_FILE} from snapshot `),
+      );
+    }
+    const loadResult = await contextService.loadContext();
+    expect(isOk(loadResult)).toBe(true);
+    if (isOk(loadResult)) {
+      expect(loadResult.value.sessionId).toBe('s1');
+      expect(loadResult.value.conversation?.messages).toHaveLength(20);
+    }
+  });
+
+  it('falls back to the legacy JSON context', async () => {
+    await fs.mkdir(benTenDir, { recursive: true });
+    await fs.writeFile(
+      `${benTenDir}/${CONTEXT_FILE_LEGACY}`,
+      JSON.stringify(createContext('legacy')),
+    );
+    await fs.writeFileBuffer(contextPath, Buffer.from('garbage'));
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.repairs).toContain(
+        `Rewrote ${CONTEXT_FILE} from ${CONTEXT_FILE_LEGACY}`,
+      );
+    }
+    const loadResult = await contextService.loadContext();
+    expect(isOk(loadResult) && loadResult.value.sessionId).toBe('legacy');
+  });
+
+  it('drops conversation chunks that are missing', async () => {
+    await save(createContext('s1', 300), {
+      snapshot: false,
+    });
+    const objectsDir = `${benTenDir}/${OBJECTS_DIR}`;
+    const dirs = await fs.readdir(objectsDir);
+    if (!isOk(dirs)) return;
+    const dir = dirs.value[0] as string;
+    const files = await fs.readdir(`${objectsDir}/${dir}`);
+    if (!isOk(files)) return;
+    const file = files.value[0] as string;
+    await fs.rm(`${objectsDir}/${dir}/${file}`);
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.problems.map((p) => p.file)).toEqual([
+        `${OBJECTS_DIR}/${dir}/${file}`,
+        CONTEXT_FILE,
+      ]);
+    }
+    const loadResult = await contextService.loadContext();
+    expect(isOk(loadResult)).toBe(true);
+    if (isOk(loadResult)) {
+      const conversation = loadResult.value.conversation;
+      expect(conversation?.messages.length).toBeLessThan(300);
+      expect(conversation?.messageCount).toBe(conversation?.messages.length);
+    }
+  });
+
+  it('finishes a rekey interrupted while swapping in new objects', async () => {
+    await save(createContext('s1', 100), { snapshot: false });
+    // Crashed after moving the old objects aside, before the staged ones
+    // took their place
+    await fs.rename(
+      `${benTenDir}/${OBJECTS_DIR}`,
+      `${benTenDir}/${OBJECTS_REKEY_DIR}`,
+    );
+    await fs.mkdir(`${benTenDir}/${OBJECTS_PREVIOUS_DIR}`);
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.problems.map((p) => p.file)).toEqual([
+        OBJECTS_PREVIOUS_DIR,
+      ]);
+      expect(result.value.repairs).toEqual(['Finished the interrupted rekey']);
+    }
+    const loadResult = await contextService.loadContext();
+    expect(isOk(loadResult)).toBe(true);
+    if (isOk(loadResult)) {
+      expect(loadResult.value.conversation?.messages).toHaveLength(100);
+    }
+  });
+
+  it('removes unreadable snapshots', async () => {
+    await save(createContext('s1'));
+    await save(createContext('s2'));
+    const list = await contextService.listSnapshots();
+    if (!isOk(list)) return;
+    const id = list.value[0]?.id as string;
+    await fs.writeFileBuffer(
+      `${benTenDir}/${SNAPSHOTS_DIR}/${id}.ctx`,
+      Buffer.from('garbage'),
+    );
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.repairs).toEqual([
+        `Removed unreadable snapshot ${id}`,
+      ]);
+    }
+    const after = await contextService.listSnapshots();
+    expect(isOk(after) && after.value).toEqual([]);
+    expect(isOk(await contextService.collectGarbage())).toBe(true);
+  });
+
+  it('rebuilds invalid metadata from the context', async () => {
+    await save(createContext('s1'));
+    await fs.writeFile(`${benTenDir}/${METADATA_FILE}`, '{"broken":');
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.problems[0]?.file).toBe(METADATA_FILE);
+      expect(result.value.repairs).toEqual([
+        `Rebuilt ${METADATA_FILE} from the context (session count reset to 1; transcript path unknown; next save re-reads the whole transcript)`,
+      ]);
+    }
+    const metadata = await contextService.loadMetadata();
+    expect(isOk(metadata)).toBe(true);
+    if (isOk(metadata)) {
+      expect(metadata.value.directory).toBe(projectDir);
+      expect(metadata.value.lastSessionId).toBe('s1');
+    }
+  });
+
+  it('keeps the metadata fields that are still valid', async () => {
+    await save(createContext('s1'));
+    const metadataPath = `${benTenDir}/${METADATA_FILE}`;
+    const readResult = await fs.readFile(metadataPath);
+    if (!isOk(readResult)) throw new Error('metadata missing');
+    await fs.writeFile(
+      metadataPath,
+      JSON.stringify({ ...JSON.parse(readResult.value), directory: 42 }),
+    );
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isOk(result) && result.value.repairs).toEqual([
+      `Rebuilt ${METADATA_FILE} from the context (next save re-reads the whole transcript)`,
+    ]);
+    const metadata = await contextService.loadMetadata();
+    expect(isOk(metadata) && metadata.value).toMatchObject({
+      directory: projectDir,
+      sessionCount: 3,
+      transcriptPath: '/home/user/.claude/projects/-project/s.jsonl',
+    });
+  });
+
+  it('reports missing metadata and rebuilds it', async () => {
+    await contextService.saveContext(createContext('s1'));
+
+    const checkResult = await fsck.check();
+    expect(isOk(checkResult) && checkResult.value.problems).toEqual([
+      { file: METADATA_FILE, message: 'Missing' },
+    ]);
+
+    const repairResult = await fsck.check({ repair: true });
+
+    expect(isOk(repairResult) && repairResult.value.repairs).toHaveLength(1);
+    const metadata = await contextService.loadMetadata();
+    expect(isOk(metadata) && metadata.value.lastSessionId).toBe('s1');
+    const recheck = await fsck.check();
+    expect(isOk(recheck) && recheck.value.problems).toEqual([]);
+  });
+
+  it('refuses to check encrypted files without the key', async () => {
+    const encrypted = createContextService({
+      fs,
+      logger,
+      projectDir,
+      encryptionKey: randomBytes(32),
+    });
+    await encrypted.saveContext(createContext('s1', 10));
+
+    const result = await fsck.check({ repair: true });
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_MISSING);
+    }
+  });
+});
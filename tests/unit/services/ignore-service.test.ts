@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import { BEN10_DIR } from '../../../src/services/context-service.js';
+import {
+  IGNORE_FILE,
+  createIgnoreService,
+  parseIgnoreRules,
+} from '../../../src/services/ignore-service.js';
+
+describe('parseIgnoreRules', () => {
+  const projectDir = '/project';
+
+  it('matches names at any depth and directories with their contents', () => {
+    const rules = parseIgnoreRules('# secrets\n\n*.pem\nvendor/\n', projectDir);
+
+    expect(rules.size).toBe(2);
+    expect(rules.isIgnored('server.pem')).toBe(true);
+    expect(rules.isIgnored('config/tls/server.pem')).toBe(true);
+    expect(rules.isIgnored('vendor/lib/index.js')).toBe(true);
+    expect(rules.isIgnored('src/vendor/lib.js')).toBe(true);
+    // A directory-only pattern does not match a file of the same name
+    expect(rules.isIgnored('vendor')).toBe(false);
+    expect(rules.isIgnored('src/index.ts')).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to the project root', () => {
+    const rules = parseIgnoreRules('/fixtures/customers\ndocs/*.md');
+
+    expect(rules.isIgnored('fixtures/customers/acme.json')).toBe(true);
+    expect(rules.isIgnored('test/fixtures/customers/acme.json')).toBe(false);
+    expect(rules.isIgnored('docs/notes.md')).toBe(true);
+    expect(rules.isIgnored('docs/api/notes.md')).toBe(false);
+  });
+
+  it('supports ** and negation', () => {
+    const rules = parseIgnoreRules(
+      'data/**/private\n**/*.key\n*.env*\n!.env.example',
+    );
+
+    expect(rules.isIgnored('data/private/a.csv')).toBe(true);
+    expect(rules.isIgnored('data/2024/q1/private/a.csv')).toBe(true);
+    expect(rules.isIgnored('deep/nested/signing.key')).toBe(true);
+    expect(rules.isIgnored('.env.local')).toBe(true);
+    expect(rules.isIgnored('.env.example')).toBe(false);
+  });
+
+  it('resolves absolute paths against the project directory', () => {
+    const rules = parseIgnoreRules('secrets/', projectDir);
+
+    expect(rules.isIgnored('/project/secrets/prod.json')).toBe(true);
+    expect(rules.isIgnored('./secrets/prod.json')).toBe(true);
+    expect(rules.isIgnored('/elsewhere/secrets/prod.json')).toBe(false);
+  });
+});
+
+describe('IgnoreService', () => {
+  let fs: FileSystem;
+  const projectDir = '/project';
+  const logger = createLogger({ level: LogLevel.ERROR });
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+  });
+
+  it('returns empty rules when there is no ignore file', async () => {
+    const service = createIgnoreService({ fs, logger, projectDir });
+
+    const result = await service.loadRules();
+
+    expect(isOk(result) && result.value.size).toBe(0);
+  });
+
+  it('loads rules from .ben-ten/ignore', async () => {
+    await fs.mkdir(`${projectDir}/${BEN10_DIR}`, { recursive: true });
+    await fs.writeFile(
+      `${projectDir}/${BEN10_DIR}/${IGNORE_FILE}`,
+      'secrets/\n',
+    );
+    const service = createIgnoreService({ fs, logger, projectDir });
+
+    const result = await service.loadRules();
+
+    expect(service.getIgnorePath()).toBe('/project/.ben-ten/ignore');
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.isIgnored('/project/secrets/key.json')).toBe(true);
+    }
+  });
+
+  it('returns an error when the ignore file cannot be read', async () => {
+    // A directory in place of the file cannot be read
+    await fs.mkdir(`${projectDir}/${BEN10_DIR}/${IGNORE_FILE}`, {
+      recursive: true,
+    });
+    const service = createIgnoreService({ fs, logger, projectDir });
+
+    const result = await service.loadRules();
+
+    expect(isErr(result)).toBe(true);
+  });
+});
@@ -0,0 +1,396 @@
+import { randomBytes } from 'node:crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import type { ContextData, TranscriptEntry } from '../../../src/core/types.js';
+import { ErrorCode, createError } from '../../../src/infrastructure/errors.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { err, isErr, isOk } from '../../../src/infrastructure/result.js';
+import {
+  MAX_CHUNK_MESSAGES,
+  OBJECTS_DIR,
+  OBJECTS_PREVIOUS_DIR,
+  OBJECTS_REKEY_DIR,
+  OBJECT_MAGIC,
+  type ObjectStoreService,
+  chunkMessages,
+  createObjectStoreService,
+  hashObject,
+} from '../../../src/services/object-store-service.js';
+import {
+  createAssistantEntry,
+  createUserEntry,
+} from '../../fixtures/transcript-factory.js';
+
+describe('ObjectStoreService', () => {
+  let fs: FileSystem;
+  let service: ObjectStoreService;
+  const benTenDir = '/project/.ben-ten';
+  const logger = createLogger({ level: LogLevel.ERROR });
+
+  const createMessages = (count: number, from = 0): TranscriptEntry[] =>
+    Array.from({ length: count }, (_, i) =>
+      (from + i) % 2 === 0
+        ? createUserEntry(`Question ${from + i}`, { uuid: `uuid-${from + i}` })
+        : createAssistantEntry(`Answer ${from + i}`, {
+            uuid: `uuid-${from + i}`,
+          }),
+    );
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+    service = createObjectStoreService({ fs, logger, benTenDir });
+  });
+
+  describe('chunkMessages', () => {
+    it('splits messages into chunks that cover every message', () => {
+      const messages = createMessages(300);
+
+      const chunks = chunkMessages(messages);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.reduce((n, c) => n + c.messageCount, 0)).toBe(300);
+      for (const chunk of chunks) {
+        expect(chunk.hash).toBe(hashObject(chunk.data));
+        expect(chunk.messageCount).toBeLessThanOrEqual(MAX_CHUNK_MESSAGES);
+      }
+    });
+
+    it('keeps earlier chunks unchanged when messages are appended', () => {
+      const before = chunkMessages(createMessages(200));
+      const after = chunkMessages([
+        ...createMessages(200),
+        ...createMessages(20, 200),
+      ]);
+
+      const shared = before.slice(0, -1).map((c) => c.hash);
+      expect(after.slice(0, shared.length).map((c) => c.hash)).toEqual(shared);
+    });
+
+    it('keeps later chunks unchanged when early messages are dropped', () => {
+      const full = chunkMessages(createMessages(300));
+      const trimmed = chunkMessages(createMessages(250, 50));
+
+      const fullHashes = new Set(full.map((c) => c.hash));
+      const reused = trimmed.filter((c) => fullHashes.has(c.hash));
+      expect(reused.length).toBeGreaterThanOrEqual(trimmed.length - 1);
+    });
+
+    it('returns no chunks for an empty conversation', () => {
+      expect(chunkMessages([])).toEqual([]);
+    });
+  });
+
+  describe('writeObject / readObject', () => {
+    it('stores objects under their hash', async () => {
+      const data = Buffer.from('hello objects');
+
+      const writeResult = await service.writeObject(data);
+
+      expect(isOk(writeResult)).toBe(true);
+      if (!isOk(writeResult)) return;
+      const { hash } = writeResult.value;
+      expect(hash).toBe(hashObject(data));
+      expect(
+        await fs.exists(
+          `${benTenDir}/${OBJECTS_DIR}/${hash.slice(0, 2)}/${hash.slice(2)}`,
+        ),
+      ).toBe(true);
+
+      const readResult = await service.readObject(hash);
+      expect(isOk(readResult)).toBe(true);
+      if (isOk(readResult)) {
+        expect(readResult.value.equals(data)).toBe(true);
+      }
+    });
+
+    it('does not rewrite existing objects', async () => {
+      const data = Buffer.from('same content');
+
+      await service.writeObject(data);
+      const second = await service.writeObject(data);
+
+      expect(isOk(second)).toBe(true);
+      if (isOk(second)) {
+        expect(second.value.written).toBe(false);
+      }
+    });
+
+    it('returns OBJECT_NOT_FOUND for unknown hashes', async () => {
+      const result = await service.readObject(hashObject(Buffer.from('x')));
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.OBJECT_NOT_FOUND);
+      }
+    });
+
+    it('returns OBJECT_CORRUPTED when content does not match its hash', async () => {
+      const writeResult = await service.writeObject(Buffer.from('original'));
+      if (!isOk(writeResult)) return;
+      const hash = writeResult.value.hash;
+
+      // Valid uncompressed object whose content is something else
+      await fs.writeFileBuffer(
+        `${benTenDir}/${OBJECTS_DIR}/${hash.slice(0, 2)}/${hash.slice(2)}`,
+        Buffer.concat([
+          Buffer.from(OBJECT_MAGIC, 'ascii'),
+          Buffer.from([0x00, 0x00]),
+          Buffer.from('tampered'),
+        ]),
+      );
+
+      const result = await service.readObject(hash);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.OBJECT_CORRUPTED);
+        expect(result.error.message).toContain('hash');
+      }
+    });
+
+    it('encrypts objects when a key is configured', async () => {
+      const key = randomBytes(32);
+      const encrypted = createObjectStoreService({
+        fs,
+        logger,
+        benTenDir,
+        encryptionKey: key,
+      });
+      const writeResult = await encrypted.writeObject(Buffer.from('secret'));
+      if (!isOk(writeResult)) return;
+
+      const withoutKey = await service.readObject(writeResult.value.hash);
+      const withKey = await encrypted.readObject(writeResult.value.hash);
+
+      expect(isErr(withoutKey)).toBe(true);
+      if (isErr(withoutKey)) {
+        expect(withoutKey.error.code).toBe(ErrorCode.ENCRYPTION_KEY_MISSING);
+      }
+      expect(isOk(withKey)).toBe(true);
+    });
+  });
+
+  describe('conversations', () => {
+    it('round-trips messages through chunks', async () => {
+      const messages = createMessages(150);
+
+      const storeResult = await service.storeMessages(messages);
+      expect(isOk(storeResult)).toBe(true);
+      if (!isOk(storeResult)) return;
+
+      const loadResult = await service.loadMessages(storeResult.value.chunks);
+      expect(isOk(loadResult)).toBe(true);
+      if (isOk(loadResult)) {
+        expect(loadResult.value).toEqual(messages);
+      }
+    });
+
+    it('writes only new chunks when a conversation grows', async () => {
+      const first = await service.storeMessages(createMessages(200));
+      const second = await service.storeMessages([
+        ...createMessages(200),
+        ...createMessages(10, 200),
+      ]);
+
+      expect(isOk(first) && isOk(second)).toBe(true);
+      if (isOk(second)) {
+        expect(second.value.written).toBeLessThanOrEqual(2);
+        expect(second.value.written).toBeLessThan(second.value.chunks.length);
+      }
+    });
+
+    it('externalizes and inlines a context conversation', async () => {
+      const context: ContextData = {
+        version: '2.0.0',
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: 'chunks',
+        summary: 'Chunked',
+        conversation: { messages: createMessages(40), messageCount: 40 },
+      };
+
+      const stored = await service.externalizeConversation(context);
+      expect(isOk(stored)).toBe(true);
+      if (!isOk(stored)) return;
+      expect(stored.value.conversation?.messages).toEqual([]);
+      expect(stored.value.conversation?.chunks?.length).toBeGreaterThan(0);
+
+      const inlined = await service.inlineConversation(stored.value);
+      expect(isOk(inlined)).toBe(true);
+      if (isOk(inlined)) {
+        expect(inlined.value).toEqual(context);
+      }
+    });
+  });
+
+  describe('prune', () => {
+    it('deletes objects outside the keep set', async () => {
+      const kept = await service.writeObject(Buffer.from('kept'));
+      await service.writeObject(Buffer.from('dropped'));
+      if (!isOk(kept)) return;
+
+      const result = await service.prune(new Set([kept.value.hash]));
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.totalObjects).toBe(2);
+        expect(result.value.removed).toBe(1);
+        expect(result.value.freedBytes).toBeGreaterThan(0);
+      }
+      const remaining = await service.listObjects();
+      expect(isOk(remaining) && remaining.value).toEqual([kept.value.hash]);
+    });
+
+    it('keeps recent objects when a minimum age is given', async () => {
+      await service.writeObject(Buffer.from('fresh upload'));
+
+      const result = await service.prune(new Set(), 60_000);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.removed).toBe(0);
+      }
+    });
+  });
+
+  describe('rekey', () => {
+    it('re-encrypts every object under the new key', async () => {
+      const writeResult = await service.writeObject(Buffer.from('plain'));
+      if (!isOk(writeResult)) return;
+      const key = randomBytes(32);
+
+      const rekeyResult = await service.rekey(key);
+
+      expect(isOk(rekeyResult) && rekeyResult.value).toEqual({
+        rewritten: 1,
+        skipped: [],
+      });
+      const encrypted = createObjectStoreService({
+        fs,
+        logger,
+        benTenDir,
+        encryptionKey: key,
+      });
+      expect(isOk(await encrypted.readObject(writeResult.value.hash))).toBe(
+        true,
+      );
+      expect(isErr(await service.readObject(writeResult.value.hash))).toBe(
+        true,
+      );
+    });
+
+    it('leaves the store unchanged when a write fails', async () => {
+      const first = await service.writeObject(Buffer.from('first'));
+      const second = await service.writeObject(Buffer.from('second'));
+      if (!isOk(first) || !isOk(second)) return;
+      let writes = 0;
+      const failing = createObjectStoreService({
+        fs: {
+          ...fs,
+          writeFileBuffer: async (path, content) =>
+            ++writes === 2
+              ? err(createError(ErrorCode.FS_WRITE_ERROR, 'Disk full'))
+              : fs.writeFileBuffer(path, content),
+        },
+        logger,
+        benTenDir,
+      });
+
+      const rekeyResult = await failing.rekey(randomBytes(32));
+
+      expect(isErr(rekeyResult)).toBe(true);
+      for (const hash of [first.value.hash, second.value.hash]) {
+        expect(isOk(await service.readObject(hash))).toBe(true);
+      }
+      expect(await fs.exists(`${benTenDir}/${OBJECTS_REKEY_DIR}`)).toBe(false);
+    });
+
+    it('reports unreadable objects and copies them unchanged', async () => {
+      const good = await service.writeObject(Buffer.from('good'));
+      const bad = await service.writeObject(Buffer.from('bad'));
+      if (!isOk(good) || !isOk(bad)) return;
+      const badPath = `${benTenDir}/${OBJECTS_DIR}/${bad.value.hash.slice(0, 2)}/${bad.value.hash.slice(2)}`;
+      await fs.writeFileBuffer(badPath, Buffer.from('garbage'));
+
+      const rekeyResult = await service.rekey(randomBytes(32));
+
+      expect(isOk(rekeyResult) && rekeyResult.value).toEqual({
+        rewritten: 1,
+        skipped: [bad.value.hash],
+      });
+      const stored = await fs.readFileBuffer(badPath);
+      expect(isOk(stored) && stored.value.toString()).toBe('garbage');
+    });
+
+    it('reports a damaged encrypted object as corrupted, not a wrong key', async () => {
+      const key = randomBytes(32);
+      const encrypted = createObjectStoreService({
+        fs,
+        logger,
+        benTenDir,
+        encryptionKey: key,
+      });
+      const good = await encrypted.writeObject(Buffer.from('good'));
+      const bad = await encrypted.writeObject(Buffer.from('bad'));
+      if (!isOk(good) || !isOk(bad)) return;
+      const badPath = `${benTenDir}/${OBJECTS_DIR}/${bad.value.hash.slice(0, 2)}/${bad.value.hash.slice(2)}`;
+      const stored = await fs.readFileBuffer(badPath);
+      if (!isOk(stored)) return;
+      const damaged = Buffer.from(stored.value);
+      damaged[damaged.length - 1] =
+        (damaged[damaged.length - 1] as number) ^ 0xff;
+      await fs.writeFileBuffer(badPath, damaged);
+
+      const readResult = await encrypted.readObject(bad.value.hash);
+      const rekeyResult = await encrypted.rekey(randomBytes(32));
+
+      expect(isErr(readResult) && readResult.error.code).toBe(
+        ErrorCode.OBJECT_CORRUPTED,
+      );
+      expect(isOk(rekeyResult) && rekeyResult.value).toEqual({
+        rewritten: 1,
+        skipped: [bad.value.hash],
+      });
+    });
+
+    it('finishes a rekey interrupted while swapping', async () => {
+      const writeResult = await service.writeObject(Buffer.from('plain'));
+      if (!isOk(writeResult)) return;
+      const key = randomBytes(32);
+      const staged = createObjectStoreService({
+        fs,
+        logger,
+        benTenDir: `${benTenDir}/staged`,
+        encryptionKey: key,
+      });
+      await staged.writeObject(Buffer.from('plain'));
+      await fs.rename(
+        `${benTenDir}/staged/${OBJECTS_DIR}`,
+        `${benTenDir}/${OBJECTS_REKEY_DIR}`,
+      );
+      await fs.rename(
+        `${benTenDir}/${OBJECTS_DIR}`,
+        `${benTenDir}/${OBJECTS_PREVIOUS_DIR}`,
+      );
+
+      const recoverResult = await service.recoverRekey();
+
+      expect(isOk(recoverResult) && recoverResult.value).toBe(true);
+      const encrypted = createObjectStoreService({
+        fs,
+        logger,
+        benTenDir,
+        encryptionKey: key,
+      });
+      expect(isOk(await encrypted.readObject(writeResult.value.hash))).toBe(
+        true,
+      );
+      expect(await fs.exists(`${benTenDir}/${OBJECTS_PREVIOUS_DIR}`)).toBe(
+        false,
+      );
+    });
+  });
+});
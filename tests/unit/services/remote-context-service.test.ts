@@ -1,10 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ContextData } from '../../../src/core/types.js';
 import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { chunkMessages } from '../../../src/services/object-store-service.js';
 import {
   type RemoteContextService,
   createRemoteContextService,
 } from '../../../src/services/remote-context-service.js';
+import { createUserEntry } from '../../fixtures/transcript-factory.js';
 
 describe('RemoteContextService', () => {
   const logger = createLogger({ level: LogLevel.ERROR });
@@ -166,6 +168,66 @@ describe('RemoteContextService', () => {
       );
     });
 
+    it('should upload only the conversation chunks the server lacks', async () => {
+      const messages = Array.from({ length: 100 }, (_, i) =>
+        createUserEntry(`Message ${i}`, { uuid: `uuid-${i}` }),
+      );
+      const context: ContextData = {
+        ...createMockContext(),
+        conversation: { messages, messageCount: messages.length },
+      };
+      const chunks = chunkMessages(messages);
+      const missing = chunks[0]?.hash;
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(
+          url.endsWith('/objects/missing')
+            ? createMockResponse({ missing: [missing] })
+            : createMockResponse({ saved: true, stored: true }),
+        ),
+      );
+
+      const result = await service.saveContext('abc123', context);
+
+      expect(result.ok).toBe(true);
+      const urls = mockFetch.mock.calls.map((call) => call[0]);
+      expect(urls).toEqual([
+        `${serverUrl}/api/contexts/abc123/objects/missing`,
+        `${serverUrl}/api/contexts/abc123/objects/${missing}`,
+        `${serverUrl}/api/contexts/abc123`,
+      ]);
+      const saved = JSON.parse(mockFetch.mock.calls[2]?.[1].body);
+      expect(saved.conversation.messages).toEqual([]);
+      expect(saved.conversation.chunks).toEqual(chunks.map((c) => c.hash));
+    });
+
+    it('should send the whole context to servers without chunk support', async () => {
+      const context: ContextData = {
+        ...createMockContext(),
+        conversation: {
+          messages: [createUserEntry('Hello', { uuid: 'uuid-1' })],
+          messageCount: 1,
+        },
+      };
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(
+          url.endsWith('/objects/missing')
+            ? createMockResponse({ error: 'Not found' }, 404)
+            : createMockResponse({ saved: true }),
+        ),
+      );
+
+      const result = await service.saveContext('abc123', context);
+
+      expect(result.ok).toBe(true);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${serverUrl}/api/contexts/abc123`,
+        expect.objectContaining({
+          method: 'PUT',
+          body: JSON.stringify(context),
+        }),
+      );
+    });
+
     it('should return error on server failure', async () => {
       mockFetch.mockResolvedValue(createMockResponse({}, 500));
 
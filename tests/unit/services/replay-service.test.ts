@@ -1,18 +1,20 @@
 import { describe, expect, it } from 'vitest';
 import type { TranscriptEntry } from '../../../src/core/types.js';
 import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
-import { isOk } from '../../../src/infrastructure/result.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import { parseIgnoreRules } from '../../../src/services/ignore-service.js';
 import {
-  type ReplayOptions,
   type ReplayResult,
   type StoppingPoint,
   createReplayService,
-  estimateTokens,
+  digestSegments,
   findAllStoppingPoints,
   isGitCommit,
   isSemanticMarker,
   isTaskCompletion,
+  scoreReplayEntries,
 } from '../../../src/services/replay-service.js';
+import { createToolFormatterRegistry } from '../../../src/services/tool-formatter-service.js';
 import {
   createAssistantEntry,
   createTextBlock,
@@ -24,23 +26,6 @@ describe('ReplayService', () => {
   const logger = createLogger({ level: LogLevel.ERROR });
   const service = createReplayService({ logger });
 
-  describe('estimateTokens', () => {
-    it('estimates 1 token per 4 characters', () => {
-      expect(estimateTokens('a'.repeat(4))).toBe(1);
-      expect(estimateTokens('a'.repeat(8))).toBe(2);
-      expect(estimateTokens('a'.repeat(100))).toBe(25);
-    });
-
-    it('handles empty string', () => {
-      expect(estimateTokens('')).toBe(0);
-    });
-
-    it('rounds down partial tokens', () => {
-      expect(estimateTokens('abc')).toBe(0);
-      expect(estimateTokens('abcde')).toBe(1);
-    });
-  });
-
   describe('isGitCommit', () => {
     it('detects git commit command in Bash tool', () => {
       const entry = createAssistantEntry([
@@ -524,6 +509,313 @@ describe('ReplayService', () => {
         expect(result.value.messageCount).toBe(2); // Messages at index 4 and 5
       }
     });
+
+    describe('ranked mode', () => {
+      const tangent = (i: number) =>
+        createAssistantEntry(
+          `Looking around the codebase, step ${i}. `.repeat(8),
+        );
+
+      const messages: TranscriptEntry[] = [
+        createUserEntry('Always use pnpm, never npm, in this repo'),
+        ...Array.from({ length: 10 }, (_, i) => tangent(i)),
+        createAssistantEntry([
+          createTextBlock('Fixed the lockfile'),
+          createToolUseBlock('Edit', { file_path: '/project/package.json' }),
+        ]),
+        createUserEntry('Thanks'),
+      ];
+
+      it('keeps the first instruction over a long tangent and marks gaps', () => {
+        const result = service.generateReplay(messages, {
+          mode: 'ranked',
+          maxTokens: 150,
+        });
+
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          const { replay } = result.value;
+          expect(replay).toContain('Always use pnpm, never npm');
+          expect(replay).toContain('Fixed the lockfile');
+          expect(replay).toMatch(/\*\[… \d+ messages? omitted …\]\*/);
+          expect(replay.indexOf('Always use pnpm')).toBeLessThan(
+            replay.indexOf('Fixed the lockfile'),
+          );
+          expect(result.value.tokenCount).toBeLessThanOrEqual(150);
+          expect(result.value.omittedMessageCount).toBe(
+            messages.length - result.value.messageCount,
+          );
+          expect(result.value.stoppingPointType).toBe('token_budget');
+        }
+      });
+
+      it('keeps everything without markers when it all fits', () => {
+        const result = service.generateReplay(messages, { mode: 'ranked' });
+
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.messageCount).toBe(messages.length);
+          expect(result.value.omittedMessageCount).toBe(0);
+          expect(result.value.replay).not.toContain('omitted');
+        }
+      });
+    });
+  });
+
+  describe('segment digests', () => {
+    const commit = (message: string) =>
+      createAssistantEntry([
+        createTextBlock(`Committing: ${message}`),
+        createToolUseBlock('Bash', { command: `git commit -m "${message}"` }),
+      ]);
+
+    const messages: TranscriptEntry[] = [
+      createUserEntry('Add a retry to the fetch helper'),
+      createAssistantEntry([
+        createToolUseBlock('Read', { file_path: 'src/fetch.ts' }),
+        createToolUseBlock('Edit', { file_path: 'src/fetch.ts' }),
+        createToolUseBlock('Read', { file_path: 'README.md' }),
+      ]),
+      createAssistantEntry([
+        createToolUseBlock('Bash', { command: 'npm test' }),
+      ]),
+      commit('Add fetch retry'),
+      createUserEntry('Now document it'),
+      createAssistantEntry([
+        createToolUseBlock('Edit', { file_path: 'README.md' }),
+        createToolUseBlock('Read', { file_path: '.env' }),
+      ]),
+      commit('Document retry'),
+      createUserEntry('Next: the timeout option'),
+      createAssistantEntry('Working on the timeout'),
+    ];
+
+    it('digests each segment that ends at a stopping point', () => {
+      const points = findAllStoppingPoints(messages);
+
+      const digests = digestSegments(
+        messages,
+        points,
+        messages.length,
+        parseIgnoreRules('.env'),
+      );
+
+      expect(digests).toHaveLength(2);
+      expect(digests[0]).toEqual({
+        startIndex: 0,
+        endIndex: 3,
+        stoppingPointType: 'git_commit',
+        messageCount: 4,
+        filesChanged: ['src/fetch.ts'],
+        filesRead: ['README.md'],
+        commands: ['npm test'],
+        commits: ['Add fetch retry'],
+        outcome: 'Committing: Add fetch retry',
+      });
+      expect(digests[1]?.startIndex).toBe(4);
+      expect(digests[1]?.filesRead).toEqual([]);
+      expect(digests[1]?.filesChanged).toEqual(['README.md']);
+    });
+
+    it('digests older segments and keeps the recent one in full', () => {
+      const result = service.generateReplay(messages, { digests: true });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const { replay, digests } = result.value;
+        expect(digests).toHaveLength(2);
+        expect(replay).toMatch(/^## Earlier Segments/);
+        expect(replay).toContain(
+          '**Segment 1** (4 messages, ended by git commit)',
+        );
+        expect(replay).toContain('- Committed: Document retry');
+        expect(replay).toContain('Next: the timeout option');
+        expect(replay.indexOf('Segment 2')).toBeLessThan(
+          replay.indexOf('## Recent Conversation'),
+        );
+      }
+    });
+
+    it('expands one digest per earlier stopping point', () => {
+      const result = service.generateReplay(messages, {
+        digests: true,
+        stopPointIndex: 1,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.digests).toHaveLength(1);
+        expect(result.value.replay).toContain('Now document it');
+        expect(result.value.replay).not.toContain('Segment 2');
+      }
+    });
+
+    it('expands one segment by its digest number', () => {
+      const result = service.expandSegment(messages, 2);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.startMessageIndex).toBe(4);
+        expect(result.value.messageCount).toBe(3);
+        expect(result.value.stoppingPointType).toBe('git_commit');
+        expect(result.value.replay).toContain('Now document it');
+        expect(result.value.replay).toContain('Document retry');
+        expect(result.value.replay).not.toContain('Add a retry');
+        expect(result.value.replay).not.toContain('Next: the timeout option');
+      }
+    });
+
+    it('rejects a segment that does not exist', () => {
+      expect(isErr(service.expandSegment(messages, 3))).toBe(true);
+      expect(isErr(service.expandSegment(messages, 0))).toBe(true);
+    });
+
+    it('leaves out the oldest digests that do not fit half the budget', () => {
+      const long: TranscriptEntry[] = Array.from({ length: 8 }, (_, i) => [
+        createUserEntry(`Step ${i}`),
+        createAssistantEntry([
+          createToolUseBlock('Edit', { file_path: `/project/src/step${i}.ts` }),
+        ]),
+        commit(`Step ${i} done`),
+      ]).flat();
+
+      const result = service.generateReplay(long, {
+        digests: true,
+        maxTokens: 120,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const shown = result.value.digests ?? [];
+        expect(shown.length).toBeGreaterThan(0);
+        expect(shown.length).toBeLessThan(8);
+        expect(shown.at(-1)?.commits).toEqual(['Step 7 done']);
+        expect(result.value.replay).toContain(
+          `*[… ${8 - shown.length} earlier segment`,
+        );
+        expect(result.value.tokenCount).toBeLessThanOrEqual(120);
+      }
+    });
+  });
+
+  describe('output formats', () => {
+    const messages: TranscriptEntry[] = [
+      createUserEntry('Use <Result> & keep "quotes"'),
+      createAssistantEntry([
+        createTextBlock('Writing it'),
+        createToolUseBlock(
+          'Write',
+          { file_path: 'src/a.ts', content: 'x'.repeat(2000) },
+          'tool-1',
+        ),
+        createToolUseBlock('Read', { file_path: 'secrets/prod.json' }),
+      ]),
+    ];
+    const ignore = parseIgnoreRules('secrets/');
+
+    it('writes XML turns with escaped text and tool_call elements', () => {
+      const result = service.generateReplay(messages, {
+        format: 'xml',
+        ignore,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.replay).toBe(
+          [
+            '<conversation>',
+            '<turn role="user">Use &lt;Result&gt; &amp; keep &quot;quotes&quot;</turn>',
+            '<turn role="assistant">Writing it',
+            '<tool_call name="Write">src/a.ts</tool_call>',
+            '<tool_call name="Read">(ignored path)</tool_call>',
+            '</turn>',
+            '</conversation>',
+          ].join('\n'),
+        );
+      }
+    });
+
+    it('writes JSON turns with tool calls kept as objects', () => {
+      const result = service.generateReplay(messages, {
+        format: 'json',
+        ignore,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const { turns } = JSON.parse(result.value.replay);
+        expect(turns[0]).toEqual({
+          role: 'user',
+          text: 'Use <Result> & keep "quotes"',
+        });
+        expect(turns[1].text).toBe('Writing it');
+        expect(turns[1].toolCalls[0].id).toBe('tool-1');
+        expect(turns[1].toolCalls[0].input.file_path).toBe('src/a.ts');
+        expect(turns[1].toolCalls[0].input.content.length).toBeLessThanOrEqual(
+          500,
+        );
+        expect(turns[1].toolCalls[1].input).toEqual({ ignored: true });
+      }
+    });
+
+    it('writes valid JSON with gaps and earlier segments', () => {
+      const long: TranscriptEntry[] = [
+        createUserEntry('First task'),
+        createAssistantEntry([
+          createToolUseBlock('Bash', { command: 'git commit -m "First"' }),
+        ]),
+        createUserEntry('Always run the linter'),
+        ...Array.from({ length: 6 }, (_, i) =>
+          createAssistantEntry(`Exploring ${i} `.repeat(20)),
+        ),
+      ];
+
+      const result = service.generateReplay(long, {
+        format: 'json',
+        mode: 'ranked',
+        digests: true,
+        maxTokens: 150,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const parsed = JSON.parse(result.value.replay);
+        expect(parsed.earlierSegments[0].commits).toEqual(['First']);
+        expect(parsed.turns[0]).toEqual({
+          role: 'user',
+          text: 'Always run the linter',
+        });
+        expect(
+          parsed.turns.some(
+            (turn: { omittedMessages?: number }) => turn.omittedMessages,
+          ),
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe('scoreReplayEntries', () => {
+    it('ranks requests, fixes and edits above exploration', () => {
+      const messages: TranscriptEntry[] = [
+        createUserEntry('Please add a retry to the fetch helper'),
+        createAssistantEntry('Let me look at the code first'),
+        createAssistantEntry([
+          createTextBlock('I decided to use exponential backoff'),
+          createToolUseBlock('Edit', { file_path: '/project/fetch.ts' }),
+        ]),
+        createAssistantEntry('Reading more files'),
+      ];
+
+      const [request, explore, edit, later] = scoreReplayEntries(
+        messages,
+        0,
+        new Set(),
+      ) as number[];
+
+      expect(request).toBeGreaterThan(edit as number);
+      expect(edit).toBeGreaterThan(later as number);
+      expect(later).toBeGreaterThan(explore as number);
+    });
   });
 
   describe('formatReplay', () => {
@@ -559,6 +851,28 @@ describe('ReplayService', () => {
       }
     });
 
+    it('masks tool calls that touch ignored paths', () => {
+      const messages: TranscriptEntry[] = [
+        createAssistantEntry([
+          createToolUseBlock('Read', { file_path: 'secrets/prod.json' }),
+          createToolUseBlock('Bash', { command: 'cat secrets/prod.json' }),
+          createToolUseBlock('Read', { file_path: 'src/index.ts' }),
+        ]),
+      ];
+
+      const result = service.generateReplay(messages, {
+        ignore: parseIgnoreRules('secrets/'),
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.replay).not.toContain('secrets/prod.json');
+        expect(result.value.replay).toContain('[Read: (ignored path)]');
+        expect(result.value.replay).toContain('[Bash: (ignored path)]');
+        expect(result.value.replay).toContain('[Read: src/index.ts]');
+      }
+    });
+
     it('truncates long user messages', () => {
       const longMessage = 'A'.repeat(600);
       const messages: TranscriptEntry[] = [createUserEntry(longMessage)];
@@ -675,6 +989,66 @@ describe('ReplayService', () => {
       }
     });
 
+    it('formats tools with the configured formatters', () => {
+      const custom = createReplayService({
+        logger,
+        toolFormatters: createToolFormatterRegistry([
+          { tool: 'mcp__deploy__*', template: '{env}', label: 'Deploy' },
+        ]),
+      });
+      const messages: TranscriptEntry[] = [
+        createAssistantEntry([
+          createToolUseBlock('mcp__deploy__release', { env: 'staging' }),
+          createToolUseBlock('mcp__github__get_me', {}),
+        ]),
+      ];
+
+      const result = custom.generateReplay(messages);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.replay).toContain('[Deploy: staging]');
+        expect(result.value.replay).toContain('[github/get_me]');
+      }
+    });
+
+    it('summarizes subagent runs under their Task calls', () => {
+      const messages: TranscriptEntry[] = [
+        createAssistantEntry([
+          createToolUseBlock(
+            'Task',
+            { description: 'Fix tests', prompt: 'Make the tests pass' },
+            'task-1',
+          ),
+        ]),
+        {
+          ...createAssistantEntry('Editing app.ts now'),
+          isSidechain: true,
+        },
+      ];
+
+      const result = service.generateReplay(messages, {
+        subagents: [
+          {
+            toolUseId: 'task-1',
+            status: 'completed',
+            messageCount: 4,
+            toolCallCount: 2,
+            filesChanged: ['src/app.ts'],
+            outcome: 'Fixed the off-by-one',
+          },
+        ],
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.replay).toContain(
+          '[Task: Fix tests] (completed, 2 tool calls, changed src/app.ts)\n  Outcome: Fixed the off-by-one',
+        );
+        expect(result.value.replay).not.toContain('Editing app.ts now');
+      }
+    });
+
     it('omits thinking blocks', () => {
       const messages: TranscriptEntry[] = [
         createAssistantEntry([
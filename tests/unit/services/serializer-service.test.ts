@@ -1,14 +1,21 @@
+import { randomBytes } from 'node:crypto';
 import { beforeEach, describe, expect, it } from 'vitest';
-import type { ContextData } from '../../../src/core/types.js';
+import { CONTEXT_VERSION, type ContextData } from '../../../src/core/types.js';
+import { crc32 } from '../../../src/infrastructure/checksum.js';
 import { ErrorCode } from '../../../src/infrastructure/errors.js';
 import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import { createCompressionService } from '../../../src/services/compression-service.js';
 import {
   COMPRESSION_TYPE,
+  FORMAT_FLAGS,
   FORMAT_VERSION,
+  FORMAT_VERSION_V1,
   MAGIC_HEADER,
+  SECTION_ID,
   type SerializerService,
   createSerializerService,
 } from '../../../src/services/serializer-service.js';
+import { createUserEntry } from '../../fixtures/transcript-factory.js';
 
 describe('SerializerService', () => {
   let service: SerializerService;
@@ -18,7 +25,7 @@ describe('SerializerService', () => {
   });
 
   const createTestContext = (): ContextData => ({
-    version: '2.0.0',
+    version: CONTEXT_VERSION,
     createdAt: Date.now(),
     updatedAt: Date.now(),
     sessionId: 'test-session-123',
@@ -176,7 +183,7 @@ describe('SerializerService', () => {
     it('returns error for corrupted compressed data', () => {
       const data = Buffer.concat([
         Buffer.from(MAGIC_HEADER),
-        Buffer.from([FORMAT_VERSION]),
+        Buffer.from([FORMAT_VERSION_V1]),
         Buffer.from([COMPRESSION_TYPE.LZ4]),
         Buffer.from([0x64, 0x00, 0x00, 0x00]), // Size: 100
         Buffer.from('not valid lz4 compressed data'),
@@ -191,6 +198,490 @@ describe('SerializerService', () => {
     });
   });
 
+  describe('checksum', () => {
+    it('writes a version 0x02 header with checksum', () => {
+      const result = service.serialize(createTestContext());
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value[4]).toBe(0x02);
+        expect(result.value[10]).toBe(FORMAT_FLAGS.SECTIONED); // flags
+        expect(result.value.readUInt32LE(12)).not.toBe(0);
+      }
+    });
+
+    it('returns CHECKSUM_MISMATCH when payload bytes are flipped', () => {
+      const serializeResult = service.serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const corrupted = Buffer.from(serializeResult.value);
+      const last = corrupted.length - 1;
+      corrupted[last] = (corrupted[last] as number) ^ 0xff;
+
+      const result = service.deserialize(corrupted);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CHECKSUM_MISMATCH);
+      }
+    });
+
+    it('returns CHECKSUM_MISMATCH for a truncated payload', () => {
+      const serializeResult = service.serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const truncated = serializeResult.value.subarray(
+        0,
+        serializeResult.value.length - 5,
+      );
+
+      const result = service.deserialize(truncated);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CHECKSUM_MISMATCH);
+      }
+    });
+
+    it('rejects unknown flags', () => {
+      const serializeResult = service.serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const flagged = Buffer.from(serializeResult.value);
+      flagged[10] = 0x80;
+
+      const result = service.deserialize(flagged);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.DESERIALIZE_FAILED);
+        expect(result.error.message).toContain('flags');
+      }
+    });
+
+    it('reads version 0x01 files without checksum', () => {
+      const original = createTestContext();
+      const json = Buffer.from(JSON.stringify(original), 'utf-8');
+      const compressed = createCompressionService().compress(json);
+      expect(isOk(compressed)).toBe(true);
+      if (!isOk(compressed)) return;
+
+      const header = Buffer.alloc(10);
+      header.write(MAGIC_HEADER, 0, 4, 'ascii');
+      header[4] = FORMAT_VERSION_V1;
+      header[5] = COMPRESSION_TYPE.LZ4;
+      header.writeUInt32LE(json.length, 6);
+
+      const result = service.deserialize(
+        Buffer.concat([header, compressed.value]),
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(original);
+      }
+    });
+  });
+
+  describe('compression codecs', () => {
+    it('writes the configured codec into the header', () => {
+      const brotli = createSerializerService({ compression: 'brotli' });
+
+      const result = brotli.serialize(createTestContext());
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value[5]).toBe(COMPRESSION_TYPE.BROTLI);
+      }
+    });
+
+    it('decodes by header byte regardless of the reader setting', () => {
+      const original = createTestContext();
+      const gzipResult = createSerializerService({
+        compression: 'gzip',
+      }).serialize(original);
+      expect(isOk(gzipResult)).toBe(true);
+      if (!isOk(gzipResult)) return;
+
+      const result = service.deserialize(gzipResult.value);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(original);
+      }
+    });
+
+    it('chooses the codec by payload size under auto', () => {
+      const auto = createSerializerService({ compression: 'auto' });
+      const large: ContextData = {
+        ...createTestContext(),
+        summary: 'long transcript summary '.repeat(5000),
+      };
+
+      const smallResult = auto.serialize(createTestContext());
+      const largeResult = auto.serialize(large);
+
+      expect(isOk(smallResult) && isOk(largeResult)).toBe(true);
+      if (isOk(smallResult) && isOk(largeResult)) {
+        expect(smallResult.value[5]).toBe(COMPRESSION_TYPE.LZ4);
+        expect(largeResult.value[5]).toBe(COMPRESSION_TYPE.BROTLI);
+      }
+    });
+  });
+
+  describe('encryption', () => {
+    const key = randomBytes(32);
+
+    it('round-trips encrypted context data', () => {
+      const encrypted = createSerializerService({ encryptionKey: key });
+      const original = createTestContext();
+
+      const serializeResult = encrypted.serialize(original);
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      expect(serializeResult.value[10]).toBe(
+        FORMAT_FLAGS.ENCRYPTED | FORMAT_FLAGS.SECTIONED,
+      );
+      expect(encrypted.isEncrypted(serializeResult.value)).toBe(true);
+
+      const result = encrypted.deserialize(serializeResult.value);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(original);
+      }
+    });
+
+    it('returns ENCRYPTION_KEY_MISSING when reading without a key', () => {
+      const serializeResult = createSerializerService({
+        encryptionKey: key,
+      }).serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = service.deserialize(serializeResult.value);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.ENCRYPTION_KEY_MISSING);
+      }
+    });
+
+    it('returns DECRYPTION_FAILED when reading with the wrong key', () => {
+      const serializeResult = createSerializerService({
+        encryptionKey: key,
+      }).serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = createSerializerService({
+        encryptionKey: randomBytes(32),
+      }).deserialize(serializeResult.value);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.DECRYPTION_FAILED);
+      }
+    });
+
+    it('reports damaged encrypted data as corruption, not a wrong key', () => {
+      const encrypted = createSerializerService({ encryptionKey: key });
+      const serializeResult = encrypted.serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+      const damaged = Buffer.from(serializeResult.value);
+      const at = damaged.length - 5;
+      damaged[at] = (damaged[at] as number) ^ 0xff;
+
+      const result = encrypted.salvage(damaged);
+
+      expect(isErr(result) && result.error.code).toBe(
+        ErrorCode.CHECKSUM_MISMATCH,
+      );
+    });
+
+    it('still reads unencrypted files when a key is set', () => {
+      const serializeResult = service.serialize(createTestContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const encrypted = createSerializerService({ encryptionKey: key });
+
+      expect(encrypted.isEncrypted(serializeResult.value)).toBe(false);
+      expect(isOk(encrypted.deserialize(serializeResult.value))).toBe(true);
+    });
+  });
+
+  describe('sections', () => {
+    const createFullContext = (): ContextData => ({
+      ...createTestContext(),
+      conversation: {
+        messages: [],
+        messageCount: 0,
+      },
+      conversationReplay: '## Replay',
+      files: [{ path: '/test.ts', lastAccessed: 1, accessCount: 2 }],
+      toolHistory: [{ toolName: 'Read', timestamp: 1, success: true }],
+    });
+
+    it('loads only the summary section when requested', () => {
+      const original = createFullContext();
+      const serializeResult = service.serialize(original);
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = service.deserialize(serializeResult.value, {
+        sections: ['summary'],
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.sessionId).toBe(original.sessionId);
+        expect(result.value.summary).toBe(original.summary);
+        expect(result.value.keyFiles).toEqual(original.keyFiles);
+        expect(result.value.conversation).toBeUndefined();
+        expect(result.value.conversationReplay).toBeUndefined();
+        expect(result.value.files).toBeUndefined();
+        expect(result.value.toolHistory).toBeUndefined();
+      }
+    });
+
+    it('always includes the summary with requested sections', () => {
+      const original = createFullContext();
+      const serializeResult = service.serialize(original);
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = service.deserialize(serializeResult.value, {
+        sections: ['conversation'],
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.summary).toBe(original.summary);
+        expect(result.value.conversation).toEqual(original.conversation);
+        expect(result.value.files).toBeUndefined();
+      }
+    });
+
+    it('loads sections of encrypted files', () => {
+      const encrypted = createSerializerService({
+        encryptionKey: randomBytes(32),
+      });
+      const serializeResult = encrypted.serialize(createFullContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = encrypted.deserialize(serializeResult.value, {
+        sections: ['summary'],
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.sessionId).toBe('test-session-123');
+        expect(result.value.conversation).toBeUndefined();
+      }
+    });
+
+    it('skips sections with unknown IDs', () => {
+      const serializeResult = service.serialize(createFullContext());
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      // Second index entry is the conversation section; relabel it
+      const patched = Buffer.from(serializeResult.value);
+      const entry = 16 + 2 + 17;
+      expect(patched[entry]).toBe(SECTION_ID.conversation);
+      patched[entry] = 0x7f;
+      patched.writeUInt32LE(crc32(patched.subarray(16)), 12);
+
+      const result = service.deserialize(patched);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.conversation).toBeUndefined();
+        expect(result.value.files).toHaveLength(1);
+      }
+    });
+
+    it('reads unsectioned version 0x02 files in full', () => {
+      const original = createFullContext();
+      const json = Buffer.from(JSON.stringify(original), 'utf-8');
+      const compressed = createCompressionService().compress(json);
+      expect(isOk(compressed)).toBe(true);
+      if (!isOk(compressed)) return;
+
+      const header = Buffer.alloc(16);
+      header.write(MAGIC_HEADER, 0, 4, 'ascii');
+      header[4] = FORMAT_VERSION;
+      header[5] = COMPRESSION_TYPE.LZ4;
+      header.writeUInt32LE(json.length, 6);
+      header.writeUInt32LE(crc32(compressed.value), 12);
+
+      const result = service.deserialize(
+        Buffer.concat([header, compressed.value]),
+        { sections: ['summary'] },
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual(original);
+      }
+    });
+  });
+
+  describe('schema versions', () => {
+    it('migrates older contexts when loading', () => {
+      const serializeResult = service.serialize({
+        ...createTestContext(),
+        version: '1.0.0',
+      });
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = service.deserialize(serializeResult.value);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.version).toBe(CONTEXT_VERSION);
+      }
+    });
+
+    it('writes the configured target version for older peers', () => {
+      const downgrading = createSerializerService({ targetVersion: '2.1.0' });
+      const serializeResult = downgrading.serialize({
+        ...createTestContext(),
+        conversationReplay: '## Replay',
+      });
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      // An uncompressed summary section shows the version as written
+      const written = createSerializerService({
+        compression: 'none',
+        targetVersion: '2.1.0',
+      }).serialize(createTestContext());
+      expect(isOk(written) && written.value.toString('utf-8')).toContain(
+        '"version":"2.1.0"',
+      );
+
+      const result = service.deserialize(serializeResult.value);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.conversationReplay).toBe('## Replay');
+        expect(result.value.summary).toBe(createTestContext().summary);
+      }
+    });
+
+    it('writes the v1 container for versions that predate format 0x02', () => {
+      const downgrading = createSerializerService({
+        compression: 'brotli',
+        targetVersion: '2.0.0',
+      });
+      const serializeResult = downgrading.serialize({
+        ...createTestContext(),
+        conversationReplay: '## Replay',
+        conversation: {
+          messages: [createUserEntry('Hello')],
+          messageCount: 1,
+        },
+      });
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+      const data = serializeResult.value;
+
+      // Decode the way a v1 reader does: 10-byte header, one LZ4 block
+      expect(data.subarray(0, 4).toString('ascii')).toBe(MAGIC_HEADER);
+      expect(data[4]).toBe(FORMAT_VERSION_V1);
+      expect(data[5]).toBe(COMPRESSION_TYPE.LZ4);
+      const json = createCompressionService().decompress(data.subarray(10));
+      expect(isOk(json)).toBe(true);
+      if (!isOk(json)) return;
+      expect(json.value.length).toBe(data.readUInt32LE(6));
+      const decoded = JSON.parse(json.value.toString('utf-8'));
+
+      expect(decoded.version).toBe('2.0.0');
+      expect(decoded.conversationReplay).toBeUndefined();
+      expect(decoded.conversation.messages).toHaveLength(1);
+      expect(decoded.conversation.chunks).toBeUndefined();
+      expect(service.deserialize(data).ok).toBe(true);
+    });
+
+    it('rejects encryption for versions that predate format 0x02', () => {
+      const result = createSerializerService({
+        encryptionKey: randomBytes(32),
+        targetVersion: '2.0.0',
+      }).serialize(createTestContext());
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SERIALIZE_FAILED);
+      }
+    });
+
+    it('returns CONTEXT_VERSION_MISMATCH for files from a newer version', () => {
+      const serializeResult = service.serialize({
+        ...createTestContext(),
+        version: '99.0.0',
+      });
+      expect(isOk(serializeResult)).toBe(true);
+      if (!isOk(serializeResult)) return;
+
+      const result = service.deserialize(serializeResult.value);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CONTEXT_VERSION_MISMATCH);
+      }
+    });
+  });
+
+  describe('salvage', () => {
+    const createDamagedFile = (offset: (data: Buffer) => number): Buffer => {
+      const serializeResult = service.serialize({
+        ...createTestContext(),
+        conversationReplay: '## Replay',
+        files: [{ path: '/test.ts', lastAccessed: 1, accessCount: 2 }],
+      });
+      if (!isOk(serializeResult)) throw new Error('serialize failed');
+      const damaged = Buffer.from(serializeResult.value);
+      const at = offset(damaged);
+      damaged[at] = (damaged[at] as number) ^ 0xff;
+      return damaged;
+    };
+
+    it('recovers the sections that are still intact', () => {
+      // The files section is written last
+      const damaged = createDamagedFile((data) => data.length - 1);
+      expect(isErr(service.deserialize(damaged))).toBe(true);
+
+      const result = service.salvage(damaged);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.lostSections).toEqual(['files']);
+        expect(result.value.context.summary).toBe(createTestContext().summary);
+        expect(result.value.context.conversationReplay).toBe('## Replay');
+        expect(result.value.context.files).toBeUndefined();
+      }
+    });
+
+    it('fails when the summary section is damaged', () => {
+      // Three sections: the summary starts right after the index
+      const damaged = createDamagedFile(() => 16 + 2 + 3 * 17);
+
+      const result = service.salvage(damaged);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.CHECKSUM_MISMATCH);
+      }
+    });
+  });
+
   describe('detectFormat', () => {
     it('detects compressed format', () => {
       const context = createTestContext();
@@ -265,7 +756,7 @@ describe('SerializerService', () => {
   describe('round-trip', () => {
     it('preserves all context fields', () => {
       const original: ContextData = {
-        version: '2.0.0',
+        version: CONTEXT_VERSION,
         createdAt: 1234567890,
         updatedAt: 1234567891,
         sessionId: 'session-abc',
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isOk } from '../../../src/infrastructure/result.js';
+import {
+  type SessionGraphService,
+  createSessionGraphService,
+  findSessionChain,
+} from '../../../src/services/session-graph-service.js';
+import {
+  type TranscriptService,
+  createTranscriptService,
+} from '../../../src/services/transcript-service.js';
+import { setupTranscriptFile } from '../../fixtures/test-helpers.js';
+import {
+  createAssistantEntry,
+  createSummaryEntry,
+  createTranscript,
+  createUserEntry,
+} from '../../fixtures/transcript-factory.js';
+
+describe('SessionGraphService', () => {
+  let fs: FileSystem;
+  let transcriptService: TranscriptService;
+  let service: SessionGraphService;
+  const dir = '/home/user/.claude/projects/-project';
+  const logger = createLogger({ level: LogLevel.ERROR });
+
+  const at = (minute: number) =>
+    new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString();
+
+  /** Original session, then a resume that points back at it */
+  const writeResumedSession = async () => {
+    await setupTranscriptFile(
+      fs,
+      `${dir}/first.jsonl`,
+      createTranscript([
+        createUserEntry('Start', {
+          uuid: 'f1',
+          sessionId: 'first',
+          timestamp: at(0),
+        }),
+        createAssistantEntry('Started', {
+          uuid: 'f2',
+          parentUuid: 'f1',
+          sessionId: 'first',
+          timestamp: at(1),
+        }),
+      ]),
+    );
+    await setupTranscriptFile(
+      fs,
+      `${dir}/second.jsonl`,
+      createTranscript([
+        // Resumes copy the tail of the earlier conversation
+        createAssistantEntry('Started', {
+          uuid: 'f2',
+          parentUuid: 'f1',
+          sessionId: 'second',
+          timestamp: at(1),
+        }),
+        createUserEntry('Continue', {
+          uuid: 's1',
+          parentUuid: 'f2',
+          sessionId: 'second',
+          timestamp: at(10),
+        }),
+      ]),
+    );
+    await setupTranscriptFile(
+      fs,
+      `${dir}/unrelated.jsonl`,
+      createTranscript([
+        createUserEntry('Other work', {
+          uuid: 'u1',
+          sessionId: 'unrelated',
+          timestamp: at(5),
+        }),
+      ]),
+    );
+  };
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+    transcriptService = createTranscriptService({ fs, logger });
+    service = createSessionGraphService({ fs, logger, transcriptService });
+  });
+
+  it('orders transcripts in time and links resumes to their parents', async () => {
+    await writeResumedSession();
+
+    const result = await service.buildGraph(dir);
+
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+    const { transcripts } = result.value;
+    expect(transcripts.map((t) => t.path)).toEqual([
+      `${dir}/first.jsonl`,
+      `${dir}/unrelated.jsonl`,
+      `${dir}/second.jsonl`,
+    ]);
+    expect(transcripts.map((t) => t.parents)).toEqual([
+      [],
+      [],
+      [`${dir}/first.jsonl`],
+    ]);
+    expect(findSessionChain(result.value, `${dir}/second.jsonl`)).toEqual([
+      `${dir}/first.jsonl`,
+      `${dir}/second.jsonl`,
+    ]);
+  });
+
+  it('links compacted transcripts through summary leaf UUIDs', async () => {
+    await setupTranscriptFile(
+      fs,
+      `${dir}/old.jsonl`,
+      createTranscript([
+        createUserEntry('Before', { uuid: 'o1', timestamp: at(0) }),
+      ]),
+    );
+    await setupTranscriptFile(
+      fs,
+      `${dir}/new.jsonl`,
+      createTranscript([
+        createSummaryEntry('Earlier work', 'o1'),
+        createUserEntry('After', { uuid: 'n1', timestamp: at(30) }),
+      ]),
+    );
+
+    const result = await service.buildGraph(dir);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.transcripts[1]?.parents).toEqual([
+        `${dir}/old.jsonl`,
+      ]);
+    }
+  });
+
+  it('returns an empty graph when there are no transcripts', async () => {
+    const result = await service.buildGraph('/missing');
+
+    expect(isOk(result) && result.value.transcripts).toEqual([]);
+  });
+
+  it('stitches the chain into one conversation without duplicates', async () => {
+    await writeResumedSession();
+
+    const result = await service.parseSessionChain(`${dir}/second.jsonl`);
+
+    expect(isOk(result)).toBe(true);
+    if (!isOk(result)) return;
+    expect(result.value.transcripts).toEqual([
+      `${dir}/first.jsonl`,
+      `${dir}/second.jsonl`,
+    ]);
+    const uuids = result.value.history.messages.map((m) =>
+      'uuid' in m ? m.uuid : undefined,
+    );
+    expect(uuids).toEqual(['f1', 'f2', 's1']);
+    expect(result.value.cursor.path).toBe(`${dir}/second.jsonl`);
+    expect(result.value.cursor.lastUuid).toBe('s1');
+
+    // The cursor continues incrementally from the stitched conversation
+    const current = await fs.readFile(`${dir}/second.jsonl`);
+    if (!isOk(current)) return;
+    await fs.writeFile(
+      `${dir}/second.jsonl`,
+      `${current.value}\n${createTranscript([
+        createAssistantEntry('Continuing', { uuid: 's2', timestamp: at(11) }),
+      ])}`,
+    );
+    const next = await transcriptService.parseTranscriptIncremental(
+      `${dir}/second.jsonl`,
+      result.value,
+    );
+    expect(isOk(next)).toBe(true);
+    if (isOk(next)) {
+      expect(next.value.incremental).toBe(true);
+      expect(next.value.history.messageCount).toBe(4);
+    }
+  });
+  it('counts unknown entries and skipped lines across the chain', async () => {
+    await writeResumedSession();
+    for (const [file, extra] of [
+      ['first', `{"type":"future-entry","uuid":"x1"}\nnot json`],
+      ['second', 'also not json'],
+    ]) {
+      const current = await fs.readFile(`${dir}/${file}.jsonl`);
+      if (!isOk(current)) return;
+      await fs.writeFile(
+        `${dir}/${file}.jsonl`,
+        `${current.value}\n${extra}\n`,
+      );
+    }
+
+    const result = await service.parseSessionChain(`${dir}/second.jsonl`);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.history.unknownEntries).toBe(1);
+      expect(result.value.history.skippedLines).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  type FileSystem,
+  createMemoryFs,
+} from '../../../src/adapters/fs/memory-fs.js';
+import type { ContextData } from '../../../src/core/types.js';
+import { ErrorCode } from '../../../src/infrastructure/errors.js';
+import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
+import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import {
+  DEFAULT_MAX_SNAPSHOTS,
+  SNAPSHOTS_DIR,
+  SNAPSHOT_INDEX_FILE,
+  type SnapshotService,
+  createSnapshotService,
+} from '../../../src/services/snapshot-service.js';
+
+describe('SnapshotService', () => {
+  let fs: FileSystem;
+  let service: SnapshotService;
+  const benTenDir = '/project/.ben-ten';
+  const logger = createLogger({ level: LogLevel.ERROR });
+
+  const createTestContext = (sessionId: string): ContextData => ({
+    version: '2.0.0',
+    createdAt: 1000,
+    updatedAt: 2000,
+    sessionId,
+    summary: `Summary for ${sessionId}`,
+  });
+
+  beforeEach(() => {
+    fs = createMemoryFs();
+    service = createSnapshotService({ fs, logger, benTenDir });
+  });
+
+  describe('constants', () => {
+    it('exports snapshot layout names', () => {
+      expect(SNAPSHOTS_DIR).toBe('snapshots');
+      expect(SNAPSHOT_INDEX_FILE).toBe('index.json');
+      expect(DEFAULT_MAX_SNAPSHOTS).toBe(10);
+    });
+  });
+
+  describe('createSnapshot', () => {
+    it('writes snapshot file and index entry', async () => {
+      const result = await service.createSnapshot(createTestContext('s1'));
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.sessionId).toBe('s1');
+        expect(result.value.summaryPreview).toBe('Summary for s1');
+        expect(
+          await fs.exists(
+            `${benTenDir}/${SNAPSHOTS_DIR}/${result.value.id}.ctx`,
+          ),
+        ).toBe(true);
+      }
+      expect(
+        await fs.exists(`${benTenDir}/${SNAPSHOTS_DIR}/${SNAPSHOT_INDEX_FILE}`),
+      ).toBe(true);
+    });
+
+    it('generates unique IDs for snapshots in the same millisecond', async () => {
+      const first = await service.createSnapshot(createTestContext('s1'));
+      const second = await service.createSnapshot(createTestContext('s2'));
+
+      expect(isOk(first) && isOk(second)).toBe(true);
+      if (isOk(first) && isOk(second)) {
+        expect(first.value.id).not.toBe(second.value.id);
+      }
+    });
+
+    it('prunes snapshots beyond the retention limit', async () => {
+      service = createSnapshotService({
+        fs,
+        logger,
+        benTenDir,
+        maxSnapshots: 2,
+      });
+
+      await service.createSnapshot(createTestContext('s1'));
+      await service.createSnapshot(createTestContext('s2'));
+      await service.createSnapshot(createTestContext('s3'));
+
+      const listResult = await service.listSnapshots();
+      expect(isOk(listResult)).toBe(true);
+      if (isOk(listResult)) {
+        expect(listResult.value.map((s) => s.sessionId)).toEqual(['s3', 's2']);
+      }
+
+      const files = await fs.readdir(`${benTenDir}/${SNAPSHOTS_DIR}`);
+      if (isOk(files)) {
+        expect(files.value.filter((f) => f.endsWith('.ctx'))).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('listSnapshots', () => {
+    it('returns empty list when no history exists', async () => {
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toEqual([]);
+      }
+    });
+
+    it('returns snapshots most recent first', async () => {
+      await service.createSnapshot(createTestContext('older'));
+      await service.createSnapshot(createTestContext('newer'));
+
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.map((s) => s.sessionId)).toEqual([
+          'newer',
+          'older',
+        ]);
+      }
+    });
+
+    it('rebuilds the index when it is corrupted', async () => {
+      await service.createSnapshot(createTestContext('s1'));
+      await fs.writeFile(
+        `${benTenDir}/${SNAPSHOTS_DIR}/${SNAPSHOT_INDEX_FILE}`,
+        'not json',
+      );
+
+      const result = await service.listSnapshots();
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toHaveLength(1);
+        expect(result.value[0]?.sessionId).toBe('s1');
+      }
+    });
+  });
+
+  describe('loadSnapshot', () => {
+    it('loads a stored snapshot', async () => {
+      const created = await service.createSnapshot(createTestContext('s1'));
+      expect(isOk(created)).toBe(true);
+      if (!isOk(created)) return;
+
+      const result = await service.loadSnapshot(created.value.id);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.sessionId).toBe('s1');
+        expect(result.value.summary).toBe('Summary for s1');
+      }
+    });
+
+    it('returns SNAPSHOT_NOT_FOUND for unknown ID', async () => {
+      const result = await service.loadSnapshot('20240101T000000000Z');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SNAPSHOT_NOT_FOUND);
+      }
+    });
+
+    it('rejects IDs containing path separators', async () => {
+      const result = await service.loadSnapshot('../context');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SNAPSHOT_NOT_FOUND);
+      }
+    });
+
+    it('returns SNAPSHOT_CORRUPTED for unreadable snapshot', async () => {
+      await fs.writeFileBuffer(
+        `${benTenDir}/${SNAPSHOTS_DIR}/20240101T000000000Z.ctx`,
+        Buffer.from('garbage'),
+      );
+
+      const result = await service.loadSnapshot('20240101T000000000Z');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SNAPSHOT_CORRUPTED);
+      }
+    });
+  });
+  describe('deleteSnapshot', () => {
+    it('removes the snapshot file and index entry', async () => {
+      const created = await service.createSnapshot(createTestContext('s1'));
+      expect(isOk(created)).toBe(true);
+      if (!isOk(created)) return;
+
+      const result = await service.deleteSnapshot(created.value.id);
+
+      expect(isOk(result)).toBe(true);
+      expect(
+        await fs.exists(
+          `${benTenDir}/${SNAPSHOTS_DIR}/${created.value.id}.ctx`,
+        ),
+      ).toBe(false);
+      const list = await service.listSnapshots();
+      expect(isOk(list) && list.value).toEqual([]);
+    });
+
+    it('returns SNAPSHOT_NOT_FOUND for unknown ID', async () => {
+      const result = await service.deleteSnapshot('20240101T000000000Z');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.SNAPSHOT_NOT_FOUND);
+      }
+    });
+  });
+});
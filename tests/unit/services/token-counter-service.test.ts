@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countBpeTokens,
+  createTokenCounter,
+  estimateTokens,
+} from '../../../src/services/token-counter-service.js';
+
+describe('TokenCounter', () => {
+  describe('estimateTokens', () => {
+    it('estimates 1 token per 4 characters', () => {
+      expect(estimateTokens('a'.repeat(4))).toBe(1);
+      expect(estimateTokens('a'.repeat(8))).toBe(2);
+      expect(estimateTokens('a'.repeat(100))).toBe(25);
+    });
+
+    it('handles empty string', () => {
+      expect(estimateTokens('')).toBe(0);
+    });
+
+    it('rounds down partial tokens', () => {
+      expect(estimateTokens('abc')).toBe(0);
+      expect(estimateTokens('abcde')).toBe(1);
+    });
+  });
+
+  describe('countBpeTokens', () => {
+    it('counts common English words as one token each', () => {
+      expect(countBpeTokens('The quick brown fox jumps')).toBe(5);
+      expect(countBpeTokens('')).toBe(0);
+    });
+
+    it('counts more than the heuristic for code, JSON and other scripts', () => {
+      const samples = [
+        'if (!a) { return err(createError("x")); }',
+        JSON.stringify({ a: 1, b: [1, 2, 3], c: { d: null } }),
+        '这是一个测试句子，用于检查分词器。',
+        'Это тестовое предложение.',
+      ];
+
+      for (const sample of samples) {
+        expect(countBpeTokens(sample)).toBeGreaterThan(estimateTokens(sample));
+      }
+    });
+  });
+
+  describe('accuracy', () => {
+    // Counts from the cl100k_base byte-pair encoding
+    const fixtures = [
+      {
+        kind: 'prose',
+        text: 'Ben-Ten saves the context of a Claude Code session when it ends and restores it when the next one starts, so work can pick up where it left off. The replay keeps the most recent messages that fit in the budget, and older ones are summarized.',
+        tokens: 52,
+      },
+      {
+        kind: 'code',
+        text: `export const createLockService = (deps: LockServiceDeps): LockService => {
+  const { fs, logger } = deps;
+  const lockPath = \`\${deps.dir}/context.lock\`;
+
+  return {
+    async acquire(timeoutMs = 5000) {
+      const result = await fs.lock(lockPath, { timeoutMs });
+      if (!result.ok) {
+        logger.warn('Could not acquire lock', { path: lockPath });
+        return err(result.error);
+      }
+      return ok(result.value);
+    },
+  };
+};`,
+        tokens: 109,
+      },
+      {
+        kind: 'JSON',
+        text: JSON.stringify({
+          tool_use_id: 'toolu_01A2B3C4D5E6F7G8H9',
+          name: 'Edit',
+          input: {
+            file_path: '/home/user/project/src/services/context-service.ts',
+            old_string: 'const maxSnapshots = deps.maxSnapshots;',
+            new_string: 'const maxSnapshots = deps.maxSnapshots ?? 10;',
+            replace_all: false,
+          },
+          usage: { input_tokens: 1523, output_tokens: 87 },
+        }),
+        tokens: 93,
+      },
+      {
+        kind: 'CJK',
+        text: '这个工具会在会话结束时保存上下文，并在下一次会话开始时恢复它。コンテキストは圧縮されて保存されます。',
+        tokens: 46,
+      },
+      {
+        kind: 'Cyrillic',
+        text: 'Контекст сохраняется в конце сессии и восстанавливается в начале следующей.',
+        tokens: 30,
+      },
+    ];
+
+    it.each(fixtures)(
+      'counts $kind within 25% of a real tokenizer',
+      ({ text, tokens }) => {
+        const deviation = Math.abs(countBpeTokens(text) - tokens) / tokens;
+
+        expect(deviation).toBeLessThanOrEqual(0.25);
+      },
+    );
+
+    it('is closer than the heuristic overall', () => {
+      const error = (count: (text: string) => number) =>
+        fixtures.reduce(
+          (sum, { text, tokens }) => sum + Math.abs(count(text) - tokens),
+          0,
+        );
+
+      expect(error(countBpeTokens)).toBeLessThan(error(estimateTokens));
+    });
+  });
+
+  describe('createTokenCounter', () => {
+    it('reports the deviation from the heuristic', () => {
+      const text = '{"a":[1,2,3]}';
+
+      const estimate = createTokenCounter('bpe').estimate(text);
+
+      expect(estimate.heuristicTokens).toBe(3);
+      expect(estimate.tokens).toBe(countBpeTokens(text));
+      expect(estimate.deviation).toBeCloseTo((estimate.tokens - 3) / 3, 5);
+      expect(createTokenCounter('heuristic').estimate(text).deviation).toBe(0);
+      expect(createTokenCounter('heuristic').estimate('').deviation).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createToolFormatterRegistry } from '../../../src/services/tool-formatter-service.js';
+
+describe('ToolFormatterRegistry', () => {
+  const registry = createToolFormatterRegistry();
+
+  describe('built-in formatters', () => {
+    it('shows the main argument of file and search tools', () => {
+      expect(registry.format('Read', { file_path: 'src/index.ts' })).toBe(
+        '[Read: src/index.ts]',
+      );
+      expect(registry.format('Grep', { pattern: 'TODO:' })).toBe(
+        '[Grep: TODO:]',
+      );
+      expect(registry.format('WebFetch', { url: 'https://example.com' })).toBe(
+        '[WebFetch: https://example.com]',
+      );
+      expect(registry.format('WebSearch', { query: 'vitest mocks' })).toBe(
+        '[WebSearch: vitest mocks]',
+      );
+    });
+
+    it('counts MultiEdit edits and summarizes TodoWrite lists', () => {
+      expect(
+        registry.format('MultiEdit', {
+          file_path: 'src/a.ts',
+          edits: [{}, {}, {}],
+        }),
+      ).toBe('[MultiEdit: src/a.ts (3 edits)]');
+
+      expect(
+        registry.format('TodoWrite', {
+          todos: [
+            { content: 'Write tests', status: 'completed' },
+            { content: 'Fix lint', status: 'in_progress' },
+            { content: 'Update docs', status: 'pending' },
+          ],
+        }),
+      ).toBe('[TodoWrite: 1/3 done, now: Fix lint]');
+    });
+
+    it('truncates long Bash commands', () => {
+      const formatted = registry.format('Bash', { command: 'x'.repeat(100) });
+
+      expect(formatted).toHaveLength('[Bash: ]'.length + 50);
+      expect(formatted).toMatch(/\.\.\.]$/);
+    });
+
+    it('shows only the name of unknown tools and missing arguments', () => {
+      expect(registry.format('SomethingNew', { a: 1 })).toBe('[SomethingNew]');
+      expect(registry.format('WebFetch', {})).toBe('[WebFetch]');
+      expect(registry.format('toString', {})).toBe('[toString]');
+    });
+  });
+
+  describe('describe', () => {
+    it('gives the label and arguments separately', () => {
+      expect(registry.describe('Edit', { file_path: 'src/a.ts' })).toEqual({
+        label: 'Edit',
+        args: 'src/a.ts',
+      });
+      expect(registry.describe('mcp__memory__read_graph', {})).toEqual({
+        label: 'memory/read_graph',
+        args: '',
+      });
+    });
+  });
+
+  describe('MCP fallback', () => {
+    it('shows the server, tool and first scalar arguments', () => {
+      expect(
+        registry.format('mcp__github__create_issue', {
+          owner: 'acme',
+          repo: 'widgets',
+          labels: ['bug'],
+          title: 'Crash on start',
+          body: 'Steps...',
+        }),
+      ).toBe(
+        '[github/create_issue: owner=acme, repo=widgets, title=Crash on start]',
+      );
+      expect(registry.format('mcp__memory__read_graph', {})).toBe(
+        '[memory/read_graph]',
+      );
+    });
+  });
+
+  describe('config rules', () => {
+    it('renders templates for matching tools before the built-ins', () => {
+      const custom = createToolFormatterRegistry([
+        {
+          tool: 'mcp__jira__*',
+          template: '{issue.key} {summary}',
+          label: 'Jira',
+        },
+        { tool: 'Read', template: '{file_path} from line {offset}' },
+      ]);
+
+      expect(
+        custom.format('mcp__jira__update_issue', {
+          issue: { key: 'ENG-42' },
+          summary: 'Retry uploads',
+        }),
+      ).toBe('[Jira: ENG-42 Retry uploads]');
+      expect(custom.format('Read', { file_path: 'a.ts', offset: 10 })).toBe(
+        '[Read: a.ts from line 10]',
+      );
+      expect(custom.format('mcp__jira__ping', {})).toBe('[Jira]');
+      expect(custom.format('mcp__github__get_me', {})).toBe('[github/get_me]');
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   type FileSystem,
   createMemoryFs,
@@ -6,15 +7,22 @@ import {
 import { ErrorCode } from '../../../src/infrastructure/errors.js';
 import { LogLevel, createLogger } from '../../../src/infrastructure/logger.js';
 import { isErr, isOk } from '../../../src/infrastructure/result.js';
+import { parseIgnoreRules } from '../../../src/services/ignore-service.js';
+import { createTokenCounter } from '../../../src/services/token-counter-service.js';
 import {
   type TranscriptService,
   createTranscriptService,
+  normalizeProjectPath,
+  queryToolHistory,
+  toClaudeProjectPath,
 } from '../../../src/services/transcript-service.js';
 import { setupTranscriptFile } from '../../fixtures/test-helpers.js';
 import {
   createAssistantEntry,
+  createCompactionEntries,
   createProgressEntry,
   createSummaryEntry,
+  createToolResultEntry,
   createToolUseBlock,
   createTranscript,
   createUserEntry,
@@ -90,10 +98,12 @@ describe('TranscriptService', () => {
       }
     });
 
-    it('skips lines with unknown entry types', async () => {
+    it('keeps lines with unknown entry types as unknown entries', async () => {
+      const unknown = { type: 'custom-event', data: 'something' };
       const content = [
         JSON.stringify(createUserEntry('Valid')),
-        JSON.stringify({ type: 'unknown', data: 'something' }),
+        JSON.stringify(unknown),
+        'not valid json',
         JSON.stringify(createAssistantEntry('Also valid')),
       ].join('\n');
       await setupTranscriptFile(fs, transcriptPath, content);
@@ -102,10 +112,90 @@ describe('TranscriptService', () => {
 
       expect(isOk(result)).toBe(true);
       if (isOk(result)) {
-        expect(result.value.messages).toHaveLength(2);
+        expect(result.value.messages).toHaveLength(3);
+        expect(result.value.messages[1]).toEqual({
+          type: 'unknown',
+          raw: unknown,
+        });
+        expect(result.value.unknownEntries).toBe(1);
+        expect(result.value.skippedLines).toBe(1);
       }
     });
 
+    it('models system entries, images, tool errors and message metadata', async () => {
+      const lines = [
+        {
+          type: 'system',
+          subtype: 'compact_boundary',
+          content: 'Conversation compacted',
+          uuid: 's1',
+        },
+        {
+          type: 'user',
+          message: {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is in this screenshot?' },
+              { type: 'image', source: { type: 'base64', data: 'AAAA' } },
+            ],
+          },
+          uuid: 'u1',
+          parentUuid: 's1',
+        },
+        {
+          type: 'assistant',
+          message: {
+            role: 'assistant',
+            model: 'claude-model',
+            usage: { input_tokens: 10, output_tokens: 5, service_tier: 'x' },
+            content: [
+              { type: 'text', text: 'Checking' },
+              {
+                type: 'tool_result',
+                tool_use_id: 't1',
+                content: 'no',
+                is_error: true,
+              },
+              { type: 'server_tool_use', id: 'x1' },
+            ],
+          },
+          uuid: 'a1',
+          parentUuid: 'u1',
+          isSidechain: false,
+        },
+      ];
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        lines.map((line) => JSON.stringify(line)).join('\n'),
+      );
+
+      const result = await service.parseTranscript(transcriptPath);
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      const [system, user, assistant] = result.value.messages;
+      expect(system).toEqual(lines[0]);
+      expect(user).toEqual(lines[1]);
+      expect(assistant).toEqual({
+        ...lines[2],
+        message: {
+          ...lines[2]?.message,
+          content: [
+            { type: 'text', text: 'Checking' },
+            {
+              type: 'tool_result',
+              tool_use_id: 't1',
+              content: 'no',
+              is_error: true,
+            },
+            { type: 'unknown', raw: { type: 'server_tool_use', id: 'x1' } },
+          ],
+        },
+      });
+      expect(result.value.unknownEntries).toBeUndefined();
+    });
+
     it('parses progress entries', async () => {
       const content = createTranscript([
         createUserEntry('Run the build'),
@@ -124,6 +214,166 @@ describe('TranscriptService', () => {
     });
   });
 
+  describe('parseTranscriptIncremental', () => {
+    const lines = (from: number, count: number) =>
+      createTranscript(
+        Array.from({ length: count }, (_, i) =>
+          createUserEntry(`Message ${from + i}`, { uuid: `uuid-${from + i}` }),
+        ),
+      );
+
+    const appendToTranscript = async (content: string) => {
+      const readResult = await fs.readFile(transcriptPath);
+      if (!isOk(readResult)) throw new Error('transcript missing');
+      await fs.writeFile(transcriptPath, `${readResult.value}\n${content}`);
+    };
+
+    it('parses only lines appended since the cursor', async () => {
+      await setupTranscriptFile(fs, transcriptPath, lines(0, 3));
+      const first = await service.parseTranscriptIncremental(transcriptPath);
+      if (!isOk(first)) throw new Error('parse failed');
+      expect(first.value.incremental).toBe(false);
+      expect(first.value.cursor.lastUuid).toBe('uuid-2');
+
+      await appendToTranscript(lines(3, 2));
+      const second = await service.parseTranscriptIncremental(
+        transcriptPath,
+        first.value,
+      );
+
+      expect(isOk(second)).toBe(true);
+      if (isOk(second)) {
+        expect(second.value.incremental).toBe(true);
+        expect(second.value.history.messageCount).toBe(5);
+        expect(second.value.cursor.lastUuid).toBe('uuid-4');
+        const full = await service.parseTranscript(transcriptPath);
+        expect(isOk(full) && full.value).toEqual(second.value.history);
+      }
+    });
+
+    it('leaves a partially written last line for the next parse', async () => {
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        `${lines(0, 2)}\n{"type":"user","mess`,
+      );
+      const first = await service.parseTranscriptIncremental(transcriptPath);
+      if (!isOk(first)) throw new Error('parse failed');
+      expect(first.value.history.messageCount).toBe(2);
+
+      await setupTranscriptFile(fs, transcriptPath, `${lines(0, 3)}\n`);
+      const second = await service.parseTranscriptIncremental(
+        transcriptPath,
+        first.value,
+      );
+
+      expect(isOk(second)).toBe(true);
+      if (isOk(second)) {
+        expect(second.value.incremental).toBe(true);
+        expect(
+          second.value.history.messages.map((m) => 'uuid' in m && m.uuid),
+        ).toEqual(['uuid-0', 'uuid-1', 'uuid-2']);
+      }
+    });
+
+    it('falls back to a full parse when the transcript was rewritten', async () => {
+      await setupTranscriptFile(fs, transcriptPath, lines(0, 4));
+      const first = await service.parseTranscriptIncremental(transcriptPath);
+      if (!isOk(first)) throw new Error('parse failed');
+
+      // Shorter file
+      await setupTranscriptFile(fs, transcriptPath, lines(10, 2));
+      const truncated = await service.parseTranscriptIncremental(
+        transcriptPath,
+        first.value,
+      );
+      // Longer file whose lines moved
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        `${JSON.stringify(createProgressEntry())}\n${lines(0, 5)}`,
+      );
+      const shifted = await service.parseTranscriptIncremental(
+        transcriptPath,
+        first.value,
+      );
+      // Longer file repeating parsed entries
+      await setupTranscriptFile(
+        fs,
+        transcriptPath,
+        `${lines(0, 4)}\n${lines(0, 2)}`,
+      );
+      const repeated = await service.parseTranscriptIncremental(
+        transcriptPath,
+        first.value,
+      );
+
+      expect(isOk(truncated)).toBe(true);
+      if (isOk(truncated)) {
+        expect(truncated.value.incremental).toBe(false);
+        expect(truncated.value.history.messageCount).toBe(2);
+      }
+      for (const [result, count] of [
+        [shifted, 6],
+        [repeated, 6],
+      ] as const) {
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+          expect(result.value.incremental).toBe(false);
+          expect(result.value.history.messageCount).toBe(count);
+        }
+      }
+    });
+
+    it('falls back to a full parse when the history does not match the cursor', async () => {
+      await setupTranscriptFile(fs, transcriptPath, lines(0, 3));
+      const first = await service.parseTranscriptIncremental(transcriptPath);
+      if (!isOk(first)) throw new Error('parse failed');
+      await appendToTranscript(lines(3, 1));
+
+      const result = await service.parseTranscriptIncremental(transcriptPath, {
+        history: { messages: [], messageCount: 0 },
+        cursor: first.value.cursor,
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.incremental).toBe(false);
+        expect(result.value.history.messageCount).toBe(4);
+      }
+    });
+  });
+
+  describe('streamTranscript', () => {
+    it('yields entries one at a time, skipping malformed lines', async () => {
+      const content = `${createTranscript([
+        createUserEntry('Hello', { uuid: 'u1' }),
+      ])}\nnot json\n${createTranscript([
+        createAssistantEntry('Hi', { uuid: 'a1' }),
+      ])}`;
+      await setupTranscriptFile(fs, transcriptPath, content);
+
+      const result = await service.streamTranscript(transcriptPath);
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      const uuids: string[] = [];
+      for await (const entry of result.value) {
+        if ('uuid' in entry) uuids.push(entry.uuid);
+      }
+      expect(uuids).toEqual(['u1', 'a1']);
+    });
+
+    it('returns error when transcript does not exist', async () => {
+      const result = await service.streamTranscript('/nonexistent.jsonl');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.code).toBe(ErrorCode.TRANSCRIPT_NOT_FOUND);
+      }
+    });
+  });
+
   describe('extractFileReferences', () => {
     it('extracts file paths from backticks', () => {
       const history = {
@@ -134,7 +384,7 @@ describe('TranscriptService', () => {
         messageCount: 2,
       };
 
-      const files = service.extractFileReferences(history);
+      const files = service.extractFileReferences(history).map((f) => f.path);
 
       expect(files).toContain('src/index.ts');
       expect(files).toContain('src/types.ts');
@@ -150,7 +400,7 @@ describe('TranscriptService', () => {
         messageCount: 2,
       };
 
-      const files = service.extractFileReferences(history);
+      const files = service.extractFileReferences(history).map((f) => f.path);
 
       expect(files.filter((f) => f === 'src/index.ts')).toHaveLength(1);
     });
@@ -161,7 +411,7 @@ describe('TranscriptService', () => {
         messageCount: 2,
       };
 
-      const files = service.extractFileReferences(history);
+      const files = service.extractFileReferences(history).map((f) => f.path);
 
       expect(files).toHaveLength(0);
     });
@@ -172,10 +422,100 @@ describe('TranscriptService', () => {
         messageCount: 1,
       };
 
-      const files = service.extractFileReferences(history);
+      const files = service.extractFileReferences(history).map((f) => f.path);
 
       expect(files).toContain('file.ts');
     });
+    it('counts reads, edits and writes with their timestamps', () => {
+      const history = {
+        messages: [
+          createAssistantEntry(
+            [
+              createToolUseBlock('Read', { file_path: 'src/app.ts' }, 't1'),
+              createToolUseBlock('Grep', { pattern: 'x', path: 'src' }, 't2'),
+            ],
+            { timestamp: '2026-01-01T00:00:00.000Z' },
+          ),
+          createToolResultEntry(
+            't2',
+            'Found 2 files\nsrc/app.ts\nsrc/util.ts',
+            {
+              timestamp: '2026-01-01T00:00:01.000Z',
+            },
+          ),
+          createAssistantEntry(
+            [
+              createToolUseBlock('Edit', { file_path: 'src/app.ts' }, 't3'),
+              createToolUseBlock('Write', { file_path: 'docs/notes.md' }, 't4'),
+            ],
+            { timestamp: '2026-01-01T00:01:00.000Z' },
+          ),
+        ],
+        messageCount: 3,
+      };
+
+      const files = service.extractFileReferences(history);
+
+      const start = Date.parse('2026-01-01T00:00:00.000Z');
+      expect(files).toEqual([
+        {
+          path: 'src/app.ts',
+          firstAccessed: start,
+          lastAccessed: start + 60_000,
+          accessCount: 3,
+          readCount: 1,
+          editCount: 1,
+        },
+        {
+          path: 'src/util.ts',
+          firstAccessed: start + 1000,
+          lastAccessed: start + 1000,
+          accessCount: 1,
+        },
+        {
+          path: 'docs/notes.md',
+          firstAccessed: start + 60_000,
+          lastAccessed: start + 60_000,
+          accessCount: 1,
+          writeCount: 1,
+        },
+      ]);
+    });
+
+    it('classifies the files of Bash commands', () => {
+      const history = {
+        messages: [
+          createAssistantEntry([
+            createToolUseBlock(
+              'Bash',
+              {
+                command:
+                  "cat src/a.ts | grep foo > out.txt && sed -i 's/a/b/' src/b.ts; cp src/c.ts lib/c.ts 2>/dev/null",
+              },
+              't1',
+            ),
+          ]),
+        ],
+        messageCount: 1,
+      };
+
+      const files = service.extractFileReferences(history);
+
+      expect(
+        files.map(({ path, readCount, editCount, writeCount }) => ({
+          path,
+          readCount,
+          editCount,
+          writeCount,
+        })),
+      ).toEqual([
+        { path: 'src/a.ts', readCount: 1 },
+        { path: 'out.txt', writeCount: 1 },
+        { path: 'src/b.ts', editCount: 1 },
+        { path: 'src/c.ts', readCount: 1 },
+        { path: 'lib/c.ts', writeCount: 1 },
+      ]);
+    });
   });
 
   describe('extractToolCalls', () => {
@@ -198,6 +538,58 @@ describe('TranscriptService', () => {
       expect(tools.some((t) => t.toolName === 'Write')).toBe(true);
     });
 
+    it('pairs tool calls with their results for outcome and duration', () => {
+      const history = {
+        messages: [
+          createAssistantEntry(
+            [
+              createToolUseBlock('Bash', { command: 'npm test' }, 't1'),
+              createToolUseBlock('Read', { file_path: 'a.ts' }, 't2'),
+            ],
+            { timestamp: '2026-01-01T00:00:00.000Z' },
+          ),
+          createToolResultEntry('t2', 'file contents', {
+            timestamp: '2026-01-01T00:00:00.250Z',
+          }),
+          createToolResultEntry(
+            't1',
+            [
+              {
+                type: 'text',
+                text: `Error: 3 tests failed\n${'x'.repeat(300)}`,
+              },
+            ],
+            { isError: true, timestamp: '2026-01-01T00:00:04.000Z' },
+          ),
+          createAssistantEntry([createToolUseBlock('Grep', {}, 't3')]),
+        ],
+        messageCount: 4,
+      };
+
+      const tools = service.extractToolCalls(history);
+
+      const start = Date.parse('2026-01-01T00:00:00.000Z');
+      expect(tools.slice(0, 2)).toEqual([
+        {
+          toolName: 'Bash',
+          timestamp: start,
+          success: false,
+          durationMs: 4000,
+          toolUseId: 't1',
+          error: expect.stringMatching(/^Error: 3 tests failed\nx+\.\.\.$/),
+        },
+        {
+          toolName: 'Read',
+          timestamp: start,
+          success: true,
+          durationMs: 250,
+          toolUseId: 't2',
+        },
+      ]);
+      expect(tools[0]?.error).toHaveLength(200);
+      expect(tools[2]).toMatchObject({ toolName: 'Grep', completed: false });
+    });
+
     it('returns empty array when no tool calls found', () => {
       const history = {
         messages: [createUserEntry('Hello'), createAssistantEntry('Hi there')],
@@ -232,6 +624,360 @@ describe('TranscriptService', () => {
     });
   });
 
+  describe('applyIgnoreRules', () => {
+    it('masks tool calls on ignored paths and their results', () => {
+      const ignore = parseIgnoreRules('secrets/');
+      const history = {
+        messages: [
+          createAssistantEntry([
+            createToolUseBlock('Read', { file_path: 'secrets/prod.env' }, 't1'),
+            createToolUseBlock('Read', { file_path: 'src/app.ts' }, 't2'),
+          ]),
+          createToolResultEntry('t1', 'DB_PASSWORD=hunter2'),
+          createToolResultEntry('t2', 'export const app = 1;'),
+        ],
+        messageCount: 3,
+      };
+
+      const masked = service.applyIgnoreRules(history, ignore);
+
+      const serialized = JSON.stringify(masked);
+      expect(serialized).not.toContain('secrets/prod.env');
+      expect(serialized).not.toContain('hunter2');
+      expect(serialized).toContain('export const app = 1;');
+      expect(masked.messages[2]).toBe(history.messages[2]);
+      expect(
+        service.extractFileReferences(masked, ignore).map((f) => f.path),
+      ).toEqual(['src/app.ts']);
+      // Masking again changes nothing
+      expect(service.applyIgnoreRules(masked, ignore)).toEqual(masked);
+    });
+
+    it('leaves files mentioned on ignored paths out of file references', () => {
+      const history = {
+        messages: [
+          createAssistantEntry('Compare `vendor/lib.js` with `src/lib.js`'),
+        ],
+        messageCount: 1,
+      };
+
+      const files = service.extractFileReferences(
+        history,
+        parseIgnoreRules('vendor/'),
+      );
+
+      expect(files.map((f) => f.path)).toEqual(['src/lib.js']);
+    });
+  });
+
+  describe('collectSubagents', () => {
+    const taskCall = (id: string, description: string, prompt: string) =>
+      createAssistantEntry([
+        createToolUseBlock(
+          'Task',
+          { description, prompt, subagent_type: 'general-purpose' },
+          id,
+        ),
+      ]);
+
+    it('attaches sidechain messages to the Task call that started them', async () => {
+      const history = {
+        messages: [
+          taskCall('task-1', 'Fix tests', 'Make the tests pass'),
+          {
+            ...createUserEntry('Make the tests pass', { uuid: 'a1' }),
+            isSidechain: true,
+          },
+          {
+            ...createAssistantEntry(
+              [createToolUseBlock('Edit', { file_path: 'src/app.ts' }, 'e1')],
+              { uuid: 'a2', parentUuid: 'a1' },
+            ),
+            isSidechain: true,
+          },
+          {
+            ...createAssistantEntry('Fixed the off-by-one in app.ts', {
+              uuid: 'a3',
+              parentUuid: 'a2',
+            }),
+            isSidechain: true,
+          },
+          createToolResultEntry('task-1', 'Fixed the off-by-one in app.ts'),
+          taskCall('task-2', 'Review', 'Review the change'),
+        ],
+        messageCount: 6,
+      };
+
+      const result = await service.collectSubagents(history);
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      expect(result.value).toEqual([
+        {
+          toolUseId: 'task-1',
+          description: 'Fix tests',
+          subagentType: 'general-purpose',
+          status: 'completed',
+          messageCount: 3,
+          toolCallCount: 1,
+          filesChanged: ['src/app.ts'],
+          outcome: 'Fixed the off-by-one in app.ts',
+        },
+        {
+          toolUseId: 'task-2',
+          description: 'Review',
+          subagentType: 'general-purpose',
+          status: 'running',
+          messageCount: 0,
+          toolCallCount: 0,
+        },
+      ]);
+    });
+
+    it('reads agent transcripts of the same session', async () => {
+      const dir = '/home/user/.claude/projects/test';
+      await setupTranscriptFile(
+        fs,
+        `${dir}/session/subagents/agent-1.jsonl`,
+        createTranscript([
+          createUserEntry('Find the bug', { uuid: 'b1', sessionId: 'session' }),
+          createAssistantEntry('The bug is in parser.ts', {
+            uuid: 'b2',
+            parentUuid: 'b1',
+            sessionId: 'session',
+          }),
+        ]),
+      );
+      await setupTranscriptFile(
+        fs,
+        `${dir}/agent-2.jsonl`,
+        createTranscript([
+          createUserEntry('Find the bug', { uuid: 'c1', sessionId: 'other' }),
+        ]),
+      );
+      const history = {
+        messages: [
+          taskCall('task-1', 'Investigate', 'Find the bug'),
+          createToolResultEntry('task-1', 'Agent crashed', { isError: true }),
+        ],
+        messageCount: 2,
+      };
+
+      const result = await service.collectSubagents(history, transcriptPath);
+
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      expect(result.value[0]).toMatchObject({
+        status: 'failed',
+        messageCount: 2,
+        outcome: 'The bug is in parser.ts',
+      });
+    });
+  });
+
+  describe('queryToolHistory', () => {
+    const history = [
+      { toolName: 'Bash', timestamp: 1, success: true },
+      { toolName: 'Read', timestamp: 2, success: false, error: 'ENOENT' },
+      { toolName: 'Bash', timestamp: 3, success: false, error: 'exit 1' },
+      { toolName: 'Bash', timestamp: 4, success: true },
+    ];
+
+    it('returns the most recent calls first', () => {
+      const result = queryToolHistory(history, { limit: 2 });
+
+      expect(result.total).toBe(4);
+      expect(result.calls.map((c) => c.timestamp)).toEqual([4, 3]);
+    });
+
+    it('filters by tool name and failures', () => {
+      const result = queryToolHistory(history, {
+        toolName: 'bash',
+        failuresOnly: true,
+      });
+
+      expect(result).toEqual({ total: 1, calls: [history[2]] });
+    });
+  });
+
+  describe('hashFiles', () => {
+    it('hashes the content of files that exist', async () => {
+      await fs.mkdir('/project/src', { recursive: true });
+      await fs.writeFile('/project/src/app.ts', 'hello');
+      const files = [
+        { path: 'src/app.ts', lastAccessed: 1, accessCount: 1 },
+        { path: './src/app.ts', lastAccessed: 1, accessCount: 1 },
+        { path: 'src/missing.ts', lastAccessed: 1, accessCount: 1 },
+        { path: 'src', lastAccessed: 1, accessCount: 1 },
+      ];
+
+      const hashed = await service.hashFiles(files, '/project');
+
+      const sha = createHash('sha256').update('hello').digest('hex');
+      expect(hashed.map((f) => f.contentHash)).toEqual([
+        sha,
+        sha,
+        undefined,
+        undefined,
+      ]);
+    });
+  });
+
+  describe('listTranscripts', () => {
+    const projectDir = '/mnt/c/work/my.app';
+    const logger = createLogger({ level: LogLevel.ERROR });
+    const env = { HOME: '/home/user', CLAUDE_CONFIG_DIR: '/config' };
+
+    /** Write a transcript whose entries record a cwd, at a given minute */
+    const writeTranscript = async (
+      path: string,
+      cwd: string | undefined,
+      minute: number,
+    ) => {
+      vi.setSystemTime(new Date(Date.UTC(2026, 0, 1, 0, minute)));
+      const entry = createUserEntry('Hello', { sessionId: 's' });
+      await setupTranscriptFile(
+        fs,
+        path,
+        JSON.stringify(cwd ? { ...entry, cwd } : entry),
+      );
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('matches project folders by recorded cwd across all roots', async () => {
+      service = createTranscriptService({
+        fs,
+        logger,
+        env,
+        transcriptRoots: ['~/windows/.claude/projects/'],
+      });
+      await writeTranscript(
+        '/config/projects/-mnt-c-work-my-app/one.jsonl',
+        projectDir,
+        1,
+      );
+      await writeTranscript(
+        '/config/projects/-mnt-c-work-my-app/agent-1.jsonl',
+        projectDir,
+        5,
+      );
+      // Same encoded name, different project
+      await writeTranscript(
+        '/home/user/.claude/projects/-mnt-c-work-my-app/other.jsonl',
+        '/mnt/c/work/my-app',
+        3,
+      );
+      await writeTranscript(
+        '/home/user/windows/.claude/projects/C--work-my-app/two.jsonl',
+        'C:\\work\\my.app',
+        2,
+      );
+
+      const result = await service.listTranscripts(projectDir);
+
+      expect(service.getTranscriptRoots()).toEqual([
+        '/config/projects',
+        '/home/user/.claude/projects',
+        '/home/user/windows/.claude/projects',
+      ]);
+      expect(isOk(result)).toBe(true);
+      if (!isOk(result)) return;
+      expect(result.value.map((t) => [t.sessionId, t.matchedBy])).toEqual([
+        ['two', 'cwd'],
+        ['one', 'cwd'],
+      ]);
+      const discovered = await service.discoverTranscriptPath(projectDir);
+      expect(isOk(discovered) && discovered.value).toBe(
+        '/home/user/windows/.claude/projects/C--work-my-app/two.jsonl',
+      );
+    });
+
+    it('scans a root only when its encoded folder does not match', async () => {
+      service = createTranscriptService({ fs, logger, env: { HOME: '/h' } });
+      await writeTranscript(
+        '/h/.claude/projects/-mnt-c-work-my-app/one.jsonl',
+        projectDir,
+        1,
+      );
+      // A folder of the project under another name, e.g. after a move
+      await writeTranscript(
+        '/h/.claude/projects/-old-name/two.jsonl',
+        projectDir,
+        2,
+      );
+
+      const named = await service.listTranscripts(projectDir);
+      await fs.rm('/h/.claude/projects/-mnt-c-work-my-app', {
+        recursive: true,
+      });
+      const scanned = await service.listTranscripts(projectDir);
+
+      expect(isOk(named) && named.value.map((t) => t.sessionId)).toEqual([
+        'one',
+      ]);
+      expect(isOk(scanned) && scanned.value.map((t) => t.sessionId)).toEqual([
+        'two',
+      ]);
+    });
+
+    it('falls back to the folder name for transcripts without a cwd', async () => {
+      service = createTranscriptService({ fs, logger, env: { HOME: '/h' } });
+      await writeTranscript(
+        `/h/.claude/projects/${toClaudeProjectPath(projectDir)}/s.jsonl`,
+        undefined,
+        1,
+      );
+
+      const result = await service.listTranscripts(projectDir);
+
+      expect(isOk(result) && result.value.map((t) => t.matchedBy)).toEqual([
+        'name',
+      ]);
+      expect(toClaudeProjectPath(projectDir)).toBe('-mnt-c-work-my-app');
+      expect(normalizeProjectPath('C:\\work\\my.app\\')).toBe(projectDir);
+    });
+  });
+
+  describe('countContextTokens', () => {
+    const counter = createTokenCounter('heuristic');
+
+    it('counts from the last compaction and ignores title summaries', async () => {
+      const content = createTranscript([
+        createUserEntry('x'.repeat(400)),
+        ...createCompactionEntries('s'.repeat(40)),
+        createUserEntry('a'.repeat(40)),
+        createAssistantEntry('b'.repeat(20)),
+        createSummaryEntry('Session title'),
+      ]);
+      await setupTranscriptFile(fs, transcriptPath, content);
+
+      const result = await service.countContextTokens(transcriptPath, counter);
+
+      expect(isOk(result) && result.value).toBe(10 + 10 + 5);
+    });
+
+    it('counts the whole conversation when it was never compacted', async () => {
+      const content = createTranscript([
+        createSummaryEntry('Session title'),
+        createUserEntry('a'.repeat(40)),
+        createAssistantEntry('b'.repeat(20)),
+        createSummaryEntry('Later title'),
+      ]);
+      await setupTranscriptFile(fs, transcriptPath, content);
+
+      const result = await service.countContextTokens(transcriptPath, counter);
+
+      expect(isOk(result) && result.value).toBe(15);
+    });
+  });
+
   describe('getLatestSummary', () => {
     it('returns the latest summary from transcript', async () => {
       const content = createTranscript([